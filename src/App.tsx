@@ -5,6 +5,7 @@ import { PageContainer } from './components/layout/PageContainer';
 import { ServicesPage } from './components/services/ServicesPage';
 import { SummaryPage } from './components/summary/SummaryPage';
 import { WelcomeModal } from './components/shared/WelcomeModal';
+import { ThresholdAlertToast } from './components/shared/ThresholdAlertToast';
 import type { TabId } from './types';
 
 function AppContent() {
@@ -34,6 +35,7 @@ function AppContent() {
         {activeTab === 'services' && <ServicesPage />}
         {activeTab === 'home' && <SummaryPage />}
       </PageContainer>
+      <ThresholdAlertToast />
       {isFirstTime && <WelcomeModal onComplete={handleWelcomeComplete} />}
     </div>
   );
@@ -1,8 +1,22 @@
 import { useState, useCallback, useReducer, useEffect, useMemo } from 'react';
 import { useAppState } from '../../context/AppContext';
 import { DraggableFieldChart } from './DraggableFieldChart';
-import { calculateMonthCost } from '../../utils/calculations';
-import { formatCurrency } from '../../utils/formatters';
+import {
+  calculateServiceMonthBreakdown,
+  calculateServiceMonthCosts,
+  calculateServiceTierCharges,
+  getBudgetMonthCount,
+  getReferenceTierIndex,
+  getSpendCommitmentDiscount,
+  hasTiers,
+} from '../../utils/calculations';
+import { formatCurrency, formatTierRange } from '../../utils/formatters';
+import { getCurrencySymbol, getServiceCurrency } from '../../utils/currency';
+import { CURVE_OPTIONS, generateCurve } from '../../utils/curves';
+import type { CurveKind } from '../../utils/curves';
+import { getServiceDriver } from '../../utils/drivers';
+import { applySeasonality, getSeasonalityProfiles } from '../../utils/seasonality';
+import { evaluateFormulaMonth, validateFormula } from '../../utils/formula';
 import type { Service, ServiceBudget, BudgetFieldKey } from '../../types';
 
 interface BudgetAdjustModalProps {
@@ -17,38 +31,24 @@ interface BudgetAdjustModalProps {
 type ModalTab = 'visual' | 'table' | 'calcs';
 type VisualField = 'consumption' | 'efficiency';
 
-function computeAnnualCost(serviceBudget: ServiceBudget, service: Service): number {
-  let total = 0;
-  for (let m = 0; m < 12; m++) {
-    const e = serviceBudget[m];
-    total += calculateMonthCost(
-      e.consumption.value, service.unitCost,
-      e.efficiency.value, e.overhead.value,
-      e.discount.value, service.discountEligible
-    );
-  }
-  return total;
+function computeAnnualCost(serviceBudget: ServiceBudget, service: Service, blanketDiscount: number): number {
+  return computeMonthlyCosts(serviceBudget, service, blanketDiscount).reduce((sum, c) => sum + c, 0);
 }
 
-function computeMonthlyCosts(serviceBudget: ServiceBudget, service: Service): number[] {
-  return Array.from({ length: 12 }, (_, m) => {
-    const e = serviceBudget[m];
-    return calculateMonthCost(
-      e.consumption.value, service.unitCost,
-      e.efficiency.value, e.overhead.value,
-      e.discount.value, service.discountEligible
-    );
-  });
+function computeMonthlyCosts(serviceBudget: ServiceBudget, service: Service, blanketDiscount: number): number[] {
+  return calculateServiceMonthCosts(service, serviceBudget, blanketDiscount);
 }
 
 function deepCloneBudget(sb: ServiceBudget): ServiceBudget {
   const clone: ServiceBudget = {};
-  for (let i = 0; i < 12; i++) {
+  for (let i = 0; i < getBudgetMonthCount(sb); i++) {
     clone[i] = {
       consumption: { ...sb[i].consumption },
+      unitCost: { ...sb[i].unitCost },
       efficiency: { ...sb[i].efficiency },
       overhead: { ...sb[i].overhead },
       discount: { ...sb[i].discount },
+      ...(sb[i].closed && { closed: { ...sb[i].closed! } }),
     };
   }
   return clone;
@@ -58,31 +58,33 @@ function deepCloneBudget(sb: ServiceBudget): ServiceBudget {
 
 interface EditSnapshot {
   budget: ServiceBudget;
-  unitCost: number;
+  seasonalityProfileId?: string;
 }
 
 interface EditState {
   current: ServiceBudget;
-  unitCost: number;
+  seasonalityProfileId?: string;
   undoStack: EditSnapshot[];
   redoStack: EditSnapshot[];
   preChange: EditSnapshot | null;
 }
 
 function snapshot(state: EditState): EditSnapshot {
-  return { budget: deepCloneBudget(state.current), unitCost: state.unitCost };
+  return { budget: deepCloneBudget(state.current), seasonalityProfileId: state.seasonalityProfileId };
 }
 
 function restoreSnapshot(state: EditState, snap: EditSnapshot): EditState {
-  return { ...state, current: snap.budget, unitCost: snap.unitCost };
+  return { ...state, current: snap.budget, seasonalityProfileId: snap.seasonalityProfileId };
 }
 
 type EditAction =
   | { type: 'SET_VALUE'; monthIndex: number; field: BudgetFieldKey; value: number }
   | { type: 'SET_FIELD_COMMIT'; monthIndex: number; field: BudgetFieldKey; value: number }
+  | { type: 'SET_FORMULA'; monthIndex: number; formula: string; values: number[] }
   | { type: 'CLEAR_OVERRIDE'; monthIndex: number; field: BudgetFieldKey }
   | { type: 'BULK_ADJUST'; field: BudgetFieldKey; fromMonth: number; multiplier: number; min: number; compound: boolean }
-  | { type: 'SET_UNIT_COST'; value: number }
+  | { type: 'APPLY_CURVE'; field: BudgetFieldKey; fromMonth: number; values: number[] }
+  | { type: 'APPLY_SEASONALITY'; profileId: string; values: number[] }
   | { type: 'COMMIT' }
   | { type: 'UNDO' }
   | { type: 'REDO' };
@@ -91,7 +93,7 @@ function applyFieldChange(current: ServiceBudget, monthIndex: number, field: Bud
   const next = deepCloneBudget(current);
   next[monthIndex][field] = { value, isOverridden: monthIndex > 0 };
   if (monthIndex === 0) {
-    for (let i = 1; i < 12; i++) {
+    for (let i = 1; i < getBudgetMonthCount(next); i++) {
       if (!next[i][field].isOverridden) {
         next[i][field] = { value, isOverridden: false };
       }
@@ -120,13 +122,29 @@ function editReducer(state: EditState, action: EditAction): EditState {
         preChange: null,
       };
     }
+    case 'SET_FORMULA': {
+      // Follows the same month-1 propagation as values; `values` holds the formula resolved per month
+      const { monthIndex, formula, values } = action;
+      const snap = snapshot(state);
+      const next = deepCloneBudget(state.current);
+      for (let m = 0; m < getBudgetMonthCount(next); m++) {
+        const applies = m === monthIndex || (monthIndex === 0 && !next[m].consumption.isOverridden);
+        if (applies) next[m].consumption = { value: values[m], isOverridden: m > 0 && monthIndex > 0, formula };
+      }
+      return {
+        ...state,
+        current: next,
+        undoStack: [...state.undoStack, snap],
+        redoStack: [],
+        preChange: null,
+      };
+    }
     case 'CLEAR_OVERRIDE': {
       const { monthIndex, field } = action;
       if (monthIndex === 0) return state;
       const snap = snapshot(state);
       const next = deepCloneBudget(state.current);
-      const sourceValue = next[0][field].value;
-      next[monthIndex][field] = { value: sourceValue, isOverridden: false };
+      next[monthIndex][field] = { ...next[0][field], isOverridden: false };
       return {
         ...state,
         current: next,
@@ -139,10 +157,12 @@ function editReducer(state: EditState, action: EditAction): EditState {
       const { field, fromMonth, multiplier, min, compound } = action;
       const snap = snapshot(state);
       const next = deepCloneBudget(state.current);
-      for (let m = fromMonth; m < 12; m++) {
+      for (let m = fromMonth; m < getBudgetMonthCount(next); m++) {
         const base = next[m][field].value;
         const compoundMultiplier = compound ? Math.pow(multiplier, m - fromMonth + 1) : multiplier;
-        const newVal = Math.max(min, Math.round(base * compoundMultiplier));
+        // Prices are fractional, so only whole-number fields are rounded
+        const adjusted = field === 'unitCost' ? base * compoundMultiplier : Math.round(base * compoundMultiplier);
+        const newVal = Math.max(min, adjusted);
         next[m][field] = { value: newVal, isOverridden: m > 0 };
       }
       return {
@@ -153,11 +173,31 @@ function editReducer(state: EditState, action: EditAction): EditState {
         preChange: null,
       };
     }
-    case 'SET_UNIT_COST': {
+    case 'APPLY_CURVE': {
+      const { field, fromMonth, values } = action;
+      const snap = snapshot(state);
+      const next = deepCloneBudget(state.current);
+      for (let m = fromMonth; m < getBudgetMonthCount(next); m++) {
+        next[m][field] = { value: values[m], isOverridden: m > 0 };
+      }
+      return {
+        ...state,
+        current: next,
+        undoStack: [...state.undoStack, snap],
+        redoStack: [],
+        preChange: null,
+      };
+    }
+    case 'APPLY_SEASONALITY': {
       const snap = snapshot(state);
+      const next = deepCloneBudget(state.current);
+      action.values.forEach((value, m) => {
+        next[m].consumption = { value, isOverridden: m > 0 };
+      });
       return {
         ...state,
-        unitCost: action.value,
+        current: next,
+        seasonalityProfileId: action.profileId,
         undoStack: [...state.undoStack, snap],
         redoStack: [],
         preChange: null,
@@ -197,6 +237,17 @@ function editReducer(state: EditState, action: EditAction): EditState {
   }
 }
 
+// Closed months are locked: drags, curves and month-1 propagation leave them as they were
+function lockedEditReducer(state: EditState, action: EditAction): EditState {
+  const next = editReducer(state, action);
+  if (next.current === state.current) return next;
+  const current = { ...next.current };
+  for (let m = 0; m < getBudgetMonthCount(current); m++) {
+    if (state.current[m]?.closed) current[m] = state.current[m];
+  }
+  return { ...next, current };
+}
+
 // --- Table grid fields ---
 
 interface FieldDef {
@@ -208,6 +259,7 @@ interface FieldDef {
 
 const FIELDS: FieldDef[] = [
   { key: 'consumption', label: 'Consumption', min: 0, step: 'any' },
+  { key: 'unitCost', label: 'Unit Cost', min: 0, step: 'any' },
   { key: 'efficiency', label: 'Efficiency %', min: 1, step: '1' },
   { key: 'overhead', label: 'Overhead %', min: 0, step: '1' },
   { key: 'discount', label: 'Discount %', min: 0, step: '1' },
@@ -221,40 +273,41 @@ export function BudgetAdjustModal({
   color,
   onClose,
 }: BudgetAdjustModalProps) {
-  const { dispatch } = useAppState();
+  const { state, dispatch, activeModel } = useAppState();
+  const currency = getServiceCurrency(service, activeModel?.data.budgetConfig);
+  const blanketDiscount = activeModel ? getSpendCommitmentDiscount(activeModel.data, service.id) : 0;
+  const driver = activeModel ? getServiceDriver(activeModel.data, service) : undefined;
+  const currencySymbol = getCurrencySymbol(currency);
   const [modalTab, setModalTab] = useState<ModalTab>('visual');
   const [visualField, setVisualField] = useState<VisualField>('consumption');
-  const [unitCostInput, setUnitCostInput] = useState(String(service.unitCost));
 
-  const [editState, editDispatch] = useReducer(editReducer, serviceBudget, (sb) => ({
+  const [editState, editDispatch] = useReducer(lockedEditReducer, serviceBudget, (sb) => ({
     current: deepCloneBudget(sb),
-    unitCost: service.unitCost,
+    seasonalityProfileId: service.seasonalityProfileId,
     undoStack: [],
     redoStack: [],
     preChange: null,
   }));
 
-  const localUnitCost = editState.unitCost;
-
-  // Sync text input when undo/redo changes unitCost
-  useEffect(() => {
-    setUnitCostInput(String(editState.unitCost));
-  }, [editState.unitCost]);
-
   const localBudget = editState.current;
+  const localUnitCost = localBudget[0].unitCost.value;
+  const [unitCostInput, setUnitCostInput] = useState(String(localUnitCost));
   const canUndo = editState.undoStack.length > 0;
   const canRedo = editState.redoStack.length > 0;
 
-  const localService = useMemo(
-    () => ({ ...service, unitCost: localUnitCost }),
-    [service, localUnitCost]
-  );
+  // Sync text input when undo/redo changes the month-1 price
+  useEffect(() => {
+    setUnitCostInput(String(localUnitCost));
+  }, [localUnitCost]);
 
-  const [initialCost] = useState(() => computeAnnualCost(serviceBudget, service));
-  const [initialMonthlyCosts] = useState(() => computeMonthlyCosts(serviceBudget, service));
+  const [initialCost] = useState(() => computeAnnualCost(serviceBudget, service, blanketDiscount));
+  const [initialMonthlyCosts] = useState(() => computeMonthlyCosts(serviceBudget, service, blanketDiscount));
 
-  const currentCost = computeAnnualCost(localBudget, localService);
-  const currentMonthlyCosts = computeMonthlyCosts(localBudget, localService);
+  const currentCost = computeAnnualCost(localBudget, service, blanketDiscount);
+  const currentMonthlyCosts = computeMonthlyCosts(localBudget, service, blanketDiscount);
+  const tierCharges = calculateServiceTierCharges(service, localBudget);
+  const monthBreakdown = calculateServiceMonthBreakdown(service, localBudget, blanketDiscount);
+  const months = getBudgetMonthCount(localBudget);
 
   const delta = currentCost - initialCost;
   const deltaPct = initialCost !== 0 ? (delta / initialCost) * 100 : 0;
@@ -274,6 +327,10 @@ export function BudgetAdjustModal({
   const [adjustDir, setAdjustDir] = useState<'reduce' | 'increase'>('reduce');
   const [adjustMode, setAdjustMode] = useState<'once' | 'compound'>('once');
   const [adjustField, setAdjustField] = useState<BudgetFieldKey>('consumption');
+  const [adjustShape, setAdjustShape] = useState<'percent' | CurveKind>('percent');
+  const [curveTarget, setCurveTarget] = useState('');
+  const [curveRate, setCurveRate] = useState('5');
+  const [curveMidpoint, setCurveMidpoint] = useState('');
 
   function handleApplyAdjust(field: BudgetFieldKey) {
     const pct = parseFloat(adjustPct);
@@ -285,6 +342,26 @@ export function BudgetAdjustModal({
     setAdjustPct('');
   }
 
+  // Values the selected curve would give the field, or null while its inputs are incomplete
+  function buildCurve(field: BudgetFieldKey): number[] | null {
+    if (adjustShape === 'percent') return null;
+    const target = parseFloat(curveTarget);
+    const ratePct = parseFloat(curveRate);
+    if (adjustShape === 'exponential' ? isNaN(ratePct) : isNaN(target) || target < 0) return null;
+    const fromMonth = parseInt(adjustFrom);
+    const midpoint = curveMidpoint === '' ? (fromMonth + months - 1) / 2 : parseInt(curveMidpoint);
+    const current = Array.from({ length: months }, (_, m) => localBudget[m][field].value);
+    const min = field === 'efficiency' ? 1 : 0;
+    return generateCurve(current, { kind: adjustShape, fromMonth, target, ratePct, midpoint })
+      .map((v) => Math.max(min, field === 'unitCost' ? v : Math.round(v)));
+  }
+
+  function handleApplyCurve(field: BudgetFieldKey) {
+    const values = buildCurve(field);
+    if (!values) return;
+    editDispatch({ type: 'APPLY_CURVE', field, fromMonth: parseInt(adjustFrom), values });
+  }
+
   const handleUndo = useCallback(() => {
     editDispatch({ type: 'UNDO' });
   }, []);
@@ -313,10 +390,17 @@ export function BudgetAdjustModal({
       type: 'SET_SERVICE_BUDGET',
       payload: { serviceId, serviceBudget: localBudget },
     });
-    if (localUnitCost !== service.unitCost) {
+    const serviceChanges: Partial<Service> = {};
+    if (!hasTiers(service) && localUnitCost !== service.unitCost) {
+      serviceChanges.unitCost = localUnitCost;
+    }
+    if (editState.seasonalityProfileId !== service.seasonalityProfileId) {
+      serviceChanges.seasonalityProfileId = editState.seasonalityProfileId;
+    }
+    if (Object.keys(serviceChanges).length > 0) {
       dispatch({
         type: 'UPDATE_SERVICE',
-        payload: { ...service, unitCost: localUnitCost },
+        payload: { ...service, ...serviceChanges },
       });
     }
     onClose();
@@ -329,8 +413,38 @@ export function BudgetAdjustModal({
   // Table tab: track raw input while editing
   const [editingCell, setEditingCell] = useState<{ month: number; field: BudgetFieldKey; raw: string } | null>(null);
 
+  const [formulaError, setFormulaError] = useState<string | null>(null);
+  const brokenFormulaMonths = Array.from({ length: months }, (_, m) => localBudget[m].consumption)
+    .filter((c) => c.formula && c.formulaError).length;
+
+  // Consumption cells accept `=expression`; it is checked against the rest of the model when the cell is left
+  function commitFormula(monthIndex: number, raw: string) {
+    if (!activeModel) return;
+    const data = {
+      ...activeModel.data,
+      budgetData: { ...activeModel.data.budgetData, [serviceId]: localBudget },
+    };
+    const formula = raw.trim().slice(1).trim();
+    const result = validateFormula(data, serviceId, formula);
+    if (!result.ok) {
+      setFormulaError(`${monthLabels[monthIndex]}: ${result.error}`);
+      return;
+    }
+    const evaluated = Array.from({ length: months }, (_, m) => evaluateFormulaMonth(data, result.node, m));
+    const failed = evaluated.findIndex((r) => !r.ok);
+    if (failed >= 0) {
+      const failure = evaluated[failed];
+      setFormulaError(`${monthLabels[failed]}: ${failure.ok ? '' : failure.error}`);
+      return;
+    }
+    setFormulaError(null);
+    const values = evaluated.map((r) => (r.ok ? Math.max(r.value, 0) : 0));
+    editDispatch({ type: 'SET_FORMULA', monthIndex, formula, values });
+  }
+
   function handleTableChange(monthIndex: number, field: BudgetFieldKey, rawValue: string) {
     setEditingCell({ month: monthIndex, field, raw: rawValue });
+    if (field === 'consumption' && rawValue.trimStart().startsWith('=')) return;
     const value = parseFloat(rawValue);
     if (!isNaN(value)) {
       editDispatch({ type: 'SET_FIELD_COMMIT', monthIndex, field, value });
@@ -339,6 +453,11 @@ export function BudgetAdjustModal({
 
   function handleTableBlur(monthIndex: number, field: BudgetFieldKey) {
     if (editingCell?.month === monthIndex && editingCell?.field === field) {
+      if (field === 'consumption' && editingCell.raw.trimStart().startsWith('=')) {
+        commitFormula(monthIndex, editingCell.raw);
+        setEditingCell(null);
+        return;
+      }
       // If left empty, reset to 0
       if (editingCell.raw === '' || isNaN(parseFloat(editingCell.raw))) {
         editDispatch({ type: 'SET_FIELD_COMMIT', monthIndex, field, value: 0 });
@@ -348,9 +467,33 @@ export function BudgetAdjustModal({
   }
 
 
-  const visibleFields = FIELDS.filter(
-    (f) => f.key !== 'discount' || service.discountEligible
-  );
+  const visibleFields = FIELDS
+    .filter((f) => f.key !== 'discount' || service.discountEligible)
+    .map((f) => (f.key === 'unitCost' && hasTiers(service)
+      ? { ...f, label: `Tier ${getReferenceTierIndex(service.tiers!) + 1} Cost` }
+      : f));
+
+  const curvePreview = modalTab === 'visual' ? buildCurve(visualField) : null;
+
+  // Seasonality: picking a profile previews it on the consumption chart until applied
+  const [seasonalityPick, setSeasonalityPick] = useState('');
+  const seasonalityProfiles = getSeasonalityProfiles(state);
+  const currentProfile = seasonalityProfiles.find((p) => p.id === editState.seasonalityProfileId);
+  const pickedProfile = seasonalityProfiles.find((p) => p.id === seasonalityPick);
+  const seasonalityPreview = pickedProfile
+    ? applySeasonality(
+        Array.from({ length: months }, (_, m) => localBudget[m].consumption.value),
+        activeModel?.data.budgetConfig.startMonth ?? 0,
+        pickedProfile.weights,
+        currentProfile?.weights
+      )
+    : null;
+
+  function handleApplySeasonality() {
+    if (!pickedProfile || !seasonalityPreview) return;
+    editDispatch({ type: 'APPLY_SEASONALITY', profileId: pickedProfile.id, values: seasonalityPreview });
+    setSeasonalityPick('');
+  }
 
   const annualTotal = useMemo(
     () => currentMonthlyCosts.reduce((s, c) => s + c, 0),
@@ -374,30 +517,44 @@ export function BudgetAdjustModal({
               <div className="flex items-center gap-3 text-xs text-gray-500">
                 <span>Unit: <span className="font-medium text-gray-700">{service.unitType}</span></span>
                 <span className="text-gray-300">|</span>
-                <span className="flex items-center gap-1">Cost/unit: $
-                  <input
-                    type="number"
-                    value={unitCostInput}
-                    onChange={(e) => setUnitCostInput(e.target.value)}
-                    onBlur={() => {
-                      const parsed = parseFloat(unitCostInput);
-                      if (!isNaN(parsed) && parsed >= 0 && parsed !== localUnitCost) {
-                        editDispatch({ type: 'SET_UNIT_COST', value: parsed });
-                      } else {
-                        setUnitCostInput(String(localUnitCost));
-                      }
-                    }}
-                    onKeyDown={(e) => {
-                      if (e.key === 'Enter') {
-                        (e.target as HTMLInputElement).blur();
-                      }
-                    }}
-                    onFocus={(e) => e.target.select()}
-                    min="0"
-                    step="any"
-                    className="w-20 border border-gray-300 rounded px-1.5 py-0.5 text-xs font-medium text-gray-700 text-right focus:outline-none focus:ring-1 focus:ring-blue-500"
-                  />
-                </span>
+                {hasTiers(service) ? (
+                  <span>Cost/unit: <span className="font-medium text-gray-700">{service.tiers!.length} volume tiers</span></span>
+                ) : (
+                  <span className="flex items-center gap-1">Cost/unit: {currencySymbol}
+                    <input
+                      type="number"
+                      value={unitCostInput}
+                      onChange={(e) => setUnitCostInput(e.target.value)}
+                      onBlur={() => {
+                        const parsed = parseFloat(unitCostInput);
+                        if (!isNaN(parsed) && parsed >= 0 && parsed !== localUnitCost) {
+                          editDispatch({ type: 'SET_FIELD_COMMIT', monthIndex: 0, field: 'unitCost', value: parsed });
+                        } else {
+                          setUnitCostInput(String(localUnitCost));
+                        }
+                      }}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                          (e.target as HTMLInputElement).blur();
+                        }
+                      }}
+                      onFocus={(e) => e.target.select()}
+                      min="0"
+                      step="any"
+                      className="w-20 border border-gray-300 rounded px-1.5 py-0.5 text-xs font-medium text-gray-700 text-right focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    />
+                  </span>
+                )}
+                {driver && (
+                  <>
+                    <span className="text-gray-300">|</span>
+                    <span title="Consumption is recalculated when the driver changes on the Drivers tab">
+                      Driven by: <span className="font-medium text-gray-700">
+                        {service.driver!.ratio} &times; {driver.name}
+                      </span>
+                    </span>
+                  </>
+                )}
               </div>
             </div>
             <div className="flex items-center gap-2">
@@ -435,12 +592,12 @@ export function BudgetAdjustModal({
           <div className="flex items-center gap-6 mt-3 mb-3 px-4 py-2.5 bg-gray-50 rounded-lg text-sm">
             <div>
               <div className="text-[10px] text-gray-400 uppercase font-semibold">Before</div>
-              <div className="font-semibold text-gray-700">{formatCurrency(initialCost)}</div>
+              <div className="font-semibold text-gray-700">{formatCurrency(initialCost, currency)}</div>
             </div>
             <div className="text-gray-300">&rarr;</div>
             <div>
               <div className="text-[10px] text-gray-400 uppercase font-semibold">Now</div>
-              <div className="font-semibold text-gray-700">{formatCurrency(currentCost)}</div>
+              <div className="font-semibold text-gray-700">{formatCurrency(currentCost, currency)}</div>
             </div>
             <div className="ml-auto text-right">
               <div className="text-[10px] text-gray-400 uppercase font-semibold">Impact</div>
@@ -451,7 +608,7 @@ export function BudgetAdjustModal({
                   'No change'
                 ) : (
                   <>
-                    {delta > 0 ? '+' : ''}{formatCurrency(delta)}
+                    {delta > 0 ? '+' : ''}{formatCurrency(delta, currency)}
                     <span className="text-xs font-normal ml-1.5">
                       ({delta > 0 ? '+' : ''}{deltaPct.toFixed(1)}%)
                     </span>
@@ -503,31 +660,44 @@ export function BudgetAdjustModal({
                 {/* Scrollable month columns */}
                 <div className="flex-1 overflow-x-auto">
                   <div className="inline-flex min-w-full">
-                    {Array.from({ length: 12 }, (_, monthIdx) => (
+                    {Array.from({ length: months }, (_, monthIdx) => (
                       <div key={monthIdx} className="w-[120px] shrink-0 border-r border-gray-100 last:border-r-0">
                         <div className="h-9 flex items-center justify-center bg-blue-100">
                           <span className="text-[11px] font-semibold text-blue-800 uppercase tracking-wider">
                             {monthLabels[monthIdx]}
                           </span>
+                          {localBudget[monthIdx].closed && (
+                            <span className="ml-1 text-[9px] font-medium text-gray-500 uppercase">closed</span>
+                          )}
                         </div>
                         {visibleFields.map((f, fieldIdx) => {
                           const fieldData = localBudget[monthIdx][f.key];
                           const isEditing = editingCell?.month === monthIdx && editingCell?.field === f.key;
+                          const formula = fieldData.formula;
+                          const brokenFormula = formula && fieldData.formulaError;
                           return (
                             <div key={f.key} className="h-10 flex items-center px-1 border-b border-gray-100">
                               <input
-                                type="number"
-                                tabIndex={fieldIdx * 12 + monthIdx + 1}
-                                value={isEditing ? editingCell.raw : fieldData.value}
+                                type={f.key === 'consumption' ? 'text' : 'number'}
+                                inputMode="decimal"
+                                tabIndex={fieldIdx * months + monthIdx + 1}
+                                value={isEditing ? editingCell.raw : formula ? Math.round(fieldData.value * 100) / 100 : fieldData.value}
                                 onChange={(e) => handleTableChange(monthIdx, f.key, e.target.value)}
                                 onFocus={(e) => {
-                                  setEditingCell({ month: monthIdx, field: f.key, raw: String(fieldData.value) });
+                                  setEditingCell({ month: monthIdx, field: f.key, raw: formula ? `=${formula}` : String(fieldData.value) });
                                   e.target.select();
                                 }}
                                 onBlur={() => handleTableBlur(monthIdx, f.key)}
+                                onKeyDown={(e) => {
+                                  if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+                                }}
+                                readOnly={!!localBudget[monthIdx].closed}
+                                title={formula ? `=${formula}${brokenFormula ? ` (${fieldData.formulaError})` : ''}` : undefined}
                                 min={f.min}
                                 step={f.step}
-                                className="w-full border border-gray-200 bg-white rounded px-1.5 py-1 text-xs text-right focus:outline-none focus:ring-1 focus:ring-blue-500"
+                                className={`w-full border border-gray-200 rounded px-1.5 py-1 text-xs text-right focus:outline-none focus:ring-1 focus:ring-blue-500 ${
+                                  localBudget[monthIdx].closed ? 'bg-gray-50 text-gray-400' : 'bg-white'
+                                } ${brokenFormula ? 'text-red-600 italic' : formula ? 'text-blue-700 italic' : ''}`}
                               />
                             </div>
                           );
@@ -545,7 +715,7 @@ export function BudgetAdjustModal({
                           return (
                             <div className="h-10 flex items-center justify-end px-2" style={{ backgroundColor: cost > 0 ? `rgb(${r},${g},${b})` : undefined }}>
                               <span className="text-xs font-semibold text-gray-800">
-                                {formatCurrency(cost)}
+                                {formatCurrency(cost, currency)}
                               </span>
                             </div>
                           );
@@ -561,10 +731,13 @@ export function BudgetAdjustModal({
                     <span className="text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Summary</span>
                   </div>
                   {visibleFields.map((f) => {
-                    const values = Array.from({ length: 12 }, (_, m) => localBudget[m][f.key].value);
+                    const values = Array.from({ length: months }, (_, m) => localBudget[m][f.key].value);
+                    const avg = values.reduce((s, v) => s + v, 0) / months;
                     const summary = f.key === 'consumption'
                       ? values.reduce((s, v) => s + v, 0).toLocaleString('en-US', { maximumFractionDigits: 0 })
-                      : (values.reduce((s, v) => s + v, 0) / 12).toFixed(1);
+                      : f.key === 'unitCost'
+                        ? avg.toLocaleString('en-US', { maximumFractionDigits: 4 })
+                        : avg.toFixed(1);
                     const summaryLabel = f.key === 'consumption' ? 'Total' : 'Avg';
                     return (
                       <div key={f.key} className="h-10 flex items-center justify-end px-3 border-b border-gray-100">
@@ -574,10 +747,24 @@ export function BudgetAdjustModal({
                     );
                   })}
                   <div className="h-10 flex items-center justify-end px-3 bg-blue-100">
-                    <span className="text-xs font-bold text-blue-900">{formatCurrency(annualTotal)}</span>
+                    <span className="text-xs font-bold text-blue-900">{formatCurrency(annualTotal, currency)}</span>
                   </div>
                 </div>
               </div>
+              <div className="px-3 py-2 text-[11px] border-t border-gray-100">
+                {formulaError ? (
+                  <span className="text-red-600">{formulaError}</span>
+                ) : brokenFormulaMonths > 0 ? (
+                  <span className="text-red-600">
+                    {brokenFormulaMonths} {brokenFormulaMonths === 1 ? 'month has a formula' : 'months have formulas'} that no
+                    longer evaluate and keep their last value; hover a red cell for the reason.
+                  </span>
+                ) : (
+                  <span className="text-gray-400">
+                    Start a consumption cell with = to derive it from other services, e.g. =0.8 * [S3 GET requests]
+                  </span>
+                )}
+              </div>
             </div>
           )}
 
@@ -606,6 +793,32 @@ export function BudgetAdjustModal({
                 >
                   Efficiency
                 </button>
+                {visualField === 'consumption' && seasonalityProfiles.length > 0 && (
+                  <div className="ml-auto flex items-center gap-2">
+                    <span className="text-xs text-gray-500">
+                      Seasonality{currentProfile && (
+                        <>: <span className="font-medium text-gray-700">{currentProfile.name}</span></>
+                      )}
+                    </span>
+                    <select
+                      value={seasonalityPick}
+                      onChange={(e) => setSeasonalityPick(e.target.value)}
+                      className="border border-gray-300 rounded px-2 py-1 text-xs bg-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    >
+                      <option value="">Preview a profile...</option>
+                      {seasonalityProfiles.map((p) => (
+                        <option key={p.id} value={p.id}>{p.name}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={handleApplySeasonality}
+                      disabled={!pickedProfile}
+                      className="px-3 py-1 text-xs font-medium text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                    >
+                      Apply
+                    </button>
+                  </div>
+                )}
               </div>
 
               {visualField === 'consumption' && (
@@ -617,6 +830,7 @@ export function BudgetAdjustModal({
                   unit={service.unitType}
                   color={color ?? 'bg-blue-400'}
                   min={0}
+                  previewValues={seasonalityPreview ?? curvePreview ?? undefined}
                   onValueChange={handleValueChange}
                   onCommit={handleCommit}
                 />
@@ -631,6 +845,7 @@ export function BudgetAdjustModal({
                   color={color ?? 'bg-emerald-400'}
                   min={1}
                   formatValue={(v) => `${v}%`}
+                  previewValues={curvePreview ?? undefined}
                   onValueChange={handleValueChange}
                   onCommit={handleCommit}
                 />
@@ -650,7 +865,7 @@ export function BudgetAdjustModal({
                       </th>
                       {monthLabels.map((label, i) => (
                         <th key={i} className="text-right py-1.5 px-2 font-medium text-gray-500 min-w-[80px]">
-                          {label.split(' ')[0].slice(0, 3)}
+                          {months > 12 ? label : label.split(' ')[0].slice(0, 3)}
                         </th>
                       ))}
                     </tr>
@@ -658,23 +873,73 @@ export function BudgetAdjustModal({
                   <tbody className="divide-y divide-gray-50">
                     <tr>
                       <td className="py-1.5 px-2 text-gray-600 sticky left-0 bg-white">Consumption</td>
-                      {Array.from({ length: 12 }, (_, i) => (
-                        <td key={i} className="py-1.5 px-2 text-right text-gray-700">
-                          {localBudget[i].consumption.value.toLocaleString()}
-                        </td>
-                      ))}
+                      {Array.from({ length: months }, (_, i) => {
+                        const { value, formula } = localBudget[i].consumption;
+                        return (
+                          <td key={i} className="py-1.5 px-2 text-right text-gray-700">
+                            {value.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                            {formula && (
+                              <div className="text-[10px] text-blue-500 font-mono whitespace-nowrap">={formula}</div>
+                            )}
+                          </td>
+                        );
+                      })}
                     </tr>
-                    <tr>
-                      <td className="py-1.5 px-2 text-gray-600 sticky left-0 bg-white">Unit Cost</td>
-                      {Array.from({ length: 12 }, (_, i) => (
-                        <td key={i} className="py-1.5 px-2 text-right text-gray-400">
-                          ${localUnitCost}
+                    {service.allowance && (
+                      <tr>
+                        <td className="py-1.5 px-2 text-gray-600 sticky left-0 bg-white">
+                          Free allowance
+                          <div className="text-[10px] text-gray-400">
+                            {service.allowance.units.toLocaleString()} / {service.allowance.period === 'month' ? 'mo' : 'yr'}
+                          </div>
                         </td>
-                      ))}
-                    </tr>
+                        {monthBreakdown.map((b, i) => (
+                          <td key={i} className="py-1.5 px-2 text-right text-green-600">
+                            {b.allowanceUnits > 0
+                              ? `-${b.allowanceUnits.toLocaleString(undefined, { maximumFractionDigits: 0 })}`
+                              : '-'}
+                          </td>
+                        ))}
+                      </tr>
+                    )}
+                    {tierCharges.length === 0 ? (
+                      <tr>
+                        <td className="py-1.5 px-2 text-gray-600 sticky left-0 bg-white">Unit Cost</td>
+                        {Array.from({ length: months }, (_, i) => {
+                          const scheduled = i > 0 && localBudget[i].unitCost.isOverridden;
+                          return (
+                            <td key={i} className={`py-1.5 px-2 text-right ${scheduled ? 'text-amber-600 font-medium' : 'text-gray-400'}`}>
+                              {currencySymbol}{localBudget[i].unitCost.value}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ) : (
+                      tierCharges[0].map((tier) => (
+                        <tr key={tier.tierIndex}>
+                          <td className="py-1.5 px-2 text-gray-600 sticky left-0 bg-white">
+                            Tier {tier.tierIndex + 1}
+                            <div className="text-[10px] text-gray-400">
+                              {formatTierRange(tier.from, tier.to)} @ {currencySymbol}{tier.unitCost}
+                            </div>
+                          </td>
+                          {tierCharges.map((month, i) => {
+                            const charge = month[tier.tierIndex];
+                            return (
+                              <td key={i} className="py-1.5 px-2 text-right text-gray-700">
+                                {formatCurrency(charge.cost, currency)}
+                                <div className="text-[10px] text-gray-400">
+                                  {charge.units.toLocaleString(undefined, { maximumFractionDigits: 0 })} u
+                                </div>
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      ))
+                    )}
                     <tr>
                       <td className="py-1.5 px-2 text-gray-600 sticky left-0 bg-white">Efficiency %</td>
-                      {Array.from({ length: 12 }, (_, i) => (
+                      {Array.from({ length: months }, (_, i) => (
                         <td key={i} className="py-1.5 px-2 text-right text-gray-700">
                           {localBudget[i].efficiency.value}%
                         </td>
@@ -682,7 +947,7 @@ export function BudgetAdjustModal({
                     </tr>
                     <tr>
                       <td className="py-1.5 px-2 text-gray-600 sticky left-0 bg-white">Overhead %</td>
-                      {Array.from({ length: 12 }, (_, i) => (
+                      {Array.from({ length: months }, (_, i) => (
                         <td key={i} className="py-1.5 px-2 text-right text-gray-700">
                           {localBudget[i].overhead.value}%
                         </td>
@@ -691,20 +956,50 @@ export function BudgetAdjustModal({
                     {service.discountEligible && (
                       <tr>
                         <td className="py-1.5 px-2 text-gray-600 sticky left-0 bg-white">Discount %</td>
-                        {Array.from({ length: 12 }, (_, i) => (
+                        {Array.from({ length: months }, (_, i) => (
                           <td key={i} className="py-1.5 px-2 text-right text-gray-700">
                             {localBudget[i].discount.value}%
                           </td>
                         ))}
                       </tr>
                     )}
+                    {service.commitment && (
+                      <>
+                        <tr>
+                          <td className="py-1.5 px-2 text-gray-600 sticky left-0 bg-white">Committed units</td>
+                          {monthBreakdown.map((b, i) => (
+                            <td key={i} className="py-1.5 px-2 text-right text-gray-700">
+                              {b.commitmentCapacity > 0
+                                ? `${b.coveredUnits.toLocaleString(undefined, { maximumFractionDigits: 0 })} / ${b.commitmentCapacity.toLocaleString()}`
+                                : '-'}
+                            </td>
+                          ))}
+                        </tr>
+                        <tr>
+                          <td className="py-1.5 px-2 text-gray-600 sticky left-0 bg-white">Commitment</td>
+                          {monthBreakdown.map((b, i) => (
+                            <td key={i} className="py-1.5 px-2 text-right text-gray-700">
+                              {b.commitmentCost > 0 ? formatCurrency(b.commitmentCost, currency) : '-'}
+                            </td>
+                          ))}
+                        </tr>
+                        <tr>
+                          <td className="py-1.5 px-2 text-gray-600 sticky left-0 bg-white">On-demand</td>
+                          {monthBreakdown.map((b, i) => (
+                            <td key={i} className="py-1.5 px-2 text-right text-gray-700">
+                              {formatCurrency(b.onDemandCost, currency)}
+                            </td>
+                          ))}
+                        </tr>
+                      </>
+                    )}
                   </tbody>
                   <tfoot>
                     <tr className="border-t-2 border-gray-200">
                       <td className="py-2 px-2 font-semibold text-gray-800 sticky left-0 bg-white">Cost</td>
                       {currentMonthlyCosts.map((cost, i) => (
                         <td key={i} className="py-2 px-2 text-right font-semibold text-gray-800">
-                          {formatCurrency(cost)}
+                          {formatCurrency(cost, currency)}
                         </td>
                       ))}
                     </tr>
@@ -716,7 +1011,7 @@ export function BudgetAdjustModal({
                           <td key={i} className={`py-1 px-2 text-right font-medium ${
                             monthDelta === 0 ? 'text-gray-300' : monthDelta > 0 ? 'text-red-500' : 'text-green-600'
                           }`}>
-                            {monthDelta === 0 ? '-' : `${monthDelta > 0 ? '+' : ''}${formatCurrency(monthDelta)}`}
+                            {monthDelta === 0 ? '-' : `${monthDelta > 0 ? '+' : ''}${formatCurrency(monthDelta, currency)}`}
                           </td>
                         );
                       })}
@@ -741,6 +1036,7 @@ export function BudgetAdjustModal({
                   className="border border-gray-300 rounded px-2 py-1.5 text-xs bg-white focus:outline-none focus:ring-1 focus:ring-blue-500"
                 >
                   <option value="consumption">Consumption</option>
+                  <option value="unitCost">Unit cost</option>
                   <option value="efficiency">Efficiency</option>
                   <option value="overhead">Overhead</option>
                 </select>
@@ -748,36 +1044,97 @@ export function BudgetAdjustModal({
                 <span className="text-xs text-gray-700 font-medium">{visualField}:</span>
               )}
               <select
-                value={adjustDir}
-                onChange={(e) => setAdjustDir(e.target.value as 'reduce' | 'increase')}
+                value={adjustShape}
+                onChange={(e) => setAdjustShape(e.target.value as 'percent' | CurveKind)}
                 className="border border-gray-300 rounded px-2 py-1.5 text-xs bg-white focus:outline-none focus:ring-1 focus:ring-blue-500"
               >
-                <option value="reduce">Reduce by</option>
-                <option value="increase">Increase by</option>
-              </select>
-              <div className="relative">
-                <input
-                  type="number"
-                  min="0"
-                  max="100"
-                  value={adjustPct}
-                  onChange={(e) => setAdjustPct(e.target.value)}
-                  onKeyDown={(e) => e.key === 'Enter' && handleApplyAdjust(activeField)}
-                  onFocus={(e) => e.target.select()}
-                  placeholder="5"
-                  className="w-16 border border-gray-300 rounded px-2 py-1.5 text-xs text-right pr-5 focus:outline-none focus:ring-1 focus:ring-blue-500"
-                />
-                <span className="absolute right-2 top-1/2 -translate-y-1/2 text-xs text-gray-400">%</span>
-              </div>
-              <select
-                value={adjustMode}
-                onChange={(e) => setAdjustMode(e.target.value as 'once' | 'compound')}
-                className="border border-gray-300 rounded px-2 py-1.5 text-xs bg-white focus:outline-none focus:ring-1 focus:ring-blue-500"
-              >
-                <option value="once">one-off</option>
-                <option value="compound">per month</option>
+                <option value="percent">% change</option>
+                {CURVE_OPTIONS.map((c) => (
+                  <option key={c.value} value={c.value}>{c.label}</option>
+                ))}
               </select>
-              <span className="text-xs text-gray-500 shrink-0">from</span>
+              {adjustShape === 'percent' ? (
+                <>
+                  <select
+                    value={adjustDir}
+                    onChange={(e) => setAdjustDir(e.target.value as 'reduce' | 'increase')}
+                    className="border border-gray-300 rounded px-2 py-1.5 text-xs bg-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  >
+                    <option value="reduce">Reduce by</option>
+                    <option value="increase">Increase by</option>
+                  </select>
+                  <div className="relative">
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      value={adjustPct}
+                      onChange={(e) => setAdjustPct(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && handleApplyAdjust(activeField)}
+                      onFocus={(e) => e.target.select()}
+                      placeholder="5"
+                      className="w-16 border border-gray-300 rounded px-2 py-1.5 text-xs text-right pr-5 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    />
+                    <span className="absolute right-2 top-1/2 -translate-y-1/2 text-xs text-gray-400">%</span>
+                  </div>
+                  <select
+                    value={adjustMode}
+                    onChange={(e) => setAdjustMode(e.target.value as 'once' | 'compound')}
+                    className="border border-gray-300 rounded px-2 py-1.5 text-xs bg-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  >
+                    <option value="once">one-off</option>
+                    <option value="compound">per month</option>
+                  </select>
+                </>
+              ) : adjustShape === 'exponential' ? (
+                <>
+                  <div className="relative">
+                    <input
+                      type="number"
+                      step="any"
+                      value={curveRate}
+                      onChange={(e) => setCurveRate(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && handleApplyCurve(activeField)}
+                      onFocus={(e) => e.target.select()}
+                      placeholder="5"
+                      className="w-16 border border-gray-300 rounded px-2 py-1.5 text-xs text-right pr-5 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    />
+                    <span className="absolute right-2 top-1/2 -translate-y-1/2 text-xs text-gray-400">%</span>
+                  </div>
+                  <span className="text-xs text-gray-500 shrink-0">per month</span>
+                </>
+              ) : (
+                <>
+                  <span className="text-xs text-gray-500 shrink-0">to</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={curveTarget}
+                    onChange={(e) => setCurveTarget(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleApplyCurve(activeField)}
+                    onFocus={(e) => e.target.select()}
+                    placeholder="Target"
+                    className="w-24 border border-gray-300 rounded px-2 py-1.5 text-xs text-right focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  />
+                  {adjustShape === 'logistic' && (
+                    <>
+                      <span className="text-xs text-gray-500 shrink-0">midpoint</span>
+                      <select
+                        value={curveMidpoint}
+                        onChange={(e) => setCurveMidpoint(e.target.value)}
+                        className="border border-gray-300 rounded px-2 py-1.5 text-xs bg-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+                      >
+                        <option value="">Halfway</option>
+                        {monthLabels.map((lbl, i) => (
+                          <option key={i} value={String(i)}>{lbl}</option>
+                        ))}
+                      </select>
+                    </>
+                  )}
+                </>
+              )}
+              <span className="text-xs text-gray-500 shrink-0">{adjustShape === 'step' ? 'at' : 'from'}</span>
               <select
                 value={adjustFrom}
                 onChange={(e) => setAdjustFrom(e.target.value)}
@@ -788,8 +1145,8 @@ export function BudgetAdjustModal({
                 ))}
               </select>
               <button
-                onClick={() => handleApplyAdjust(activeField)}
-                disabled={!adjustPct || parseFloat(adjustPct) <= 0}
+                onClick={() => (adjustShape === 'percent' ? handleApplyAdjust(activeField) : handleApplyCurve(activeField))}
+                disabled={adjustShape === 'percent' ? !adjustPct || parseFloat(adjustPct) <= 0 : !buildCurve(activeField)}
                 className="px-3 py-1.5 text-xs font-medium text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors shrink-0"
               >
                 Apply
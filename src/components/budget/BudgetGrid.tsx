@@ -1,7 +1,16 @@
 import { useMemo } from 'react';
 import { useAppState } from '../../context/AppContext';
-import { calculateMonthCost } from '../../utils/calculations';
-import { formatCurrency } from '../../utils/formatters';
+import {
+  calculateServiceMonthCosts,
+  calculateServiceTierCharges,
+  getBudgetMonthCount,
+  getReferenceTierIndex,
+  getSpendCommitmentDiscount,
+  hasTiers,
+} from '../../utils/calculations';
+import { getPlanYears, sumPlanYears } from '../../utils/months';
+import { formatCurrency, formatNumber, formatTierRange } from '../../utils/formatters';
+import { getCurrencySymbol, getServiceCurrency } from '../../utils/currency';
 import type { Service, ServiceBudget, BudgetFieldKey } from '../../types';
 
 interface BudgetGridProps {
@@ -21,33 +30,38 @@ interface FieldDef {
 
 const FIELDS: FieldDef[] = [
   { key: 'consumption', label: 'Consumption', min: 0, step: 'any', suffix: '' },
+  { key: 'unitCost', label: 'Unit Cost', min: 0, step: 'any', suffix: '' },
   { key: 'efficiency', label: 'Efficiency %', min: 1, step: '1', suffix: '' },
   { key: 'overhead', label: 'Overhead %', min: 0, step: '1', suffix: '' },
   { key: 'discount', label: 'Discount %', min: 0, step: '1', suffix: '' },
 ];
 
 export function BudgetGrid({ serviceId, service, serviceBudget, monthLabels }: BudgetGridProps) {
-  const { dispatch } = useAppState();
+  const { dispatch, activeModel } = useAppState();
+  const currency = getServiceCurrency(service, activeModel?.data.budgetConfig);
+  const blanketDiscount = activeModel ? getSpendCommitmentDiscount(activeModel.data, serviceId) : 0;
 
-  const visibleFields = FIELDS.filter(
-    (f) => f.key !== 'discount' || service.discountEligible
+  const visibleFields = FIELDS
+    .filter((f) => f.key !== 'discount' || service.discountEligible)
+    .map((f) => (f.key === 'unitCost' && hasTiers(service)
+      ? { ...f, label: `Tier ${getReferenceTierIndex(service.tiers!) + 1} Cost` }
+      : f));
+
+  const monthlyCosts = useMemo(
+    () => calculateServiceMonthCosts(service, serviceBudget, blanketDiscount),
+    [serviceBudget, service, blanketDiscount]
   );
 
-  const monthlyCosts = useMemo(() => {
-    return Array.from({ length: 12 }, (_, m) => {
-      const entry = serviceBudget[m];
-      return calculateMonthCost(
-        entry.consumption.value,
-        service.unitCost,
-        entry.efficiency.value,
-        entry.overhead.value,
-        entry.discount.value,
-        service.discountEligible
-      );
-    });
-  }, [serviceBudget, service]);
+  const tierCharges = useMemo(
+    () => calculateServiceTierCharges(service, serviceBudget),
+    [serviceBudget, service]
+  );
+  const tierCount = tierCharges[0]?.length ?? 0;
 
+  const months = getBudgetMonthCount(serviceBudget);
   const annualTotal = monthlyCosts.reduce((sum, c) => sum + c, 0);
+  const planYears = getPlanYears(months);
+  const yearTotals = sumPlanYears(monthlyCosts);
 
   function handleChange(monthIndex: number, field: BudgetFieldKey, rawValue: string) {
     const value = parseFloat(rawValue);
@@ -67,12 +81,13 @@ export function BudgetGrid({ serviceId, service, serviceBudget, monthLabels }: B
 
   // Compute row totals / averages for each field
   function getFieldSummary(field: BudgetFieldKey): string {
-    const values = Array.from({ length: 12 }, (_, m) => serviceBudget[m][field].value);
+    const values = Array.from({ length: months }, (_, m) => serviceBudget[m][field].value);
     if (field === 'consumption') {
       return values.reduce((s, v) => s + v, 0).toLocaleString('en-US', { maximumFractionDigits: 0 });
     }
-    // For percentages, show average
-    const avg = values.reduce((s, v) => s + v, 0) / 12;
+    // For prices and percentages, show average
+    const avg = values.reduce((s, v) => s + v, 0) / months;
+    if (field === 'unitCost') return avg.toLocaleString('en-US', { maximumFractionDigits: 4 });
     return avg.toFixed(1);
   }
 
@@ -95,6 +110,15 @@ export function BudgetGrid({ serviceId, service, serviceBudget, monthLabels }: B
               <span className="text-sm font-medium text-gray-700">{f.label}</span>
             </div>
           ))}
+          {/* Tier label rows */}
+          {Array.from({ length: tierCount }, (_, t) => (
+            <div key={t} className="h-9 flex flex-col justify-center px-4 border-b border-gray-100">
+              <span className="text-xs font-medium text-gray-600">Tier {t + 1}</span>
+              <span className="text-[10px] text-gray-400">
+                {formatTierRange(tierCharges[0][t].from, tierCharges[0][t].to)} @ {getCurrencySymbol(currency)}{tierCharges[0][t].unitCost}
+              </span>
+            </div>
+          ))}
           {/* Cost label row */}
           <div className="h-12 flex items-center px-4 bg-blue-50">
             <span className="text-sm font-semibold text-blue-800">Monthly Cost</span>
@@ -104,7 +128,7 @@ export function BudgetGrid({ serviceId, service, serviceBudget, monthLabels }: B
         {/* Scrollable middle - month columns */}
         <div className="flex-1 overflow-x-auto">
           <div className="inline-flex min-w-full">
-            {Array.from({ length: 12 }, (_, monthIdx) => (
+            {Array.from({ length: months }, (_, monthIdx) => (
               <div key={monthIdx} className="w-[150px] shrink-0 border-r border-gray-100 last:border-r-0">
                 {/* Month header */}
                 <div className="h-11 flex items-center justify-center border-b border-gray-200 bg-gray-50">
@@ -126,9 +150,10 @@ export function BudgetGrid({ serviceId, service, serviceBudget, monthLabels }: B
                           type="number"
                           value={fieldData.value}
                           onChange={(e) => handleChange(monthIdx, f.key, e.target.value)}
+                          disabled={!!serviceBudget[monthIdx].closed}
                           min={f.min}
                           step={f.step}
-                          className={`w-full border rounded px-2 py-1.5 text-sm text-right focus:outline-none focus:ring-1 focus:ring-blue-500 ${
+                          className={`w-full border rounded px-2 py-1.5 text-sm text-right focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:bg-gray-50 disabled:text-gray-400 ${
                             isOverridden
                               ? 'border-amber-300 bg-amber-50'
                               : 'border-gray-200 bg-white'
@@ -152,10 +177,20 @@ export function BudgetGrid({ serviceId, service, serviceBudget, monthLabels }: B
                     </div>
                   );
                 })}
+                {/* Tier breakdown */}
+                {tierCharges[monthIdx]?.map((charge) => (
+                  <div
+                    key={charge.tierIndex}
+                    className="h-9 flex flex-col items-end justify-center px-3 border-b border-gray-100"
+                  >
+                    <span className="text-xs text-gray-700">{formatCurrency(charge.cost, currency)}</span>
+                    <span className="text-[10px] text-gray-400">{formatNumber(charge.units, 0)} units</span>
+                  </div>
+                ))}
                 {/* Cost display */}
                 <div className="h-12 flex items-center justify-end px-3 bg-blue-50">
                   <span className="text-sm font-semibold text-blue-900">
-                    {formatCurrency(monthlyCosts[monthIdx])}
+                    {formatCurrency(monthlyCosts[monthIdx], currency)}
                   </span>
                 </div>
               </div>
@@ -176,12 +211,32 @@ export function BudgetGrid({ serviceId, service, serviceBudget, monthLabels }: B
               <span className="text-sm font-medium text-gray-700">{getFieldSummary(f.key)}</span>
             </div>
           ))}
+          {/* Tier totals */}
+          {Array.from({ length: tierCount }, (_, t) => (
+            <div key={t} className="h-9 flex items-center justify-end px-3 border-b border-gray-100">
+              <span className="text-[10px] text-gray-400 mr-1.5">Total</span>
+              <span className="text-sm font-medium text-gray-700">
+                {formatCurrency(tierCharges.reduce((sum, month) => sum + (month[t]?.cost ?? 0), 0), currency)}
+              </span>
+            </div>
+          ))}
           {/* Annual total */}
           <div className="h-12 flex items-center justify-end px-3 bg-blue-100">
-            <span className="text-sm font-bold text-blue-900">{formatCurrency(annualTotal)}</span>
+            <span className="text-sm font-bold text-blue-900">{formatCurrency(annualTotal, currency)}</span>
           </div>
         </div>
       </div>
+      {planYears.length > 1 && (
+        <div className="flex flex-wrap gap-x-6 gap-y-1 px-4 py-2 border-t border-gray-200 bg-gray-50 text-xs">
+          {planYears.map((y) => (
+            <span key={y.index} className="text-gray-500">
+              Year {y.index + 1}
+              <span className="text-gray-400"> ({monthLabels[y.start]} &ndash; {monthLabels[y.end - 1]})</span>
+              <span className="ml-1.5 font-semibold text-gray-800">{formatCurrency(yearTotals[y.index], currency)}</span>
+            </span>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
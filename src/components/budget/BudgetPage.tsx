@@ -1,10 +1,12 @@
 import { useState } from 'react';
 import { useAppState } from '../../context/AppContext';
-import { generateMonthLabels } from '../../utils/months';
+import { HORIZON_OPTIONS, generateMonthLabels, getHorizonMonths } from '../../utils/months';
 import { BudgetGrid } from './BudgetGrid';
 import { BudgetAdjustModal } from './BudgetAdjustModal';
 import { Select } from '../shared/Select';
 import { getServiceColor } from '../../utils/serviceColors';
+import { hasTiers } from '../../utils/calculations';
+import { getCurrencySymbol, getServiceCurrency } from '../../utils/currency';
 
 const MONTH_OPTIONS = [
   'January', 'February', 'March', 'April', 'May', 'June',
@@ -22,7 +24,11 @@ export function BudgetPage() {
   );
   const [showAdjust, setShowAdjust] = useState(false);
 
-  const monthLabels = generateMonthLabels(budgetConfig.startMonth, budgetConfig.startYear);
+  const monthLabels = generateMonthLabels(
+    budgetConfig.startMonth,
+    budgetConfig.startYear,
+    getHorizonMonths(budgetConfig)
+  );
 
   const selectedService = services.find((s) => s.id === selectedServiceId);
   const serviceBudget = selectedService ? budgetData[selectedService.id] : null;
@@ -47,7 +53,7 @@ export function BudgetPage() {
       <div className="mb-6">
         <h2 className="text-xl font-semibold text-gray-900">Monthly Budget</h2>
         <p className="text-sm text-gray-500 mt-1">
-          Enter estimates for each service by month. Month 1 values propagate to all months.
+          Enter estimates for each service by month. Month 1 values propagate to all later months.
         </p>
       </div>
 
@@ -78,6 +84,19 @@ export function BudgetPage() {
             }
           />
         </div>
+        <div className="w-32">
+          <label className="block text-xs font-medium text-gray-600 mb-1">Horizon</label>
+          <Select
+            value={String(getHorizonMonths(budgetConfig))}
+            options={HORIZON_OPTIONS.map((n) => ({ value: String(n), label: `${n} months` }))}
+            onChange={(v) =>
+              dispatch({
+                type: 'SET_BUDGET_CONFIG',
+                payload: { ...budgetConfig, horizonMonths: parseInt(v) },
+              })
+            }
+          />
+        </div>
         <div className="w-56">
           <label className="block text-xs font-medium text-gray-600 mb-1">Service</label>
           <Select
@@ -92,7 +111,11 @@ export function BudgetPage() {
             <div className="text-xs text-gray-500">
               Unit: <span className="font-medium text-gray-700">{selectedService.unitType}</span>
               <span className="mx-2 text-gray-300">|</span>
-              Cost/unit: <span className="font-medium text-gray-700">${selectedService.unitCost}</span>
+              Cost/unit: <span className="font-medium text-gray-700">
+                {hasTiers(selectedService)
+                  ? `${selectedService.tiers!.length} tiers`
+                  : `${getCurrencySymbol(getServiceCurrency(selectedService, budgetConfig))}${selectedService.unitCost}`}
+              </span>
             </div>
             <button
               onClick={() => setShowAdjust(true)}
@@ -1,4 +1,5 @@
 import { useRef, useEffect } from 'react';
+import { getBudgetMonthCount } from '../../utils/calculations';
 import type { ServiceBudget, BudgetFieldKey } from '../../types';
 
 interface DraggableFieldChartProps {
@@ -10,6 +11,8 @@ interface DraggableFieldChartProps {
   color: string;
   min?: number;
   formatValue?: (v: number) => string;
+  // Values a pending bulk adjustment would produce, drawn as dashed outlines over the bars
+  previewValues?: number[];
   onValueChange: (monthIndex: number, field: BudgetFieldKey, value: number) => void;
   onCommit: () => void;
 }
@@ -23,11 +26,13 @@ export function DraggableFieldChart({
   color,
   min = 0,
   formatValue,
+  previewValues,
   onValueChange,
   onCommit,
 }: DraggableFieldChartProps) {
-  const values = Array.from({ length: 12 }, (_, m) => serviceBudget[m][field].value);
-  const maxVal = Math.max(...values, 1);
+  const values = Array.from({ length: getBudgetMonthCount(serviceBudget) }, (_, m) => serviceBudget[m][field].value);
+  const multiYear = values.length > 12;
+  const maxVal = Math.max(...values, ...(previewValues ?? []), 1);
   const ceiling = Math.max(maxVal * 1.15, 1);
   const chartHeight = 240;
 
@@ -83,13 +88,16 @@ export function DraggableFieldChart({
     <div>
       <div className="flex items-center justify-between mb-2">
         <div className="text-sm font-semibold text-gray-700">{label}</div>
-        <div className="text-[11px] text-gray-400">Drag bars to adjust &middot; {unit}</div>
+        <div className="text-[11px] text-gray-400">
+          {previewValues ? 'Dashed outline previews the adjustment' : 'Drag bars to adjust'} &middot; {unit}
+        </div>
       </div>
 
       <div className="flex items-end gap-1.5">
         {values.map((val, monthIdx) => {
           const barHeight = Math.max((val / ceiling) * chartHeight, 2);
           const isOverridden = serviceBudget[monthIdx][field].isOverridden && monthIdx > 0;
+          const isClosed = !!serviceBudget[monthIdx].closed;
           return (
             <div key={monthIdx} className="flex-1 flex flex-col items-center">
               {/* Value label */}
@@ -99,9 +107,10 @@ export function DraggableFieldChart({
 
               {/* Draggable bar area */}
               <div
-                className="w-full relative cursor-ns-resize touch-none select-none"
+                className={`w-full relative touch-none select-none ${isClosed ? 'cursor-not-allowed' : 'cursor-ns-resize'}`}
                 style={{ height: chartHeight }}
-                onPointerDown={(e) => handlePointerDown(monthIdx, e)}
+                onPointerDown={(e) => !isClosed && handlePointerDown(monthIdx, e)}
+                title={isClosed ? 'Closed month' : undefined}
               >
                 <div
                   className="absolute bottom-0 left-[12%] right-[12%] rounded-t pointer-events-none"
@@ -109,17 +118,27 @@ export function DraggableFieldChart({
                 >
                   <div
                     className={`w-full h-full rounded-t ${color}`}
-                    style={{ opacity: isOverridden ? 0.75 : 1 }}
+                    style={{ opacity: isClosed ? 0.35 : isOverridden ? 0.75 : 1 }}
                   />
                   {isOverridden && (
                     <div className="absolute top-1 left-1/2 -translate-x-1/2 w-2 h-2 rounded-full bg-amber-400 border border-white" title="Custom override" />
                   )}
                 </div>
+                {previewValues && previewValues[monthIdx] !== val && (
+                  <div
+                    className="absolute bottom-0 left-[12%] right-[12%] rounded-t border-2 border-dashed border-gray-600 pointer-events-none"
+                    style={{ height: Math.min(Math.max((previewValues[monthIdx] / ceiling) * chartHeight, 2), chartHeight) }}
+                    title={fmt(previewValues[monthIdx])}
+                  />
+                )}
               </div>
 
               {/* Month label */}
               <div className="text-[10px] text-gray-500 mt-1 select-none font-medium">
                 {monthLabels[monthIdx].split(' ')[0].slice(0, 3)}
+                {multiYear && (monthIdx === 0 || monthLabels[monthIdx].startsWith('Jan')) && (
+                  <div className="text-[9px] text-gray-400 text-center">&apos;{monthLabels[monthIdx].slice(-2)}</div>
+                )}
               </div>
             </div>
           );
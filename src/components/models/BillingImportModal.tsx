@@ -0,0 +1,343 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useAppState } from '../../context/AppContext';
+import {
+  BILLING_PROVIDERS,
+  aggregateBilling,
+  describeBillingRule,
+  detectBillingProvider,
+  getBillingHeader,
+  parseBillingCsv,
+  type UnmatchedBillingGroup,
+} from '../../utils/billing';
+import { countOverlappingActuals, type ActualsImportMode } from '../../utils/actuals';
+import { CURRENCIES } from '../../utils/currency';
+import { formatNumber } from '../../utils/formatters';
+import { Select } from '../shared/Select';
+import type { BillingMatchRule, BillingProvider } from '../../types';
+
+interface BillingImportModalProps {
+  file: File;
+  onClose: () => void;
+}
+
+const MAX_ERRORS = 5;
+
+const EMPTY_RULE = { serviceId: '', product: '', sku: '', tagKey: '', tagValue: '' };
+
+// Read a cloud billing export, route its line items to services by their billing rules and
+// record the monthly totals as actuals. Everything happens in the browser.
+export function BillingImportModal({ file, onClose }: BillingImportModalProps) {
+  const { activeModel, dispatch } = useAppState();
+  const data = activeModel?.data;
+  const services = data?.services ?? [];
+  const [text, setText] = useState<string | null>(null);
+  const [readError, setReadError] = useState<string | null>(null);
+  const [provider, setProvider] = useState<BillingProvider>('aws');
+  const [detected, setDetected] = useState(true);
+  const [newRule, setNewRule] = useState(EMPTY_RULE);
+  const [mode, setMode] = useState<ActualsImportMode>('replace');
+
+  useEffect(() => {
+    let cancelled = false;
+    file.text().then(
+      (content) => {
+        if (cancelled) return;
+        const found = detectBillingProvider(getBillingHeader(content));
+        if (found) setProvider(found);
+        setDetected(found !== null);
+        setText(content);
+      },
+      () => !cancelled && setReadError('The file could not be read.')
+    );
+    return () => { cancelled = true; };
+  }, [file]);
+
+  // Re-parsed only when the file, format or plan calendar changes, not on every rule edit
+  const budgetConfig = data?.budgetConfig;
+  const parsed = useMemo(
+    () => (text !== null && budgetConfig ? parseBillingCsv(text, provider, budgetConfig) : null),
+    [text, provider, budgetConfig]
+  );
+  const summary = useMemo(
+    () => (parsed && data ? aggregateBilling(data, parsed.items, provider) : null),
+    [parsed, data, provider]
+  );
+
+  if (!data) return null;
+
+  function addRule(serviceId: string, rule: BillingMatchRule) {
+    const service = services.find((s) => s.id === serviceId);
+    if (!service) return;
+    dispatch({ type: 'SET_BILLING_RULES', payload: { serviceId, rules: [...(service.billingRules ?? []), rule] } });
+  }
+
+  function removeRule(serviceId: string, index: number) {
+    const service = services.find((s) => s.id === serviceId);
+    if (!service) return;
+    dispatch({
+      type: 'SET_BILLING_RULES',
+      payload: { serviceId, rules: (service.billingRules ?? []).filter((_, i) => i !== index) },
+    });
+  }
+
+  function handleAddRule() {
+    const rule: BillingMatchRule = { provider };
+    if (newRule.product.trim()) rule.product = newRule.product.trim();
+    if (newRule.sku.trim()) rule.sku = newRule.sku.trim();
+    if (newRule.tagKey.trim()) rule.tagKey = newRule.tagKey.trim();
+    if (newRule.tagKey.trim() && newRule.tagValue.trim()) rule.tagValue = newRule.tagValue.trim();
+    if (!newRule.serviceId || (!rule.product && !rule.sku && !rule.tagKey)) return;
+    addRule(newRule.serviceId, rule);
+    setNewRule({ ...EMPTY_RULE, serviceId: newRule.serviceId });
+  }
+
+  function groupRule(group: UnmatchedBillingGroup): BillingMatchRule {
+    return { provider, product: group.product, ...(group.sku ? { sku: group.sku } : {}) };
+  }
+
+  // New services are priced at the average billed rate, in the export's currency, and seeded with
+  // the average monthly usage, so the plan starts out close to what was billed. Credits or refunds
+  // that leave no positive rate give a zero price to fill in by hand.
+  function handleCreateService(group: UnmatchedBillingGroup) {
+    const months = Math.max(group.months, 1);
+    const hasUsage = group.usage > 0;
+    const rate = hasUsage ? group.cost / group.usage : group.cost / months;
+    dispatch({
+      type: 'ADD_SERVICE',
+      payload: {
+        name: group.sku ? `${group.product} ${group.sku}` : group.product,
+        unitType: hasUsage ? group.usageUnit || 'units' : 'month',
+        unitCost: Number.isFinite(rate) && rate > 0 ? rate : 0,
+        ...(CURRENCIES.includes(group.currency) ? { currency: group.currency } : {}),
+        billingRules: [groupRule(group)],
+        discountEligible: false,
+        defaultEfficiency: 100,
+        defaultOverhead: 0,
+      },
+      seed: { consumption: hasUsage ? group.usage / months : 1, monthlyGrowth: 0 },
+    });
+  }
+
+  function handleImport() {
+    if (!summary || summary.matched.length === 0) return;
+    dispatch({ type: 'IMPORT_ACTUALS', payload: { actuals: summary.actuals, mode } });
+    onClose();
+  }
+
+  const overlapping = summary ? countOverlappingActuals(data.actuals, summary.actuals) : 0;
+  const monthCount = new Set(parsed?.items.filter((i) => i.monthIndex >= 0).map((i) => i.monthIndex)).size;
+  const historyCount = new Set(parsed?.items.filter((i) => i.monthIndex < 0).map((i) => i.monthIndex)).size;
+  const rulesByService = services.filter((s) => (s.billingRules?.length ?? 0) > 0);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-xl w-full max-w-4xl mx-4 max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 pt-5 pb-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Import Billing Export</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            {file.name} &middot; line items are matched to services by their billing rules and summed per month.
+          </p>
+        </div>
+
+        <div className="px-6 py-4 space-y-6 overflow-y-auto">
+          <div className="flex items-center gap-3">
+            <label className="text-xs font-medium text-gray-600">Format</label>
+            <div className="w-72">
+              <Select
+                value={provider}
+                options={BILLING_PROVIDERS}
+                onChange={(v) => setProvider(v as BillingProvider)}
+              />
+            </div>
+            {!detected && text !== null && (
+              <span className="text-xs text-amber-600">Format not recognised from the header; choose it here.</span>
+            )}
+          </div>
+
+          {readError && <p className="text-sm text-red-600">{readError}</p>}
+          {text === null && !readError && <p className="text-sm text-gray-500">Reading file&hellip;</p>}
+
+          {parsed && (
+            <div className="text-sm text-gray-600">
+              {formatNumber(parsed.items.length, 0)} line items across {monthCount} plan {monthCount === 1 ? 'month' : 'months'}
+              {historyCount > 0 && ` and ${historyCount} ${historyCount === 1 ? 'month' : 'months'} of history before the plan`}
+              {parsed.outOfRange > 0 && <span className="text-gray-400"> &middot; {formatNumber(parsed.outOfRange, 0)} outside the plan and its history, skipped</span>}
+              {parsed.errors.length > 0 && (
+                <ul className="mt-1 text-xs text-red-600 list-disc pl-5">
+                  {parsed.errors.slice(0, MAX_ERRORS).map((error) => <li key={error}>{error}</li>)}
+                  {parsed.errors.length > MAX_ERRORS && <li>and {parsed.errors.length - MAX_ERRORS} more</li>}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {summary && summary.matched.length > 0 && (
+            <div>
+              <h3 className="text-sm font-semibold text-gray-700 mb-2">Matched</h3>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="bg-blue-100">
+                    <th className="text-left py-2 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Service</th>
+                    <th className="text-right py-2 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Line Items</th>
+                    <th className="text-right py-2 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Usage</th>
+                    <th className="text-right py-2 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Cost</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {summary.matched.map((m) => {
+                    const service = services.find((s) => s.id === m.serviceId);
+                    return (
+                      <tr key={m.serviceId}>
+                        <td className="py-1.5 px-3 font-medium text-gray-900">{service?.name}</td>
+                        <td className="py-1.5 px-3 text-right text-gray-600">{formatNumber(m.lineItems, 0)}</td>
+                        <td className="py-1.5 px-3 text-right text-gray-600">{formatNumber(m.usage)} {service?.unitType}</td>
+                        <td className="py-1.5 px-3 text-right text-gray-900">{formatNumber(m.cost, 2)}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              {overlapping > 0 && (
+                <div className="mt-2 px-3 py-2 rounded-lg bg-amber-50 text-sm text-amber-800">
+                  <p>
+                    {overlapping} service {overlapping === 1 ? 'month already has' : 'months already have'} actuals recorded.
+                  </p>
+                  <div className="flex items-center gap-4 mt-1 text-xs">
+                    <label className="flex items-center gap-1.5 cursor-pointer">
+                      <input type="radio" name="actuals-mode" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+                      Replace them (re-importing the same export)
+                    </label>
+                    <label className="flex items-center gap-1.5 cursor-pointer">
+                      <input type="radio" name="actuals-mode" checked={mode === 'add'} onChange={() => setMode('add')} />
+                      Add to them (another provider or account)
+                    </label>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {summary && summary.unmatched.length > 0 && (
+            <div>
+              <h3 className="text-sm font-semibold text-gray-700 mb-2">
+                Unmatched <span className="font-normal text-gray-400">(not imported)</span>
+              </h3>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="bg-blue-100">
+                    <th className="text-left py-2 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Product</th>
+                    <th className="text-left py-2 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">SKU</th>
+                    <th className="text-right py-2 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Usage</th>
+                    <th className="text-right py-2 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Cost</th>
+                    <th className="py-2 px-3 w-64"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {summary.unmatched.map((group) => (
+                    <tr key={`${group.product}\u0000${group.sku}`}>
+                      <td className="py-1.5 px-3 text-gray-900">{group.product || <span className="text-gray-400">(none)</span>}</td>
+                      <td className="py-1.5 px-3 text-gray-600 break-all">{group.sku}</td>
+                      <td className="py-1.5 px-3 text-right text-gray-600 whitespace-nowrap">{formatNumber(group.usage)} {group.usageUnit}</td>
+                      <td className="py-1.5 px-3 text-right text-gray-900">{formatNumber(group.cost, 2)}</td>
+                      <td className="py-1.5 px-3">
+                        <div className="flex items-center justify-end gap-2">
+                          {services.length > 0 && (
+                            <div className="w-36">
+                              <Select
+                                value=""
+                                options={services.map((s) => ({ value: s.id, label: s.name }))}
+                                placeholder="Map to…"
+                                onChange={(serviceId) => addRule(serviceId, groupRule(group))}
+                              />
+                            </div>
+                          )}
+                          <button
+                            onClick={() => handleCreateService(group)}
+                            className="text-xs text-blue-600 hover:text-blue-700 font-medium whitespace-nowrap"
+                          >
+                            + Create service
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div>
+            <h3 className="text-sm font-semibold text-gray-700 mb-2">Billing rules</h3>
+            {rulesByService.length === 0 ? (
+              <p className="text-xs text-gray-400 mb-2">No rules yet. Map unmatched items above or add a rule below.</p>
+            ) : (
+              <ul className="space-y-1 mb-3 text-sm">
+                {rulesByService.map((service) => service.billingRules!.map((rule, i) => (
+                  <li key={`${service.id}:${i}`} className="flex items-center gap-2">
+                    <span className="font-medium text-gray-900">{service.name}</span>
+                    <span className="text-gray-400">&larr;</span>
+                    <span className="text-gray-600">{describeBillingRule(rule)}</span>
+                    <button
+                      onClick={() => removeRule(service.id, i)}
+                      title="Remove rule"
+                      className="text-gray-400 hover:text-red-600"
+                    >
+                      &times;
+                    </button>
+                  </li>
+                )))}
+              </ul>
+            )}
+            <div className="flex items-center gap-2">
+              <div className="w-40">
+                <Select
+                  value={newRule.serviceId}
+                  options={services.map((s) => ({ value: s.id, label: s.name }))}
+                  placeholder="Service"
+                  onChange={(serviceId) => setNewRule({ ...newRule, serviceId })}
+                />
+              </div>
+              {(['product', 'sku', 'tagKey', 'tagValue'] as const).map((field) => (
+                <input
+                  key={field}
+                  type="text"
+                  value={newRule[field]}
+                  onChange={(e) => setNewRule({ ...newRule, [field]: e.target.value })}
+                  placeholder={{ product: 'Product code', sku: 'SKU', tagKey: 'Tag key', tagValue: 'Tag value' }[field]}
+                  className="w-28 border border-gray-300 rounded px-2 py-1.5 text-xs focus:outline-none focus:ring-1 focus:ring-blue-500"
+                />
+              ))}
+              <button onClick={handleAddRule} className="text-sm text-blue-600 hover:text-blue-700 font-medium">
+                Add rule
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="px-6 py-3 border-t border-gray-200 flex items-center justify-between gap-2">
+          <p className="text-xs text-gray-400">
+            Costs are recorded as billed, in each service&apos;s currency. Other months keep their recorded actuals.
+          </p>
+          <div className="flex gap-2 shrink-0">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={!summary || summary.matched.length === 0}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              Import actuals
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -10,6 +10,7 @@ interface CompareModalProps {
 
 const FIELD_LABELS: Record<string, string> = {
   consumption: 'Consumption',
+  unitCost: 'Unit Cost',
   efficiency: 'Efficiency %',
   overhead: 'Overhead %',
   discount: 'Discount %',
@@ -56,7 +57,7 @@ export function CompareModal({ onClose }: CompareModalProps) {
     if (diff === 0) return { text: '-', className: 'text-gray-400' };
     const sign = diff > 0 ? '+' : '';
     return {
-      text: `${sign}${formatCurrency(diff)}`,
+      text: `${sign}${formatCurrency(diff, result?.newCurrency)}`,
       className: diff > 0 ? 'text-red-600' : 'text-green-600',
     };
   }
@@ -104,12 +105,12 @@ export function CompareModal({ onClose }: CompareModalProps) {
               <div className="flex items-center gap-6 mb-6 p-4 bg-gray-50 rounded-lg">
                 <div>
                   <div className="text-[10px] text-gray-400 uppercase">{getLabel(leftId)}</div>
-                  <div className="text-lg font-semibold text-gray-700">{formatCurrency(result.oldGrandTotal)}</div>
+                  <div className="text-lg font-semibold text-gray-700">{formatCurrency(result.oldGrandTotal, result.oldCurrency)}</div>
                 </div>
                 <div className="text-gray-300 text-lg">&rarr;</div>
                 <div>
                   <div className="text-[10px] text-gray-400 uppercase">{getLabel(rightId)}</div>
-                  <div className="text-lg font-semibold text-gray-700">{formatCurrency(result.newGrandTotal)}</div>
+                  <div className="text-lg font-semibold text-gray-700">{formatCurrency(result.newGrandTotal, result.newCurrency)}</div>
                 </div>
                 <div className="ml-auto">
                   <div className="text-[10px] text-gray-400 uppercase">Delta</div>
@@ -120,6 +121,45 @@ export function CompareModal({ onClose }: CompareModalProps) {
                 </div>
               </div>
 
+              {result.oldCurrency !== result.newCurrency && (
+                <div className="mb-4 px-3 py-2 text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded">
+                  Reporting currency changed from {result.oldCurrency} to {result.newCurrency}; totals are shown in each snapshot&apos;s own currency.
+                </div>
+              )}
+
+              {result.oldHorizon !== result.newHorizon && (
+                <div className="mb-4 px-3 py-2 text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded">
+                  Budget horizon changed from {result.oldHorizon} to {result.newHorizon} months; totals cover different periods.
+                </div>
+              )}
+
+              {/* Threshold breaches introduced or resolved */}
+              {(result.breachesIntroduced.length > 0 || result.breachesResolved.length > 0) && (
+                <div className="mb-4 grid grid-cols-2 gap-4">
+                  {([
+                    ['Breaches introduced', result.breachesIntroduced, 'text-red-700', result.newCurrency],
+                    ['Breaches resolved', result.breachesResolved, 'text-green-700', result.oldCurrency],
+                  ] as const).map(([title, breaches, color, currency]) => (
+                    <div key={title} className="border border-gray-200 rounded-lg px-3 py-2">
+                      <div className={`text-xs font-semibold mb-1 ${color}`}>{title} ({breaches.length})</div>
+                      {breaches.length === 0 ? (
+                        <div className="text-xs text-gray-400">None</div>
+                      ) : (
+                        <ul className="space-y-0.5">
+                          {breaches.map((b) => (
+                            <li key={`${b.thresholdId}-${b.periodIndex}`} className="text-xs text-gray-700">
+                              <span className="font-medium">{b.scopeName}</span> &middot; {b.periodLabel}:{' '}
+                              {formatCurrency(b.projected, currency)} vs {b.period === 'month' ? 'monthly' : 'annual'} cap{' '}
+                              {formatCurrency(b.cap, currency)}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {/* Per-service diffs */}
               {result.services.filter((s) => s.status !== 'unchanged').length === 0 ? (
                 <div className="text-center text-sm text-gray-400 py-4">No differences found.</div>
@@ -139,9 +179,9 @@ export function CompareModal({ onClose }: CompareModalProps) {
                           </span>
                         </div>
                         <div className="text-xs">
-                          <span className="text-gray-500">{formatCurrency(svc.oldTotalCost)}</span>
+                          <span className="text-gray-500">{formatCurrency(svc.oldTotalCost, result.oldCurrency)}</span>
                           <span className="mx-1.5 text-gray-300">&rarr;</span>
-                          <span className="text-gray-500">{formatCurrency(svc.newTotalCost)}</span>
+                          <span className="text-gray-500">{formatCurrency(svc.newTotalCost, result.newCurrency)}</span>
                           {(() => {
                             const d = formatDelta(svc.oldTotalCost, svc.newTotalCost);
                             return <span className={`ml-2 font-medium ${d.className}`}>{d.text}</span>;
@@ -96,8 +96,8 @@ function OverviewTab() {
       <P>
         Cloud Budgetter is a planning tool for forecasting and managing cloud
         and platform-as-a-service (PaaS) spending. It helps finance teams,
-        cloud architects, and budget owners build detailed 12-month cost
-        projections for every service in their environment.
+        cloud architects, and budget owners build detailed 12-, 24- or 36-month
+        cost projections for every service in their environment.
       </P>
 
       <SubHeading>Key capabilities</SubHeading>
@@ -109,7 +109,7 @@ function OverviewTab() {
         </li>
         <li>
           <strong>Monthly budget grid</strong> &mdash; enter consumption
-          figures for each service across 12 months, with automatic propagation
+          figures for each service across the plan horizon, with automatic propagation
           from month 1 and per-month overrides.
         </li>
         <li>
@@ -181,8 +181,14 @@ function GettingStartedTab() {
       <SubHeading>3. Configure the budget period</SubHeading>
       <P>
         On the <strong>Budget</strong> tab, set the start month and year at
-        the top. This defines the 12-month window your budget covers.
+        the top. This defines the window your budget covers. The horizon is
+        12 months by default; choose 24 or 36 months to plan a multi-year
+        migration, and totals gain a subtotal for each plan year.
       </P>
+      <Tip>
+        Lengthening the horizon extends every service by repeating its last
+        month. Shortening it drops the trailing months.
+      </Tip>
 
       <SubHeading>4. Enter monthly consumption</SubHeading>
       <P>
@@ -239,11 +245,231 @@ function BudgetingTab() {
         The discount factor is only applied when the service is marked as
         discount-eligible.
       </P>
+      <P>
+        Services with <strong>volume tiers</strong> are priced differently:
+        the billed units for the month (consumption adjusted for efficiency
+        and overhead) are split across the tiers in order, each slice is
+        charged at its tier&apos;s unit cost, and the discount is applied to
+        the sum. The Review tab shows the per-tier breakdown.
+      </P>
+      <P>
+        A <strong>free allowance</strong> is subtracted from consumption
+        before efficiency and overhead are applied. Monthly allowances reset
+        every month; yearly allowances are a single pool that is drawn down
+        month by month until it runs out.
+      </P>
+      <P>
+        Unit cost is also a monthly field, so a <strong>scheduled price
+        change</strong> (a negotiated rate cut from July, say) is entered by
+        overriding the unit cost in that month; later months inherit it like
+        any other override. For tiered services the scheduled price replaces
+        the cost of the first paid tier (the first tier when none is free) and
+        the other tiers scale by the same ratio, so free tiers stay free.
+        Changing the price on the service updates every month that has no
+        scheduled price.
+      </P>
+      <P>
+        A model-level <strong>spend commitment</strong> (set on the Summary
+        page) applies a blanket discount to the services that count toward it,
+        on top of any monthly discount. If projected eligible spend falls short
+        of the annual commitment, the difference is shown as a shortfall charge.
+      </P>
+
+      <P>
+        <strong>Business drivers</strong> (Summary &rarr; Drivers) forecast
+        metrics such as active users or orders month by month. A service linked
+        to a driver takes its consumption as a ratio of it, for example 0.4 GB
+        per active user. Editing a driver value updates every linked service
+        using the same month 1 propagation rules as the budget grid.
+      </P>
+
+      <P>
+        Consumption can also be a <strong>formula</strong> over other
+        services: type <code>=0.8 * [S3 GET requests]</code> into a consumption
+        cell on the Edit tab. Service names go in square brackets; numbers,
+        + &minus; &times; &divide;, parentheses, <code>min()</code> and
+        <code>max()</code> are supported. Formula cells recalculate whenever the
+        services they reference change, and circular references and division
+        by zero are rejected. If a formula stops evaluating, for instance
+        because a service it reads was deleted, it keeps its last value and
+        its cell turns red until the formula is fixed. The Review tab shows
+        each formula under its resolved value.
+      </P>
+
+      <P>
+        <strong>Seasonality profiles</strong> (Summary &rarr; Seasonality) hold
+        twelve relative weights, one per calendar month, and are shared by every
+        model. Create one by hand or derive it from a service&apos;s consumption,
+        then apply it to several services at once, or preview and apply it from
+        the Drag tab of a single service. Each service remembers the profile it
+        uses, so switching profiles replaces the old shape instead of stacking.
+      </P>
+
+      <P>
+        <strong>Uncertainty ranges</strong> are optional on each service: enter
+        how far consumption, efficiency or unit cost could fall below or rise
+        above the budgeted value, in percent. The Summary chart then runs a
+        Monte Carlo simulation in the background and draws the P10&ndash;P90
+        band around the total with a dashed P50 line. The Excel export adds a
+        Risk sheet with the percentiles for each service.
+      </P>
+
+      <P>
+        The <strong>Sensitivity</strong> tab moves each service&apos;s
+        consumption, unit cost, efficiency, overhead and discount by &plusmn;
+        the chosen percentage, one at a time, and ranks them by how far the
+        total swings. The tornado chart shows the largest swings; tick
+        &ldquo;Include ranking in Excel export&rdquo; to add the full ranking
+        as a Sensitivity sheet.
+      </P>
+
+      <P>
+        <strong>Goal seek</strong> works backward from a target: enter the total
+        you have been given for the whole model or one service, then choose
+        whether to reach it by reducing consumption uniformly, improving
+        efficiency, or applying a discount. The required change is previewed
+        before anything is applied, and an Undo link on the Summary reverts it
+        in one step. The undo is kept with the model until you dismiss it or
+        run another goal seek; values you have edited since are left as they
+        are.
+      </P>
+
+      <P>
+        <strong>Targets</strong> (Summary &rarr; Targets) record the top-down
+        allocation you were given, month by month, for the whole model, one
+        service or a group of services. Each target is reconciled against the
+        bottom-up estimate: the gap is shown per month, months over any target
+        are shaded on the Forecast chart, and the model target is drawn as a
+        dashed red line. The Excel export adds a Targets sheet.
+      </P>
+
+      <P>
+        <strong>Thresholds</strong> (Summary &rarr; Alerts) are spend caps for
+        the whole model or a single service, either per month or per plan year;
+        a partial final year gets the yearly cap pro rata. Whenever an edit pushes the projection over a cap, a warning appears in
+        the corner without interrupting your work, and the Alerts tab lists
+        every breach by period and service. Comparing versions also shows which
+        breaches a version introduced or resolved.
+      </P>
+
+      <P>
+        <strong>Cost centers</strong> (Summary &rarr; Cost Centers) are the
+        teams that share your services. Give each service a default split, such
+        as 60% Payments and 40% Search, and override it in any month where it
+        differs. The showback table charges every month&apos;s cost by that
+        month&apos;s split; anything not assigned is shown as unallocated.
+        Shared costs spread by allocation rules are charged through the
+        services that receive them, so teams see their full share. The
+        Excel export adds a Showback sheet.
+      </P>
+
+      <P>
+        <strong>Allocations</strong> (Summary &rarr; Allocations) spread a
+        shared service, such as logging or support, onto the services that use
+        it: in proportion to their cost, to a driver, or by a fixed split. The
+        table shows each service&apos;s direct and fully-allocated cost, and
+        lists where every received amount came from. Shared services can feed
+        each other in a chain, but not in a loop. The Excel export adds an
+        Allocations sheet.
+      </P>
+
+      <P>
+        <strong>Categories</strong> keep long service lists readable. Give a
+        service a category such as Compute, Storage or SaaS, and nest
+        subcategories with a slash (&ldquo;Compute / Containers&rdquo;). The
+        services list, the annual and monthly summaries and the Executive
+        Summary sheet then group services under collapsible category rows with
+        subtotals, and the chart stacks one area per top-level category.
+      </P>
+
+      <P>
+        <strong>Actuals</strong> (Summary &rarr; Actuals) record what each
+        service really cost, in its own currency. Type them in month by month
+        or import a CSV with Service, Month and Cost columns (Usage is
+        optional); months are written like 2025-03 or Mar 2025. Months up to
+        three years before the plan starts are kept as usage history for
+        forecasting and are not compared with the plan. A month counts
+        as closed once any service has an actual, and plan versus actual is
+        compared over the closed months. The chart draws actuals as an orange
+        line over the plan, and the Excel export adds a Variance sheet.
+      </P>
+
+      <P>
+        <strong>Billing exports</strong> from AWS (Cost and Usage Report), Azure
+        (cost management export) and GCP (billing CSV) load through the same
+        Import button as model archives: pick the CSV and the format is
+        recognised from its header. Each service&apos;s billing rules claim the
+        line items that belong to it by product code, SKU or tag, and matched
+        cost and usage are summed per month into actuals. Unmatched line items
+        are listed so you can map them to a service or create a new one from
+        them, priced in the export&apos;s currency. When months already have
+        actuals, choose whether the import replaces them or adds to them, for
+        example when a second provider bills the same service. The file is
+        read in your browser and never uploaded.
+      </P>
+
+      <P>
+        <strong>Forecasting</strong> projects a service&apos;s consumption from
+        the usage recorded in its actuals, in the plan or before it starts, so
+        importing last year&apos;s usage into a new plan forecasts the whole
+        horizon. Once a service has three or more
+        months of usage, choose Forecast usage on the Actuals tab to compare
+        linear regression, Holt trend smoothing and a moving average. Each
+        method is fitted to the history and scored by MAPE and RMSE, and the
+        best fit is preselected. Seasonal Holt-Winters is offered once there
+        are 24 months of history. Recorded usage is in billed units, so
+        applying a forecast removes each month&apos;s efficiency and overhead
+        and writes the plan months after the history as consumption overrides.
+      </P>
+
+      <P>
+        A <strong>rolling forecast</strong> starts from the Actuals tab: Close month locks
+        the next month of the plan: each service is costed at its recorded
+        actual, recorded usage (net of efficiency and overhead) replaces
+        planned consumption, and the month can no longer be edited. A service
+        with no recorded spend is counted at its planned cost until actuals
+        arrive, and the close confirmation names it. Later corrections to its
+        actuals still flow through. Closing the last month of a plan year rolls
+        the plan window forward a year: the closed year leaves the plan and its
+        actuals are kept as usage history, later years move up, and a new year
+        is added at the end, repeating the last month like a horizon extension.
+        A rolled year cannot be reopened. The open months keep the plan, so
+        the Summary shows actuals to date plus the plan for the rest of the
+        year. The first close keeps the plan as the original budget, and the
+        landing table compares it with the latest forecast and the actuals so
+        far. Re-baseline makes the latest forecast the new original budget, and
+        Reopen unlocks the last closed month.
+      </P>
+
+      <P>
+        A <strong>price catalog</strong> is a JSON file of list prices, each
+        entry with a provider, service, SKU, region, unit type, price and free
+        tier. Import it from the Services tab; it is shared by every model in
+        the workspace. The Add Service form can then search the catalog and
+        fill the name, unit type, unit cost, currency, discount eligibility and
+        free tier from an entry, remembering its SKU. An entry without a free
+        tier clears any allowance already set, and an entry priced in a
+        currency the model does not support is refused. When a refreshed catalog changes a
+        linked SKU&apos;s price, or drops the SKU, the Services tab lists the
+        service so you can take the new price or keep your own.
+      </P>
+
+      <P>
+        <strong>Service templates</strong> save services you set up in every
+        model. The bookmark button on a Services tab row saves the service and
+        its first year of consumption to a library shared by the workspace.
+        The profile is kept by calendar month, so a model starting in another
+        month gets the same seasons; a commitment is saved to start with the
+        service. When adding a service, on the Services tab or the Summary,
+        &ldquo;Start from template&rdquo; fills the form and seeds consumption
+        from that profile. Templates manages the library: rename or delete templates, and
+        export or import it as a file to share with another workspace.
+      </P>
 
       <SubHeading>Month 1 propagation</SubHeading>
       <P>
-        The value you enter in month 1 for any field (consumption, efficiency,
-        overhead, discount) is automatically copied to months 2-12. This
+        The value you enter in month 1 for any field (consumption, unit cost,
+        efficiency, overhead, discount) is automatically copied to every later month. This
         makes it fast to set a flat baseline. If you need a different value in
         a specific month, just edit that cell &mdash; it becomes a custom
         override and stops inheriting from month 1.
@@ -4,6 +4,7 @@ import { exportModel, importModel } from '../../utils/dataIO';
 import { ConfirmModal } from '../shared/ConfirmModal';
 import { CompareModal } from './CompareModal';
 import { ImportConflictModal } from './ImportConflictModal';
+import { BillingImportModal } from './BillingImportModal';
 import { HelpModal } from './HelpModal';
 import type { BudgetModel } from '../../types';
 
@@ -38,6 +39,7 @@ export function ModelManager() {
   const [importError, setImportError] = useState<string | null>(null);
   const [pendingConfirm, setPendingConfirm] = useState<PendingConfirm | null>(null);
   const [pendingConflict, setPendingConflict] = useState<PendingConflict | null>(null);
+  const [billingFile, setBillingFile] = useState<File | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   function handleCreateModel() {
@@ -93,6 +95,18 @@ export function ModelManager() {
   async function handleImport(e: React.ChangeEvent<HTMLInputElement>) {
     const file = e.target.files?.[0];
     if (!file) return;
+    // CSV files are cloud billing exports, read into the active model's actuals
+    if (/\.csv$/i.test(file.name)) {
+      if (activeModel) {
+        setBillingFile(file);
+        setShowPanel(false);
+        setImportError(null);
+      } else {
+        setImportError('Open a model before importing a billing export.');
+      }
+      e.target.value = '';
+      return;
+    }
     try {
       const model = await importModel(file);
       const existing = state.models.find((m) => m.id === model.id);
@@ -416,7 +430,7 @@ export function ModelManager() {
         </>
       )}
 
-      <input ref={fileInputRef} type="file" accept=".zip" onChange={handleImport} className="hidden" />
+      <input ref={fileInputRef} type="file" accept=".zip,.csv" onChange={handleImport} className="hidden" />
 
       {pendingConfirm && (
         <ConfirmModal
@@ -440,6 +454,10 @@ export function ModelManager() {
         />
       )}
 
+      {billingFile && (
+        <BillingImportModal file={billingFile} onClose={() => setBillingFile(null)} />
+      )}
+
       {showCompare && (
         <CompareModal onClose={() => setShowCompare(false)} />
       )}
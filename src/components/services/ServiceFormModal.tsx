@@ -1,11 +1,47 @@
 import { useState, useEffect } from 'react';
-import type { Service } from '../../types';
+import { useAppState } from '../../context/AppContext';
+import { getReferenceTierPrice } from '../../utils/calculations';
+import { CURRENCIES, getCurrencySymbol, getReportingCurrency } from '../../utils/currency';
+import { getDrivers } from '../../utils/drivers';
+import { formatCategoryPath, getCategoryOptions, parseCategoryPath } from '../../utils/categories';
+import { describeCatalogEntry, getPriceCatalog, searchCatalog, toCatalogRef } from '../../utils/catalog';
+import { formatCurrency, formatNumber } from '../../utils/formatters';
+import { getHorizonMonths } from '../../utils/months';
+import { getSeasonalityProfiles } from '../../utils/seasonality';
+import { expandTemplateConsumption, getServiceTemplates } from '../../utils/templates';
+import type {
+  Allowance,
+  CatalogEntry,
+  CatalogRef,
+  Commitment,
+  DriverLink,
+  PriceTier,
+  Service,
+  ServiceTemplate,
+  UncertainFieldKey,
+  UncertaintyRange,
+} from '../../types';
 
 export interface InitialBudgetSeed {
   consumption: number;
   monthlyGrowth: number;
+  // Month-by-month consumption from a template, replacing the linear ramp
+  profile?: number[];
 }
 
+interface TierInput {
+  upTo: string;
+  unitCost: string;
+}
+
+type RangeInputs = Record<UncertainFieldKey, { low: string; high: string }>;
+
+const UNCERTAINTY_FIELDS: { key: UncertainFieldKey; label: string }[] = [
+  { key: 'consumption', label: 'Consumption' },
+  { key: 'efficiency', label: 'Efficiency' },
+  { key: 'unitCost', label: 'Unit cost' },
+];
+
 interface ServiceFormModalProps {
   service: Service | null;
   onSave: (data: Omit<Service, 'id' | 'createdAt'>, seed?: InitialBudgetSeed) => void;
@@ -13,7 +49,15 @@ interface ServiceFormModalProps {
 }
 
 export function ServiceFormModal({ service, onSave, onClose }: ServiceFormModalProps) {
+  const { state, activeModel } = useAppState();
+  const catalog = getPriceCatalog(state);
+  const templates = getServiceTemplates(state);
+  const reportingCurrency = activeModel ? getReportingCurrency(activeModel.data.budgetConfig) : 'USD';
+  const drivers = activeModel ? getDrivers(activeModel.data) : [];
+  const categoryOptions = getCategoryOptions(activeModel?.data.services ?? []);
   const [name, setName] = useState('');
+  const [category, setCategory] = useState('');
+  const [currency, setCurrency] = useState(reportingCurrency);
   const [unitType, setUnitType] = useState('');
   const [unitCost, setUnitCost] = useState('');
   const [discountEligible, setDiscountEligible] = useState(false);
@@ -21,42 +65,257 @@ export function ServiceFormModal({ service, onSave, onClose }: ServiceFormModalP
   const [defaultOverhead, setDefaultOverhead] = useState('10');
   const [initialConsumption, setInitialConsumption] = useState('');
   const [monthlyGrowth, setMonthlyGrowth] = useState('0');
+  const [tiered, setTiered] = useState(false);
+  const [tierInputs, setTierInputs] = useState<TierInput[]>([
+    { upTo: '', unitCost: '' },
+    { upTo: '', unitCost: '' },
+  ]);
+  const [tierError, setTierError] = useState<string | null>(null);
+  const [allowanceUnits, setAllowanceUnits] = useState('');
+  const [allowancePeriod, setAllowancePeriod] = useState<Allowance['period']>('month');
+  const [hasCommitment, setHasCommitment] = useState(false);
+  const [commitTerm, setCommitTerm] = useState('12');
+  const [commitStart, setCommitStart] = useState('1');
+  const [commitUpfront, setCommitUpfront] = useState('0');
+  const [commitHourly, setCommitHourly] = useState('0');
+  const [commitCovered, setCommitCovered] = useState('');
+  const [driverId, setDriverId] = useState('');
+  const [driverRatio, setDriverRatio] = useState('');
+  const [catalogQuery, setCatalogQuery] = useState('');
+  const [catalogError, setCatalogError] = useState<string | null>(null);
+  const [catalogRef, setCatalogRef] = useState<CatalogRef | undefined>(undefined);
+  const [template, setTemplate] = useState<ServiceTemplate | null>(null);
+  const [rangeInputs, setRangeInputs] = useState<RangeInputs>({
+    consumption: { low: '', high: '' },
+    efficiency: { low: '', high: '' },
+    unitCost: { low: '', high: '' },
+  });
 
   useEffect(() => {
     if (service) {
       setName(service.name);
+      setCategory(formatCategoryPath(service.category));
       setUnitType(service.unitType);
       setUnitCost(String(service.unitCost));
+      setCurrency(service.currency ?? reportingCurrency);
+      if (service.allowance) {
+        setAllowanceUnits(String(service.allowance.units));
+        setAllowancePeriod(service.allowance.period);
+      }
+      if (service.driver) {
+        setDriverId(service.driver.driverId);
+        setDriverRatio(String(service.driver.ratio));
+      }
+      if (service.uncertainty) {
+        const u = service.uncertainty;
+        setRangeInputs({
+          consumption: { low: String(u.consumption?.low ?? ''), high: String(u.consumption?.high ?? '') },
+          efficiency: { low: String(u.efficiency?.low ?? ''), high: String(u.efficiency?.high ?? '') },
+          unitCost: { low: String(u.unitCost?.low ?? ''), high: String(u.unitCost?.high ?? '') },
+        });
+      }
+      if (service.commitment) {
+        setHasCommitment(true);
+        setCommitTerm(String(service.commitment.termMonths));
+        setCommitStart(String(service.commitment.startMonth + 1));
+        setCommitUpfront(String(service.commitment.upfrontFee));
+        setCommitHourly(String(service.commitment.hourlyCommit));
+        setCommitCovered(String(service.commitment.coveredUnits));
+      }
+      if (service.tiers && service.tiers.length > 0) {
+        setTiered(true);
+        setTierInputs(service.tiers.map((t) => ({
+          upTo: t.upTo === null ? '' : String(t.upTo),
+          unitCost: String(t.unitCost),
+        })));
+      }
       setDiscountEligible(service.discountEligible);
+      setCatalogRef(service.catalogRef);
       setDefaultEfficiency(String(service.defaultEfficiency));
       setDefaultOverhead(String(service.defaultOverhead));
     }
-  }, [service]);
+  }, [service, reportingCurrency]);
+
+  const catalogResults = searchCatalog(catalog, catalogQuery);
+
+  // Fill the pricing fields from a catalog entry and link the service to its SKU
+  function applyCatalogEntry(entry: CatalogEntry) {
+    // Entering the price under another currency would misstate it
+    if (!CURRENCIES.includes(entry.currency)) {
+      setCatalogError(`${entry.service} is priced in ${entry.currency}, which is not a supported currency.`);
+      return;
+    }
+    setCatalogError(null);
+    setName(entry.service);
+    setUnitType(entry.unitType);
+    setUnitCost(String(entry.price));
+    setTiered(false);
+    setCurrency(entry.currency);
+    if (entry.discountEligible !== undefined) setDiscountEligible(entry.discountEligible);
+    setAllowanceUnits(entry.freeTier ? String(entry.freeTier) : '');
+    setAllowancePeriod('month');
+    setCatalogRef(toCatalogRef(entry));
+    setCatalogQuery('');
+  }
+
+  // Fill the whole form from a template; its consumption profile seeds the budget
+  function applyTemplate(templateId: string) {
+    const t = templates.find((x) => x.id === templateId) ?? null;
+    setTemplate(t);
+    if (!t) return;
+    const def = t.service;
+    setName(def.name);
+    setCategory(formatCategoryPath(def.category));
+    setUnitType(def.unitType);
+    setUnitCost(String(def.unitCost));
+    setCurrency(def.currency ?? reportingCurrency);
+    setDiscountEligible(def.discountEligible);
+    setDefaultEfficiency(String(def.defaultEfficiency));
+    setDefaultOverhead(String(def.defaultOverhead));
+    setAllowanceUnits(def.allowance ? String(def.allowance.units) : '');
+    setAllowancePeriod(def.allowance?.period ?? 'month');
+    setTiered(!!def.tiers && def.tiers.length > 0);
+    if (def.tiers && def.tiers.length > 0) {
+      setTierInputs(def.tiers.map((tier) => ({
+        upTo: tier.upTo === null ? '' : String(tier.upTo),
+        unitCost: String(tier.unitCost),
+      })));
+    }
+    setHasCommitment(!!def.commitment);
+    if (def.commitment) {
+      setCommitTerm(String(def.commitment.termMonths));
+      setCommitStart('1');
+      setCommitUpfront(String(def.commitment.upfrontFee));
+      setCommitHourly(String(def.commitment.hourlyCommit));
+      setCommitCovered(String(def.commitment.coveredUnits));
+    }
+    const u = def.uncertainty;
+    setRangeInputs({
+      consumption: { low: String(u?.consumption?.low ?? ''), high: String(u?.consumption?.high ?? '') },
+      efficiency: { low: String(u?.efficiency?.low ?? ''), high: String(u?.efficiency?.high ?? '') },
+      unitCost: { low: String(u?.unitCost?.low ?? ''), high: String(u?.unitCost?.high ?? '') },
+    });
+    setCatalogRef(def.catalogRef);
+  }
 
   const unitCostChanged = service != null && unitCost !== '' && parseFloat(unitCost) !== service.unitCost;
 
+  function updateTierInput(index: number, patch: Partial<TierInput>) {
+    setTierInputs((prev) => prev.map((t, i) => (i === index ? { ...t, ...patch } : t)));
+    setTierError(null);
+  }
+
+  // Returns null and sets an error message when the tier table is inconsistent
+  function parseTiers(): PriceTier[] | null {
+    const parsed: PriceTier[] = [];
+    let previousBound = 0;
+    for (let i = 0; i < tierInputs.length; i++) {
+      const isLast = i === tierInputs.length - 1;
+      const tierCost = parseFloat(tierInputs[i].unitCost);
+      if (isNaN(tierCost) || tierCost < 0) {
+        setTierError(`Tier ${i + 1} needs a unit cost of 0 or more.`);
+        return null;
+      }
+      if (isLast) {
+        parsed.push({ upTo: null, unitCost: tierCost });
+        break;
+      }
+      const upTo = parseFloat(tierInputs[i].upTo);
+      if (isNaN(upTo) || upTo <= previousBound) {
+        setTierError(`Tier ${i + 1} upper bound must be greater than ${previousBound.toLocaleString()}.`);
+        return null;
+      }
+      parsed.push({ upTo, unitCost: tierCost });
+      previousBound = upTo;
+    }
+    return parsed;
+  }
+
   function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
-    const cost = parseFloat(unitCost);
+    const tiers = tiered ? parseTiers() : undefined;
+    if (tiered && !tiers) return;
+    const cost = tiers ? getReferenceTierPrice(tiers) : parseFloat(unitCost);
     const efficiency = parseFloat(defaultEfficiency);
     const overhead = parseFloat(defaultOverhead);
 
-    if (!name.trim() || isNaN(cost) || cost <= 0) return;
+    if (!name.trim() || isNaN(cost) || (!tiers && cost <= 0)) return;
     if (isNaN(efficiency) || efficiency < 1 || efficiency > 100) return;
     if (isNaN(overhead) || overhead < 0) return;
 
+    let commitment: Commitment | undefined;
+    if (hasCommitment) {
+      commitment = {
+        termMonths: parseInt(commitTerm),
+        startMonth: parseInt(commitStart) - 1,
+        upfrontFee: parseFloat(commitUpfront) || 0,
+        hourlyCommit: parseFloat(commitHourly) || 0,
+        coveredUnits: parseFloat(commitCovered) || 0,
+      };
+      if (isNaN(commitment.termMonths) || commitment.termMonths < 1) return;
+      if (isNaN(commitment.startMonth) || commitment.startMonth < 0) return;
+      if (commitment.upfrontFee < 0 || commitment.hourlyCommit < 0 || commitment.coveredUnits < 0) return;
+    }
+
+    const freeUnits = parseFloat(allowanceUnits);
+    if (!isNaN(freeUnits) && freeUnits < 0) return;
+    const allowance: Allowance | undefined =
+      freeUnits > 0 ? { units: freeUnits, period: allowancePeriod } : undefined;
+
+    const uncertainty: Partial<Record<UncertainFieldKey, UncertaintyRange>> = {};
+    for (const { key } of UNCERTAINTY_FIELDS) {
+      const low = parseFloat(rangeInputs[key].low) || 0;
+      const high = parseFloat(rangeInputs[key].high) || 0;
+      if (low < 0 || low >= 100 || high < 0) return;
+      if (low > 0 || high > 0) uncertainty[key] = { low, high };
+    }
+
+    let driver: DriverLink | undefined;
+    if (driverId) {
+      const ratio = parseFloat(driverRatio);
+      if (isNaN(ratio) || ratio < 0) return;
+      driver = { driverId, ratio };
+    }
+
     const consumption = parseFloat(initialConsumption) || 0;
     const growth = parseFloat(monthlyGrowth) || 0;
 
+    const profile = template && activeModel
+      ? expandTemplateConsumption(
+          template, getHorizonMonths(activeModel.data.budgetConfig), activeModel.data.budgetConfig.startMonth
+        )
+      : undefined;
     const seed: InitialBudgetSeed | undefined =
-      !service && consumption > 0
-        ? { consumption, monthlyGrowth: growth }
-        : undefined;
+      service || driver
+        ? undefined
+        : profile
+          ? { consumption: profile[0] ?? 0, monthlyGrowth: 0, profile }
+          : consumption > 0
+            ? { consumption, monthlyGrowth: growth }
+            : undefined;
+    // Settings the form does not edit come along from the template
+    const fromTemplate: Partial<Service> = template
+      ? {
+          billingRules: template.service.billingRules,
+          seasonalityProfileId: getSeasonalityProfiles(state).some((p) => p.id === template.service.seasonalityProfileId)
+            ? template.service.seasonalityProfileId
+            : undefined,
+        }
+      : {};
 
     onSave({
+      ...fromTemplate,
       name: name.trim(),
+      category: parseCategoryPath(category),
       unitType: unitType.trim(),
       unitCost: cost,
+      tiers: tiers ?? undefined,
+      currency,
+      commitment,
+      allowance,
+      driver,
+      uncertainty: Object.keys(uncertainty).length > 0 ? uncertainty : undefined,
+      catalogRef,
       discountEligible,
       defaultEfficiency: efficiency,
       defaultOverhead: overhead,
@@ -66,13 +325,83 @@ export function ServiceFormModal({ service, onSave, onClose }: ServiceFormModalP
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={onClose}>
       <div
-        className="bg-white rounded-lg shadow-xl w-full max-w-md mx-4 p-6"
+        className="bg-white rounded-lg shadow-xl w-full max-w-md mx-4 p-6 max-h-[90vh] overflow-y-auto"
         onClick={(e) => e.stopPropagation()}
       >
         <h2 className="text-lg font-semibold text-gray-900 mb-4">
           {service ? 'Edit Service' : 'Add Service'}
         </h2>
         <form onSubmit={handleSubmit} className="space-y-4">
+          {!service && templates.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Start from template</label>
+              <select
+                value={template?.id ?? ''}
+                onChange={(e) => applyTemplate(e.target.value)}
+                className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">None (blank service)</option>
+                {templates.map((t) => (
+                  <option key={t.id} value={t.id}>{t.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          {catalog && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">From price catalog</label>
+              <input
+                type="search"
+                value={catalogQuery}
+                onChange={(e) => {
+                  setCatalogQuery(e.target.value);
+                  setCatalogError(null);
+                }}
+                className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder={`Search ${formatNumber(catalog.entries.length, 0)} prices by service, SKU or region`}
+              />
+              {catalogQuery.trim() && (
+                <ul className="mt-1 max-h-48 overflow-y-auto border border-gray-200 rounded-md divide-y divide-gray-100">
+                  {catalogResults.length === 0 && <li className="px-3 py-2 text-xs text-gray-400">No matching prices.</li>}
+                  {catalogResults.map((entry) => (
+                    <li key={`${entry.provider}:${entry.sku}:${entry.region ?? ''}`}>
+                      <button
+                        type="button"
+                        onClick={() => applyCatalogEntry(entry)}
+                        className="w-full text-left px-3 py-1.5 hover:bg-blue-50"
+                      >
+                        <div className="flex justify-between gap-2 text-sm">
+                          <span className="text-gray-900 truncate">{entry.service}</span>
+                          <span className="text-gray-700 tabular-nums shrink-0">
+                            {formatCurrency(entry.price, entry.currency)} / {entry.unitType}
+                          </span>
+                        </div>
+                        <div className="text-[11px] text-gray-400">
+                          {describeCatalogEntry(entry)}
+                          {entry.freeTier && ` · ${formatNumber(entry.freeTier, 0)} free per month`}
+                        </div>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {catalogError && <p className="text-xs text-red-600 mt-1">{catalogError}</p>}
+              {catalogRef && (
+                <p className="flex items-center justify-between text-xs text-gray-500 mt-1">
+                  <span>
+                    Linked to {describeCatalogEntry(catalogRef)} at {formatCurrency(catalogRef.price, currency)}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => setCatalogRef(undefined)}
+                    className="text-blue-600 hover:text-blue-800 font-medium"
+                  >
+                    Unlink
+                  </button>
+                </p>
+              )}
+            </div>
+          )}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">Service Name</label>
             <input
@@ -84,6 +413,21 @@ export function ServiceFormModal({ service, onSave, onClose }: ServiceFormModalP
               required
             />
           </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+            <input
+              type="text"
+              list="service-category-options"
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              placeholder="e.g. Compute / Containers"
+            />
+            <datalist id="service-category-options">
+              {categoryOptions.map((option) => <option key={option} value={option} />)}
+            </datalist>
+            <p className="text-xs text-gray-400 mt-1">Separate subcategories with &ldquo;/&rdquo;.</p>
+          </div>
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">Unit Type</label>
             <input
@@ -94,32 +438,119 @@ export function ServiceFormModal({ service, onSave, onClose }: ServiceFormModalP
               placeholder="e.g. million invocations, GB storage"
             />
           </div>
-          <div>
-            <div className="flex items-center justify-between mb-1">
-              <label className="block text-sm font-medium text-gray-700">Unit Cost ($)</label>
-              {unitCostChanged && (
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <label className="block text-sm font-medium text-gray-700">Pricing</label>
+              <select
+                value={currency}
+                onChange={(e) => setCurrency(e.target.value)}
+                title="Billing currency"
+                className="border border-gray-300 rounded px-1.5 py-1 text-xs bg-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+              >
+                {CURRENCIES.map((c) => (
+                  <option key={c} value={c}>{c}</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex gap-1 bg-gray-100 rounded-md p-0.5">
+              {([[false, 'Flat'], [true, 'Volume tiers']] as const).map(([value, label]) => (
                 <button
+                  key={label}
                   type="button"
-                  onClick={() => setUnitCost(String(service.unitCost))}
-                  className="text-xs text-blue-600 hover:text-blue-800 font-medium"
+                  onClick={() => { setTiered(value); setTierError(null); }}
+                  className={`px-2.5 py-1 text-xs font-medium rounded transition-colors ${
+                    tiered === value ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+                  }`}
                 >
-                  Undo (was ${service.unitCost})
+                  {label}
                 </button>
-              )}
+              ))}
             </div>
-            <input
-              type="number"
-              value={unitCost}
-              onChange={(e) => setUnitCost(e.target.value)}
-              className={`w-full border rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
-                unitCostChanged ? 'border-amber-400 bg-amber-50' : 'border-gray-300'
-              }`}
-              placeholder="0.00"
-              step="any"
-              min="0"
-              required
-            />
           </div>
+          {tiered ? (
+            <div>
+              <div className="grid grid-cols-[1fr_1fr_auto] gap-2 mb-1 text-xs font-medium text-gray-500">
+                <span>Up to (units / month)</span>
+                <span>Unit Cost ({getCurrencySymbol(currency)})</span>
+                <span className="w-6" />
+              </div>
+              <div className="space-y-2">
+                {tierInputs.map((tier, i) => {
+                  const isLast = i === tierInputs.length - 1;
+                  return (
+                    <div key={i} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-center">
+                      <input
+                        type="number"
+                        value={isLast ? '' : tier.upTo}
+                        onChange={(e) => updateTierInput(i, { upTo: e.target.value })}
+                        disabled={isLast}
+                        className="w-full border border-gray-300 rounded-md px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50 disabled:text-gray-400"
+                        placeholder={isLast ? 'No limit' : '0'}
+                        step="any"
+                        min="0"
+                      />
+                      <input
+                        type="number"
+                        value={tier.unitCost}
+                        onChange={(e) => updateTierInput(i, { unitCost: e.target.value })}
+                        className="w-full border border-gray-300 rounded-md px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        placeholder="0.00"
+                        step="any"
+                        min="0"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setTierInputs((prev) => prev.filter((_, idx) => idx !== i))}
+                        disabled={tierInputs.length <= 1}
+                        title="Remove tier"
+                        className="w-6 h-6 flex items-center justify-center rounded text-gray-400 hover:text-red-600 hover:bg-red-50 disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-gray-400"
+                      >
+                        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+              <div className="flex items-center justify-between mt-2">
+                <button
+                  type="button"
+                  onClick={() => setTierInputs((prev) => [...prev, { upTo: '', unitCost: '' }])}
+                  className="text-xs text-blue-600 hover:text-blue-800 font-medium"
+                >
+                  + Add tier
+                </button>
+                <p className="text-[11px] text-gray-400">Tiers apply to billed units each month</p>
+              </div>
+              {tierError && <p className="text-xs text-red-600 mt-1">{tierError}</p>}
+            </div>
+          ) : (
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <label className="block text-sm font-medium text-gray-700">Unit Cost ({getCurrencySymbol(currency)})</label>
+                {unitCostChanged && (
+                  <button
+                    type="button"
+                    onClick={() => setUnitCost(String(service.unitCost))}
+                    className="text-xs text-blue-600 hover:text-blue-800 font-medium"
+                  >
+                    Undo (was {getCurrencySymbol(currency)}{service.unitCost})
+                  </button>
+                )}
+              </div>
+              <input
+                type="number"
+                value={unitCost}
+                onChange={(e) => setUnitCost(e.target.value)}
+                className={`w-full border rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+                  unitCostChanged ? 'border-amber-400 bg-amber-50' : 'border-gray-300'
+                }`}
+                placeholder="0.00"
+                step="any"
+                min="0"
+                required
+              />
+            </div>
+          )}
           <div className="grid grid-cols-2 gap-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Default Efficiency %</label>
@@ -143,36 +574,81 @@ export function ServiceFormModal({ service, onSave, onClose }: ServiceFormModalP
               />
             </div>
           </div>
-          {!service && (
+          {drivers.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Consumption driver</label>
+              <div className="flex gap-2">
+                <select
+                  value={driverId}
+                  onChange={(e) => setDriverId(e.target.value)}
+                  className="flex-1 border border-gray-300 rounded-md px-3 py-2 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">None (enter consumption directly)</option>
+                  {drivers.map((d) => (
+                    <option key={d.id} value={d.id}>{d.name}</option>
+                  ))}
+                </select>
+                {driverId && (
+                  <input
+                    type="number"
+                    value={driverRatio}
+                    onChange={(e) => setDriverRatio(e.target.value)}
+                    className="w-28 border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="Ratio"
+                    step="any"
+                    min="0"
+                    required
+                  />
+                )}
+              </div>
+              {driverId && (
+                <p className="text-[11px] text-gray-400 mt-1">
+                  {unitType || 'Units'} per {drivers.find((d) => d.id === driverId)?.unit || 'driver unit'}.
+                  Monthly consumption is recalculated whenever the driver changes.
+                </p>
+              )}
+            </div>
+          )}
+          {!service && !driverId && (
             <>
               <div className="border-t border-gray-200 pt-4 mt-2">
                 <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-3">Initial Budget Seed</p>
-                <div className="grid grid-cols-2 gap-4">
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">First Month Consumption</label>
-                    <input
-                      type="number"
-                      value={initialConsumption}
-                      onChange={(e) => setInitialConsumption(e.target.value)}
-                      className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                      placeholder="0"
-                      step="any"
-                      min="0"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">Monthly Growth</label>
-                    <input
-                      type="number"
-                      value={monthlyGrowth}
-                      onChange={(e) => setMonthlyGrowth(e.target.value)}
-                      className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                      placeholder="0"
-                      step="any"
-                    />
-                    <p className="text-[11px] text-gray-400 mt-1">Added to consumption each month</p>
+                {template ? (
+                  <p className="text-sm text-gray-600">
+                    Consumption follows the template&apos;s {template.consumption.length}-month profile
+                    {template.consumption.length > 0 && (
+                      <> (averaging {formatNumber(template.consumption.reduce((a, v) => a + v, 0) / template.consumption.length, 0)}{' '}
+                      {unitType || 'units'} a month)</>
+                    )}.
+                  </p>
+                ) : (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">First Month Consumption</label>
+                      <input
+                        type="number"
+                        value={initialConsumption}
+                        onChange={(e) => setInitialConsumption(e.target.value)}
+                        className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        placeholder="0"
+                        step="any"
+                        min="0"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Monthly Growth</label>
+                      <input
+                        type="number"
+                        value={monthlyGrowth}
+                        onChange={(e) => setMonthlyGrowth(e.target.value)}
+                        className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        placeholder="0"
+                        step="any"
+                      />
+                      <p className="text-[11px] text-gray-400 mt-1">Added to consumption each month</p>
+                    </div>
                   </div>
-                </div>
+                )}
               </div>
             </>
           )}
@@ -188,6 +664,140 @@ export function ServiceFormModal({ service, onSave, onClose }: ServiceFormModalP
               Eligible for discount
             </label>
           </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Free allowance</label>
+            <div className="flex gap-2">
+              <input
+                type="number"
+                value={allowanceUnits}
+                onChange={(e) => setAllowanceUnits(e.target.value)}
+                className="flex-1 border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder={unitType ? `0 ${unitType}` : '0'}
+                min="0"
+                step="any"
+              />
+              <select
+                value={allowancePeriod}
+                onChange={(e) => setAllowancePeriod(e.target.value as Allowance['period'])}
+                className="border border-gray-300 rounded-md px-3 py-2 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="month">per month</option>
+                <option value="year">per year (pooled)</option>
+              </select>
+            </div>
+            <p className="text-[11px] text-gray-400 mt-1">
+              Deducted from consumption before overhead and efficiency. A yearly allowance draws down until it runs out.
+            </p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Uncertainty range (optional)</label>
+            <div className="grid grid-cols-[1fr_5.5rem_5.5rem] gap-x-2 gap-y-1.5 items-center">
+              <span />
+              <span className="text-[11px] text-gray-500 text-right">Low &minus;%</span>
+              <span className="text-[11px] text-gray-500 text-right">High +%</span>
+              {UNCERTAINTY_FIELDS.map(({ key, label }) => (
+                <div key={key} className="contents">
+                  <span className="text-xs text-gray-600">{label}</span>
+                  {(['low', 'high'] as const).map((bound) => (
+                    <input
+                      key={bound}
+                      type="number"
+                      value={rangeInputs[key][bound]}
+                      onChange={(e) => setRangeInputs((prev) => ({
+                        ...prev,
+                        [key]: { ...prev[key], [bound]: e.target.value },
+                      }))}
+                      className="w-full border border-gray-300 rounded-md px-2 py-1 text-sm text-right focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      placeholder="0"
+                      min="0"
+                      max={bound === 'low' ? '99' : undefined}
+                      step="any"
+                    />
+                  ))}
+                </div>
+              ))}
+            </div>
+            <p className="text-[11px] text-gray-400 mt-1">
+              How far the estimate could fall below or rise above the budgeted value. Used for the P10/P90 risk bands.
+            </p>
+          </div>
+          <div className="border-t border-gray-200 pt-4">
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                id="hasCommitment"
+                checked={hasCommitment}
+                onChange={(e) => setHasCommitment(e.target.checked)}
+                className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <label htmlFor="hasCommitment" className="text-sm text-gray-700">
+                Reserved instance / savings plan commitment
+              </label>
+            </div>
+            {hasCommitment && (
+              <div className="grid grid-cols-2 gap-x-4 gap-y-3 mt-3">
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Term (months)</label>
+                  <select
+                    value={commitTerm}
+                    onChange={(e) => setCommitTerm(e.target.value)}
+                    className="w-full border border-gray-300 rounded-md px-3 py-1.5 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="12">12 (1 year)</option>
+                    <option value="36">36 (3 years)</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Starts in plan month</label>
+                  <input
+                    type="number"
+                    value={commitStart}
+                    onChange={(e) => setCommitStart(e.target.value)}
+                    className="w-full border border-gray-300 rounded-md px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    min="1"
+                    step="1"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Upfront fee ({getCurrencySymbol(currency)})</label>
+                  <input
+                    type="number"
+                    value={commitUpfront}
+                    onChange={(e) => setCommitUpfront(e.target.value)}
+                    className="w-full border border-gray-300 rounded-md px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    min="0"
+                    step="any"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Hourly commit ({getCurrencySymbol(currency)}/hr)</label>
+                  <input
+                    type="number"
+                    value={commitHourly}
+                    onChange={(e) => setCommitHourly(e.target.value)}
+                    className="w-full border border-gray-300 rounded-md px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    min="0"
+                    step="any"
+                  />
+                </div>
+                <div className="col-span-2">
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Covered units per month</label>
+                  <input
+                    type="number"
+                    value={commitCovered}
+                    onChange={(e) => setCommitCovered(e.target.value)}
+                    className="w-full border border-gray-300 rounded-md px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder={unitType || 'units'}
+                    min="0"
+                    step="any"
+                  />
+                  <p className="text-[11px] text-gray-400 mt-1">
+                    Billed units above this are charged at the on-demand rate. The upfront fee is spread evenly across the term.
+                  </p>
+                </div>
+              </div>
+            )}
+          </div>
           <div className="flex justify-end gap-3 pt-2">
             <button
               type="button"
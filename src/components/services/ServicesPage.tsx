@@ -1,18 +1,31 @@
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { useAppState } from '../../context/AppContext';
 import { ServiceFormModal } from './ServiceFormModal';
+import { TemplateLibraryModal } from './TemplateLibraryModal';
 import type { InitialBudgetSeed } from './ServiceFormModal';
 import { ConfirmModal } from '../shared/ConfirmModal';
 import { formatCurrency } from '../../utils/formatters';
 import { getServiceColor } from '../../utils/serviceColors';
+import { hasTiers } from '../../utils/calculations';
+import { getServiceCurrency } from '../../utils/currency';
+import { buildCategoryTree, flattenCategoryTree, hasCategories } from '../../utils/categories';
+import { findPriceDrift, getPriceCatalog, parsePriceCatalog, type PriceDrift } from '../../utils/catalog';
+import { findFormulaDependents } from '../../utils/formula';
 import type { Service } from '../../types';
 
 export function ServicesPage() {
-  const { activeModel, dispatch } = useAppState();
+  const { state, activeModel, dispatch } = useAppState();
   const services = activeModel?.data.services ?? [];
+  const catalog = getPriceCatalog(state);
+  const catalogFileRef = useRef<HTMLInputElement>(null);
+  const [catalogImport, setCatalogImport] = useState<{ imported: number; errors: string[] } | null>(null);
+  const budgetConfig = activeModel?.data.budgetConfig;
   const [editingService, setEditingService] = useState<Service | null>(null);
   const [showModal, setShowModal] = useState(false);
   const [deletingServiceId, setDeletingServiceId] = useState<string | null>(null);
+  const [collapsedCategories, setCollapsedCategories] = useState<Set<string>>(new Set());
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [savedTemplateName, setSavedTemplateName] = useState<string | null>(null);
 
   function handleAdd() {
     setEditingService(null);
@@ -35,7 +48,8 @@ export function ServicesPage() {
     if (editingService) {
       dispatch({
         type: 'UPDATE_SERVICE',
-        payload: { ...data, id: editingService.id, createdAt: editingService.createdAt },
+        // Settings edited elsewhere (seasonality profile, cost center split) carry over
+        payload: { ...editingService, ...data, id: editingService.id, createdAt: editingService.createdAt },
       });
     } else {
       dispatch({ type: 'ADD_SERVICE', payload: data, seed });
@@ -43,10 +57,61 @@ export function ServicesPage() {
     setShowModal(false);
   }
 
+  function handleSaveTemplate(service: Service) {
+    dispatch({ type: 'SAVE_SERVICE_TEMPLATE', payload: { serviceId: service.id, name: service.name } });
+    setSavedTemplateName(service.name);
+  }
+
+  async function handleCatalogImport(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const result = parsePriceCatalog(await file.text(), file.name.replace(/\.json$/i, ''));
+    if (result.catalog) dispatch({ type: 'SET_PRICE_CATALOG', payload: result.catalog });
+    setCatalogImport({ imported: result.catalog?.entries.length ?? 0, errors: result.errors });
+  }
+
+  // Take the catalog price, or just acknowledge the move (or the missing SKU) and keep the current price
+  function resolveDrift(drift: PriceDrift, takePrice: boolean) {
+    const { service, entry } = drift;
+    dispatch({
+      type: 'UPDATE_SERVICE',
+      payload: {
+        ...service,
+        unitCost: takePrice && entry ? entry.price : service.unitCost,
+        catalogRef: entry ? { ...service.catalogRef!, price: entry.price } : undefined,
+      },
+    });
+  }
+
+  function toggleCategory(key: string) {
+    setCollapsedCategories((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  }
+
+  // Flat list until any service is given a category, then grouped under collapsible headers
+  const rows = hasCategories(services)
+    ? flattenCategoryTree(buildCategoryTree(services), collapsedCategories)
+    : services.map((service) => ({ kind: 'service' as const, service, depth: 0 }));
+
+  const drifts = findPriceDrift(services, catalog);
+
   const deletingService = deletingServiceId
     ? services.find((s) => s.id === deletingServiceId)
     : null;
 
+  // Formulas reading the service stay in place but stop evaluating, so the delete says which
+  function deleteMessage(service: Service): string {
+    const message = `Delete "${service.name}"? All budget data for this service will also be removed.`;
+    const dependents = activeModel ? findFormulaDependents(activeModel.data, service.id) : [];
+    if (dependents.length === 0) return message;
+    return `${message} Consumption formulas in ${dependents.map((s) => s.name).join(', ')} reference it; they will keep their last values and be marked as broken until edited.`;
+  }
+
   return (
     <div className="flex flex-col" style={{ height: 'calc(100vh - 3.5rem - 3rem)' }}>
       {/* Pinned header */}
@@ -57,14 +122,118 @@ export function ServicesPage() {
             Configure the services you need to budget.
           </p>
         </div>
-        <button
-          onClick={handleAdd}
-          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
-        >
-          + Add Service
-        </button>
+        <div className="flex items-center gap-2">
+          {catalog && (
+            <span className="text-xs text-gray-400" title={`Imported ${new Date(catalog.importedAt).toLocaleDateString()}`}>
+              {catalog.name} &middot; {catalog.entries.length} prices
+              <button
+                onClick={() => dispatch({ type: 'SET_PRICE_CATALOG', payload: null })}
+                className="ml-1.5 text-gray-400 hover:text-red-600"
+                title="Remove price catalog"
+              >
+                &times;
+              </button>
+            </span>
+          )}
+          <button
+            onClick={() => catalogFileRef.current?.click()}
+            className="px-3 py-2 text-sm font-medium text-blue-700 bg-blue-50 hover:bg-blue-100 rounded-md"
+          >
+            {catalog ? 'Refresh Catalog' : 'Import Price Catalog'}
+          </button>
+          <input ref={catalogFileRef} type="file" accept=".json,application/json" onChange={handleCatalogImport} className="hidden" />
+          <button
+            onClick={() => setShowTemplates(true)}
+            className="px-3 py-2 text-sm font-medium text-blue-700 bg-blue-50 hover:bg-blue-100 rounded-md"
+          >
+            Templates
+          </button>
+          <button
+            onClick={handleAdd}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+          >
+            + Add Service
+          </button>
+        </div>
       </div>
 
+      {catalogImport && (
+        <div className={`shrink-0 mb-4 px-4 py-3 rounded-lg text-sm ${catalogImport.errors.length > 0 ? 'bg-amber-50 text-amber-800' : 'bg-green-50 text-green-800'}`}>
+          <div className="flex items-start justify-between gap-2">
+            <span>
+              {catalogImport.imported > 0
+                ? <>Imported {catalogImport.imported} prices{catalogImport.errors.length > 0 && `; skipped ${catalogImport.errors.length}`}.</>
+                : <>The catalog was not imported.</>}
+            </span>
+            <button onClick={() => setCatalogImport(null)} className="text-gray-400 hover:text-gray-600 leading-none">
+              &times;
+            </button>
+          </div>
+          {catalogImport.errors.length > 0 && (
+            <ul className="mt-1 text-xs list-disc pl-5">
+              {catalogImport.errors.slice(0, 10).map((error) => <li key={error}>{error}</li>)}
+              {catalogImport.errors.length > 10 && <li>and {catalogImport.errors.length - 10} more</li>}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {savedTemplateName && (
+        <div className="shrink-0 mb-4 px-4 py-3 rounded-lg text-sm bg-green-50 text-green-800 flex items-start justify-between gap-2">
+          <span>
+            Saved &ldquo;{savedTemplateName}&rdquo; to the template library.{' '}
+            <button
+              onClick={() => { setSavedTemplateName(null); setShowTemplates(true); }}
+              className="font-medium underline hover:text-green-900"
+            >
+              Open library
+            </button>
+          </span>
+          <button onClick={() => setSavedTemplateName(null)} className="text-gray-400 hover:text-gray-600 leading-none">
+            &times;
+          </button>
+        </div>
+      )}
+
+      {drifts.length > 0 && (
+        <div className="shrink-0 mb-4 px-4 py-3 rounded-lg bg-amber-50 border border-amber-200">
+          <p className="text-sm font-medium text-amber-800">
+            {drifts.length === 1 ? '1 service has' : `${drifts.length} services have`} a different price in the catalog
+          </p>
+          <ul className="mt-2 space-y-1">
+            {drifts.map((drift) => {
+              const serviceCurrency = getServiceCurrency(drift.service, budgetConfig);
+              return (
+                <li key={drift.service.id} className="flex items-center justify-between gap-4 text-sm text-gray-700">
+                  <span>
+                    <span className="font-medium">{drift.service.name}</span>{' '}
+                    {drift.entry
+                      ? <>{formatCurrency(drift.linkedPrice, serviceCurrency)} &rarr; {formatCurrency(drift.entry.price, drift.entry.currency)}</>
+                      : <span className="text-gray-500">is no longer in the catalog</span>}
+                  </span>
+                  <span className="flex gap-2 shrink-0">
+                    {drift.entry && !hasTiers(drift.service) && (
+                      <button
+                        onClick={() => resolveDrift(drift, true)}
+                        className="px-2 py-1 text-xs font-medium text-white bg-blue-600 rounded hover:bg-blue-700"
+                      >
+                        Use new price
+                      </button>
+                    )}
+                    <button
+                      onClick={() => resolveDrift(drift, false)}
+                      className="px-2 py-1 text-xs font-medium text-gray-600 hover:text-gray-800 hover:bg-amber-100 rounded"
+                    >
+                      {drift.entry ? 'Keep current' : 'Unlink'}
+                    </button>
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
       {services.length === 0 ? (
         <div className="text-center py-12 bg-gray-50 rounded-lg border border-dashed border-gray-300">
           <p className="text-gray-500">No services configured yet.</p>
@@ -86,57 +255,97 @@ export function ServicesPage() {
                 <th className="text-right py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Efficiency %</th>
                 <th className="text-right py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Overhead %</th>
                 <th className="text-center py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Discount</th>
-                <th className="py-2.5 px-3 w-20 bg-blue-100"></th>
+                <th className="py-2.5 px-3 w-28 bg-blue-100"></th>
               </tr>
             </thead>
             <tbody className="divide-y divide-gray-100">
-              {services.map((service, idx) => (
-                <tr key={service.id} className="group hover:bg-gray-50">
-                  <td className="py-3 px-3 font-medium text-gray-900">
-                    <span className="flex items-center gap-2">
-                      <span className={`w-3 h-3 rounded-sm inline-block shrink-0 ${getServiceColor(idx)}`} />
-                      {service.name}
-                    </span>
-                  </td>
-                  <td className="py-3 px-3 text-gray-600">{service.unitType}</td>
-                  <td className="py-3 px-3 text-right text-gray-900">
-                    {formatCurrency(service.unitCost)}
-                  </td>
-                  <td className="py-3 px-3 text-right text-gray-600">{service.defaultEfficiency}%</td>
-                  <td className="py-3 px-3 text-right text-gray-600">{service.defaultOverhead}%</td>
-                  <td className="py-3 px-3 text-center">
-                    {service.discountEligible ? (
-                      <span className="inline-block px-2 py-0.5 text-xs font-medium bg-green-100 text-green-700 rounded-full">
-                        Yes
+              {rows.map((row) => {
+                if (row.kind === 'category') {
+                  const { node } = row;
+                  const collapsed = collapsedCategories.has(node.key);
+                  return (
+                    <tr key={`category:${node.key}`} className="bg-gray-50">
+                      <td colSpan={7} className="py-2 px-3" style={{ paddingLeft: `${0.75 + node.depth * 1.25}rem` }}>
+                        <button
+                          onClick={() => toggleCategory(node.key)}
+                          className="flex items-center gap-1.5 text-xs font-semibold text-gray-700 uppercase tracking-wider hover:text-blue-600"
+                        >
+                          <span className="w-3 text-gray-400">{collapsed ? '\u25B8' : '\u25BE'}</span>
+                          {node.name}
+                          <span className="font-normal normal-case text-gray-400">({node.serviceIds.length})</span>
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                }
+                const { service, depth } = row;
+                const idx = services.indexOf(service);
+                return (
+                  <tr key={service.id} className="group hover:bg-gray-50">
+                    <td className="py-3 px-3 font-medium text-gray-900" style={depth > 0 ? { paddingLeft: `${0.75 + depth * 1.25}rem` } : undefined}>
+                      <span className="flex items-center gap-2">
+                        <span className={`w-3 h-3 rounded-sm inline-block shrink-0 ${getServiceColor(idx)}`} />
+                        {service.name}
                       </span>
-                    ) : (
-                      <span className="text-gray-400">No</span>
-                    )}
-                  </td>
-                  <td className="py-3 px-3">
-                    <div className="flex items-center justify-end gap-1">
-                      <button
-                        onClick={() => handleEdit(service)}
-                        title="Edit"
-                        className="p-1.5 rounded text-gray-400 hover:text-blue-600 hover:bg-blue-50 transition-colors"
-                      >
-                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
-                        </svg>
-                      </button>
-                      <button
-                        onClick={() => setDeletingServiceId(service.id)}
-                        title="Delete"
-                        className="p-1.5 rounded text-gray-400 hover:text-red-600 hover:bg-red-50 transition-colors"
-                      >
-                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                        </svg>
-                      </button>
-                    </div>
-                  </td>
-                </tr>
-              ))}
+                    </td>
+                    <td className="py-3 px-3 text-gray-600">{service.unitType}</td>
+                    <td className="py-3 px-3 text-right text-gray-900">
+                      {hasTiers(service) ? (
+                        <span title={`${service.tiers!.length} volume tiers`}>
+                          from {formatCurrency(Math.min(...service.tiers!.map((t) => t.unitCost)), getServiceCurrency(service, budgetConfig))}
+                          <span className="ml-1.5 inline-block px-1.5 py-0.5 text-[10px] font-medium bg-violet-100 text-violet-700 rounded-full">
+                            {service.tiers!.length} tiers
+                          </span>
+                        </span>
+                      ) : (
+                        formatCurrency(service.unitCost, getServiceCurrency(service, budgetConfig))
+                      )}
+                    </td>
+                    <td className="py-3 px-3 text-right text-gray-600">{service.defaultEfficiency}%</td>
+                    <td className="py-3 px-3 text-right text-gray-600">{service.defaultOverhead}%</td>
+                    <td className="py-3 px-3 text-center">
+                      {service.discountEligible ? (
+                        <span className="inline-block px-2 py-0.5 text-xs font-medium bg-green-100 text-green-700 rounded-full">
+                          Yes
+                        </span>
+                      ) : (
+                        <span className="text-gray-400">No</span>
+                      )}
+                    </td>
+                    <td className="py-3 px-3">
+                      <div className="flex items-center justify-end gap-1">
+                        <button
+                          onClick={() => handleEdit(service)}
+                          title="Edit"
+                          className="p-1.5 rounded text-gray-400 hover:text-blue-600 hover:bg-blue-50 transition-colors"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+                          </svg>
+                        </button>
+                        <button
+                          onClick={() => handleSaveTemplate(service)}
+                          title="Save as template"
+                          className="p-1.5 rounded text-gray-400 hover:text-blue-600 hover:bg-blue-50 transition-colors"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+                          </svg>
+                        </button>
+                        <button
+                          onClick={() => setDeletingServiceId(service.id)}
+                          title="Delete"
+                          className="p-1.5 rounded text-gray-400 hover:text-red-600 hover:bg-red-50 transition-colors"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                          </svg>
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
             </tbody>
           </table>
         </div>
@@ -150,10 +359,12 @@ export function ServicesPage() {
         />
       )}
 
+      {showTemplates && <TemplateLibraryModal onClose={() => setShowTemplates(false)} />}
+
       {deletingService && (
         <ConfirmModal
           title="Delete Service"
-          message={`Delete "${deletingService.name}"? All budget data for this service will also be removed.`}
+          message={deleteMessage(deletingService)}
           confirmLabel="Delete"
           variant="danger"
           onConfirm={handleConfirmDelete}
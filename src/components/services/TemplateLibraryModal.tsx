@@ -0,0 +1,139 @@
+import { useRef, useState } from 'react';
+import { useAppState } from '../../context/AppContext';
+import { formatCurrency, formatNumber } from '../../utils/formatters';
+import { exportServiceTemplates, getServiceTemplates, parseServiceTemplates } from '../../utils/templates';
+
+interface TemplateLibraryModalProps {
+  onClose: () => void;
+}
+
+// Workspace-wide service templates: rename, delete, and move the library between workspaces as a file
+export function TemplateLibraryModal({ onClose }: TemplateLibraryModalProps) {
+  const { state, dispatch } = useAppState();
+  const templates = getServiceTemplates(state);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [importResult, setImportResult] = useState<{ imported: number; errors: string[] } | null>(null);
+
+  async function handleImport(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const result = parseServiceTemplates(await file.text());
+    if (result.templates.length > 0) dispatch({ type: 'IMPORT_SERVICE_TEMPLATES', payload: result.templates });
+    setImportResult({ imported: result.templates.length, errors: result.errors });
+  }
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-xl w-full max-w-2xl mx-4 flex flex-col max-h-[85vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 pt-5 pb-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Service Templates</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Shared by every model in this workspace. Pick one under &ldquo;Start from template&rdquo; when adding a service.
+          </p>
+        </div>
+
+        <div className="px-6 py-4 space-y-3 overflow-y-auto">
+          {importResult && (
+            <div className={`px-4 py-3 rounded-lg text-sm ${importResult.errors.length > 0 ? 'bg-amber-50 text-amber-800' : 'bg-green-50 text-green-800'}`}>
+              <div className="flex items-start justify-between gap-2">
+                <span>
+                  Imported {importResult.imported} {importResult.imported === 1 ? 'template' : 'templates'}
+                  {importResult.errors.length > 0 && `; skipped ${importResult.errors.length}`}.
+                </span>
+                <button onClick={() => setImportResult(null)} className="text-gray-400 hover:text-gray-600 leading-none">
+                  &times;
+                </button>
+              </div>
+              {importResult.errors.length > 0 && (
+                <ul className="mt-1 text-xs list-disc pl-5">
+                  {importResult.errors.slice(0, 10).map((error) => <li key={error}>{error}</li>)}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {templates.length === 0 ? (
+            <div className="text-center py-8 bg-gray-50 rounded-lg border border-dashed border-gray-300">
+              <p className="text-gray-500">No templates yet.</p>
+              <p className="text-xs text-gray-400 mt-1">
+                Save a service as a template from the Services tab, or import a library file.
+              </p>
+            </div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="bg-blue-100">
+                  <th className="text-left py-2 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Template</th>
+                  <th className="text-left py-2 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Unit Type</th>
+                  <th className="text-right py-2 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Unit Cost</th>
+                  <th className="text-right py-2 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Avg / Month</th>
+                  <th className="py-2 px-3 w-10" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {templates.map((t) => {
+                  const average = t.consumption.length > 0
+                    ? t.consumption.reduce((a, v) => a + v, 0) / t.consumption.length
+                    : 0;
+                  return (
+                    <tr key={t.id}>
+                      <td className="py-1.5 px-3">
+                        <input
+                          type="text"
+                          value={t.name}
+                          onChange={(e) => dispatch({ type: 'RENAME_SERVICE_TEMPLATE', payload: { id: t.id, name: e.target.value } })}
+                          className="w-full border border-transparent hover:border-gray-200 focus:border-blue-500 rounded px-1.5 py-1 text-sm font-medium text-gray-900 focus:outline-none"
+                        />
+                      </td>
+                      <td className="py-1.5 px-3 text-gray-600">{t.service.unitType}</td>
+                      <td className="py-1.5 px-3 text-right text-gray-700">
+                        {formatCurrency(t.service.unitCost, t.service.currency)}
+                      </td>
+                      <td className="py-1.5 px-3 text-right text-gray-700 tabular-nums">{formatNumber(average, 0)}</td>
+                      <td className="py-1.5 px-3 text-right">
+                        <button
+                          onClick={() => dispatch({ type: 'DELETE_SERVICE_TEMPLATE', payload: t.id })}
+                          title="Delete template"
+                          className="p-1 rounded text-gray-400 hover:text-red-600 hover:bg-red-50"
+                        >
+                          &times;
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="px-6 py-3 border-t border-gray-200 flex items-center gap-2">
+          <button
+            onClick={() => fileRef.current?.click()}
+            className="px-3 py-2 text-sm font-medium text-blue-700 bg-blue-50 hover:bg-blue-100 rounded-md"
+          >
+            Import Library
+          </button>
+          <input ref={fileRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+          <button
+            onClick={() => exportServiceTemplates(templates)}
+            disabled={templates.length === 0}
+            className="px-3 py-2 text-sm font-medium text-blue-700 bg-blue-50 hover:bg-blue-100 rounded-md disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Export Library
+          </button>
+          <button
+            onClick={onClose}
+            className="ml-auto px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useAppState } from '../../context/AppContext';
+import { getReportingCurrency } from '../../utils/currency';
+import { formatCurrency } from '../../utils/formatters';
+import { breachKey, findBreaches, type ThresholdBreach } from '../../utils/thresholds';
+import type { BudgetThreshold } from '../../types';
+
+const TOAST_DURATION_MS = 8000;
+const MAX_LISTED = 3;
+
+// Non-blocking warning shown when an edit pushes the projection over a spend threshold
+export function ThresholdAlertToast() {
+  const { activeModel } = useAppState();
+  const data = activeModel?.data;
+  const modelId = activeModel?.id ?? null;
+  const breaches = useMemo(() => (data ? findBreaches(data) : []), [data]);
+  const thresholds = data?.thresholds;
+  const previousRef = useRef<{ modelId: string | null; thresholds?: BudgetThreshold[]; keys: Set<string> } | null>(null);
+  const [alerts, setAlerts] = useState<ThresholdBreach[]>([]);
+
+  useEffect(() => {
+    const previous = previousRef.current;
+    previousRef.current = { modelId, thresholds, keys: new Set(breaches.map(breachKey)) };
+    // Only edits to the projection are announced: not opening or switching models, and not
+    // editing the thresholds themselves, which the Alerts tab already reflects as you type
+    if (!previous || previous.modelId !== modelId || previous.thresholds !== thresholds) return;
+    const fresh = breaches.filter((b) => !previous.keys.has(breachKey(b)));
+    if (fresh.length > 0) setAlerts(fresh);
+  }, [modelId, thresholds, breaches]);
+
+  useEffect(() => {
+    if (alerts.length === 0) return;
+    const timeout = setTimeout(() => setAlerts([]), TOAST_DURATION_MS);
+    return () => clearTimeout(timeout);
+  }, [alerts]);
+
+  if (alerts.length === 0 || !data) return null;
+  const currency = getReportingCurrency(data.budgetConfig);
+
+  return (
+    <div className="fixed bottom-4 right-4 z-[90] w-80 bg-white border border-red-200 rounded-lg shadow-lg px-4 py-3">
+      <div className="flex items-start justify-between gap-2">
+        <div className="text-sm font-semibold text-red-700">
+          {alerts.length === 1 ? 'Threshold exceeded' : `${alerts.length} thresholds exceeded`}
+        </div>
+        <button onClick={() => setAlerts([])} className="text-gray-400 hover:text-gray-600 leading-none">
+          &times;
+        </button>
+      </div>
+      <ul className="mt-1 space-y-0.5">
+        {alerts.slice(0, MAX_LISTED).map((b) => (
+          <li key={breachKey(b)} className="text-xs text-gray-700">
+            <span className="font-medium">{b.scopeName}</span> &middot; {b.periodLabel}:{' '}
+            {formatCurrency(b.projected, currency)} over the {formatCurrency(b.cap, currency)} cap
+          </li>
+        ))}
+      </ul>
+      {alerts.length > MAX_LISTED && (
+        <p className="text-xs text-gray-400 mt-1">and {alerts.length - MAX_LISTED} more &mdash; see Summary &rarr; Alerts.</p>
+      )}
+    </div>
+  );
+}
@@ -62,7 +62,7 @@ export function WelcomeModal({ onComplete }: WelcomeModalProps) {
               </div>
               <div className="text-sm font-semibold text-gray-900 mb-1">2. Enter Data</div>
               <p className="text-xs text-gray-500 leading-relaxed">
-                Fill in monthly consumption for each service across 12 months.
+                Fill in monthly consumption for each service across the plan horizon.
               </p>
             </div>
 
@@ -0,0 +1,373 @@
+import { useRef, useState } from 'react';
+import { useAppState } from '../../context/AppContext';
+import { getActuals, parseActualsCsv, type VarianceSummary } from '../../utils/actuals';
+import { calculateServiceMonthCosts, getSpendCommitmentDiscount } from '../../utils/calculations';
+import {
+  calculateLanding,
+  closesPlanYear,
+  getClosedMonths,
+  getCurrentPlanYear,
+  getServicesMissingActuals,
+} from '../../utils/closing';
+import { getReportingCurrency, getServiceCurrency } from '../../utils/currency';
+import { canForecast } from '../../utils/forecasting';
+import { formatCurrency, formatNumber } from '../../utils/formatters';
+import { HISTORY_MONTHS, generateMonthLabels, getHorizonMonths, getPlanYears } from '../../utils/months';
+import { ConfirmModal } from '../shared/ConfirmModal';
+import { Select } from '../shared/Select';
+import { ForecastModal } from './ForecastModal';
+import type { ModelData, Service } from '../../types';
+
+interface ActualsTabProps {
+  data: ModelData;
+  // Plan against actuals for the closed months; null until any actuals are recorded
+  variance: VarianceSummary | null;
+}
+
+// Closing without recorded spend is allowed, but the services left at plan are named. Closing the
+// last month of the first plan year also rolls the plan forward, which cannot be reopened.
+function closeMonthMessage(missing: Service[], rollsYear: boolean): string {
+  const base = rollsYear
+    ? 'The month is locked and each service is costed at its recorded actual. This completes the plan year, so the plan ' +
+      'rolls forward: the year moves out of the plan, its actuals are kept as usage history, and a new year is added ' +
+      'at the end. A rolled year cannot be reopened.'
+    : 'The month is locked and each service is costed at its recorded actual. The remaining months keep the plan.';
+  if (missing.length === 0) return base;
+  const names = missing.slice(0, 5).map((s) => s.name).join(', ') + (missing.length > 5 ? ` and ${missing.length - 5} more` : '');
+  return `${base} No spend is recorded yet for ${names}; ${missing.length === 1 ? 'it closes' : 'they close'} at the planned cost until actuals are entered.`;
+}
+
+export function ActualsTab({ data, variance }: ActualsTabProps) {
+  const { dispatch } = useAppState();
+  const [actualsImport, setActualsImport] = useState<{ rowCount: number; errors: string[] } | null>(null);
+  const actualsFileRef = useRef<HTMLInputElement>(null);
+  const [landingYear, setLandingYear] = useState<number | null>(null);
+  const [closeAction, setCloseAction] = useState<'close' | 'rebaseline' | null>(null);
+  const [forecastServiceId, setForecastServiceId] = useState<string | null>(null);
+  const { services, budgetData, budgetConfig } = data;
+  const horizon = getHorizonMonths(budgetConfig);
+  const monthLabels = generateMonthLabels(budgetConfig.startMonth, budgetConfig.startYear, horizon);
+  const planYears = getPlanYears(horizon);
+  const currency = getReportingCurrency(budgetConfig);
+
+  const actuals = getActuals(data);
+  const closedCount = variance?.actualMonths.filter(Boolean).length ?? 0;
+  const closedMonths = getClosedMonths(data);
+  const landing = calculateLanding(data, landingYear ?? getCurrentPlanYear(data));
+  const varianceClass = (v: number) => (v > 0.005 ? 'text-red-600' : v < -0.005 ? 'text-green-600' : 'text-gray-500');
+  const formatVariance = (v: number) => `${v > 0 ? '+' : ''}${formatCurrency(v, currency)}`;
+  const formatVariancePct = (pct: number | null) => (pct === null ? '\u2014' : `${pct > 0 ? '+' : ''}${pct.toFixed(1)}%`);
+
+  async function handleImport(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const result = parseActualsCsv(await file.text(), data);
+    // A CSV restates the months it covers, so it replaces them
+    if (result.rowCount > 0) dispatch({ type: 'IMPORT_ACTUALS', payload: { actuals: result.actuals, mode: 'replace' } });
+    setActualsImport({ rowCount: result.rowCount, errors: result.errors });
+  }
+
+  function handleActualChange(serviceId: string, monthIndex: number, raw: string) {
+    const existing = actuals[serviceId]?.[monthIndex];
+    if (raw.trim() === '') {
+      dispatch({ type: 'SET_ACTUAL', payload: { serviceId, monthIndex, entry: null } });
+      return;
+    }
+    const cost = parseFloat(raw);
+    if (isNaN(cost)) return;
+    dispatch({ type: 'SET_ACTUAL', payload: { serviceId, monthIndex, entry: { ...existing, cost } } });
+  }
+
+  return (
+    <>
+      <div className="space-y-8">
+        <div className="flex items-start justify-between gap-4">
+          <p className="text-sm text-gray-500">
+            Record what each service actually cost, in its own currency. Enter months by hand below or import a CSV
+            with Service, Month and Cost columns (and optionally Usage). Months up to {HISTORY_MONTHS} before the
+            plan are kept as usage history. Three or more months of usage let you forecast a service&apos;s
+            consumption for the plan months after them.
+          </p>
+          <button
+            onClick={() => actualsFileRef.current?.click()}
+            className="shrink-0 px-3 py-1.5 text-xs font-medium text-blue-700 bg-blue-50 hover:bg-blue-100 rounded-md"
+          >
+            Import CSV
+          </button>
+          <input ref={actualsFileRef} type="file" accept=".csv,text/csv" onChange={handleImport} className="hidden" />
+        </div>
+
+        {actualsImport && (
+          <div className={`px-4 py-3 rounded-lg text-sm ${actualsImport.errors.length > 0 ? 'bg-amber-50 text-amber-800' : 'bg-green-50 text-green-800'}`}>
+            <div className="flex items-start justify-between gap-2">
+              <span>
+                Imported {actualsImport.rowCount} {actualsImport.rowCount === 1 ? 'row' : 'rows'}
+                {actualsImport.errors.length > 0 && `; skipped ${actualsImport.errors.length}`}.
+              </span>
+              <button onClick={() => setActualsImport(null)} className="text-gray-400 hover:text-gray-600 leading-none">
+                &times;
+              </button>
+            </div>
+            {actualsImport.errors.length > 0 && (
+              <ul className="mt-1 text-xs list-disc pl-5">
+                {actualsImport.errors.slice(0, 10).map((error) => <li key={error}>{error}</li>)}
+                {actualsImport.errors.length > 10 && <li>and {actualsImport.errors.length - 10} more</li>}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {/* Rolling forecast: closed months are locked at their actuals, open months keep the plan */}
+        <div>
+          <div className="flex items-center justify-between gap-4 mb-2">
+            <h3 className="text-sm font-semibold text-gray-700">
+              Rolling forecast{' '}
+              <span className="font-normal text-gray-400">
+                {closedMonths > 0 ? `(closed through ${monthLabels[closedMonths - 1]})` : '(no months closed)'}
+              </span>
+            </h3>
+            <div className="flex items-center gap-2">
+              {planYears.length > 1 && landing && (
+                <Select
+                  value={String(landing.yearIndex)}
+                  options={planYears.map((y) => ({
+                    value: String(y.index),
+                    label: `Year ${y.index + 1} (${monthLabels[y.start]} – ${monthLabels[y.end - 1]})`,
+                  }))}
+                  onChange={(v) => setLandingYear(Number(v))}
+                />
+              )}
+              {closedMonths > 0 && (
+                <button
+                  onClick={() => dispatch({ type: 'REOPEN_MONTH' })}
+                  className="px-3 py-1.5 text-xs font-medium text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-md"
+                >
+                  Reopen {monthLabels[closedMonths - 1]}
+                </button>
+              )}
+              {data.baseline && (
+                <button
+                  onClick={() => setCloseAction('rebaseline')}
+                  className="px-3 py-1.5 text-xs font-medium text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-md"
+                >
+                  Re-baseline
+                </button>
+              )}
+              {closedMonths < horizon && (
+                <button
+                  onClick={() => setCloseAction('close')}
+                  className="px-3 py-1.5 text-xs font-medium text-blue-700 bg-blue-50 hover:bg-blue-100 rounded-md"
+                >
+                  Close {monthLabels[closedMonths]}
+                </button>
+              )}
+            </div>
+          </div>
+          {landing ? (
+            <>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="bg-blue-100">
+                    <th className="text-left py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Service</th>
+                    <th className="text-right py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Original Budget</th>
+                    <th className="text-right py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Latest Forecast</th>
+                    <th className="text-right py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Actual to Date</th>
+                    <th className="text-right py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Remaining</th>
+                    <th className="text-right py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Forecast vs Budget</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {landing.rows.map((row) => (
+                    <tr key={row.serviceId ?? row.name}>
+                      <td className={`py-2 px-3 font-medium ${row.serviceId ? 'text-gray-900' : 'text-gray-400 italic'}`}>{row.name}</td>
+                      <td className="py-2 px-3 text-right text-gray-700">{formatCurrency(row.baseline, currency)}</td>
+                      <td className="py-2 px-3 text-right text-gray-700">{formatCurrency(row.forecast, currency)}</td>
+                      <td className="py-2 px-3 text-right text-gray-700">{formatCurrency(row.actual, currency)}</td>
+                      <td className="py-2 px-3 text-right text-gray-700">{formatCurrency(row.remaining, currency)}</td>
+                      <td className={`py-2 px-3 text-right font-medium ${varianceClass(row.variance)}`}>
+                        {formatVariance(row.variance)} <span className="font-normal">{formatVariancePct(row.variancePct)}</span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot>
+                  <tr className="border-t-2 border-gray-300 font-semibold">
+                    <td className="py-2 px-3">Landing</td>
+                    <td className="py-2 px-3 text-right">{formatCurrency(landing.total.baseline, currency)}</td>
+                    <td className="py-2 px-3 text-right">{formatCurrency(landing.total.forecast, currency)}</td>
+                    <td className="py-2 px-3 text-right">{formatCurrency(landing.total.actual, currency)}</td>
+                    <td className="py-2 px-3 text-right">{formatCurrency(landing.total.remaining, currency)}</td>
+                    <td className={`py-2 px-3 text-right ${varianceClass(landing.total.variance)}`}>
+                      {formatVariance(landing.total.variance)} <span className="font-normal">{formatVariancePct(landing.total.variancePct)}</span>
+                    </td>
+                  </tr>
+                </tfoot>
+              </table>
+              <p className="text-xs text-gray-400 mt-2">
+                {landing.closedInYear} of {landing.monthsInYear} months closed. Baseline set{' '}
+                {new Date(data.baseline!.setAt).toLocaleDateString()}.
+                {landing.estimatedMonths > 0 && (
+                  <span className="text-amber-600">
+                    {' '}{landing.estimatedMonths} closed service {landing.estimatedMonths === 1 ? 'month has' : 'months have'} no
+                    recorded spend and {landing.estimatedMonths === 1 ? 'is' : 'are'} counted at plan until actuals arrive.
+                  </span>
+                )}
+              </p>
+            </>
+          ) : (
+            <div className="text-center py-8 bg-gray-50 rounded-lg border border-dashed border-gray-300">
+              <p className="text-gray-500">Close the first month to start a rolling forecast.</p>
+              <p className="text-xs text-gray-400 mt-1">
+                Closing locks the month at its actuals and keeps today&apos;s plan as the original budget.
+              </p>
+            </div>
+          )}
+        </div>
+
+        {variance ? (
+          <div>
+            <h3 className="text-sm font-semibold text-gray-700 mb-2">
+              Plan vs actual <span className="font-normal text-gray-400">({closedCount} closed {closedCount === 1 ? 'month' : 'months'})</span>
+            </h3>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="bg-blue-100">
+                  <th className="text-left py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Service</th>
+                  <th className="text-right py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Plan</th>
+                  <th className="text-right py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Actual</th>
+                  <th className="text-right py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Variance</th>
+                  <th className="text-right py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Variance %</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {variance.rows.map((row) => (
+                  <tr key={row.serviceId}>
+                    <td className="py-2 px-3 font-medium text-gray-900">{row.serviceName}</td>
+                    <td className="py-2 px-3 text-right text-gray-700">{formatCurrency(row.plan, currency)}</td>
+                    <td className="py-2 px-3 text-right text-gray-700">{formatCurrency(row.actual, currency)}</td>
+                    <td className={`py-2 px-3 text-right font-medium ${varianceClass(row.variance)}`}>{formatVariance(row.variance)}</td>
+                    <td className={`py-2 px-3 text-right ${varianceClass(row.variance)}`}>{formatVariancePct(row.variancePct)}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr className="border-t-2 border-gray-300 font-semibold">
+                  <td className="py-2 px-3">Total</td>
+                  <td className="py-2 px-3 text-right">{formatCurrency(variance.plan, currency)}</td>
+                  <td className="py-2 px-3 text-right">{formatCurrency(variance.actual, currency)}</td>
+                  <td className={`py-2 px-3 text-right ${varianceClass(variance.variance)}`}>{formatVariance(variance.variance)}</td>
+                  <td className={`py-2 px-3 text-right ${varianceClass(variance.variance)}`}>{formatVariancePct(variance.variancePct)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        ) : (
+          <div className="text-center py-12 bg-gray-50 rounded-lg border border-dashed border-gray-300">
+            <p className="text-gray-500">No actuals recorded yet.</p>
+            <p className="text-xs text-gray-400 mt-1">
+              Once a month has actuals for any service it counts as closed, and the plan is compared against it.
+            </p>
+          </div>
+        )}
+
+        {/* Month-by-month entry; the plan sits under each cell for reference */}
+        <div className="overflow-x-auto">
+          <table className="text-xs w-full">
+            <thead>
+              <tr className="bg-blue-100">
+                <th className="text-left py-2.5 px-2 text-[11px] font-semibold text-blue-800 uppercase tracking-wider sticky left-0 bg-blue-100 min-w-[160px]">
+                  Actual cost
+                </th>
+                {monthLabels.map((label, i) => (
+                  <th key={i} className="text-right py-2.5 px-2 text-[11px] font-semibold text-blue-800 uppercase tracking-wider min-w-[100px]">
+                    {label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {services.map((service) => {
+                const serviceCurrency = getServiceCurrency(service, budgetConfig);
+                const nativePlan = budgetData[service.id]
+                  ? calculateServiceMonthCosts(service, budgetData[service.id], getSpendCommitmentDiscount(data, service.id))
+                  : [];
+                return (
+                <tr key={service.id}>
+                  <td className="py-1.5 px-2 sticky left-0 bg-white font-medium text-gray-900">
+                    {service.name}
+                    <span className="ml-1 font-normal text-gray-400">{serviceCurrency}</span>
+                    {canForecast(data, service.id) && (
+                      <button
+                        onClick={() => setForecastServiceId(service.id)}
+                        className="block text-[11px] font-normal text-blue-600 hover:text-blue-800"
+                      >
+                        Forecast usage
+                      </button>
+                    )}
+                  </td>
+                  {Array.from({ length: horizon }, (_, m) => {
+                    const entry = actuals[service.id]?.[m];
+                    return (
+                      <td key={m} className="py-1 px-1 align-top">
+                        <input
+                          type="number"
+                          step="any"
+                          value={entry?.cost ?? ''}
+                          onChange={(e) => handleActualChange(service.id, m, e.target.value)}
+                          title={entry?.usage !== undefined ? `${formatNumber(entry.usage)} ${service.unitType}` : undefined}
+                          className={`w-full border rounded px-1.5 py-1 text-xs text-right focus:outline-none focus:ring-1 focus:ring-blue-500 ${
+                            entry ? 'border-blue-300 bg-blue-50' : 'border-gray-200'
+                          }`}
+                        />
+                        <div className="text-[10px] text-gray-400 text-right mt-0.5 tabular-nums">
+                          plan {formatCurrency(budgetData[service.id]?.[m]?.closed?.plannedCost ?? nativePlan[m] ?? 0, serviceCurrency)}
+                        </div>
+                      </td>
+                    );
+                  })}
+                </tr>
+                );
+              })}
+            </tbody>
+            {variance && (
+              <tfoot>
+                <tr className="border-t-2 border-gray-300 font-semibold">
+                  <td className="py-2 px-2 sticky left-0 bg-white">Variance</td>
+                  {variance.actualByMonth.map((actual, m) => {
+                    const v = actual === null ? null : actual - variance.planByMonth[m];
+                    return (
+                      <td key={m} className={`py-2 px-2 text-right ${v === null ? 'text-gray-300' : varianceClass(v)}`}>
+                        {v === null ? '\u2014' : formatVariance(v)}
+                      </td>
+                    );
+                  })}
+                </tr>
+              </tfoot>
+            )}
+          </table>
+        </div>
+      </div>
+
+      {closeAction && (
+        <ConfirmModal
+          title={closeAction === 'close' ? `Close ${monthLabels[closedMonths]}?` : 'Re-baseline the plan?'}
+          message={closeAction === 'close'
+            ? closeMonthMessage(getServicesMissingActuals(data), closesPlanYear(data))
+            : 'The latest forecast becomes the original budget the landing is compared against. The current baseline is replaced.'}
+          confirmLabel={closeAction === 'close' ? 'Close month' : 'Re-baseline'}
+          variant={closeAction === 'close' ? 'default' : 'warning'}
+          onConfirm={() => {
+            dispatch({ type: closeAction === 'close' ? 'CLOSE_MONTH' : 'SET_BASELINE' });
+            setCloseAction(null);
+          }}
+          onCancel={() => setCloseAction(null)}
+        />
+      )}
+
+      {forecastServiceId && (
+        <ForecastModal serviceId={forecastServiceId} onClose={() => setForecastServiceId(null)} />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,175 @@
+import { useState } from 'react';
+import { useAppState } from '../../context/AppContext';
+import { getReportingCurrency } from '../../utils/currency';
+import { formatCurrency } from '../../utils/formatters';
+import { getThresholds, type ThresholdBreach } from '../../utils/thresholds';
+import { Select } from '../shared/Select';
+import type { ModelData, ThresholdPeriod } from '../../types';
+
+interface AlertsTabProps {
+  data: ModelData;
+  breaches: ThresholdBreach[];
+}
+
+export function AlertsTab({ data, breaches }: AlertsTabProps) {
+  const { dispatch } = useAppState();
+  const [newThresholdScope, setNewThresholdScope] = useState('');
+  const [newThresholdPeriod, setNewThresholdPeriod] = useState<ThresholdPeriod>('month');
+  const [newThresholdAmount, setNewThresholdAmount] = useState('');
+  const services = data.services;
+  const currency = getReportingCurrency(data.budgetConfig);
+
+  const thresholds = getThresholds(data);
+  const scopeOptions = [
+    { value: '', label: 'Whole model' },
+    ...services.map((s) => ({ value: s.id, label: s.name })),
+  ];
+  const periodOptions = [
+    { value: 'month', label: 'Monthly cap' },
+    { value: 'year', label: 'Annual cap' },
+  ];
+
+  function handleAddThreshold() {
+    const amount = parseFloat(newThresholdAmount);
+    if (isNaN(amount) || amount < 0) return;
+    dispatch({
+      type: 'ADD_THRESHOLD',
+      payload: { serviceId: newThresholdScope || undefined, period: newThresholdPeriod, amount },
+    });
+    setNewThresholdAmount('');
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* Thresholds */}
+      <div>
+        <h3 className="text-sm font-semibold text-gray-700 mb-2">Thresholds</h3>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="bg-blue-100">
+              <th className="text-left py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Applies to</th>
+              <th className="text-left py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Period</th>
+              <th className="text-right py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Cap ({currency})</th>
+              <th className="text-right py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Breaches</th>
+              <th className="py-2.5 px-3" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {thresholds.map((t) => (
+              <tr key={t.id}>
+                <td className="py-2 px-3 font-medium text-gray-900">
+                  {t.serviceId ? services.find((s) => s.id === t.serviceId)?.name : 'Whole model'}
+                </td>
+                <td className="py-2 px-3 w-40">
+                  <Select
+                    value={t.period}
+                    options={periodOptions}
+                    onChange={(v) => dispatch({ type: 'UPDATE_THRESHOLD', payload: { ...t, period: v as ThresholdPeriod } })}
+                  />
+                </td>
+                <td className="py-2 px-3 w-40">
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={t.amount}
+                    onChange={(e) => {
+                      const amount = parseFloat(e.target.value);
+                      if (!isNaN(amount) && amount >= 0) dispatch({ type: 'UPDATE_THRESHOLD', payload: { ...t, amount } });
+                    }}
+                    className="w-full border border-gray-200 rounded px-2 py-1 text-sm text-right focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  />
+                </td>
+                <td className="py-2 px-3 text-right">
+                  {(() => {
+                    const count = breaches.filter((b) => b.thresholdId === t.id).length;
+                    return <span className={count > 0 ? 'text-red-600 font-medium' : 'text-gray-400'}>{count}</span>;
+                  })()}
+                </td>
+                <td className="py-2 px-3 text-right">
+                  <button
+                    onClick={() => dispatch({ type: 'DELETE_THRESHOLD', payload: t.id })}
+                    title="Remove threshold"
+                    className="text-gray-400 hover:text-red-600"
+                  >
+                    &times;
+                  </button>
+                </td>
+              </tr>
+            ))}
+            <tr className="bg-gray-50">
+              <td className="py-2 px-3 w-56">
+                <Select value={newThresholdScope} options={scopeOptions} onChange={setNewThresholdScope} />
+              </td>
+              <td className="py-2 px-3">
+                <Select
+                  value={newThresholdPeriod}
+                  options={periodOptions}
+                  onChange={(v) => setNewThresholdPeriod(v as ThresholdPeriod)}
+                />
+              </td>
+              <td className="py-2 px-3">
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={newThresholdAmount}
+                  onChange={(e) => setNewThresholdAmount(e.target.value)}
+                  placeholder="Amount"
+                  className="w-full border border-gray-300 rounded px-2 py-1 text-sm text-right focus:outline-none focus:ring-1 focus:ring-blue-500"
+                />
+              </td>
+              <td colSpan={2} className="py-2 px-3 text-right">
+                <button
+                  onClick={handleAddThreshold}
+                  disabled={newThresholdAmount === ''}
+                  className="px-3 py-1.5 text-xs font-medium text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                >
+                  Add threshold
+                </button>
+              </td>
+            </tr>
+          </tbody>
+        </table>
+        <p className="text-xs text-gray-500 mt-2">
+          Annual caps apply to each 12-month plan year. Edits that push the projection over a cap raise a warning.
+        </p>
+      </div>
+
+      {/* Breaches */}
+      <div>
+        <h3 className="text-sm font-semibold text-gray-700 mb-2">Breaches</h3>
+        {breaches.length === 0 ? (
+          <p className="text-sm text-gray-400">
+            {thresholds.length === 0 ? 'Add a threshold to start monitoring spend.' : 'Every projection is within its threshold.'}
+          </p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-blue-100">
+                <th className="text-left py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Period</th>
+                <th className="text-left py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Service</th>
+                <th className="text-right py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Projected</th>
+                <th className="text-right py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Cap</th>
+                <th className="text-right py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Over by</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {breaches.map((b) => (
+                <tr key={`${b.thresholdId}-${b.periodIndex}`}>
+                  <td className="py-2 px-3 text-gray-700">{b.periodLabel}</td>
+                  <td className="py-2 px-3 font-medium text-gray-900">{b.scopeName}</td>
+                  <td className="py-2 px-3 text-right">{formatCurrency(b.projected, currency)}</td>
+                  <td className="py-2 px-3 text-right text-gray-500">
+                    {formatCurrency(b.cap, currency)} {b.period === 'month' ? '/ mo' : '/ yr'}
+                  </td>
+                  <td className="py-2 px-3 text-right text-red-600 font-medium">+{formatCurrency(b.excess, currency)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+import { Fragment, useState } from 'react';
+import { useAppState } from '../../context/AppContext';
+import { ALLOCATION_BASES, calculateAllocation } from '../../utils/allocation';
+import { getReportingCurrency } from '../../utils/currency';
+import { getDrivers } from '../../utils/drivers';
+import { formatCurrency } from '../../utils/formatters';
+import { Select } from '../shared/Select';
+import type { AllocationBasis, AllocationReceiver, ModelData } from '../../types';
+
+interface AllocationsTabProps {
+  data: ModelData;
+  // Allocation moves cost between services, so the direct and fully-allocated totals are both this
+  grandTotal: number;
+}
+
+export function AllocationsTab({ data, grandTotal }: AllocationsTabProps) {
+  const { dispatch } = useAppState();
+  const [ruleServiceId, setRuleServiceId] = useState('');
+  const services = data.services;
+  const currency = getReportingCurrency(data.budgetConfig);
+
+  const allocation = calculateAllocation(data);
+  const drivers = getDrivers(data);
+  const ruleService = services.find((s) => s.id === ruleServiceId) ?? services[0];
+  const rule = ruleService?.allocationRule;
+  const sum = (values: number[]) => values.reduce((a, v) => a + v, 0);
+
+  function setRule(basis: AllocationBasis | '', receivers: AllocationReceiver[]) {
+    if (!ruleService) return;
+    dispatch({
+      type: 'SET_ALLOCATION_RULE',
+      payload: { serviceId: ruleService.id, rule: basis ? { basis, receivers } : undefined },
+    });
+  }
+
+  function updateReceiver(serviceId: string, patch: Partial<AllocationReceiver> | null) {
+    if (!rule) return;
+    const others = rule.receivers.filter((r) => r.serviceId !== serviceId);
+    const current = rule.receivers.find((r) => r.serviceId === serviceId) ?? { serviceId };
+    // Keep receivers in service order so the table reads the same as the service list
+    const receivers = patch === null ? others : [...others, { ...current, ...patch }];
+    const position = (id: string) => services.findIndex((s) => s.id === id);
+    setRule(rule.basis, receivers.sort((a, b) => position(a.serviceId) - position(b.serviceId)));
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* Direct vs fully allocated */}
+      <div>
+        <h3 className="text-sm font-semibold text-gray-700 mb-2">Direct and fully-allocated cost</h3>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="bg-blue-100">
+              <th className="text-left py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Service</th>
+              <th className="text-right py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Direct</th>
+              <th className="text-right py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Allocated Out</th>
+              <th className="text-right py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Allocated In</th>
+              <th className="text-right py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Fully Allocated</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {services.map((service) => {
+              const direct = sum(allocation.direct[service.id] ?? []);
+              const outFlows = allocation.flows.filter((f) => f.sourceId === service.id);
+              const inFlows = allocation.flows.filter((f) => f.receiverId === service.id);
+              return (
+                <Fragment key={service.id}>
+                  <tr>
+                    <td className="py-2 px-3 font-medium text-gray-900">
+                      {service.name}
+                      {allocation.cyclic.includes(service.id) && (
+                        <span className="ml-2 text-xs text-red-600 font-normal">rules loop; not allocated</span>
+                      )}
+                    </td>
+                    <td className="py-2 px-3 text-right">{formatCurrency(direct, currency)}</td>
+                    <td className="py-2 px-3 text-right text-green-600">
+                      {outFlows.length > 0 ? `\u2212${formatCurrency(sum(outFlows.map((f) => f.total)), currency)}` : '\u2014'}
+                    </td>
+                    <td className="py-2 px-3 text-right text-red-600">
+                      {inFlows.length > 0 ? `+${formatCurrency(sum(inFlows.map((f) => f.total)), currency)}` : '\u2014'}
+                    </td>
+                    <td className="py-2 px-3 text-right font-semibold">
+                      {formatCurrency(sum(allocation.allocated[service.id] ?? []), currency)}
+                    </td>
+                  </tr>
+                  {inFlows.map((f) => (
+                    <tr key={f.sourceId} className="text-xs text-gray-500">
+                      <td className="py-1 px-3 pl-8">from {services.find((s) => s.id === f.sourceId)?.name}</td>
+                      <td className="py-1 px-3" />
+                      <td className="py-1 px-3" />
+                      <td className="py-1 px-3 text-right">+{formatCurrency(f.total, currency)}</td>
+                      <td className="py-1 px-3" />
+                    </tr>
+                  ))}
+                </Fragment>
+              );
+            })}
+          </tbody>
+          <tfoot>
+            <tr className="border-t-2 border-gray-300 font-semibold">
+              <td className="py-2 px-3">Total</td>
+              <td className="py-2 px-3 text-right">{formatCurrency(grandTotal, currency)}</td>
+              <td className="py-2 px-3" />
+              <td className="py-2 px-3" />
+              <td className="py-2 px-3 text-right">{formatCurrency(grandTotal, currency)}</td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+
+      {/* Rule editor */}
+      {ruleService && (
+        <div>
+          <div className="flex items-center gap-3 mb-3">
+            <h3 className="text-sm font-semibold text-gray-700">Allocate</h3>
+            <div className="w-56">
+              <Select
+                value={ruleService.id}
+                options={services.map((s) => ({ value: s.id, label: s.name }))}
+                onChange={setRuleServiceId}
+              />
+            </div>
+            <div className="w-64">
+              <Select
+                value={rule?.basis ?? ''}
+                options={[{ value: '', label: 'Not shared (no rule)' }, ...ALLOCATION_BASES]}
+                onChange={(v) => setRule(v as AllocationBasis | '', rule?.receivers ?? [])}
+              />
+            </div>
+          </div>
+          {rule && (
+            <>
+              <div className="space-y-1.5">
+                {services.filter((s) => s.id !== ruleService.id).map((service) => {
+                  const receiver = rule.receivers.find((r) => r.serviceId === service.id);
+                  return (
+                    <div key={service.id} className="flex items-center gap-3">
+                      <label className="w-56 flex items-center gap-1.5 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={!!receiver}
+                          onChange={(e) => updateReceiver(service.id, e.target.checked ? {} : null)}
+                          className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                        {service.name}
+                      </label>
+                      {receiver && rule.basis === 'fixed' && (
+                        <div className="relative w-24">
+                          <input
+                            type="number"
+                            min="0"
+                            max="100"
+                            step="any"
+                            value={receiver.pct ?? ''}
+                            onChange={(e) => updateReceiver(service.id, { pct: parseFloat(e.target.value) || 0 })}
+                            className="w-full border border-gray-300 rounded px-2 py-1 text-xs text-right pr-5 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                          />
+                          <span className="absolute right-2 top-1/2 -translate-y-1/2 text-xs text-gray-400">%</span>
+                        </div>
+                      )}
+                      {receiver && rule.basis === 'driver' && (
+                        <div className="w-48">
+                          <Select
+                            value={receiver.driverId ?? ''}
+                            options={drivers.map((d) => ({ value: d.id, label: d.name }))}
+                            placeholder={drivers.length === 0 ? 'Add a driver first' : 'Choose a driver'}
+                            onChange={(v) => updateReceiver(service.id, { driverId: v })}
+                          />
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+              <p className="text-xs text-gray-500 mt-2">
+                {rule.basis === 'cost' && 'Each month is shared in proportion to the receivers\' own direct cost that month.'}
+                {rule.basis === 'driver' && 'Each month is shared in proportion to the value of each receiver\'s driver that month.'}
+                {rule.basis === 'fixed' && 'Any share below 100% stays with the shared service; splits above 100% are scaled down.'}
+              </p>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import { useMemo } from 'react';
+import { calculateServiceMonthBreakdown, getSpendCommitmentDiscount, summarizeCommitment } from '../../utils/calculations';
+import {
+  flattenCategoryTree,
+  getCategoryIndentStyle,
+  hasCategories,
+  sumCategoryCosts,
+  type CategoryNode,
+  type CategoryRow,
+} from '../../utils/categories';
+import { getReportingCurrency, getServiceCurrency } from '../../utils/currency';
+import { formatCurrency, formatNumber } from '../../utils/formatters';
+import { getHorizonMonths, getPlanYears, sumPlanYears } from '../../utils/months';
+import { SERVICE_COLORS } from '../../utils/serviceColors';
+import { CategoryName, CategoryToggles } from './CategoryControls';
+import type { ModelData } from '../../types';
+
+interface BreakdownTabProps {
+  data: ModelData;
+  // Reporting-currency costs per service and month, and their totals
+  costGrid: Record<string, number[]>;
+  costByService: Record<string, number>;
+  costByMonth: number[];
+  grandTotal: number;
+  categoryTree: CategoryNode[];
+  // Shared with the Timeline tab, so both keep the same categories open
+  collapsedCategories: ReadonlySet<string>;
+  onCollapsedCategoriesChange: (collapsed: Set<string>) => void;
+  onAdjustService: (serviceId: string) => void;
+}
+
+export function BreakdownTab({
+  data, costGrid, costByService, costByMonth, grandTotal, categoryTree, collapsedCategories,
+  onCollapsedCategoriesChange, onAdjustService,
+}: BreakdownTabProps) {
+  const { services, budgetData, budgetConfig } = data;
+  const horizon = getHorizonMonths(budgetConfig);
+  const planYears = getPlanYears(horizon);
+  const multiYear = planYears.length > 1;
+  const currency = getReportingCurrency(budgetConfig);
+
+  const commitmentRows = useMemo(
+    () => services
+      .filter((s) => s.commitment && budgetData[s.id])
+      .map((service) => ({
+        service,
+        summary: summarizeCommitment(calculateServiceMonthBreakdown(
+          service,
+          budgetData[service.id],
+          getSpendCommitmentDiscount(data, service.id)
+        )),
+      })),
+    [data, services, budgetData]
+  );
+
+  // Once any service has a category, the table groups by category
+  const grouped = hasCategories(services);
+  const tableRows: CategoryRow[] = grouped
+    ? flattenCategoryTree(categoryTree, collapsedCategories)
+    : services.map((service) => ({ kind: 'service', service, depth: 0 }));
+
+  const svcTotals = services.map(s => costByService[s.id] ?? 0);
+  const minSvc = Math.min(...svcTotals);
+  const maxSvc = Math.max(...svcTotals);
+  const svcRange = maxSvc - minSvc;
+  return (
+    <div className="overflow-x-auto">
+      {grouped && <CategoryToggles categoryTree={categoryTree} onChange={onCollapsedCategoriesChange} />}
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="bg-blue-100">
+            <th className="text-left py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Service</th>
+            {multiYear && planYears.map((y) => (
+              <th key={y.index} className="text-right py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Year {y.index + 1}</th>
+            ))}
+            <th className="text-right py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">{multiYear ? 'Total' : 'Annual Total'}</th>
+            <th className="text-right py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Monthly Avg</th>
+            <th className="text-right py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">% of Total</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {tableRows.map((row) => {
+            if (row.kind === 'category') {
+              const costs = sumCategoryCosts(row.node, costGrid, horizon);
+              const categoryTotal = costs.reduce((a, c) => a + c, 0);
+              return (
+                <tr key={`category:${row.node.key}`} className="bg-gray-50">
+                  <td className="py-2 px-3" style={getCategoryIndentStyle(row.node.depth)}>
+                    <CategoryName node={row.node} collapsed={collapsedCategories} onChange={onCollapsedCategoriesChange} />
+                  </td>
+                  {multiYear && sumPlanYears(costs).map((yearTotal, i) => (
+                    <td key={i} className="py-2 px-3 text-right font-semibold text-gray-800">{formatCurrency(yearTotal, currency)}</td>
+                  ))}
+                  <td className="py-2 px-3 text-right font-semibold text-gray-800">{formatCurrency(categoryTotal, currency)}</td>
+                  <td className="py-2 px-3 text-right font-semibold text-gray-800">{formatCurrency(categoryTotal / horizon, currency)}</td>
+                  <td className="py-2 px-3 text-right font-semibold text-gray-800">
+                    {(grandTotal > 0 ? (categoryTotal / grandTotal) * 100 : 0).toFixed(1)}%
+                  </td>
+                </tr>
+              );
+            }
+            const { service, depth } = row;
+            const idx = services.indexOf(service);
+            const svcTotal = costByService[service.id] ?? 0;
+            const pct = grandTotal > 0 ? (svcTotal / grandTotal) * 100 : 0;
+            const t = svcRange > 0 ? (svcTotal - minSvc) / svcRange : 0;
+            const r = t < 0.5 ? Math.round(220 + (240 - 220) * (t * 2)) : 245;
+            const g = t < 0.5 ? 240 : Math.round(240 - (240 - 220) * ((t - 0.5) * 2));
+            const b = 220;
+            const heatBg = svcTotal > 0 ? `rgb(${r},${g},${b})` : undefined;
+            return (
+              <tr key={service.id}>
+                <td className="py-2 px-3 font-medium text-gray-900" style={getCategoryIndentStyle(depth)}>
+                  <button
+                    onClick={() => onAdjustService(service.id)}
+                    className="flex items-center gap-2 hover:text-blue-600 transition-colors"
+                  >
+                    <span className={`w-3 h-3 rounded-sm inline-block ${SERVICE_COLORS[idx % SERVICE_COLORS.length]}`} />
+                    <span className="underline decoration-gray-300 hover:decoration-blue-500 underline-offset-2">{service.name}</span>
+                  </button>
+                </td>
+                {multiYear && sumPlanYears(costGrid[service.id] ?? Array(horizon).fill(0)).map((yearTotal, i) => (
+                  <td key={i} className="py-2 px-3 text-right text-gray-700">{formatCurrency(yearTotal, currency)}</td>
+                ))}
+                <td className="py-2 px-3 text-right" style={{ backgroundColor: heatBg }}>{formatCurrency(svcTotal, currency)}</td>
+                <td className="py-2 px-3 text-right text-gray-700" style={{ backgroundColor: heatBg }}>{formatCurrency(svcTotal / horizon, currency)}</td>
+                <td className="py-2 px-3 text-right text-gray-700" style={{ backgroundColor: heatBg }}>{pct.toFixed(1)}%</td>
+              </tr>
+            );
+          })}
+        </tbody>
+        <tfoot>
+          <tr className="border-t-2 border-gray-300 font-semibold">
+            <td className="py-2 px-3">Total</td>
+            {multiYear && sumPlanYears(costByMonth).map((yearTotal, i) => (
+              <td key={i} className="py-2 px-3 text-right">{formatCurrency(yearTotal, currency)}</td>
+            ))}
+            <td className="py-2 px-3 text-right">{formatCurrency(grandTotal, currency)}</td>
+            <td className="py-2 px-3 text-right">{formatCurrency(grandTotal / horizon, currency)}</td>
+            <td className="py-2 px-3 text-right">100%</td>
+          </tr>
+        </tfoot>
+      </table>
+
+      {commitmentRows.length > 0 && (
+        <div className="mt-8">
+          <h3 className="text-sm font-semibold text-gray-700 mb-2">Commitments</h3>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-blue-100">
+                <th className="text-left py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Service</th>
+                <th className="text-right py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Term</th>
+                <th className="text-right py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Commitment Cost</th>
+                <th className="text-right py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Coverage</th>
+                <th className="text-right py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Utilization</th>
+                <th className="text-right py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Unused Units</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {commitmentRows.map(({ service, summary }) => (
+                <tr key={service.id}>
+                  <td className="py-2 px-3 font-medium text-gray-900">{service.name}</td>
+                  <td className="py-2 px-3 text-right text-gray-700">{service.commitment!.termMonths} mo</td>
+                  <td className="py-2 px-3 text-right text-gray-700">
+                    {formatCurrency(summary.commitmentCost, getServiceCurrency(service, budgetConfig))}
+                  </td>
+                  <td className="py-2 px-3 text-right text-gray-700">{(summary.coverage * 100).toFixed(1)}%</td>
+                  <td className={`py-2 px-3 text-right font-medium ${
+                    summary.utilization < 0.8 ? 'text-amber-600' : 'text-gray-700'
+                  }`}>
+                    {(summary.utilization * 100).toFixed(1)}%
+                  </td>
+                  <td className="py-2 px-3 text-right text-gray-500">
+                    {formatNumber(summary.unusedUnits, 0)} {service.unitType}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
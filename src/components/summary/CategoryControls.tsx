@@ -0,0 +1,48 @@
+import { getAllCategoryKeys, type CategoryNode } from '../../utils/categories';
+
+interface CategoryTogglesProps {
+  categoryTree: CategoryNode[];
+  onChange: (collapsed: Set<string>) => void;
+}
+
+export function CategoryToggles({ categoryTree, onChange }: CategoryTogglesProps) {
+  return (
+    <div className="flex justify-end gap-3 mb-2 text-xs">
+      <button onClick={() => onChange(new Set())} className="text-blue-600 hover:text-blue-700">
+        Expand all
+      </button>
+      <button
+        onClick={() => onChange(new Set(getAllCategoryKeys(categoryTree)))}
+        className="text-blue-600 hover:text-blue-700"
+      >
+        Collapse all
+      </button>
+    </div>
+  );
+}
+
+interface CategoryNameProps {
+  node: CategoryNode;
+  collapsed: ReadonlySet<string>;
+  onChange: (collapsed: Set<string>) => void;
+}
+
+// Category row label that collapses or expands the category
+export function CategoryName({ node, collapsed, onChange }: CategoryNameProps) {
+  function toggle() {
+    const next = new Set(collapsed);
+    if (next.has(node.key)) next.delete(node.key);
+    else next.add(node.key);
+    onChange(next);
+  }
+
+  return (
+    <button
+      onClick={toggle}
+      className="flex items-center gap-1.5 font-semibold text-gray-800 hover:text-blue-600 transition-colors"
+    >
+      <span className="w-3 text-gray-400">{collapsed.has(node.key) ? '\u25B8' : '\u25BE'}</span>
+      {node.name}
+    </button>
+  );
+}
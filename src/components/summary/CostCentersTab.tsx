@@ -0,0 +1,232 @@
+import { Fragment, useState } from 'react';
+import { useAppState } from '../../context/AppContext';
+import { hasAllocationRules } from '../../utils/allocation';
+import { UNALLOCATED_ID, calculateShowback, getCostCenters, sumShares } from '../../utils/costCenters';
+import { getReportingCurrency } from '../../utils/currency';
+import { formatCurrency, formatNumber } from '../../utils/formatters';
+import { generateMonthLabels, getHorizonMonths } from '../../utils/months';
+import { Select } from '../shared/Select';
+import type { CostCenterShares, ModelData } from '../../types';
+
+interface CostCentersTabProps {
+  data: ModelData;
+}
+
+export function CostCentersTab({ data }: CostCentersTabProps) {
+  const { dispatch } = useAppState();
+  const [splitServiceId, setSplitServiceId] = useState('');
+  const services = data.services;
+  const horizon = getHorizonMonths(data.budgetConfig);
+  const monthLabels = generateMonthLabels(data.budgetConfig.startMonth, data.budgetConfig.startYear, horizon);
+  const currency = getReportingCurrency(data.budgetConfig);
+
+  const costCenters = getCostCenters(data);
+  const showback = calculateShowback(data);
+  const splitService = services.find((s) => s.id === splitServiceId) ?? services[0];
+  const split = splitService?.costCenterSplit ?? { shares: {} };
+
+  function handleShareChange(monthIndex: number | null, costCenterId: string, raw: string) {
+    if (!splitService) return;
+    const pct = raw === '' ? 0 : parseFloat(raw);
+    if (isNaN(pct) || pct < 0) return;
+    const withShare = (shares: CostCenterShares) => ({ ...shares, [costCenterId]: pct });
+    const next = monthIndex === null
+      ? { ...split, shares: withShare(split.shares) }
+      // A month's first edit starts from the default split
+      : { ...split, monthlyShares: { ...split.monthlyShares, [monthIndex]: withShare(split.monthlyShares?.[monthIndex] ?? split.shares) } };
+    dispatch({ type: 'SET_COST_CENTER_SPLIT', payload: { serviceId: splitService.id, split: next } });
+  }
+
+  function handleClearMonth(monthIndex: number) {
+    if (!splitService || !split.monthlyShares) return;
+    const { [monthIndex]: _, ...rest } = split.monthlyShares;
+    void _;
+    dispatch({ type: 'SET_COST_CENTER_SPLIT', payload: { serviceId: splitService.id, split: { ...split, monthlyShares: rest } } });
+  }
+
+  const addCostCenterButton = (
+    <button
+      onClick={() => dispatch({ type: 'ADD_COST_CENTER', payload: { name: `Team ${costCenters.length + 1}` } })}
+      className="mt-3 text-sm text-blue-600 hover:text-blue-700 font-medium"
+    >
+      Add a cost center
+    </button>
+  );
+
+  if (costCenters.length === 0) {
+    return (
+      <div className="text-center py-12 bg-gray-50 rounded-lg border border-dashed border-gray-300">
+        <p className="text-gray-500">No cost centers on this model.</p>
+        <p className="text-xs text-gray-400 mt-1">
+          Add the teams that share these services, then split each service&apos;s cost between them.
+        </p>
+        {addCostCenterButton}
+      </div>
+    );
+  }
+
+  const splitColumns: (number | null)[] = [null, ...Array.from({ length: horizon }, (_, m) => m)];
+
+  return (
+    <div className="space-y-8">
+      {/* Showback */}
+      <div>
+        <h3 className="text-sm font-semibold text-gray-700 mb-2">
+          Showback by cost center
+          {hasAllocationRules(data) && (
+            <span className="font-normal text-gray-400"> (fully allocated: shared costs follow their allocation rules)</span>
+          )}
+        </h3>
+        <div className="overflow-x-auto">
+          <table className="text-xs w-full">
+            <thead>
+              <tr className="bg-blue-100">
+                <th className="text-left py-2.5 px-2 text-[11px] font-semibold text-blue-800 uppercase tracking-wider sticky left-0 bg-blue-100 min-w-[200px]">
+                  Cost center
+                </th>
+                {monthLabels.map((label, i) => (
+                  <th key={i} className="text-right py-2.5 px-2 text-[11px] font-semibold text-blue-800 uppercase tracking-wider min-w-[90px]">
+                    {label}
+                  </th>
+                ))}
+                <th className="text-right py-2.5 px-2 text-[11px] font-semibold text-blue-800 uppercase tracking-wider min-w-[100px]">Total</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {showback.map((row) => (
+                <Fragment key={row.costCenterId}>
+                  <tr className={row.costCenterId === UNALLOCATED_ID ? 'text-amber-700' : ''}>
+                    <td className="py-1.5 px-2 font-medium sticky left-0 bg-white">{row.name}</td>
+                    {row.byMonth.map((v, m) => (
+                      <td key={m} className="py-1.5 px-2 text-right">{formatCurrency(v, currency)}</td>
+                    ))}
+                    <td className="py-1.5 px-2 text-right font-semibold">{formatCurrency(row.total, currency)}</td>
+                  </tr>
+                  {services.filter((s) => row.byService[s.id]).map((service) => (
+                    <tr key={service.id} className="text-gray-500">
+                      <td className="py-1 px-2 pl-6 sticky left-0 bg-white">{service.name}</td>
+                      {row.byService[service.id].map((v, m) => (
+                        <td key={m} className="py-1 px-2 text-right">{formatCurrency(v, currency)}</td>
+                      ))}
+                      <td className="py-1 px-2 text-right">
+                        {formatCurrency(row.byService[service.id].reduce((sum, v) => sum + v, 0), currency)}
+                      </td>
+                    </tr>
+                  ))}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Cost centers */}
+      <div>
+        <h3 className="text-sm font-semibold text-gray-700 mb-2">Cost centers</h3>
+        <div className="flex flex-wrap gap-3">
+          {costCenters.map((cc) => (
+            <div key={cc.id} className="flex items-center gap-1.5">
+              <input
+                type="text"
+                value={cc.name}
+                onChange={(e) => dispatch({ type: 'RENAME_COST_CENTER', payload: { costCenterId: cc.id, name: e.target.value } })}
+                className="w-36 border border-gray-200 rounded px-1.5 py-1 text-xs font-medium text-gray-900 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              />
+              <button
+                onClick={() => dispatch({ type: 'DELETE_COST_CENTER', payload: cc.id })}
+                title="Remove cost center (its shares become unallocated)"
+                className="text-gray-400 hover:text-red-600"
+              >
+                &times;
+              </button>
+            </div>
+          ))}
+        </div>
+        {addCostCenterButton}
+      </div>
+
+      {/* Split editor */}
+      {splitService && (
+        <div>
+          <div className="flex items-center gap-3 mb-2">
+            <h3 className="text-sm font-semibold text-gray-700">Split for</h3>
+            <div className="w-56">
+              <Select
+                value={splitService.id}
+                options={services.map((s) => ({ value: s.id, label: s.name }))}
+                onChange={setSplitServiceId}
+              />
+            </div>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="text-xs w-full">
+              <thead>
+                <tr className="bg-blue-100">
+                  <th className="text-left py-2.5 px-2 text-[11px] font-semibold text-blue-800 uppercase tracking-wider sticky left-0 bg-blue-100 min-w-[160px]">
+                    Share %
+                  </th>
+                  {splitColumns.map((m) => (
+                    <th key={m ?? 'default'} className="text-right py-2.5 px-2 text-[11px] font-semibold text-blue-800 uppercase tracking-wider min-w-[80px]">
+                      {m === null ? 'Default' : monthLabels[m]}
+                      {m !== null && split.monthlyShares?.[m] && (
+                        <button
+                          onClick={() => handleClearMonth(m)}
+                          title="Use the default split for this month"
+                          className="ml-1 text-blue-500 hover:text-red-600 normal-case"
+                        >
+                          &times;
+                        </button>
+                      )}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {costCenters.map((cc) => (
+                  <tr key={cc.id}>
+                    <td className="py-1.5 px-2 font-medium text-gray-900 sticky left-0 bg-white">{cc.name}</td>
+                    {splitColumns.map((m) => {
+                      const monthShares = m === null ? undefined : split.monthlyShares?.[m];
+                      return (
+                        <td key={m ?? 'default'} className="py-1 px-1">
+                          <input
+                            type="number"
+                            min="0"
+                            max="100"
+                            step="any"
+                            value={m === null ? split.shares[cc.id] ?? '' : monthShares ? monthShares[cc.id] ?? '' : ''}
+                            placeholder={m === null ? '0' : String(split.shares[cc.id] ?? 0)}
+                            onChange={(e) => handleShareChange(m, cc.id, e.target.value)}
+                            className={`w-full border rounded px-1.5 py-1 text-xs text-right focus:outline-none focus:ring-1 focus:ring-blue-500 ${
+                              monthShares ? 'border-amber-300 bg-amber-50' : 'border-gray-200'
+                            }`}
+                          />
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+                <tr className="text-gray-500">
+                  <td className="py-1.5 px-2 sticky left-0 bg-white">Unallocated</td>
+                  {splitColumns.map((m) => {
+                    const shares = m === null ? split.shares : split.monthlyShares?.[m] ?? split.shares;
+                    const rest = 100 - sumShares(shares);
+                    return (
+                      <td key={m ?? 'default'} className={`py-1.5 px-2 text-right ${rest < 0 ? 'text-red-600' : rest > 0 ? 'text-amber-600' : ''}`}>
+                        {formatNumber(rest, 0)}%
+                      </td>
+                    );
+                  })}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            Month columns inherit the default split until you enter a share for that month.
+            Anything below 100% is shown as unallocated; splits above 100% are scaled down.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import { useAppState } from '../../context/AppContext';
+import { CURRENCIES, calculateFxSensitivity, getForeignCurrencies, getReportingCurrency } from '../../utils/currency';
+import { formatCurrency } from '../../utils/formatters';
+import { generateMonthLabels, getHorizonMonths } from '../../utils/months';
+import { Select } from '../shared/Select';
+import type { ModelData } from '../../types';
+
+interface CurrencyTabProps {
+  data: ModelData;
+  // Model total in the reporting currency, the base the rate shocks are added to
+  grandTotal: number;
+}
+
+export function CurrencyTab({ data, grandTotal }: CurrencyTabProps) {
+  const { dispatch } = useAppState();
+  const [fxShockPct, setFxShockPct] = useState('10');
+  const horizon = getHorizonMonths(data.budgetConfig);
+  const monthLabels = generateMonthLabels(data.budgetConfig.startMonth, data.budgetConfig.startYear, horizon);
+  const currency = getReportingCurrency(data.budgetConfig);
+
+  const foreign = getForeignCurrencies(data);
+  const pct = Math.max(parseFloat(fxShockPct) || 0, 0);
+  const exposures = calculateFxSensitivity(data, pct);
+  const totalExposure = exposures.reduce((s, e) => s + e.reportingTotal, 0);
+  const totalDown = exposures.reduce((s, e) => s + e.impactDown, 0);
+  const totalUp = exposures.reduce((s, e) => s + e.impactUp, 0);
+
+  function handleRateChange(code: string, monthIdx: number, raw: string) {
+    const value = parseFloat(raw);
+    if (isNaN(value) || value <= 0) return;
+    const current = data.fxRates?.[code] ?? Array(horizon).fill(1);
+    // Month 1 propagates to later months that still match it, like budget fields
+    const rates = current.map((r, m) =>
+      m === monthIdx || (monthIdx === 0 && r === current[0]) ? value : r
+    );
+    dispatch({ type: 'SET_FX_RATES', payload: { currency: code, rates } });
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-end gap-4">
+        <div className="w-40">
+          <label className="block text-xs font-medium text-gray-600 mb-1">Reporting currency</label>
+          <Select
+            value={currency}
+            options={CURRENCIES.map((c) => ({ value: c, label: c }))}
+            onChange={(v) => dispatch({ type: 'SET_REPORTING_CURRENCY', payload: v })}
+          />
+        </div>
+        <p className="text-xs text-gray-500 pb-2">
+          All totals are converted into {currency} using the monthly rates below.
+        </p>
+      </div>
+
+      {/* FX rate table */}
+      <div>
+        <h3 className="text-sm font-semibold text-gray-700 mb-2">Exchange rates</h3>
+        {foreign.length === 0 ? (
+          <p className="text-sm text-gray-400">Every service is billed in {currency}; no rates needed.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="text-xs w-full">
+              <thead>
+                <tr className="bg-blue-100">
+                  <th className="text-left py-2.5 px-2 text-[11px] font-semibold text-blue-800 uppercase tracking-wider sticky left-0 bg-blue-100 min-w-[120px]">
+                    {currency} per
+                  </th>
+                  {monthLabels.map((label, i) => (
+                    <th key={i} className="text-right py-2.5 px-2 text-[11px] font-semibold text-blue-800 uppercase tracking-wider min-w-[80px]">
+                      {label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {foreign.map((code) => (
+                  <tr key={code}>
+                    <td className="py-1.5 px-2 font-medium text-gray-900 sticky left-0 bg-white">1 {code}</td>
+                    {Array.from({ length: horizon }, (_, m) => (
+                      <td key={m} className="py-1 px-1">
+                        <input
+                          type="number"
+                          value={data.fxRates?.[code]?.[m] ?? 1}
+                          onChange={(e) => handleRateChange(code, m, e.target.value)}
+                          min="0"
+                          step="any"
+                          className="w-full border border-gray-200 rounded px-1.5 py-1 text-xs text-right focus:outline-none focus:ring-1 focus:ring-blue-500"
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* FX sensitivity */}
+      {foreign.length > 0 && (
+        <div>
+          <div className="flex items-center gap-2 mb-2">
+            <h3 className="text-sm font-semibold text-gray-700">Rate sensitivity</h3>
+            <span className="text-xs text-gray-500">if rates move by &plusmn;</span>
+            <div className="relative">
+              <input
+                type="number"
+                min="0"
+                value={fxShockPct}
+                onChange={(e) => setFxShockPct(e.target.value)}
+                className="w-16 border border-gray-300 rounded px-2 py-1 text-xs text-right pr-5 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              />
+              <span className="absolute right-2 top-1/2 -translate-y-1/2 text-xs text-gray-400">%</span>
+            </div>
+          </div>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-blue-100">
+                <th className="text-left py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Currency</th>
+                <th className="text-right py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Annual (native)</th>
+                <th className="text-right py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Annual ({currency})</th>
+                <th className="text-right py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">&minus;{pct}%</th>
+                <th className="text-right py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">+{pct}%</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {exposures.map((e) => (
+                <tr key={e.currency}>
+                  <td className="py-2 px-3 font-medium text-gray-900">{e.currency}</td>
+                  <td className="py-2 px-3 text-right text-gray-700">{formatCurrency(e.nativeTotal, e.currency)}</td>
+                  <td className="py-2 px-3 text-right">{formatCurrency(e.reportingTotal, currency)}</td>
+                  <td className="py-2 px-3 text-right text-green-600">{formatCurrency(e.impactDown, currency)}</td>
+                  <td className="py-2 px-3 text-right text-red-600">+{formatCurrency(e.impactUp, currency)}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className="border-t-2 border-gray-300 font-semibold">
+                <td className="py-2 px-3">All foreign currencies</td>
+                <td className="py-2 px-3" />
+                <td className="py-2 px-3 text-right">{formatCurrency(totalExposure, currency)}</td>
+                <td className="py-2 px-3 text-right text-green-600">{formatCurrency(totalDown, currency)}</td>
+                <td className="py-2 px-3 text-right text-red-600">+{formatCurrency(totalUp, currency)}</td>
+              </tr>
+              <tr className="text-xs text-gray-500">
+                <td className="py-1.5 px-3">Annual total</td>
+                <td className="py-1.5 px-3" />
+                <td className="py-1.5 px-3 text-right">{formatCurrency(grandTotal, currency)}</td>
+                <td className="py-1.5 px-3 text-right">{formatCurrency(grandTotal + totalDown, currency)}</td>
+                <td className="py-1.5 px-3 text-right">{formatCurrency(grandTotal + totalUp, currency)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import { Fragment } from 'react';
+import { useAppState } from '../../context/AppContext';
+import { getDrivers, getLinkedServices } from '../../utils/drivers';
+import { formatNumber } from '../../utils/formatters';
+import { generateMonthLabels, getHorizonMonths } from '../../utils/months';
+import type { ModelData } from '../../types';
+
+interface DriversTabProps {
+  data: ModelData;
+}
+
+export function DriversTab({ data }: DriversTabProps) {
+  const { dispatch } = useAppState();
+  const budgetData = data.budgetData;
+  const horizon = getHorizonMonths(data.budgetConfig);
+  const monthLabels = generateMonthLabels(data.budgetConfig.startMonth, data.budgetConfig.startYear, horizon);
+
+  const drivers = getDrivers(data);
+
+  function handleValueChange(driverId: string, monthIndex: number, raw: string) {
+    const value = parseFloat(raw);
+    if (isNaN(value) || value < 0) return;
+    dispatch({ type: 'SET_DRIVER_VALUE', payload: { driverId, monthIndex, value } });
+  }
+
+  const addDriverButton = (
+    <button
+      onClick={() => dispatch({ type: 'ADD_DRIVER', payload: { name: `Driver ${drivers.length + 1}`, unit: '' } })}
+      className="mt-3 text-sm text-blue-600 hover:text-blue-700 font-medium"
+    >
+      Add a driver
+    </button>
+  );
+
+  if (drivers.length === 0) {
+    return (
+      <div className="text-center py-12 bg-gray-50 rounded-lg border border-dashed border-gray-300">
+        <p className="text-gray-500">No business drivers on this model.</p>
+        <p className="text-xs text-gray-400 mt-1">
+          Forecast metrics such as active users or orders, then link services to them from the service form.
+        </p>
+        {addDriverButton}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="overflow-x-auto">
+        <table className="text-xs w-full">
+          <thead>
+            <tr className="bg-blue-100">
+              <th className="text-left py-2.5 px-2 text-[11px] font-semibold text-blue-800 uppercase tracking-wider sticky left-0 bg-blue-100 min-w-[220px]">
+                Driver
+              </th>
+              {monthLabels.map((label, i) => (
+                <th key={i} className="text-right py-2.5 px-2 text-[11px] font-semibold text-blue-800 uppercase tracking-wider min-w-[90px]">
+                  {label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {drivers.map((driver) => (
+              <Fragment key={driver.id}>
+                <tr>
+                  <td className="py-1.5 px-2 sticky left-0 bg-white">
+                    <div className="flex items-center gap-1.5">
+                      <input
+                        type="text"
+                        value={driver.name}
+                        onChange={(e) => dispatch({
+                          type: 'UPDATE_DRIVER',
+                          payload: { driverId: driver.id, name: e.target.value, unit: driver.unit },
+                        })}
+                        className="w-28 border border-gray-200 rounded px-1.5 py-1 text-xs font-medium text-gray-900 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                      />
+                      <input
+                        type="text"
+                        value={driver.unit}
+                        onChange={(e) => dispatch({
+                          type: 'UPDATE_DRIVER',
+                          payload: { driverId: driver.id, name: driver.name, unit: e.target.value },
+                        })}
+                        placeholder="unit"
+                        className="w-16 border border-gray-200 rounded px-1.5 py-1 text-xs text-gray-600 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                      />
+                      <button
+                        onClick={() => dispatch({ type: 'DELETE_DRIVER', payload: driver.id })}
+                        title="Remove driver (linked services keep their current consumption)"
+                        className="text-gray-400 hover:text-red-600"
+                      >
+                        &times;
+                      </button>
+                    </div>
+                  </td>
+                  {driver.values.map((field, m) => (
+                    <td key={m} className="py-1 px-1">
+                      <input
+                        type="number"
+                        value={field.value}
+                        onChange={(e) => handleValueChange(driver.id, m, e.target.value)}
+                        onDoubleClick={() => field.isOverridden && dispatch({
+                          type: 'CLEAR_DRIVER_OVERRIDE',
+                          payload: { driverId: driver.id, monthIndex: m },
+                        })}
+                        title={field.isOverridden ? 'Custom override (double-click to reset)' : undefined}
+                        min="0"
+                        step="any"
+                        className={`w-full border rounded px-1.5 py-1 text-xs text-right focus:outline-none focus:ring-1 focus:ring-blue-500 ${
+                          field.isOverridden ? 'border-amber-300 bg-amber-50' : 'border-gray-200'
+                        }`}
+                      />
+                    </td>
+                  ))}
+                </tr>
+                {getLinkedServices(data, driver.id).map((service) => (
+                  <tr key={service.id} className="text-gray-500">
+                    <td className="py-1 px-2 pl-6 sticky left-0 bg-white">
+                      {service.name}
+                      <span className="ml-1 text-gray-400">
+                        &times; {service.driver!.ratio} {service.unitType}{driver.unit ? ` / ${driver.unit}` : ''}
+                      </span>
+                    </td>
+                    {Array.from({ length: horizon }, (_, m) => (
+                      <td key={m} className="py-1 px-2 text-right">
+                        {formatNumber(budgetData[service.id]?.[m]?.consumption.value ?? 0)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {addDriverButton}
+      <p className="text-xs text-gray-500 mt-2">
+        Month 1 values propagate to later months, like budget fields. Editing a driver recalculates
+        consumption for every linked service; link a service from its Edit Service form.
+      </p>
+    </div>
+  );
+}
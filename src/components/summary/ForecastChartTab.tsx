@@ -0,0 +1,356 @@
+import { getCurrencySymbol, getReportingCurrency } from '../../utils/currency';
+import { formatCurrency, formatNumber } from '../../utils/formatters';
+import { deltaColor, heatColor } from '../../utils/heatColors';
+import { generateMonthLabels, getHorizonMonths, getPlanYears } from '../../utils/months';
+import { SERVICE_COLORS } from '../../utils/serviceColors';
+import { isModelTarget, type TargetReconciliation } from '../../utils/targets';
+import { hasCategories, sumCategoryCosts, type CategoryNode } from '../../utils/categories';
+import type { VarianceSummary } from '../../utils/actuals';
+import type { SimulationResult } from '../../utils/monteCarlo';
+import type { ModelData } from '../../types';
+
+const FILL_COLORS = [
+  '#3b82f6', '#10b981', '#f59e0b', '#f43f5e',
+  '#8b5cf6', '#06b6d4', '#f97316', '#14b8a6',
+  '#ec4899', '#6366f1', '#84cc16', '#d946ef',
+];
+
+interface ForecastChartTabProps {
+  data: ModelData;
+  // Reporting-currency costs per service and month, and their totals
+  costGrid: Record<string, number[]>;
+  costByService: Record<string, number>;
+  costByMonth: number[];
+  categoryTree: CategoryNode[];
+  targetRecs: TargetReconciliation[];
+  variance: VarianceSummary | null;
+  risk: SimulationResult | null;
+  simulating: boolean;
+  simulationError: string | null;
+  onAdjustService: (serviceId: string) => void;
+  onAddService: () => void;
+}
+
+export function ForecastChartTab({
+  data, costGrid, costByService, costByMonth, categoryTree, targetRecs, variance, risk, simulating, simulationError,
+  onAdjustService, onAddService,
+}: ForecastChartTabProps) {
+  const services = data.services;
+  const horizon = getHorizonMonths(data.budgetConfig);
+  const monthLabels = generateMonthLabels(data.budgetConfig.startMonth, data.budgetConfig.startYear, horizon);
+  const multiYear = getPlanYears(horizon).length > 1;
+  const currency = getReportingCurrency(data.budgetConfig);
+  const deltaByMonth = costByMonth.map((cost, i) => i === 0 ? 0 : cost - costByMonth[i - 1]);
+
+  const modelTargetRec = targetRecs.find((r) => isModelTarget(r.target));
+  // A month is over target when any model, service or group target is exceeded
+  const overTargetMonths = Array.from({ length: horizon }, (_, m) => targetRecs.some((r) => r.gapByMonth[m] > 0.005));
+
+  // Once any service has a category, the chart stacks top-level categories
+  const chartLayers = hasCategories(services)
+    ? categoryTree.map((node) => {
+        const costs = sumCategoryCosts(node, costGrid, horizon);
+        return { key: node.key, name: node.name, costs, total: costs.reduce((a, c) => a + c, 0), serviceId: undefined };
+      })
+    : services.map((service) => ({
+        key: service.id,
+        name: service.name,
+        costs: costGrid[service.id] ?? [],
+        total: costByService[service.id] ?? 0,
+        serviceId: service.id,
+      }));
+
+  const minMonth = Math.min(...costByMonth);
+  const maxMonth = Math.max(...costByMonth);
+  const deltas = deltaByMonth.slice(1);
+  const minDelta = Math.min(...deltas);
+  const maxDelta = Math.max(...deltas);
+
+  // Area chart geometry
+  const chartW = 800;
+  const chartH = 288;
+  const padL = 60;
+  const padR = 10;
+  const padT = 10;
+  const padB = 4;
+  const plotW = chartW - padL - padR;
+  const plotH = chartH - padT - padB;
+  const yMax = Math.max(
+    ...costByMonth,
+    ...(risk?.byMonth.map((p) => p.p90) ?? []),
+    ...(modelTargetRec?.targetByMonth ?? []),
+    ...(variance?.actualByMonth.map((v) => v ?? 0) ?? []),
+    1
+  );
+
+  // Build cumulative stacks per month
+  const stacks: number[][] = Array.from({ length: horizon }, () => [0]);
+  for (const layer of chartLayers) {
+    for (let m = 0; m < horizon; m++) {
+      const prev = stacks[m][stacks[m].length - 1];
+      stacks[m].push(prev + (layer.costs[m] ?? 0));
+    }
+  }
+
+  const xForMonth = (m: number) => padL + (m / Math.max(horizon - 1, 1)) * plotW;
+  // Longer horizons only label every quarter so the figures stay legible
+  const labelStep = multiYear ? 3 : 1;
+  const yForValue = (v: number) => padT + plotH - (v / yMax) * plotH;
+
+  // Monotone cubic spline — attempt a Catmull-Rom-style smooth path through points
+  function smoothLine(pts: [number, number][]): string {
+    if (pts.length < 2) return '';
+    if (pts.length === 2) return `M${pts[0][0]},${pts[0][1]}L${pts[1][0]},${pts[1][1]}`;
+    let d = `M${pts[0][0]},${pts[0][1]}`;
+    for (let i = 0; i < pts.length - 1; i++) {
+      const p0 = pts[Math.max(i - 1, 0)];
+      const p1 = pts[i];
+      const p2 = pts[i + 1];
+      const p3 = pts[Math.min(i + 2, pts.length - 1)];
+      const cp1x = p1[0] + (p2[0] - p0[0]) / 6;
+      const cp1y = p1[1] + (p2[1] - p0[1]) / 6;
+      const cp2x = p2[0] - (p3[0] - p1[0]) / 6;
+      const cp2y = p2[1] - (p3[1] - p1[1]) / 6;
+      d += `C${cp1x},${cp1y},${cp2x},${cp2y},${p2[0]},${p2[1]}`;
+    }
+    return d;
+  }
+
+  // Y-axis ticks — choose a round interval based on data magnitude
+  const niceIntervals = [100, 200, 500, 1000, 2000, 5000, 10000, 20000, 50000, 100000, 200000, 500000, 1000000, 2000000, 5000000];
+  const targetTicks = 5;
+  const rawInterval = yMax / targetTicks;
+  const tickInterval = niceIntervals.find(n => n >= rawInterval) ?? Math.ceil(rawInterval / 1000000) * 1000000;
+  const yTicks: number[] = [];
+  for (let v = 0; v <= yMax; v += tickInterval) {
+    yTicks.push(v);
+  }
+  // Compact label: $1K, $10K, $1.5M etc.
+  function compactCurrency(v: number): string {
+    const symbol = getCurrencySymbol(currency);
+    if (v === 0) return `${symbol}0`;
+    if (v >= 1000000) return `${symbol}${(v / 1000000).toFixed(v % 1000000 === 0 ? 0 : 1)}M`;
+    if (v >= 1000) return `${symbol}${(v / 1000).toFixed(v % 1000 === 0 ? 0 : 1)}K`;
+    return `${symbol}${v}`;
+  }
+
+  return (
+    <div>
+      <div className="mb-8">
+        {/* Legend */}
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+          {chartLayers.map((layer, idx) => layer.serviceId ? (
+            <button
+              key={layer.key}
+              onClick={() => onAdjustService(layer.serviceId)}
+              className="flex items-center gap-1.5 text-xs text-gray-700 hover:text-blue-600 transition-colors"
+            >
+              <span className={`w-3 h-3 rounded-sm inline-block ${SERVICE_COLORS[idx % SERVICE_COLORS.length]}`} />
+              <span className="underline decoration-gray-300 hover:decoration-blue-500 underline-offset-2">{layer.name}</span>
+            </button>
+          ) : (
+            <span key={layer.key} className="flex items-center gap-1.5 text-xs text-gray-700">
+              <span className={`w-3 h-3 rounded-sm inline-block ${SERVICE_COLORS[idx % SERVICE_COLORS.length]}`} />
+              {layer.name}
+            </span>
+          ))}
+          <button
+            onClick={onAddService}
+            className="text-xs text-gray-500 hover:text-blue-600 border border-dashed border-gray-300 hover:border-blue-400 rounded px-2 py-0.5 transition-colors"
+          >
+            + add service
+          </button>
+          {variance && (
+            <span className="ml-auto flex items-center gap-1.5 text-xs text-gray-500">
+              <span className="w-4 h-0.5 inline-block bg-orange-600" />
+              Actual {formatCurrency(variance.actual, currency)}
+              <span className={variance.variance > 0.005 ? 'text-red-600' : 'text-green-600'}>
+                ({variance.variance > 0 ? '+' : ''}{formatCurrency(variance.variance, currency)} vs plan)
+              </span>
+            </span>
+          )}
+          {(risk || simulating) && (
+            <span className={`${variance ? '' : 'ml-auto '}flex items-center gap-1.5 text-xs text-gray-500`}>
+              <span className="w-4 h-2.5 rounded-sm inline-block bg-gray-400/30 border border-gray-400/60" />
+              {risk
+                ? <>P10 {formatCurrency(risk.total.p10, currency)} · P50 {formatCurrency(risk.total.p50, currency)} · P90 {formatCurrency(risk.total.p90, currency)} <span className="text-gray-400">({formatNumber(risk.iterations, 0)} simulations{simulating ? ', updating…' : ''})</span></>
+                : 'Simulating…'}
+            </span>
+          )}
+          {simulationError && !simulating && (
+            <span className={`${variance ? '' : 'ml-auto '}text-xs text-red-600`} title={simulationError}>
+              Uncertainty simulation failed: {simulationError}
+            </span>
+          )}
+        </div>
+
+        {/* Area Chart */}
+        <svg viewBox={`0 0 ${chartW} ${chartH}`} className="w-full" style={{ aspectRatio: `${chartW} / ${chartH}` }}>
+          {/* Horizontal grid lines */}
+          {yTicks.map((tick, i) => {
+            const y = yForValue(tick);
+            return (
+              <g key={i}>
+                <line x1={padL} y1={y} x2={chartW - padR} y2={y} stroke="#6b7280" strokeWidth={0.5} strokeDasharray="4 3" opacity={0.4} />
+                <text x={padL - 6} y={y + 3} textAnchor="end" fontSize={9} fill="#6b7280">
+                  {compactCurrency(tick)}
+                </text>
+              </g>
+            );
+          })}
+
+          {/* Months over any target, shaded behind the areas */}
+          {overTargetMonths.map((over, m) => {
+            if (!over) return null;
+            const half = plotW / Math.max(horizon - 1, 1) / 2;
+            const x0 = Math.max(xForMonth(m) - half, padL);
+            const x1 = Math.min(xForMonth(m) + half, chartW - padR);
+            return <rect key={m} x={x0} y={padT} width={x1 - x0} height={plotH} fill="#ef4444" opacity={0.1} />;
+          })}
+
+          {/* Stacked areas — render bottom-to-top (last service or category on top) */}
+          {chartLayers.map((layer, svcIdx) => {
+            const layerIdx = svcIdx + 1;
+            const topPts: [number, number][] = Array.from({ length: horizon }, (_, m) =>
+              [xForMonth(m), yForValue(stacks[m][layerIdx])]
+            );
+            const bottomPts: [number, number][] = Array.from({ length: horizon }, (_, m) =>
+              [xForMonth(horizon - 1 - m), yForValue(stacks[horizon - 1 - m][svcIdx])]
+            );
+            const topD = smoothLine(topPts);
+            const bottomD = smoothLine(bottomPts);
+            // Connect top curve to bottom curve to form a closed area
+            const areaD = `${topD}L${bottomPts[0][0]},${bottomPts[0][1]}${bottomD.slice(bottomD.indexOf('C'))}Z`;
+            return (
+              <path
+                key={layer.key}
+                d={areaD}
+                fill={FILL_COLORS[svcIdx % FILL_COLORS.length]}
+                fillOpacity={0.75}
+                stroke={FILL_COLORS[svcIdx % FILL_COLORS.length]}
+                strokeWidth={1}
+                className={layer.serviceId ? 'cursor-pointer hover:opacity-90 transition-opacity' : undefined}
+                onClick={layer.serviceId ? () => onAdjustService(layer.serviceId) : undefined}
+              >
+                <title>{layer.name}: {formatCurrency(layer.total, currency)} {multiYear ? `over ${horizon} mo` : '/ yr'}</title>
+              </path>
+            );
+          }).reverse()}
+
+          {/* Vertical month markers — drawn over areas so they're visible */}
+          {Array.from({ length: horizon }, (_, m) => (
+            <line key={m} x1={xForMonth(m)} y1={padT} x2={xForMonth(m)} y2={padT + plotH} stroke="#6b7280" strokeWidth={1} strokeDasharray="4 3" opacity={0.6} />
+          ))}
+
+          {/* P10–P90 risk band and median, when any service has an uncertainty range */}
+          {risk && (() => {
+            const upper = smoothLine(risk.byMonth.map((p, m): [number, number] => [xForMonth(m), yForValue(p.p90)]));
+            const lower = smoothLine(
+              risk.byMonth.map((p, m): [number, number] => [xForMonth(m), yForValue(p.p10)]).reverse()
+            );
+            const lastP10 = risk.byMonth[horizon - 1]?.p10 ?? 0;
+            return (
+              <g pointerEvents="none">
+                <path
+                  d={`${upper}L${xForMonth(horizon - 1)},${yForValue(lastP10)}${lower.slice(lower.indexOf('C'))}Z`}
+                  fill="#6b7280"
+                  fillOpacity={0.18}
+                  stroke="#6b7280"
+                  strokeWidth={0.75}
+                  strokeOpacity={0.5}
+                />
+                <path
+                  d={smoothLine(risk.byMonth.map((p, m): [number, number] => [xForMonth(m), yForValue(p.p50)]))}
+                  fill="none"
+                  stroke="#374151"
+                  strokeWidth={1.5}
+                  strokeDasharray="5 3"
+                />
+              </g>
+            );
+          })()}
+
+          {/* Model target */}
+          {modelTargetRec && (
+            <path
+              d={modelTargetRec.targetByMonth.map((v, m) => `${m === 0 ? 'M' : 'L'}${xForMonth(m)},${yForValue(v)}`).join('')}
+              fill="none"
+              stroke="#dc2626"
+              strokeWidth={1.5}
+              strokeDasharray="6 4"
+            >
+              <title>{modelTargetRec.target.name}: {formatCurrency(modelTargetRec.targetTotal, currency)}</title>
+            </path>
+          )}
+
+          {/* Total line on top */}
+          <path
+            d={smoothLine(costByMonth.map((cost, m): [number, number] => [xForMonth(m), yForValue(cost)]))}
+            fill="none"
+            stroke="#1e3a5f"
+            strokeWidth={2}
+            strokeLinejoin="round"
+          />
+
+          {/* Actuals over the plan, for closed months */}
+          {variance && (() => {
+            const points = variance.actualByMonth.flatMap((v, m) => (v === null ? [] : [[m, v] as const]));
+            return (
+              <g>
+                <path
+                  d={points.map(([m, v], i) => `${i === 0 ? 'M' : 'L'}${xForMonth(m)},${yForValue(v)}`).join('')}
+                  fill="none"
+                  stroke="#ea580c"
+                  strokeWidth={2}
+                  strokeLinejoin="round"
+                />
+                {points.map(([m, v]) => (
+                  <circle key={m} cx={xForMonth(m)} cy={yForValue(v)} r={3} fill="#ea580c">
+                    <title>
+                      {monthLabels[m]} actual: {formatCurrency(v, currency)} (plan {formatCurrency(costByMonth[m], currency)})
+                    </title>
+                  </circle>
+                ))}
+              </g>
+            );
+          })()}
+        </svg>
+
+        {/* Month labels, totals, deltas — positioned to match SVG data points */}
+        <div className="relative" style={{ height: '3.25rem' }}>
+          {costByMonth.map((monthTotal, monthIdx) => {
+            if (monthIdx % labelStep !== 0) return null;
+            const delta = deltaByMonth[monthIdx];
+            const xPct = (xForMonth(monthIdx) / chartW) * 100;
+            return (
+              <div
+                key={monthIdx}
+                className="absolute flex flex-col items-center"
+                style={{ left: `${xPct}%`, transform: 'translateX(-50%)' }}
+              >
+                <div className="text-[10px] text-gray-500 mt-1">
+                  {multiYear ? monthLabels[monthIdx] : monthLabels[monthIdx].split(' ')[0]}
+                </div>
+                <div
+                  className="text-[10px] text-gray-700 font-medium tabular-nums whitespace-nowrap rounded px-0.5"
+                  style={{ backgroundColor: heatColor(monthTotal, minMonth, maxMonth) }}
+                >
+                  {monthTotal > 0 ? formatCurrency(monthTotal, currency) : '\u00A0'}
+                </div>
+                <div
+                  className="text-[10px] tabular-nums whitespace-nowrap rounded px-0.5 mt-0.5"
+                  style={{
+                    backgroundColor: monthIdx > 0 ? deltaColor(delta, minDelta, maxDelta) : undefined,
+                    color: monthIdx === 0 ? 'transparent' : delta > 0 ? '#b91c1c' : delta < 0 ? '#15803d' : '#6b7280',
+                  }}
+                >
+                  {monthIdx === 0 ? '\u00A0' : `${delta >= 0 ? '+' : ''}${formatCurrency(delta, currency)}`}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
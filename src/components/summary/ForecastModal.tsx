@@ -0,0 +1,222 @@
+import { useMemo, useState } from 'react';
+import { useAppState } from '../../context/AppContext';
+import { formatNumber } from '../../utils/formatters';
+import { calculateBilledUnits } from '../../utils/calculations';
+import {
+  FORECAST_METHODS,
+  SEASONAL_HISTORY_MONTHS,
+  forecastService,
+  pickBestForecast,
+  type ForecastMethod,
+} from '../../utils/forecasting';
+import { getHorizonMonths, getPlanMonthLabel } from '../../utils/months';
+
+interface ForecastModalProps {
+  serviceId: string;
+  onClose: () => void;
+}
+
+const CHART_W = 560;
+const CHART_H = 160;
+const PAD_L = 8;
+const PAD_R = 8;
+const PAD_T = 8;
+const PAD_B = 18;
+
+export function ForecastModal({ serviceId, onClose }: ForecastModalProps) {
+  const { activeModel, dispatch } = useAppState();
+  const data = activeModel?.data;
+  const service = data?.services.find((s) => s.id === serviceId);
+  const forecast = useMemo(() => (data ? forecastService(data, serviceId) : null), [data, serviceId]);
+  const [method, setMethod] = useState<ForecastMethod | null>(null);
+
+  if (!data || !service) return null;
+
+  const horizon = getHorizonMonths(data.budgetConfig);
+  const label = (m: number) => getPlanMonthLabel(data.budgetConfig, m);
+  const selected = forecast
+    ? forecast.results.find((r) => r.method === method) ?? pickBestForecast(forecast.results)
+    : undefined;
+  const sum = (values: number[]) => values.reduce((a, v) => a + v, 0);
+  // The plan in the same billed units as the recorded usage
+  const plannedTotal = forecast
+    ? sum(Array.from({ length: horizon - forecast.startMonth }, (_, i) => {
+        const entry = data.budgetData[serviceId]?.[forecast.startMonth + i];
+        return entry ? calculateBilledUnits(entry.consumption.value, entry.efficiency.value, entry.overhead.value) : 0;
+      }))
+    : 0;
+  const unit = service.unitType;
+
+  function handleApply() {
+    if (!forecast || !selected) return;
+    dispatch({
+      type: 'APPLY_CONSUMPTION_FORECAST',
+      payload: { serviceId, startMonth: forecast.startMonth, usage: selected.forecast },
+    });
+    onClose();
+  }
+
+  // History, the selected method's fit over it, and the forecast, on one month axis
+  let chart: React.ReactNode = null;
+  if (forecast && selected) {
+    const { history } = forecast;
+    const firstMonth = history.startMonth;
+    const span = Math.max(horizon - 1 - firstMonth, 1);
+    const maxValue = Math.max(
+      ...history.values,
+      ...selected.forecast,
+      ...selected.fitted.map((v) => v ?? 0),
+      1
+    );
+    const plotW = CHART_W - PAD_L - PAD_R;
+    const plotH = CHART_H - PAD_T - PAD_B;
+    const x = (m: number) => PAD_L + ((m - firstMonth) / span) * plotW;
+    const y = (v: number) => PAD_T + plotH - (v / maxValue) * plotH;
+    const points = (values: (number | null)[], offset: number) =>
+      values.flatMap((v, i) => (v === null ? [] : [`${x(offset + i)},${y(v)}`])).join(' ');
+    const historyEnd = firstMonth + history.values.length;
+    const lastHistory = history.values[history.values.length - 1];
+
+    chart = (
+      <svg viewBox={`0 0 ${CHART_W} ${CHART_H}`} className="w-full" style={{ aspectRatio: `${CHART_W} / ${CHART_H}` }}>
+        <line x1={PAD_L} y1={PAD_T + plotH} x2={CHART_W - PAD_R} y2={PAD_T + plotH} stroke="#d1d5db" strokeWidth={1} />
+        <line
+          x1={x(forecast.startMonth - 0.5)} y1={PAD_T}
+          x2={x(forecast.startMonth - 0.5)} y2={PAD_T + plotH}
+          stroke="#6b7280" strokeWidth={1} strokeDasharray="4 3" opacity={0.6}
+        />
+        <polyline points={points(history.values, firstMonth)} fill="none" stroke="#6b7280" strokeWidth={2} />
+        <polyline points={points(selected.fitted, firstMonth)} fill="none" stroke="#2563eb" strokeWidth={1.5} strokeDasharray="5 3" opacity={0.7} />
+        {/* The forecast line picks up from the last history point so the two read as one series,
+            unless the history stops short of the plan */}
+        <polyline
+          points={historyEnd === forecast.startMonth
+            ? points([lastHistory, ...selected.forecast], forecast.startMonth - 1)
+            : points(selected.forecast, forecast.startMonth)}
+          fill="none" stroke="#2563eb" strokeWidth={2}
+        />
+        <text x={PAD_L} y={CHART_H - 4} fontSize={9} fill="#6b7280">{label(firstMonth)}</text>
+        <text x={x(forecast.startMonth)} y={CHART_H - 4} fontSize={9} fill="#6b7280" textAnchor="middle">
+          {label(forecast.startMonth)}
+        </text>
+        <text x={CHART_W - PAD_R} y={CHART_H - 4} fontSize={9} fill="#6b7280" textAnchor="end">{label(horizon - 1)}</text>
+      </svg>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-xl w-full max-w-2xl mx-4 flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 pt-5 pb-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Forecast {service.name}</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Project consumption from the usage recorded in actuals, including months before the plan starts, instead
+            of an initial value and a growth rate.
+          </p>
+        </div>
+
+        <div className="px-6 py-4 space-y-4">
+          {forecast && selected ? (
+            <>
+              <p className="text-xs text-gray-500">
+                {forecast.history.values.length} months of usage history ({label(forecast.history.startMonth)} to{' '}
+                {label(forecast.history.startMonth + forecast.history.values.length - 1)}), forecasting{' '}
+                {horizon - forecast.startMonth} months.
+              </p>
+
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="bg-blue-100">
+                    <th className="text-left py-2 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Method</th>
+                    <th className="text-right py-2 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">MAPE</th>
+                    <th className="text-right py-2 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">RMSE</th>
+                    <th className="text-right py-2 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Forecast total</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {forecast.results.map((result) => (
+                    <tr
+                      key={result.method}
+                      onClick={() => setMethod(result.method)}
+                      className={`cursor-pointer ${result === selected ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                    >
+                      <td className="py-2 px-3">
+                        <label className="flex items-center gap-2 cursor-pointer">
+                          <input
+                            type="radio"
+                            name="forecast-method"
+                            checked={result === selected}
+                            onChange={() => setMethod(result.method)}
+                          />
+                          <span className="font-medium text-gray-900">
+                            {FORECAST_METHODS.find((m) => m.value === result.method)?.label}
+                          </span>
+                        </label>
+                      </td>
+                      <td className="py-2 px-3 text-right tabular-nums text-gray-700">
+                        {result.mape === null ? '—' : `${formatNumber(result.mape, 1)}%`}
+                      </td>
+                      <td className="py-2 px-3 text-right tabular-nums text-gray-700">
+                        {result.rmse === null ? '—' : formatNumber(result.rmse)}
+                      </td>
+                      <td className="py-2 px-3 text-right tabular-nums text-gray-700">
+                        {formatNumber(sum(result.forecast), 0)} {unit}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-xs text-gray-400">
+                Errors compare each method&apos;s fit against the recorded history; lower is closer. The current plan has{' '}
+                {formatNumber(plannedTotal, 0)} {unit} of billed usage over the same months.
+                {forecast.history.values.length < SEASONAL_HISTORY_MONTHS &&
+                  ` Holt-Winters seasonal smoothing needs ${SEASONAL_HISTORY_MONTHS} months of usage history.`}
+              </p>
+
+              <div>
+                {chart}
+                <div className="flex items-center gap-4 text-xs text-gray-500 mt-1">
+                  <span className="flex items-center gap-1.5"><span className="w-4 h-0.5 inline-block bg-gray-500" />History</span>
+                  <span className="flex items-center gap-1.5"><span className="w-4 h-0.5 inline-block border-t border-dashed border-blue-600" />Fit</span>
+                  <span className="flex items-center gap-1.5"><span className="w-4 h-0.5 inline-block bg-blue-600" />Forecast</span>
+                </div>
+              </div>
+            </>
+          ) : (
+            <div className="text-center py-8 bg-gray-50 rounded-lg border border-dashed border-gray-300">
+              <p className="text-gray-500">Not enough usage history to forecast.</p>
+              <p className="text-xs text-gray-400 mt-1">
+                Record usage for at least three months, in the plan or before it starts, and leave plan months after
+                them to forecast into.
+              </p>
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-3 border-t border-gray-200 flex items-center justify-end gap-2">
+          {forecast && (
+            <span className="mr-auto text-xs text-gray-400">
+              Writes {label(forecast.startMonth)}&ndash;{label(horizon - 1)} as consumption overrides, net of efficiency and overhead.
+            </span>
+          )}
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={!selected}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Apply forecast
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { useMemo, useState } from 'react';
+import { useAppState } from '../../context/AppContext';
+import { getReportingCurrency } from '../../utils/currency';
+import { formatCurrency, formatNumber } from '../../utils/formatters';
+import { GOAL_SEEK_LEVERS, calculateScopeTotal, goalSeek, type GoalSeekLever } from '../../utils/goalSeek';
+import { Select } from '../shared/Select';
+
+interface GoalSeekModalProps {
+  onClose: () => void;
+}
+
+const MODEL_SCOPE = '__model__';
+
+export function GoalSeekModal({ onClose }: GoalSeekModalProps) {
+  const { activeModel, dispatch } = useAppState();
+  const data = activeModel?.data;
+  const currency = data ? getReportingCurrency(data.budgetConfig) : 'USD';
+
+  const [scope, setScope] = useState(MODEL_SCOPE);
+  const [lever, setLever] = useState<GoalSeekLever>('consumption');
+  const serviceId = scope === MODEL_SCOPE ? null : scope;
+  const currentTotal = useMemo(() => (data ? calculateScopeTotal(data, serviceId) : 0), [data, serviceId]);
+  const [targetInput, setTargetInput] = useState(() => String(Math.round(currentTotal)));
+
+  const target = parseFloat(targetInput);
+  const result = useMemo(
+    () => (data && !isNaN(target) ? goalSeek(data, serviceId, lever, target) : null),
+    [data, serviceId, lever, target]
+  );
+
+  if (!data) return null;
+
+  const scopeOptions = [
+    { value: MODEL_SCOPE, label: 'Whole model' },
+    ...data.services.filter((s) => data.budgetData[s.id]).map((s) => ({ value: s.id, label: s.name })),
+  ];
+
+  function describe(value: number): string {
+    const pct = `${formatNumber(Math.abs(value), 1)}%`;
+    if (lever === 'consumption') {
+      return value >= 0 ? `Reduce consumption by ${pct}` : `Consumption can grow by ${pct}`;
+    }
+    if (lever === 'efficiency') return `Improve efficiency by ${pct}`;
+    return `Apply a ${pct} discount`;
+  }
+
+  function handleScopeChange(value: string) {
+    setScope(value);
+    const total = calculateScopeTotal(data!, value === MODEL_SCOPE ? null : value);
+    setTargetInput(String(Math.round(total)));
+  }
+
+  function handleApply() {
+    if (!result?.ok) return;
+    const scopeLabel = scopeOptions.find((o) => o.value === scope)?.label ?? '';
+    dispatch({
+      type: 'APPLY_GOAL_SEEK',
+      payload: { budgets: result.budgets, summary: `${describe(result.leverValue)} (${scopeLabel})` },
+    });
+    onClose();
+  }
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-xl w-full max-w-lg mx-4 flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 pt-5 pb-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Goal Seek</h2>
+          <p className="text-sm text-gray-500 mt-1">Work backward from a target total to the change that reaches it.</p>
+        </div>
+
+        <div className="px-6 py-4 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Target for</label>
+              <Select value={scope} options={scopeOptions} onChange={handleScopeChange} />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Target total ({currency})</label>
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={targetInput}
+                onChange={(e) => setTargetInput(e.target.value)}
+                className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm text-right focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Solve for</label>
+            <Select
+              value={lever}
+              options={GOAL_SEEK_LEVERS}
+              onChange={(v) => setLever(v as GoalSeekLever)}
+            />
+          </div>
+
+          <div className="p-4 bg-gray-50 rounded-lg text-sm">
+            <div className="flex justify-between text-gray-500">
+              <span>Current total</span>
+              <span className="tabular-nums">{formatCurrency(currentTotal, currency)}</span>
+            </div>
+            {result && (result.ok ? (
+              <>
+                <div className="flex justify-between mt-2 font-semibold text-gray-900">
+                  <span>{describe(result.leverValue)}</span>
+                  <span className="tabular-nums">{formatCurrency(result.total, currency)}</span>
+                </div>
+                <p className="text-xs text-gray-400 mt-2">
+                  {lever === 'discount'
+                    ? 'Sets a flat discount on every month of each discount-eligible service.'
+                    : 'Scales every month, keeping the current shape and overrides.'}
+                </p>
+              </>
+            ) : (
+              <p className="mt-2 text-red-600">{result.error}</p>
+            ))}
+          </div>
+        </div>
+
+        <div className="px-6 py-3 border-t border-gray-200 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={!result?.ok}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+import { useState } from 'react';
+import { useAppState } from '../../context/AppContext';
+import { createFlatWeights, deriveWeights, getSeasonalityProfiles } from '../../utils/seasonality';
+import { Select } from '../shared/Select';
+import type { ModelData } from '../../types';
+
+const CALENDAR_MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+interface SeasonalityTabProps {
+  data: ModelData;
+}
+
+export function SeasonalityTab({ data }: SeasonalityTabProps) {
+  const { state, dispatch } = useAppState();
+  const [seasonalityProfileId, setSeasonalityProfileId] = useState('');
+  const [seasonalityServiceIds, setSeasonalityServiceIds] = useState<string[]>([]);
+  const { services, budgetData, budgetConfig } = data;
+
+  const profiles = getSeasonalityProfiles(state);
+  const applyProfile = profiles.find((p) => p.id === seasonalityProfileId) ?? profiles[0];
+
+  function handleWeightChange(profileId: string, cal: number, raw: string) {
+    const profile = profiles.find((p) => p.id === profileId);
+    const value = parseFloat(raw);
+    if (!profile || isNaN(value) || value < 0) return;
+    const weights = profile.weights.map((w, i) => (i === cal ? value : w));
+    dispatch({ type: 'UPDATE_SEASONALITY_PROFILE', payload: { ...profile, weights } });
+  }
+
+  function handleDeriveFrom(serviceId: string) {
+    const service = services.find((s) => s.id === serviceId);
+    if (!service || !budgetData[serviceId]) return;
+    dispatch({
+      type: 'ADD_SEASONALITY_PROFILE',
+      payload: { name: `${service.name} shape`, weights: deriveWeights(budgetData[serviceId], budgetConfig.startMonth) },
+    });
+  }
+
+  function toggleService(serviceId: string) {
+    setSeasonalityServiceIds((prev) =>
+      prev.includes(serviceId) ? prev.filter((id) => id !== serviceId) : [...prev, serviceId]
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <div className="flex items-center gap-3 mb-2">
+          <h3 className="text-sm font-semibold text-gray-700">Profiles</h3>
+          <span className="text-xs text-gray-500">Shared by every model in this workspace</span>
+          <div className="ml-auto flex items-center gap-2">
+            <div className="w-48">
+              <Select
+                value=""
+                options={services.map((s) => ({ value: s.id, label: s.name }))}
+                onChange={handleDeriveFrom}
+                placeholder="Derive from service..."
+              />
+            </div>
+            <button
+              onClick={() => dispatch({
+                type: 'ADD_SEASONALITY_PROFILE',
+                payload: { name: `Profile ${profiles.length + 1}`, weights: createFlatWeights() },
+              })}
+              className="px-3 py-1.5 text-xs font-medium text-blue-600 bg-blue-50 border border-blue-200 rounded-md hover:bg-blue-100 transition-colors"
+            >
+              New profile
+            </button>
+          </div>
+        </div>
+        {profiles.length === 0 ? (
+          <p className="text-sm text-gray-400">
+            No seasonality profiles yet. Create one with twelve relative weights or derive it from a service&apos;s consumption.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="text-xs w-full">
+              <thead>
+                <tr className="bg-blue-100">
+                  <th className="text-left py-2.5 px-2 text-[11px] font-semibold text-blue-800 uppercase tracking-wider min-w-[160px]">
+                    Profile
+                  </th>
+                  {CALENDAR_MONTHS.map((label) => (
+                    <th key={label} className="text-right py-2.5 px-2 text-[11px] font-semibold text-blue-800 uppercase tracking-wider min-w-[64px]">
+                      {label}
+                    </th>
+                  ))}
+                  <th className="py-2.5 px-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {profiles.map((profile) => (
+                  <tr key={profile.id}>
+                    <td className="py-1.5 px-2">
+                      <input
+                        type="text"
+                        value={profile.name}
+                        onChange={(e) => dispatch({ type: 'UPDATE_SEASONALITY_PROFILE', payload: { ...profile, name: e.target.value } })}
+                        className="w-full border border-gray-200 rounded px-1.5 py-1 text-xs font-medium text-gray-900 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                      />
+                    </td>
+                    {profile.weights.map((w, cal) => (
+                      <td key={cal} className="py-1 px-1">
+                        <input
+                          type="number"
+                          value={Math.round(w * 100) / 100}
+                          onChange={(e) => handleWeightChange(profile.id, cal, e.target.value)}
+                          min="0"
+                          step="0.05"
+                          className="w-full border border-gray-200 rounded px-1.5 py-1 text-xs text-right focus:outline-none focus:ring-1 focus:ring-blue-500"
+                        />
+                      </td>
+                    ))}
+                    <td className="py-1.5 px-2 text-right">
+                      <button
+                        onClick={() => dispatch({ type: 'DELETE_SEASONALITY_PROFILE', payload: profile.id })}
+                        className="text-xs text-red-600 hover:text-red-700 font-medium"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-xs text-gray-500 mt-2">
+              Weights are relative: 1.5 in November means November runs 50% above an average month.
+              They are rescaled to average 1 when applied, so the yearly total is unchanged.
+            </p>
+          </div>
+        )}
+      </div>
+
+      {applyProfile && (
+        <div>
+          <h3 className="text-sm font-semibold text-gray-700 mb-2">Apply to services</h3>
+          <div className="flex items-start gap-6">
+            <div className="w-48 shrink-0">
+              <Select
+                value={applyProfile.id}
+                options={profiles.map((p) => ({ value: p.id, label: p.name }))}
+                onChange={setSeasonalityProfileId}
+              />
+              <button
+                onClick={() => {
+                  dispatch({
+                    type: 'APPLY_SEASONALITY',
+                    payload: { profileId: applyProfile.id, serviceIds: seasonalityServiceIds },
+                  });
+                  setSeasonalityServiceIds([]);
+                }}
+                disabled={seasonalityServiceIds.length === 0}
+                className="mt-2 w-full px-3 py-1.5 text-xs font-medium text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+              >
+                Apply to {seasonalityServiceIds.length} service{seasonalityServiceIds.length === 1 ? '' : 's'}
+              </button>
+            </div>
+            <div className="flex flex-wrap gap-x-6 gap-y-1.5">
+              {services.map((service) => {
+                const current = profiles.find((p) => p.id === service.seasonalityProfileId);
+                return (
+                  <label key={service.id} className="flex items-center gap-1.5 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={seasonalityServiceIds.includes(service.id)}
+                      onChange={() => toggleService(service.id)}
+                      className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    {service.name}
+                    {current && <span className="text-xs text-gray-400">({current.name})</span>}
+                  </label>
+                );
+              })}
+            </div>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            Applying reshapes each month&apos;s consumption; any profile a service already uses is divided out first.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import { getReportingCurrency } from '../../utils/currency';
+import { formatCurrency } from '../../utils/formatters';
+import { getHorizonMonths, getPlanYears } from '../../utils/months';
+import { SENSITIVITY_FIELDS, calculateSensitivity } from '../../utils/sensitivity';
+import type { ModelData } from '../../types';
+
+interface SensitivityTabProps {
+  data: ModelData;
+  grandTotal: number;
+  // Kept by the Summary page, whose Excel export can include the same ranking
+  sensitivityPct: string;
+  onSensitivityPctChange: (value: string) => void;
+  exportRanking: boolean;
+  onExportRankingChange: (value: boolean) => void;
+}
+
+// Tornado chart only shows the assumptions that move the total most
+const TORNADO_ROWS = 15;
+
+export function SensitivityTab({
+  data, grandTotal, sensitivityPct, onSensitivityPctChange, exportRanking, onExportRankingChange,
+}: SensitivityTabProps) {
+  const horizon = getHorizonMonths(data.budgetConfig);
+  const multiYear = getPlanYears(horizon).length > 1;
+  const currency = getReportingCurrency(data.budgetConfig);
+
+  const pct = Math.max(parseFloat(sensitivityPct) || 0, 0);
+  const items = calculateSensitivity(data, pct);
+  const shown = items.slice(0, TORNADO_ROWS);
+  const maxImpact = Math.max(...shown.map((it) => Math.max(Math.abs(it.impactDown), Math.abs(it.impactUp))), 1);
+  const fieldLabel = (key: string) => SENSITIVITY_FIELDS.find((f) => f.key === key)?.label ?? key;
+
+  // Bar from the centre line out to the impact, as a share of half the track
+  function barStyle(impact: number) {
+    const width = (Math.abs(impact) / maxImpact) * 50;
+    return impact < 0 ? { right: '50%', width: `${width}%` } : { left: '50%', width: `${width}%` };
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-gray-500">Vary each assumption by &plusmn;</span>
+        <div className="relative">
+          <input
+            type="number"
+            min="0"
+            value={sensitivityPct}
+            onChange={(e) => onSensitivityPctChange(e.target.value)}
+            className="w-16 border border-gray-300 rounded px-2 py-1 text-xs text-right pr-5 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+          <span className="absolute right-2 top-1/2 -translate-y-1/2 text-xs text-gray-400">%</span>
+        </div>
+        <span className="text-xs text-gray-500">
+          around a {multiYear ? `${horizon}-month` : 'annual'} total of {formatCurrency(grandTotal, currency)}
+        </span>
+        <label className="ml-auto flex items-center gap-1.5 text-xs text-gray-600">
+          <input
+            type="checkbox"
+            checked={exportRanking}
+            onChange={(e) => onExportRankingChange(e.target.checked)}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          Include ranking in Excel export
+        </label>
+      </div>
+
+      {items.length === 0 ? (
+        <p className="text-sm text-gray-400">No assumption changes the total at &plusmn;{pct}%.</p>
+      ) : (
+        <>
+          {/* Tornado chart */}
+          <div>
+            <div className="flex items-center gap-4 mb-2 text-xs text-gray-500">
+              <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded-sm inline-block bg-sky-400" />&minus;{pct}%</span>
+              <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded-sm inline-block bg-amber-400" />+{pct}%</span>
+            </div>
+            <div className="space-y-1">
+              {shown.map((it) => (
+                <div key={`${it.serviceId}-${it.field}`} className="flex items-center gap-3">
+                  <div className="w-56 shrink-0 text-xs text-right truncate">
+                    <span className="font-medium text-gray-800">{it.serviceName}</span>
+                    <span className="text-gray-500"> &middot; {fieldLabel(it.field)}</span>
+                  </div>
+                  <div className="relative flex-1 h-5">
+                    <div className="absolute inset-y-0 left-1/2 border-l border-gray-400" />
+                    <div className="absolute inset-y-0.5 bg-sky-400/80 rounded-sm" style={barStyle(it.impactDown)} />
+                    <div className="absolute inset-y-0.5 bg-amber-400/80 rounded-sm" style={barStyle(it.impactUp)} />
+                  </div>
+                  <div className="w-28 shrink-0 text-xs text-gray-600 tabular-nums text-right">
+                    {formatCurrency(it.swing, currency)}
+                  </div>
+                </div>
+              ))}
+            </div>
+            {items.length > shown.length && (
+              <p className="text-xs text-gray-400 mt-2">
+                Showing the {shown.length} largest of {items.length} swings.
+              </p>
+            )}
+          </div>
+
+          {/* Ranking table */}
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-blue-100">
+                <th className="text-left py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">#</th>
+                <th className="text-left py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Service</th>
+                <th className="text-left py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Assumption</th>
+                <th className="text-right py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">&minus;{pct}%</th>
+                <th className="text-right py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">+{pct}%</th>
+                <th className="text-right py-2.5 px-3 text-[11px] font-semibold text-blue-800 uppercase tracking-wider">Swing</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {items.map((it, i) => (
+                <tr key={`${it.serviceId}-${it.field}`}>
+                  <td className="py-2 px-3 text-gray-500">{i + 1}</td>
+                  <td className="py-2 px-3 font-medium text-gray-900">{it.serviceName}</td>
+                  <td className="py-2 px-3 text-gray-700">{fieldLabel(it.field)}</td>
+                  <td className={`py-2 px-3 text-right ${it.impactDown > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                    {it.impactDown > 0 ? '+' : ''}{formatCurrency(it.impactDown, currency)}
+                  </td>
+                  <td className={`py-2 px-3 text-right ${it.impactUp > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                    {it.impactUp > 0 ? '+' : ''}{formatCurrency(it.impactUp, currency)}
+                  </td>
+                  <td className="py-2 px-3 text-right font-medium">{formatCurrency(it.swing, currency)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import { useAppState } from '../../context/AppContext';
+import { getCurrencySymbol, getReportingCurrency } from '../../utils/currency';
+import { formatCurrency } from '../../utils/formatters';
+import { generateMonthLabels, getHorizonMonths, getPlanYears } from '../../utils/months';
+import type { SpendCommitmentProgress } from '../../utils/spendCommitment';
+import type { ModelData, SpendCommitment } from '../../types';
+
+interface SpendCommitmentTabProps {
+  data: ModelData;
+  progress: SpendCommitmentProgress | null;
+}
+
+export function SpendCommitmentTab({ data, progress }: SpendCommitmentTabProps) {
+  const { dispatch } = useAppState();
+  const services = data.services;
+  const horizon = getHorizonMonths(data.budgetConfig);
+  const monthLabels = generateMonthLabels(data.budgetConfig.startMonth, data.budgetConfig.startYear, horizon);
+  const multiYear = getPlanYears(horizon).length > 1;
+  const currency = getReportingCurrency(data.budgetConfig);
+
+  const commitment = data.spendCommitment;
+
+  function updateCommitment(patch: Partial<SpendCommitment>) {
+    if (!commitment) return;
+    dispatch({ type: 'SET_SPEND_COMMITMENT', payload: { ...commitment, ...patch } });
+  }
+
+  function handleNumberChange(field: 'annualAmount' | 'discountPct', raw: string) {
+    const value = parseFloat(raw);
+    if (isNaN(value) || value < 0) return;
+    if (field === 'discountPct' && value >= 100) return;
+    updateCommitment({ [field]: value });
+  }
+
+  function toggleService(serviceId: string) {
+    if (!commitment) return;
+    const serviceIds = commitment.serviceIds.includes(serviceId)
+      ? commitment.serviceIds.filter((id) => id !== serviceId)
+      : [...commitment.serviceIds, serviceId];
+    updateCommitment({ serviceIds });
+  }
+
+  if (!commitment || !progress) {
+    return (
+      <div className="text-center py-12 bg-gray-50 rounded-lg border border-dashed border-gray-300">
+        <p className="text-gray-500">No enterprise spend commitment on this model.</p>
+        <button
+          onClick={() => dispatch({
+            type: 'SET_SPEND_COMMITMENT',
+            payload: { annualAmount: 0, discountPct: 0, serviceIds: services.map((s) => s.id) },
+          })}
+          className="mt-3 text-sm text-blue-600 hover:text-blue-700 font-medium"
+        >
+          Add a spend commitment
+        </button>
+      </div>
+    );
+  }
+
+  const committedOverHorizon = progress.committed * horizon / 12;
+  const pctConsumed = committedOverHorizon > 0 ? Math.min(progress.eligibleTotal / committedOverHorizon, 1) : 1;
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-[10rem_8rem_1fr_auto] gap-4 items-start">
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Annual commitment ({getCurrencySymbol(currency)})</label>
+          <input
+            type="number"
+            value={commitment.annualAmount}
+            onChange={(e) => handleNumberChange('annualAmount', e.target.value)}
+            min="0"
+            step="any"
+            className="w-full border border-gray-300 rounded-md px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Blanket discount %</label>
+          <input
+            type="number"
+            value={commitment.discountPct}
+            onChange={(e) => handleNumberChange('discountPct', e.target.value)}
+            min="0"
+            max="99"
+            step="any"
+            className="w-full border border-gray-300 rounded-md px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Services that count toward it</label>
+          <div className="flex flex-wrap gap-x-4 gap-y-1.5">
+            {services.map((service) => (
+              <label key={service.id} className="flex items-center gap-1.5 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={commitment.serviceIds.includes(service.id)}
+                  onChange={() => toggleService(service.id)}
+                  className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                {service.name}
+              </label>
+            ))}
+          </div>
+        </div>
+        <button
+          onClick={() => dispatch({ type: 'SET_SPEND_COMMITMENT', payload: undefined })}
+          className="text-xs text-red-600 hover:text-red-700 font-medium mt-5"
+        >
+          Remove
+        </button>
+      </div>
+
+      <div>
+        <div className="flex items-baseline gap-4 mb-2">
+          <h3 className="text-sm font-semibold text-gray-700">Drawdown</h3>
+          <span className="text-xs text-gray-500">
+            {formatCurrency(progress.eligibleTotal, currency)} of {formatCurrency(committedOverHorizon, currency)} projected
+            from {progress.serviceCount} service{progress.serviceCount === 1 ? '' : 's'}
+          </span>
+          {progress.shortfall > 0 ? (
+            <span className="ml-auto text-sm font-semibold text-red-600">
+              Shortfall charge {formatCurrency(progress.shortfall, currency)}
+              {multiYear && (
+                <span className="ml-1 text-xs font-normal text-red-500">
+                  ({progress.shortfallByYear.map((v, i) => `Y${i + 1} ${formatCurrency(v, currency)}`).join(' · ')})
+                </span>
+              )}
+            </span>
+          ) : (
+            <span className="ml-auto text-sm font-semibold text-green-600">Commitment met</span>
+          )}
+        </div>
+        <div className="h-2 bg-gray-100 rounded-full overflow-hidden mb-4">
+          <div
+            className={`h-full ${progress.shortfall > 0 ? 'bg-amber-500' : 'bg-green-500'}`}
+            style={{ width: `${pctConsumed * 100}%` }}
+          />
+        </div>
+        <div className="overflow-x-auto">
+          <table className="text-xs w-full">
+            <thead>
+              <tr className="bg-blue-100">
+                <th className="text-left py-2.5 px-2 text-[11px] font-semibold text-blue-800 uppercase tracking-wider sticky left-0 bg-blue-100 min-w-[120px]">
+                  &nbsp;
+                </th>
+                {monthLabels.map((label, i) => (
+                  <th key={i} className="text-right py-2.5 px-2 text-[11px] font-semibold text-blue-800 uppercase tracking-wider min-w-[90px]">
+                    {label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              <tr>
+                <td className="py-1.5 px-2 font-medium text-gray-900 sticky left-0 bg-white">Eligible spend</td>
+                {progress.eligibleByMonth.map((cost, i) => (
+                  <td key={i} className="py-1.5 px-2 text-right text-gray-700">{formatCurrency(cost, currency)}</td>
+                ))}
+              </tr>
+              <tr>
+                <td className="py-1.5 px-2 font-medium text-gray-900 sticky left-0 bg-white">Cumulative</td>
+                {progress.cumulativeByMonth.map((cost, i) => (
+                  <td key={i} className="py-1.5 px-2 text-right text-gray-700">{formatCurrency(cost, currency)}</td>
+                ))}
+              </tr>
+              <tr>
+                <td className="py-1.5 px-2 font-medium text-gray-900 sticky left-0 bg-white">% of commitment</td>
+                {progress.cumulativeByMonth.map((cost, i) => (
+                  <td key={i} className="py-1.5 px-2 text-right text-gray-500">
+                    {progress.committed > 0 ? `${((cost / progress.committed) * 100).toFixed(0)}%` : '-'}
+                  </td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+        <p className="text-xs text-gray-500 mt-2">
+          Eligible services are priced with an extra {progress.discountPct}% off on-demand usage.
+          The annual total above includes this discount but not the shortfall charge.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+import { Fragment, useState } from 'react';
+import { useAppState } from '../../context/AppContext';
+import { getReportingCurrency } from '../../utils/currency';
+import { formatCurrency } from '../../utils/formatters';
+import { generateMonthLabels, getHorizonMonths } from '../../utils/months';
+import type { TargetReconciliation } from '../../utils/targets';
+import type { ModelData } from '../../types';
+
+interface TargetsTabProps {
+  data: ModelData;
+  targetRecs: TargetReconciliation[];
+}
+
+export function TargetsTab({ data, targetRecs }: TargetsTabProps) {
+  const { dispatch } = useAppState();
+  const [newTargetName, setNewTargetName] = useState('');
+  const [newTargetAmount, setNewTargetAmount] = useState('');
+  const [newTargetServiceIds, setNewTargetServiceIds] = useState<string[]>([]);
+  const services = data.services;
+  const horizon = getHorizonMonths(data.budgetConfig);
+  const monthLabels = generateMonthLabels(data.budgetConfig.startMonth, data.budgetConfig.startYear, horizon);
+  const currency = getReportingCurrency(data.budgetConfig);
+
+  function handleTargetChange(targetId: string, monthIndex: number, raw: string) {
+    const value = parseFloat(raw);
+    if (isNaN(value) || value < 0) return;
+    dispatch({ type: 'SET_TARGET_VALUE', payload: { targetId, monthIndex, value } });
+  }
+
+  function handleAddTarget() {
+    const scopeName = newTargetServiceIds.length === 1
+      ? services.find((s) => s.id === newTargetServiceIds[0])?.name
+      : undefined;
+    dispatch({
+      type: 'ADD_TARGET',
+      payload: {
+        name: newTargetName.trim() || scopeName || (newTargetServiceIds.length > 0 ? 'Group target' : 'Model target'),
+        serviceIds: newTargetServiceIds,
+        monthlyAmount: Math.max(parseFloat(newTargetAmount) || 0, 0),
+      },
+    });
+    setNewTargetName('');
+    setNewTargetAmount('');
+    setNewTargetServiceIds([]);
+  }
+
+  function scopeLabel(serviceIds?: string[]): string {
+    if (!serviceIds) return 'Whole model';
+    return serviceIds.map((id) => services.find((s) => s.id === id)?.name ?? '?').join(', ');
+  }
+
+  const gapClass = (gap: number) => (gap > 0.005 ? 'text-red-600 bg-red-50' : 'text-green-600');
+
+  return (
+    <div className="space-y-8">
+      {targetRecs.length === 0 ? (
+        <div className="text-center py-12 bg-gray-50 rounded-lg border border-dashed border-gray-300">
+          <p className="text-gray-500">No top-down targets on this model.</p>
+          <p className="text-xs text-gray-400 mt-1">
+            Add the allocation you were given for the whole model, a service or a group of services below.
+          </p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="text-xs w-full">
+            <thead>
+              <tr className="bg-blue-100">
+                <th className="text-left py-2.5 px-2 text-[11px] font-semibold text-blue-800 uppercase tracking-wider sticky left-0 bg-blue-100 min-w-[220px]">
+                  Target
+                </th>
+                {monthLabels.map((label, i) => (
+                  <th key={i} className="text-right py-2.5 px-2 text-[11px] font-semibold text-blue-800 uppercase tracking-wider min-w-[90px]">
+                    {label}
+                  </th>
+                ))}
+                <th className="text-right py-2.5 px-2 text-[11px] font-semibold text-blue-800 uppercase tracking-wider min-w-[100px]">Total</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {targetRecs.map((rec) => (
+                <Fragment key={rec.target.id}>
+                  <tr>
+                    <td className="py-1.5 px-2 sticky left-0 bg-white">
+                      <div className="flex items-center gap-1.5">
+                        <input
+                          type="text"
+                          value={rec.target.name}
+                          onChange={(e) => dispatch({
+                            type: 'UPDATE_TARGET',
+                            payload: { targetId: rec.target.id, name: e.target.value, serviceIds: rec.target.serviceIds },
+                          })}
+                          className="w-36 border border-gray-200 rounded px-1.5 py-1 text-xs font-medium text-gray-900 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                        />
+                        <button
+                          onClick={() => dispatch({ type: 'DELETE_TARGET', payload: rec.target.id })}
+                          title="Remove target"
+                          className="text-gray-400 hover:text-red-600"
+                        >
+                          &times;
+                        </button>
+                      </div>
+                      <div className="text-[11px] text-gray-400 mt-0.5 truncate max-w-[200px]" title={scopeLabel(rec.target.serviceIds)}>
+                        {scopeLabel(rec.target.serviceIds)}
+                      </div>
+                    </td>
+                    {rec.target.values.map((field, m) => (
+                      <td key={m} className="py-1 px-1">
+                        <input
+                          type="number"
+                          value={field.value}
+                          onChange={(e) => handleTargetChange(rec.target.id, m, e.target.value)}
+                          onDoubleClick={() => field.isOverridden && dispatch({
+                            type: 'CLEAR_TARGET_OVERRIDE',
+                            payload: { targetId: rec.target.id, monthIndex: m },
+                          })}
+                          title={field.isOverridden ? 'Custom override (double-click to reset)' : undefined}
+                          min="0"
+                          step="any"
+                          className={`w-full border rounded px-1.5 py-1 text-xs text-right focus:outline-none focus:ring-1 focus:ring-blue-500 ${
+                            field.isOverridden ? 'border-amber-300 bg-amber-50' : 'border-gray-200'
+                          }`}
+                        />
+                      </td>
+                    ))}
+                    <td className="py-1.5 px-2 text-right font-medium">{formatCurrency(rec.targetTotal, currency)}</td>
+                  </tr>
+                  <tr className="text-gray-500">
+                    <td className="py-1 px-2 pl-6 sticky left-0 bg-white">Estimate</td>
+                    {rec.estimateByMonth.map((v, m) => (
+                      <td key={m} className="py-1 px-2 text-right">{formatCurrency(v, currency)}</td>
+                    ))}
+                    <td className="py-1 px-2 text-right">{formatCurrency(rec.estimateTotal, currency)}</td>
+                  </tr>
+                  <tr>
+                    <td className="py-1 px-2 pl-6 sticky left-0 bg-white text-gray-500">Gap</td>
+                    {rec.gapByMonth.map((gap, m) => (
+                      <td key={m} className={`py-1 px-2 text-right ${gapClass(gap)}`}>
+                        {gap > 0 ? '+' : ''}{formatCurrency(gap, currency)}
+                      </td>
+                    ))}
+                    <td className={`py-1 px-2 text-right font-semibold ${gapClass(rec.gapTotal)}`}>
+                      {rec.gapTotal > 0 ? '+' : ''}{formatCurrency(rec.gapTotal, currency)}
+                    </td>
+                  </tr>
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-500 mt-2">
+            Gap is the bottom-up estimate minus the target; months over target are shaded on the Forecast chart.
+            Month 1 target values propagate to later months.
+          </p>
+        </div>
+      )}
+
+      {/* New target */}
+      <div>
+        <h3 className="text-sm font-semibold text-gray-700 mb-2">Add a target</h3>
+        <div className="flex items-start gap-6">
+          <div className="w-56 shrink-0 space-y-2">
+            <input
+              type="text"
+              value={newTargetName}
+              onChange={(e) => setNewTargetName(e.target.value)}
+              placeholder="Name (optional)"
+              className="w-full border border-gray-300 rounded px-2 py-1.5 text-xs focus:outline-none focus:ring-1 focus:ring-blue-500"
+            />
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={newTargetAmount}
+              onChange={(e) => setNewTargetAmount(e.target.value)}
+              placeholder={`Monthly amount (${currency})`}
+              className="w-full border border-gray-300 rounded px-2 py-1.5 text-xs text-right focus:outline-none focus:ring-1 focus:ring-blue-500"
+            />
+            <button
+              onClick={handleAddTarget}
+              className="w-full px-3 py-1.5 text-xs font-medium text-white bg-blue-600 rounded hover:bg-blue-700 transition-colors"
+            >
+              {newTargetServiceIds.length === 0
+                ? 'Add model target'
+                : `Add target for ${newTargetServiceIds.length} service${newTargetServiceIds.length === 1 ? '' : 's'}`}
+            </button>
+          </div>
+          <div>
+            <p className="text-xs text-gray-500 mb-1.5">Covers (leave all unticked for the whole model):</p>
+            <div className="flex flex-wrap gap-x-6 gap-y-1.5">
+              {services.map((service) => (
+                <label key={service.id} className="flex items-center gap-1.5 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={newTargetServiceIds.includes(service.id)}
+                    onChange={() => setNewTargetServiceIds((prev) =>
+                      prev.includes(service.id) ? prev.filter((id) => id !== service.id) : [...prev, service.id]
+                    )}
+                    className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  {service.name}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+import {
+  flattenCategoryTree,
+  getCategoryIndentStyle,
+  hasCategories,
+  sumCategoryCosts,
+  type CategoryNode,
+  type CategoryRow,
+} from '../../utils/categories';
+import { getReportingCurrency } from '../../utils/currency';
+import { formatCurrency } from '../../utils/formatters';
+import { deltaColor, heatColor } from '../../utils/heatColors';
+import { generateMonthLabels, getHorizonMonths, getPlanYears, sumPlanYears } from '../../utils/months';
+import { SERVICE_COLORS } from '../../utils/serviceColors';
+import { CategoryName, CategoryToggles } from './CategoryControls';
+import type { ModelData } from '../../types';
+
+interface TimelineTabProps {
+  data: ModelData;
+  // Reporting-currency costs per service and month, and their totals
+  costGrid: Record<string, number[]>;
+  costByService: Record<string, number>;
+  costByMonth: number[];
+  grandTotal: number;
+  categoryTree: CategoryNode[];
+  // Shared with the Breakdown tab, so both keep the same categories open
+  collapsedCategories: ReadonlySet<string>;
+  onCollapsedCategoriesChange: (collapsed: Set<string>) => void;
+  onAdjustService: (serviceId: string) => void;
+}
+
+export function TimelineTab({
+  data, costGrid, costByService, costByMonth, grandTotal, categoryTree, collapsedCategories,
+  onCollapsedCategoriesChange, onAdjustService,
+}: TimelineTabProps) {
+  const services = data.services;
+  const horizon = getHorizonMonths(data.budgetConfig);
+  const monthLabels = generateMonthLabels(data.budgetConfig.startMonth, data.budgetConfig.startYear, horizon);
+  const planYears = getPlanYears(horizon);
+  const multiYear = planYears.length > 1;
+  const currency = getReportingCurrency(data.budgetConfig);
+  const deltaByMonth = costByMonth.map((cost, i) => i === 0 ? 0 : cost - costByMonth[i - 1]);
+
+  // Once any service has a category, the table groups by category
+  const grouped = hasCategories(services);
+  const tableRows: CategoryRow[] = grouped
+    ? flattenCategoryTree(categoryTree, collapsedCategories)
+    : services.map((service) => ({ kind: 'service', service, depth: 0 }));
+
+  return (
+    <div className="overflow-x-auto">
+      {grouped && <CategoryToggles categoryTree={categoryTree} onChange={onCollapsedCategoriesChange} />}
+      <table className="text-xs w-full">
+        <thead>
+          <tr className="bg-blue-100">
+            <th className="text-left py-2.5 px-2 text-[11px] font-semibold text-blue-800 uppercase tracking-wider sticky left-0 bg-blue-100 min-w-[120px]">
+              Service
+            </th>
+            {monthLabels.map((label, i) => (
+              <th key={i} className="text-right py-2.5 px-2 text-[11px] font-semibold text-blue-800 uppercase tracking-wider min-w-[90px]">
+                {label}
+              </th>
+            ))}
+            {multiYear && planYears.map((y) => (
+              <th key={`y${y.index}`} className="text-right py-2.5 px-2 text-[11px] font-semibold text-blue-800 uppercase tracking-wider min-w-[100px] bg-blue-50">
+                Year {y.index + 1}
+              </th>
+            ))}
+            <th className="text-right py-2.5 px-2 text-[11px] font-semibold text-blue-800 uppercase tracking-wider min-w-[100px] sticky right-0 bg-blue-100">Total</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {tableRows.map((row) => {
+            if (row.kind === 'category') {
+              const costs = sumCategoryCosts(row.node, costGrid, horizon);
+              return (
+                <tr key={`category:${row.node.key}`} className="bg-gray-50 font-semibold text-gray-800">
+                  <td className="py-2 px-2 sticky left-0 bg-gray-50" style={getCategoryIndentStyle(row.node.depth)}>
+                    <CategoryName node={row.node} collapsed={collapsedCategories} onChange={onCollapsedCategoriesChange} />
+                  </td>
+                  {costs.map((cost, i) => (
+                    <td key={i} className="py-2 px-2 text-right">{formatCurrency(cost, currency)}</td>
+                  ))}
+                  {multiYear && sumPlanYears(costs).map((yearTotal, i) => (
+                    <td key={`y${i}`} className="py-2 px-2 text-right bg-blue-50/50">{formatCurrency(yearTotal, currency)}</td>
+                  ))}
+                  <td className="py-2 px-2 text-right sticky right-0 bg-gray-50">
+                    {formatCurrency(costs.reduce((a, c) => a + c, 0), currency)}
+                  </td>
+                </tr>
+              );
+            }
+            const { service, depth } = row;
+            const idx = services.indexOf(service);
+            const costs = costGrid[service.id] ?? [];
+            const minCost = Math.min(...costs);
+            const maxCost = Math.max(...costs);
+            const range = maxCost - minCost;
+            return (
+              <tr key={service.id}>
+                <td className="py-2 px-2 font-medium text-gray-900 sticky left-0 bg-white" style={getCategoryIndentStyle(depth)}>
+                  <button
+                    onClick={() => onAdjustService(service.id)}
+                    className="flex items-center gap-1.5 hover:text-blue-600 transition-colors"
+                  >
+                    <span className={`w-2.5 h-2.5 rounded-sm inline-block shrink-0 ${SERVICE_COLORS[idx % SERVICE_COLORS.length]}`} />
+                    <span className="underline decoration-gray-300 hover:decoration-blue-500 underline-offset-2">{service.name}</span>
+                  </button>
+                </td>
+                {costs.map((cost, i) => {
+                  const t = range > 0 ? (cost - minCost) / range : 0;
+                  // green (low) -> yellow (mid) -> red (high)
+                  const r = t < 0.5 ? Math.round(220 + (240 - 220) * (t * 2)) : 245;
+                  const g = t < 0.5 ? 240 : Math.round(240 - (240 - 220) * ((t - 0.5) * 2));
+                  const b = 220;
+                  return (
+                    <td
+                      key={i}
+                      className="py-2 px-2 text-right text-gray-700"
+                      style={{ backgroundColor: cost > 0 ? `rgb(${r},${g},${b})` : undefined }}
+                    >
+                      {formatCurrency(cost, currency)}
+                    </td>
+                  );
+                })}
+                {multiYear && sumPlanYears(costs).map((yearTotal, i) => (
+                  <td key={`y${i}`} className="py-2 px-2 text-right font-medium text-gray-800 bg-blue-50/50">
+                    {formatCurrency(yearTotal, currency)}
+                  </td>
+                ))}
+                <td className="py-2 px-2 text-right font-semibold sticky right-0 bg-white">
+                  {formatCurrency(costByService[service.id] ?? 0, currency)}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+        <tfoot>
+          {(() => {
+            const minTotal = Math.min(...costByMonth);
+            const maxTotal = Math.max(...costByMonth);
+            const deltas = deltaByMonth.slice(1);
+            const minDelta = Math.min(...deltas);
+            const maxDelta = Math.max(...deltas);
+            return (
+              <>
+                <tr className="border-t-2 border-gray-300 font-semibold">
+                  <td className="py-2 px-2 sticky left-0 bg-white">Total</td>
+                  {costByMonth.map((cost, i) => (
+                    <td
+                      key={i}
+                      className="py-2 px-2 text-right"
+                      style={{ backgroundColor: heatColor(cost, minTotal, maxTotal) }}
+                    >
+                      {formatCurrency(cost, currency)}
+                    </td>
+                  ))}
+                  {multiYear && sumPlanYears(costByMonth).map((yearTotal, i) => (
+                    <td key={`y${i}`} className="py-2 px-2 text-right bg-blue-50/50">{formatCurrency(yearTotal, currency)}</td>
+                  ))}
+                  <td className="py-2 px-2 text-right sticky right-0 bg-white">{formatCurrency(grandTotal, currency)}</td>
+                </tr>
+                <tr className="font-medium text-xs">
+                  <td className="py-1.5 px-2 sticky left-0 bg-white text-gray-500">Delta</td>
+                  {deltaByMonth.map((delta, i) => (
+                    <td
+                      key={i}
+                      className="py-1.5 px-2 text-right"
+                      style={{
+                        backgroundColor: i > 0 ? deltaColor(delta, minDelta, maxDelta) : undefined,
+                        color: i === 0 ? '#9ca3af' : delta > 0 ? '#b91c1c' : delta < 0 ? '#15803d' : '#6b7280',
+                      }}
+                    >
+                      {i === 0 ? '\u2014' : `${delta >= 0 ? '+' : ''}${formatCurrency(delta, currency)}`}
+                    </td>
+                  ))}
+                  {multiYear && planYears.map((y) => (
+                    <td key={`y${y.index}`} className="py-1.5 px-2 bg-blue-50/50" />
+                  ))}
+                  <td className="py-1.5 px-2 text-right sticky right-0 bg-white" />
+                </tr>
+              </>
+            );
+          })()}
+        </tfoot>
+      </table>
+    </div>
+  );
+}
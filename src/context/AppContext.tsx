@@ -1,18 +1,45 @@
 import { createContext, useContext, useReducer, useEffect, type ReactNode } from 'react';
 import { useLocalStorage } from '../hooks/useLocalStorage';
+import { ensureFxRates, rebaseFxRates } from '../utils/currency';
+import { createDriverValues, deriveConsumption } from '../utils/drivers';
+import { createTargetValues } from '../utils/targets';
+import { renameFormulaReferences, resolveFormulas } from '../utils/formula';
+import { applyGoalSeek, undoGoalSeek } from '../utils/goalSeek';
+import { applySeasonality, getSeasonalityProfiles } from '../utils/seasonality';
+import { calculateConsumptionFromUsage, getReferenceTierPrice, hasTiers } from '../utils/calculations';
+import { mergeActuals, type ActualsImportMode } from '../utils/actuals';
+import { captureBaseline, closeNextMonth, freezeClosedMonths } from '../utils/closing';
+import { createServiceTemplate } from '../utils/templates';
+import { DEFAULT_HORIZON_MONTHS, getHorizonMonths } from '../utils/months';
+import { resizePropagatedValues, resizeRates, resizeServiceBudget } from '../utils/horizon';
 import type {
+  ActualEntry,
+  ActualsData,
+  AllocationRule,
   AppState,
+  BillingMatchRule,
   BudgetModel,
   ModelData,
   Service,
   BudgetConfig,
+  BudgetData,
   BudgetFieldKey,
   BudgetMonthEntry,
+  BudgetTarget,
+  BudgetThreshold,
+  CostCenter,
+  CostCenterSplit,
+  Driver,
+  PropagatedField,
+  PriceCatalog,
+  SeasonalityProfile,
+  ServiceTemplate,
   ServiceBudget,
+  SpendCommitment,
   Version,
 } from '../types';
 
-const SCHEMA_VERSION = 3;
+const SCHEMA_VERSION = 6;
 
 function createDefaultModelData(): ModelData {
   const now = new Date();
@@ -21,6 +48,7 @@ function createDefaultModelData(): ModelData {
     budgetConfig: {
       startMonth: now.getMonth(),
       startYear: now.getFullYear(),
+      horizonMonths: DEFAULT_HORIZON_MONTHS,
     },
     budgetData: {},
   };
@@ -55,6 +83,7 @@ function migrateState(raw: Record<string, unknown>): AppState {
         budgetConfig: (raw.budgetConfig as ModelData['budgetConfig']) ?? {
           startMonth: new Date().getMonth(),
           startYear: new Date().getFullYear(),
+          horizonMonths: DEFAULT_HORIZON_MONTHS,
         },
         budgetData: (raw.budgetData as ModelData['budgetData']) ?? {},
       },
@@ -105,22 +134,128 @@ function migrateState(raw: Record<string, unknown>): AppState {
         versions: merged,
       } as unknown as BudgetModel;
     });
+    state.schemaVersion = 3;
+  }
+
+  // v3 -> v4: budgets predate configurable horizons and are all 12 months long
+  if ((state.schemaVersion ?? 0) < 4 && state.models) {
+    const withHorizon = (data: ModelData): ModelData => ({
+      ...data,
+      budgetConfig: { ...data.budgetConfig, horizonMonths: getHorizonMonths(data.budgetConfig) },
+    });
+    state.models = state.models.map((m) => ({
+      ...m,
+      data: withHorizon(m.data),
+      versions: m.versions.map((v) => ({ ...v, data: withHorizon(v.data) })),
+    }));
+    state.schemaVersion = 4;
+  }
+
+  // v4 -> v5: unit cost moves from a service-wide scalar onto each budget month
+  if ((state.schemaVersion ?? 0) < 5 && state.models) {
+    state.models = state.models.map((m) => ({
+      ...m,
+      data: withMonthUnitCosts(m.data),
+      versions: m.versions.map((v) => ({ ...v, data: withMonthUnitCosts(v.data) })),
+    }));
+    state.schemaVersion = 5;
+  }
+
+  // v5 -> v6: tiered services are priced by their first paid tier rather than their first tier
+  if ((state.schemaVersion ?? 0) < 6 && state.models) {
+    state.models = state.models.map((m) => ({
+      ...m,
+      data: withReferenceTierPrices(m.data),
+      versions: m.versions.map((v) => ({ ...v, data: withReferenceTierPrices(v.data) })),
+    }));
     state.schemaVersion = SCHEMA_VERSION;
   }
 
   return state;
 }
 
+// Seed per-month unit costs from the service price on budgets that predate scheduled pricing
+function withMonthUnitCosts(data: ModelData): ModelData {
+  const budgetData: ModelData['budgetData'] = {};
+  for (const [serviceId, serviceBudget] of Object.entries(data.budgetData)) {
+    const service = data.services.find((s) => s.id === serviceId);
+    const repriced: ServiceBudget = {};
+    for (const [m, entry] of Object.entries(serviceBudget)) {
+      repriced[Number(m)] = entry.unitCost
+        ? entry
+        : { ...entry, unitCost: { value: service?.unitCost ?? 0, isOverridden: false } };
+    }
+    budgetData[serviceId] = repriced;
+  }
+  return { ...data, budgetData };
+}
+
+// Services saved with a free first tier were priced at zero, so their scheduled prices scaled
+// nothing; they move to the first paid tier's price, keeping months with a scheduled price
+function withReferenceTierPrices(data: ModelData): ModelData {
+  const budgetData = { ...data.budgetData };
+  const services = data.services.map((service) => {
+    if (!hasTiers(service)) return service;
+    const price = getReferenceTierPrice(service.tiers!);
+    if (price === service.unitCost) return service;
+    const serviceBudget = data.budgetData[service.id];
+    if (serviceBudget) {
+      const repriced: ServiceBudget = {};
+      for (const [m, entry] of Object.entries(serviceBudget)) {
+        const keep = Number(m) > 0 && entry.unitCost.isOverridden;
+        repriced[Number(m)] = keep ? entry : updateMonthField(entry, 'unitCost', price, false);
+      }
+      budgetData[service.id] = repriced;
+    }
+    return { ...service, unitCost: price };
+  });
+  return { ...data, services, budgetData };
+}
+
+// Services keep their reshaped consumption but drop links to profiles that no longer exist
+function withKnownSeasonalityProfiles(data: ModelData, profiles: SeasonalityProfile[]): ModelData {
+  const known = new Set(profiles.map((p) => p.id));
+  if (data.services.every((s) => !s.seasonalityProfileId || known.has(s.seasonalityProfileId))) return data;
+  const services = data.services.map((s) => {
+    if (!s.seasonalityProfileId || known.has(s.seasonalityProfileId)) return s;
+    const { seasonalityProfileId: _, ...rest } = s;
+    void _;
+    return rest;
+  });
+  return { ...data, services };
+}
+
+function withModelUnitCosts(model: BudgetModel): BudgetModel {
+  const migrate = (data: ModelData) => withReferenceTierPrices(withMonthUnitCosts(data));
+  return {
+    ...model,
+    data: migrate(model.data),
+    versions: model.versions.map((v) => ({ ...v, data: migrate(v.data) })),
+  };
+}
+
+// Starting consumption for a new service: a linear ramp, or a month-by-month profile from a template
+interface BudgetSeed {
+  consumption: number;
+  monthlyGrowth: number;
+  profile?: number[];
+}
+
 function createServiceBudget(
+  unitCost: number,
   defaultEfficiency: number,
   defaultOverhead: number,
-  seed?: { consumption: number; monthlyGrowth: number }
+  horizonMonths: number,
+  seed?: BudgetSeed
 ): ServiceBudget {
   const budget: ServiceBudget = {};
-  for (let i = 0; i < 12; i++) {
-    const consumption = seed ? seed.consumption + seed.monthlyGrowth * i : 0;
+  for (let i = 0; i < horizonMonths; i++) {
+    const consumption = seed?.profile
+      ? seed.profile[i] ?? seed.profile[seed.profile.length - 1] ?? 0
+      : seed ? seed.consumption + seed.monthlyGrowth * i : 0;
     budget[i] = {
       consumption: { value: Math.max(consumption, 0), isOverridden: i > 0 && seed ? true : false },
+      unitCost: { value: unitCost, isOverridden: false },
       efficiency: { value: defaultEfficiency, isOverridden: false },
       overhead: { value: defaultOverhead, isOverridden: false },
       discount: { value: 0, isOverridden: false },
@@ -144,11 +279,46 @@ type AppAction =
   | { type: 'DELETE_VERSION'; payload: { versionNumber: number } }
   | { type: 'TOGGLE_VERSION_SHARED'; payload: { versionNumber: number } }
   // Service actions (operate on active model)
-  | { type: 'ADD_SERVICE'; payload: Omit<Service, 'id' | 'createdAt'>; seed?: { consumption: number; monthlyGrowth: number } }
+  | { type: 'ADD_SERVICE'; payload: Omit<Service, 'id' | 'createdAt'>; seed?: BudgetSeed }
   | { type: 'UPDATE_SERVICE'; payload: Service }
   | { type: 'DELETE_SERVICE'; payload: string }
   // Budget actions (operate on active model)
   | { type: 'SET_BUDGET_CONFIG'; payload: BudgetConfig }
+  | { type: 'SET_REPORTING_CURRENCY'; payload: string }
+  | { type: 'SET_FX_RATES'; payload: { currency: string; rates: number[] } }
+  | { type: 'SET_SPEND_COMMITMENT'; payload: SpendCommitment | undefined }
+  // Driver actions (operate on active model)
+  | { type: 'ADD_DRIVER'; payload: { name: string; unit: string } }
+  | { type: 'UPDATE_DRIVER'; payload: { driverId: string; name: string; unit: string } }
+  | { type: 'DELETE_DRIVER'; payload: string }
+  | { type: 'SET_DRIVER_VALUE'; payload: { driverId: string; monthIndex: number; value: number } }
+  | { type: 'CLEAR_DRIVER_OVERRIDE'; payload: { driverId: string; monthIndex: number } }
+  // Top-down targets (active model)
+  | { type: 'ADD_TARGET'; payload: { name: string; serviceIds?: string[]; monthlyAmount: number } }
+  | { type: 'UPDATE_TARGET'; payload: { targetId: string; name: string; serviceIds?: string[] } }
+  | { type: 'DELETE_TARGET'; payload: string }
+  | { type: 'SET_TARGET_VALUE'; payload: { targetId: string; monthIndex: number; value: number } }
+  | { type: 'CLEAR_TARGET_OVERRIDE'; payload: { targetId: string; monthIndex: number } }
+  // Spend thresholds (active model)
+  | { type: 'ADD_THRESHOLD'; payload: Omit<BudgetThreshold, 'id'> }
+  | { type: 'UPDATE_THRESHOLD'; payload: BudgetThreshold }
+  | { type: 'DELETE_THRESHOLD'; payload: string }
+  // Cost centers (active model)
+  | { type: 'ADD_COST_CENTER'; payload: { name: string } }
+  | { type: 'RENAME_COST_CENTER'; payload: { costCenterId: string; name: string } }
+  | { type: 'DELETE_COST_CENTER'; payload: string }
+  | { type: 'SET_COST_CENTER_SPLIT'; payload: { serviceId: string; split?: CostCenterSplit } }
+  | { type: 'SET_ALLOCATION_RULE'; payload: { serviceId: string; rule?: AllocationRule } }
+  // Actuals (active model); a null entry clears the month
+  | { type: 'SET_ACTUAL'; payload: { serviceId: string; monthIndex: number; entry: ActualEntry | null } }
+  | { type: 'IMPORT_ACTUALS'; payload: { actuals: ActualsData; mode: ActualsImportMode } }
+  | { type: 'SET_BILLING_RULES'; payload: { serviceId: string; rules: BillingMatchRule[] } }
+  // Forecast usage is in billed units and is converted back to consumption month by month
+  | { type: 'APPLY_CONSUMPTION_FORECAST'; payload: { serviceId: string; startMonth: number; usage: number[] } }
+  // Rolling forecast
+  | { type: 'CLOSE_MONTH' }
+  | { type: 'REOPEN_MONTH' }
+  | { type: 'SET_BASELINE' }
   | {
       type: 'SET_BUDGET_FIELD';
       payload: {
@@ -170,6 +340,22 @@ type AppAction =
       type: 'SET_SERVICE_BUDGET';
       payload: { serviceId: string; serviceBudget: ServiceBudget };
     }
+  // Goal seek replaces several service budgets in one step, undoable until dismissed or replaced
+  | { type: 'APPLY_GOAL_SEEK'; payload: { budgets: BudgetData; summary: string } }
+  | { type: 'UNDO_GOAL_SEEK' }
+  | { type: 'DISMISS_GOAL_SEEK_UNDO' }
+  // Seasonality profiles (workspace level)
+  | { type: 'ADD_SEASONALITY_PROFILE'; payload: { name: string; weights: number[] } }
+  | { type: 'UPDATE_SEASONALITY_PROFILE'; payload: SeasonalityProfile }
+  | { type: 'DELETE_SEASONALITY_PROFILE'; payload: string }
+  | { type: 'APPLY_SEASONALITY'; payload: { profileId: string; serviceIds: string[] } }
+  // Price catalog (workspace level); null removes it
+  | { type: 'SET_PRICE_CATALOG'; payload: PriceCatalog | null }
+  // Service templates (workspace level)
+  | { type: 'SAVE_SERVICE_TEMPLATE'; payload: { serviceId: string; name: string } }
+  | { type: 'RENAME_SERVICE_TEMPLATE'; payload: { id: string; name: string } }
+  | { type: 'DELETE_SERVICE_TEMPLATE'; payload: string }
+  | { type: 'IMPORT_SERVICE_TEMPLATES'; payload: ServiceTemplate[] }
   // Import
   | { type: 'IMPORT_MODEL'; payload: BudgetModel }
   | { type: 'IMPORT_MODEL_MERGE'; payload: BudgetModel }
@@ -186,6 +372,36 @@ function updateMonthField(
   return { ...entry, [field]: { value, isOverridden } };
 }
 
+// Month 1 propagates to every later month that is not overridden; any other month becomes an override
+function setPropagatedField(
+  serviceBudget: ServiceBudget,
+  field: BudgetFieldKey,
+  monthIndex: number,
+  value: number
+): ServiceBudget {
+  const updated = { ...serviceBudget };
+  if (monthIndex === 0) {
+    updated[0] = updateMonthField(updated[0], field, value, false);
+    for (let i = 1; i < Object.keys(updated).length; i++) {
+      if (!updated[i][field].isOverridden) {
+        updated[i] = updateMonthField(updated[i], field, value, false);
+      }
+    }
+  } else {
+    updated[monthIndex] = updateMonthField(updated[monthIndex], field, value, true);
+  }
+  return updated;
+}
+
+// Same rule applied across a driver's monthly values
+function setPropagatedValue(values: PropagatedField[], monthIndex: number, value: number): PropagatedField[] {
+  if (monthIndex === 0) {
+    return values.map((v, i) => (i === 0 || !v.isOverridden ? { value, isOverridden: false } : v));
+  }
+  return values.map((v, i) => (i === monthIndex ? { value, isOverridden: true } : v));
+}
+
+// Formula-driven consumption is re-resolved after every edit so dependents stay in step
 function updateActiveModelData(
   state: AppState,
   updater: (data: ModelData) => ModelData
@@ -194,7 +410,7 @@ function updateActiveModelData(
     ...state,
     models: state.models.map((m) =>
       m.id === state.activeModelId
-        ? { ...m, data: updater(m.data), updatedAt: Date.now() }
+        ? { ...m, data: resolveFormulas(freezeClosedMonths(m.data, updater(m.data))), updatedAt: Date.now() }
         : m
     ),
   };
@@ -301,7 +517,11 @@ function appReducer(state: AppState, action: AppAction): AppState {
         ...state,
         models: state.models.map((m) =>
           m.id === state.activeModelId
-            ? { ...m, data: JSON.parse(JSON.stringify(version.data)), updatedAt: Date.now() }
+            ? {
+                ...m,
+                data: withKnownSeasonalityProfiles(JSON.parse(JSON.stringify(version.data)), getSeasonalityProfiles(state)),
+                updatedAt: Date.now(),
+              }
             : m
         ),
       };
@@ -349,70 +569,446 @@ function appReducer(state: AppState, action: AppAction): AppState {
         id: crypto.randomUUID(),
         createdAt: Date.now(),
       };
-      const newBudget = createServiceBudget(
-        newService.defaultEfficiency,
-        newService.defaultOverhead,
-        action.seed
-      );
+      return updateActiveModelData(state, (data) => {
+        let serviceBudget = createServiceBudget(
+          newService.unitCost,
+          newService.defaultEfficiency,
+          newService.defaultOverhead,
+          getHorizonMonths(data.budgetConfig),
+          action.seed
+        );
+        const driver = data.drivers?.find((d) => d.id === newService.driver?.driverId);
+        if (driver) serviceBudget = deriveConsumption(serviceBudget, driver, newService.driver!.ratio);
+        return ensureFxRates({
+          ...data,
+          services: [...data.services, newService],
+          budgetData: { ...data.budgetData, [newService.id]: serviceBudget },
+        });
+      });
+    }
+
+    case 'UPDATE_SERVICE': {
+      return updateActiveModelData(state, (data) => {
+        const previous = data.services.find((s) => s.id === action.payload.id);
+        const serviceBudget = data.budgetData[action.payload.id];
+        let budgetData = data.budgetData;
+        // A new list price replaces month 1 and every month without a scheduled price
+        if (previous && serviceBudget && previous.unitCost !== action.payload.unitCost) {
+          const repriced: ServiceBudget = {};
+          for (const [m, entry] of Object.entries(serviceBudget)) {
+            const keep = Number(m) > 0 && entry.unitCost.isOverridden;
+            repriced[Number(m)] = keep
+              ? entry
+              : updateMonthField(entry, 'unitCost', action.payload.unitCost, false);
+          }
+          budgetData = { ...data.budgetData, [action.payload.id]: repriced };
+        }
+        if (previous && previous.name !== action.payload.name) {
+          budgetData = renameFormulaReferences(budgetData, previous.name, action.payload.name);
+        }
+        // Linking to a driver (or changing the ratio) re-derives the whole consumption row
+        const link = action.payload.driver;
+        const driver = data.drivers?.find((d) => d.id === link?.driverId);
+        if (link && driver && budgetData[action.payload.id] &&
+            (previous?.driver?.driverId !== link.driverId || previous?.driver?.ratio !== link.ratio)) {
+          budgetData = {
+            ...budgetData,
+            [action.payload.id]: deriveConsumption(budgetData[action.payload.id], driver, link.ratio),
+          };
+        }
+        return ensureFxRates({
+          ...data,
+          services: data.services.map((s) =>
+            s.id === action.payload.id ? action.payload : s
+          ),
+          budgetData,
+        });
+      });
+    }
+
+    case 'DELETE_SERVICE': {
+      return updateActiveModelData(state, (data) => {
+        const { [action.payload]: _, ...remainingBudget } = data.budgetData;
+        void _;
+        return {
+          ...data,
+          services: data.services
+            .filter((s) => s.id !== action.payload)
+            .map((s) => (s.allocationRule?.receivers.some((r) => r.serviceId === action.payload)
+              ? {
+                  ...s,
+                  allocationRule: {
+                    ...s.allocationRule,
+                    receivers: s.allocationRule.receivers.filter((r) => r.serviceId !== action.payload),
+                  },
+                }
+              : s)),
+          budgetData: remainingBudget,
+          spendCommitment: data.spendCommitment && {
+            ...data.spendCommitment,
+            serviceIds: data.spendCommitment.serviceIds.filter((id) => id !== action.payload),
+          },
+          // A target left without any of its services is dropped rather than widened to the whole model
+          targets: data.targets
+            ?.map((t) => (t.serviceIds ? { ...t, serviceIds: t.serviceIds.filter((id) => id !== action.payload) } : t))
+            .filter((t) => !t.serviceIds || t.serviceIds.length > 0),
+          thresholds: data.thresholds?.filter((t) => t.serviceId !== action.payload),
+          actuals: data.actuals && Object.fromEntries(
+            Object.entries(data.actuals).filter(([id]) => id !== action.payload)
+          ),
+        };
+      });
+    }
+
+    // ---- Budget actions (active model) ----
+
+    case 'SET_BUDGET_CONFIG': {
+      return updateActiveModelData(state, (data) => {
+        const horizon = getHorizonMonths(action.payload);
+        if (horizon === getHorizonMonths(data.budgetConfig)) {
+          return { ...data, budgetConfig: action.payload };
+        }
+        const budgetData = Object.fromEntries(
+          Object.entries(data.budgetData).map(([id, sb]) => [id, resizeServiceBudget(sb, horizon)])
+        );
+        const fxRates = data.fxRates && Object.fromEntries(
+          Object.entries(data.fxRates).map(([code, rates]) => [code, resizeRates(rates, horizon)])
+        );
+        const drivers = data.drivers?.map((d) => ({ ...d, values: resizePropagatedValues(d.values, horizon) }));
+        const targets = data.targets?.map((t) => ({ ...t, values: resizePropagatedValues(t.values, horizon) }));
+        const actuals = data.actuals && Object.fromEntries(
+          Object.entries(data.actuals).map(([id, months]) => [
+            id,
+            Object.fromEntries(Object.entries(months).filter(([m]) => Number(m) < horizon)),
+          ])
+        );
+        const closedMonths = data.closedMonths && Math.min(data.closedMonths, horizon);
+        return { ...data, budgetConfig: action.payload, budgetData, fxRates, drivers, targets, actuals, closedMonths };
+      });
+    }
+
+    case 'SET_REPORTING_CURRENCY': {
+      return updateActiveModelData(state, (data) => ensureFxRates({
+        ...data,
+        budgetConfig: { ...data.budgetConfig, reportingCurrency: action.payload },
+        fxRates: rebaseFxRates(data, action.payload),
+      }));
+    }
+
+    case 'SET_FX_RATES': {
+      const { currency, rates } = action.payload;
       return updateActiveModelData(state, (data) => ({
         ...data,
-        services: [...data.services, newService],
-        budgetData: { ...data.budgetData, [newService.id]: newBudget },
+        fxRates: { ...data.fxRates, [currency]: rates },
       }));
     }
 
-    case 'UPDATE_SERVICE': {
+    case 'SET_SPEND_COMMITMENT': {
       return updateActiveModelData(state, (data) => ({
         ...data,
-        services: data.services.map((s) =>
-          s.id === action.payload.id ? action.payload : s
+        spendCommitment: action.payload,
+      }));
+    }
+
+    // ---- Driver actions (active model) ----
+
+    case 'ADD_DRIVER': {
+      return updateActiveModelData(state, (data) => {
+        const driver: Driver = {
+          id: crypto.randomUUID(),
+          name: action.payload.name,
+          unit: action.payload.unit,
+          values: createDriverValues(getHorizonMonths(data.budgetConfig)),
+        };
+        return { ...data, drivers: [...(data.drivers ?? []), driver] };
+      });
+    }
+
+    case 'UPDATE_DRIVER': {
+      const { driverId, name, unit } = action.payload;
+      return updateActiveModelData(state, (data) => ({
+        ...data,
+        drivers: data.drivers?.map((d) => (d.id === driverId ? { ...d, name, unit } : d)),
+      }));
+    }
+
+    case 'DELETE_DRIVER': {
+      // Linked services keep their current consumption as plain values
+      return updateActiveModelData(state, (data) => ({
+        ...data,
+        drivers: data.drivers?.filter((d) => d.id !== action.payload),
+        services: data.services.map((s) => {
+          if (s.driver?.driverId !== action.payload) return s;
+          const { driver: _, ...unlinked } = s;
+          void _;
+          return unlinked;
+        }),
+      }));
+    }
+
+    case 'SET_DRIVER_VALUE': {
+      const { driverId, monthIndex, value } = action.payload;
+      return updateActiveModelData(state, (data) => {
+        const driver = data.drivers?.find((d) => d.id === driverId);
+        if (!driver) return data;
+        const updated = { ...driver, values: setPropagatedValue(driver.values, monthIndex, value) };
+        // Each linked service takes the same edit through the budget field propagation rules
+        const budgetData = { ...data.budgetData };
+        for (const service of data.services) {
+          if (service.driver?.driverId !== driverId || !budgetData[service.id]) continue;
+          budgetData[service.id] = setPropagatedField(
+            budgetData[service.id], 'consumption', monthIndex, value * service.driver.ratio
+          );
+        }
+        return {
+          ...data,
+          drivers: data.drivers!.map((d) => (d.id === driverId ? updated : d)),
+          budgetData,
+        };
+      });
+    }
+
+    case 'CLEAR_DRIVER_OVERRIDE': {
+      const { driverId, monthIndex } = action.payload;
+      if (monthIndex === 0) return state;
+      return updateActiveModelData(state, (data) => {
+        const driver = data.drivers?.find((d) => d.id === driverId);
+        if (!driver) return data;
+        const values = driver.values.map((v, i) =>
+          i === monthIndex ? { value: driver.values[0].value, isOverridden: false } : v
+        );
+        // Linked services fall back to their own month 1 consumption, as CLEAR_OVERRIDE does
+        const budgetData = { ...data.budgetData };
+        for (const service of data.services) {
+          const serviceBudget = budgetData[service.id];
+          if (service.driver?.driverId !== driverId || !serviceBudget) continue;
+          budgetData[service.id] = {
+            ...serviceBudget,
+            [monthIndex]: updateMonthField(
+              serviceBudget[monthIndex], 'consumption', serviceBudget[0].consumption.value, false
+            ),
+          };
+        }
+        return {
+          ...data,
+          drivers: data.drivers!.map((d) => (d.id === driverId ? { ...d, values } : d)),
+          budgetData,
+        };
+      });
+    }
+
+    // ---- Target actions (active model) ----
+
+    case 'ADD_TARGET': {
+      const { name, serviceIds, monthlyAmount } = action.payload;
+      return updateActiveModelData(state, (data) => {
+        const target: BudgetTarget = {
+          id: crypto.randomUUID(),
+          name,
+          serviceIds: serviceIds && serviceIds.length > 0 ? serviceIds : undefined,
+          values: createTargetValues(getHorizonMonths(data.budgetConfig), monthlyAmount),
+        };
+        return { ...data, targets: [...(data.targets ?? []), target] };
+      });
+    }
+
+    case 'UPDATE_TARGET': {
+      const { targetId, name, serviceIds } = action.payload;
+      return updateActiveModelData(state, (data) => ({
+        ...data,
+        targets: data.targets?.map((t) =>
+          t.id === targetId
+            ? { ...t, name, serviceIds: serviceIds && serviceIds.length > 0 ? serviceIds : undefined }
+            : t
         ),
       }));
     }
 
-    case 'DELETE_SERVICE': {
+    case 'DELETE_TARGET': {
+      return updateActiveModelData(state, (data) => ({
+        ...data,
+        targets: data.targets?.filter((t) => t.id !== action.payload),
+      }));
+    }
+
+    case 'SET_TARGET_VALUE': {
+      const { targetId, monthIndex, value } = action.payload;
+      return updateActiveModelData(state, (data) => ({
+        ...data,
+        targets: data.targets?.map((t) =>
+          t.id === targetId ? { ...t, values: setPropagatedValue(t.values, monthIndex, value) } : t
+        ),
+      }));
+    }
+
+    case 'CLEAR_TARGET_OVERRIDE': {
+      const { targetId, monthIndex } = action.payload;
+      if (monthIndex === 0) return state;
+      return updateActiveModelData(state, (data) => ({
+        ...data,
+        targets: data.targets?.map((t) =>
+          t.id === targetId
+            ? { ...t, values: t.values.map((v, i) => (i === monthIndex ? { value: t.values[0].value, isOverridden: false } : v)) }
+            : t
+        ),
+      }));
+    }
+
+    // ---- Threshold actions (active model) ----
+
+    case 'ADD_THRESHOLD': {
+      const threshold: BudgetThreshold = { id: crypto.randomUUID(), ...action.payload };
+      return updateActiveModelData(state, (data) => ({
+        ...data,
+        thresholds: [...(data.thresholds ?? []), threshold],
+      }));
+    }
+
+    case 'UPDATE_THRESHOLD': {
+      return updateActiveModelData(state, (data) => ({
+        ...data,
+        thresholds: data.thresholds?.map((t) => (t.id === action.payload.id ? action.payload : t)),
+      }));
+    }
+
+    case 'DELETE_THRESHOLD': {
+      return updateActiveModelData(state, (data) => ({
+        ...data,
+        thresholds: data.thresholds?.filter((t) => t.id !== action.payload),
+      }));
+    }
+
+    // ---- Cost center actions (active model) ----
+
+    case 'ADD_COST_CENTER': {
+      const costCenter: CostCenter = { id: crypto.randomUUID(), name: action.payload.name };
+      return updateActiveModelData(state, (data) => ({
+        ...data,
+        costCenters: [...(data.costCenters ?? []), costCenter],
+      }));
+    }
+
+    case 'RENAME_COST_CENTER': {
+      const { costCenterId, name } = action.payload;
+      return updateActiveModelData(state, (data) => ({
+        ...data,
+        costCenters: data.costCenters?.map((c) => (c.id === costCenterId ? { ...c, name } : c)),
+      }));
+    }
+
+    case 'DELETE_COST_CENTER': {
+      // Its shares become unallocated on every service that charged to it
+      const drop = (shares: Record<string, number>) => {
+        const { [action.payload]: _, ...rest } = shares;
+        void _;
+        return rest;
+      };
+      return updateActiveModelData(state, (data) => ({
+        ...data,
+        costCenters: data.costCenters?.filter((c) => c.id !== action.payload),
+        services: data.services.map((s) => {
+          if (!s.costCenterSplit) return s;
+          const { shares, monthlyShares } = s.costCenterSplit;
+          return {
+            ...s,
+            costCenterSplit: {
+              shares: drop(shares),
+              monthlyShares: monthlyShares && Object.fromEntries(
+                Object.entries(monthlyShares).map(([m, ms]) => [m, drop(ms)])
+              ),
+            },
+          };
+        }),
+      }));
+    }
+
+    case 'SET_COST_CENTER_SPLIT': {
+      const { serviceId, split } = action.payload;
+      return updateActiveModelData(state, (data) => ({
+        ...data,
+        services: data.services.map((s) => (s.id === serviceId ? { ...s, costCenterSplit: split } : s)),
+      }));
+    }
+
+    case 'SET_ALLOCATION_RULE': {
+      const { serviceId, rule } = action.payload;
+      return updateActiveModelData(state, (data) => ({
+        ...data,
+        services: data.services.map((s) => (s.id === serviceId ? { ...s, allocationRule: rule } : s)),
+      }));
+    }
+
+    case 'SET_ACTUAL': {
+      const { serviceId, monthIndex, entry } = action.payload;
       return updateActiveModelData(state, (data) => {
-        const { [action.payload]: _, ...remainingBudget } = data.budgetData;
+        const { [monthIndex]: _, ...otherMonths } = data.actuals?.[serviceId] ?? {};
         void _;
         return {
           ...data,
-          services: data.services.filter((s) => s.id !== action.payload),
-          budgetData: remainingBudget,
+          actuals: { ...data.actuals, [serviceId]: entry ? { ...otherMonths, [monthIndex]: entry } : otherMonths },
         };
       });
     }
 
-    // ---- Budget actions (active model) ----
+    case 'IMPORT_ACTUALS': {
+      const { actuals, mode } = action.payload;
+      return updateActiveModelData(state, (data) => ({ ...data, actuals: mergeActuals(data.actuals, actuals, mode) }));
+    }
 
-    case 'SET_BUDGET_CONFIG': {
+    case 'SET_BILLING_RULES': {
+      const { serviceId, rules } = action.payload;
       return updateActiveModelData(state, (data) => ({
         ...data,
-        budgetConfig: action.payload,
+        services: data.services.map((s) => (
+          s.id === serviceId ? { ...s, billingRules: rules.length > 0 ? rules : undefined } : s
+        )),
       }));
     }
 
+    // Forecast months become consumption overrides, replacing any formula in those months
+    case 'APPLY_CONSUMPTION_FORECAST': {
+      const { serviceId, startMonth, usage } = action.payload;
+      return updateActiveModelData(state, (data) => {
+        const serviceBudget = data.budgetData[serviceId];
+        if (!serviceBudget) return data;
+        const updated = { ...serviceBudget };
+        usage.forEach((value, i) => {
+          const entry = updated[startMonth + i];
+          if (!entry) return;
+          const consumption = calculateConsumptionFromUsage(value, entry.efficiency.value, entry.overhead.value);
+          updated[startMonth + i] = updateMonthField(entry, 'consumption', consumption, true);
+        });
+        return { ...data, budgetData: { ...data.budgetData, [serviceId]: updated } };
+      });
+    }
+
+    case 'CLOSE_MONTH': {
+      return updateActiveModelData(state, closeNextMonth);
+    }
+
+    // The last closed month opens again, keeping the consumption it was closed with
+    case 'REOPEN_MONTH': {
+      return updateActiveModelData(state, (data) => (
+        data.closedMonths ? { ...data, closedMonths: data.closedMonths - 1 } : data
+      ));
+    }
+
+    case 'SET_BASELINE': {
+      return updateActiveModelData(state, (data) => ({ ...data, baseline: captureBaseline(data) }));
+    }
+
     case 'SET_BUDGET_FIELD': {
       const { serviceId, monthIndex, field, value } = action.payload;
       return updateActiveModelData(state, (data) => {
-        const serviceBudget = { ...data.budgetData[serviceId] };
+        const serviceBudget = data.budgetData[serviceId];
         if (!serviceBudget) return data;
 
-        if (monthIndex === 0) {
-          serviceBudget[0] = updateMonthField(serviceBudget[0], field, value, false);
-          for (let i = 1; i < 12; i++) {
-            if (!serviceBudget[i][field].isOverridden) {
-              serviceBudget[i] = updateMonthField(serviceBudget[i], field, value, false);
-            }
-          }
-        } else {
-          serviceBudget[monthIndex] = updateMonthField(
-            serviceBudget[monthIndex], field, value, true
-          );
-        }
-
         return {
           ...data,
-          budgetData: { ...data.budgetData, [serviceId]: serviceBudget },
+          budgetData: {
+            ...data.budgetData,
+            [serviceId]: setPropagatedField(serviceBudget, field, monthIndex, value),
+          },
         };
       });
     }
@@ -425,6 +1021,19 @@ function appReducer(state: AppState, action: AppAction): AppState {
       }));
     }
 
+    case 'APPLY_GOAL_SEEK': {
+      const { budgets, summary } = action.payload;
+      return updateActiveModelData(state, (data) => applyGoalSeek(data, budgets, summary));
+    }
+
+    case 'UNDO_GOAL_SEEK': {
+      return updateActiveModelData(state, undoGoalSeek);
+    }
+
+    case 'DISMISS_GOAL_SEEK_UNDO': {
+      return updateActiveModelData(state, (data) => ({ ...data, goalSeekUndo: undefined }));
+    }
+
     case 'CLEAR_OVERRIDE': {
       const { serviceId, monthIndex, field } = action.payload;
       if (monthIndex === 0) return state;
@@ -433,10 +1042,11 @@ function appReducer(state: AppState, action: AppAction): AppState {
         const serviceBudget = { ...data.budgetData[serviceId] };
         if (!serviceBudget) return data;
 
-        const sourceValue = serviceBudget[0][field].value;
-        serviceBudget[monthIndex] = updateMonthField(
-          serviceBudget[monthIndex], field, sourceValue, false
-        );
+        // A month-1 formula is inherited along with its value
+        serviceBudget[monthIndex] = {
+          ...serviceBudget[monthIndex],
+          [field]: { ...serviceBudget[0][field], isOverridden: false },
+        };
 
         return {
           ...data,
@@ -445,10 +1055,117 @@ function appReducer(state: AppState, action: AppAction): AppState {
       });
     }
 
+    // ---- Seasonality profiles ----
+
+    case 'ADD_SEASONALITY_PROFILE': {
+      const profile: SeasonalityProfile = {
+        id: crypto.randomUUID(),
+        name: action.payload.name,
+        weights: action.payload.weights,
+      };
+      return { ...state, seasonalityProfiles: [...(state.seasonalityProfiles ?? []), profile] };
+    }
+
+    case 'UPDATE_SEASONALITY_PROFILE': {
+      return {
+        ...state,
+        seasonalityProfiles: state.seasonalityProfiles?.map((p) => (p.id === action.payload.id ? action.payload : p)),
+      };
+    }
+
+    case 'DELETE_SEASONALITY_PROFILE': {
+      // Unlink the profile from saved versions too, so restoring one cannot bring it back
+      const profiles = getSeasonalityProfiles(state).filter((p) => p.id !== action.payload);
+      const unlink = (data: ModelData) => withKnownSeasonalityProfiles(data, profiles);
+      return {
+        ...state,
+        seasonalityProfiles: state.seasonalityProfiles?.filter((p) => p.id !== action.payload),
+        models: state.models.map((m) => ({
+          ...m,
+          data: unlink(m.data),
+          versions: m.versions.map((v) => ({ ...v, data: unlink(v.data) })),
+        })),
+      };
+    }
+
+    case 'APPLY_SEASONALITY': {
+      const { profileId, serviceIds } = action.payload;
+      const profiles = state.seasonalityProfiles ?? [];
+      const profile = profiles.find((p) => p.id === profileId);
+      if (!profile) return state;
+      return updateActiveModelData(state, (data) => {
+        const budgetData = { ...data.budgetData };
+        const services = data.services.map((service) => {
+          const serviceBudget = budgetData[service.id];
+          if (!serviceIds.includes(service.id) || !serviceBudget) return service;
+          const previous = profiles.find((p) => p.id === service.seasonalityProfileId);
+          const values = applySeasonality(
+            Object.values(serviceBudget).map((e) => e.consumption.value),
+            data.budgetConfig.startMonth,
+            profile.weights,
+            previous?.weights
+          );
+          const reshaped: ServiceBudget = {};
+          values.forEach((value, m) => {
+            reshaped[m] = updateMonthField(serviceBudget[m], 'consumption', value, m > 0);
+          });
+          budgetData[service.id] = reshaped;
+          return { ...service, seasonalityProfileId: profileId };
+        });
+        return { ...data, services, budgetData };
+      });
+    }
+
+    // ---- Price catalog ----
+
+    // Services keep their catalog links, so the next catalog can still be checked for price changes
+    case 'SET_PRICE_CATALOG': {
+      return { ...state, priceCatalog: action.payload ?? undefined };
+    }
+
+    // ---- Service templates ----
+
+    case 'SAVE_SERVICE_TEMPLATE': {
+      const model = state.models.find((m) => m.id === state.activeModelId);
+      const service = model?.data.services.find((s) => s.id === action.payload.serviceId);
+      if (!model || !service) return state;
+      const template = createServiceTemplate(
+        service, model.data.budgetData[service.id], action.payload.name, model.data.budgetConfig.startMonth
+      );
+      return { ...state, serviceTemplates: [...(state.serviceTemplates ?? []), template] };
+    }
+
+    case 'RENAME_SERVICE_TEMPLATE': {
+      return {
+        ...state,
+        serviceTemplates: state.serviceTemplates?.map((t) => (
+          t.id === action.payload.id ? { ...t, name: action.payload.name } : t
+        )),
+      };
+    }
+
+    case 'DELETE_SERVICE_TEMPLATE': {
+      return { ...state, serviceTemplates: state.serviceTemplates?.filter((t) => t.id !== action.payload) };
+    }
+
+    // An imported template replaces the one with the same ID; the rest are added
+    case 'IMPORT_SERVICE_TEMPLATES': {
+      const existing = state.serviceTemplates ?? [];
+      const imported = new Map(action.payload.map((t) => [t.id, t]));
+      const existingIds = new Set(existing.map((t) => t.id));
+      return {
+        ...state,
+        serviceTemplates: [
+          ...existing.map((t) => imported.get(t.id) ?? t),
+          ...action.payload.filter((t) => !existingIds.has(t.id)),
+        ],
+      };
+    }
+
     // ---- Import ----
 
     case 'IMPORT_MODEL': {
-      const imported = action.payload;
+      const imported = withModelUnitCosts(action.payload);
       const existing = state.models.find((m) => m.id === imported.id);
 
       if (existing) {
@@ -467,7 +1184,7 @@ function appReducer(state: AppState, action: AppAction): AppState {
     }
 
     case 'IMPORT_MODEL_MERGE': {
-      const imported = action.payload;
+      const imported = withModelUnitCosts(action.payload);
       const existing = state.models.find((m) => m.id === imported.id);
       if (!existing) return state;
 
@@ -0,0 +1,67 @@
+import { useEffect, useRef, useState } from 'react';
+import { DEFAULT_ITERATIONS, modelHasUncertainty } from '../utils/monteCarlo';
+import type { SimulationResult } from '../utils/monteCarlo';
+import type { SimulationRequest, SimulationResponse } from '../workers/monteCarlo.worker';
+import type { ModelData } from '../types';
+
+// Runs the Monte Carlo simulation in a web worker whenever the model changes. Edits arriving
+// in quick succession are debounced, and replies to superseded requests are ignored. A worker
+// that fails is discarded and the error reported; the next change starts a fresh one.
+export function useSimulation(data: ModelData | null, iterations = DEFAULT_ITERATIONS): {
+  result: SimulationResult | null;
+  running: boolean;
+  error: string | null;
+} {
+  const [result, setResult] = useState<SimulationResult | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const requestIdRef = useRef(0);
+
+  const enabled = !!data && modelHasUncertainty(data);
+
+  useEffect(() => {
+    return () => workerRef.current?.terminate();
+  }, []);
+
+  useEffect(() => {
+    const id = ++requestIdRef.current;
+    if (!enabled || !data) {
+      setResult(null);
+      setRunning(false);
+      setError(null);
+      return;
+    }
+
+    const timeout = setTimeout(() => {
+      if (!workerRef.current) {
+        workerRef.current = new Worker(new URL('../workers/monteCarlo.worker.ts', import.meta.url), { type: 'module' });
+        workerRef.current.onmessage = (e: MessageEvent<SimulationResponse>) => {
+          if (e.data.id !== requestIdRef.current) return;
+          setResult(e.data.result);
+          setError(null);
+          setRunning(false);
+        };
+        const fail = (message: string) => {
+          workerRef.current?.terminate();
+          workerRef.current = null;
+          setResult(null);
+          setError(message);
+          setRunning(false);
+        };
+        workerRef.current.onerror = (e: ErrorEvent) => {
+          e.preventDefault();
+          fail(e.message || 'The simulation failed.');
+        };
+        workerRef.current.onmessageerror = () => fail('The simulation result could not be read.');
+      }
+      setRunning(true);
+      const request: SimulationRequest = { id, data, iterations };
+      workerRef.current.postMessage(request);
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [data, enabled, iterations]);
+
+  return { result, running, error };
+}
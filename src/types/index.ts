@@ -1,8 +1,78 @@
+export interface PriceTier {
+  upTo: number | null;
+  unitCost: number;
+}
+
+export interface Commitment {
+  termMonths: number;
+  startMonth: number;
+  upfrontFee: number;
+  hourlyCommit: number;
+  coveredUnits: number;
+}
+
+export interface Allowance {
+  units: number;
+  period: 'month' | 'year';
+}
+
+// Consumption derived from a business driver: units per driver unit, e.g. 0.4 GB per active user
+export interface DriverLink {
+  driverId: string;
+  ratio: number;
+}
+
+// Spread around the likely (point) estimate, as percentages below and above it
+export interface UncertaintyRange {
+  low: number;
+  high: number;
+}
+
+export type UncertainFieldKey = 'consumption' | 'efficiency' | 'unitCost';
+
+// Percent of a service's cost charged to each cost center, keyed by cost center id
+export type CostCenterShares = Record<string, number>;
+
+export interface CostCenterSplit {
+  shares: CostCenterShares;
+  // Plan months whose split differs from `shares`
+  monthlyShares?: Record<number, CostCenterShares>;
+}
+
+export type AllocationBasis = 'cost' | 'driver' | 'fixed';
+
+export interface AllocationReceiver {
+  serviceId: string;
+  // Percent of the shared cost, for a fixed split
+  pct?: number;
+  // Driver whose monthly value weights this receiver, for a driver-based split
+  driverId?: string;
+}
+
+// Spreads a shared service's cost (support plan, logging, networking) onto the services that use it
+export interface AllocationRule {
+  basis: AllocationBasis;
+  receivers: AllocationReceiver[];
+}
+
 export interface Service {
   id: string;
   name: string;
   unitType: string;
   unitCost: number;
+  // Category path from the top level down, e.g. ['Compute', 'Containers']
+  category?: string[];
+  tiers?: PriceTier[];
+  currency?: string;
+  commitment?: Commitment;
+  allowance?: Allowance;
+  driver?: DriverLink;
+  seasonalityProfileId?: string;
+  uncertainty?: Partial<Record<UncertainFieldKey, UncertaintyRange>>;
+  costCenterSplit?: CostCenterSplit;
+  allocationRule?: AllocationRule;
+  billingRules?: BillingMatchRule[];
+  catalogRef?: CatalogRef;
   discountEligible: boolean;
   defaultEfficiency: number;
   defaultOverhead: number;
@@ -12,28 +82,135 @@ export interface Service {
 export interface PropagatedField {
   value: number;
   isOverridden: boolean;
+  // Consumption only: expression over other services' consumption; `value` holds its resolved result
+  formula?: string;
+  // Why the formula could not be evaluated, e.g. a deleted service; `value` keeps its last result
+  formulaError?: string;
+}
+
+// Costs of a month that has been closed, in the service's currency. The actual cost replaces the
+// calculated one; the planned cost is what the plan said when the month was closed. Until spend is
+// recorded for the month, the actual cost is the planned cost and the month is marked estimated.
+export interface ClosedMonth {
+  plannedCost: number;
+  actualCost: number;
+  estimated?: boolean;
 }
 
 export interface BudgetMonthEntry {
   consumption: PropagatedField;
+  unitCost: PropagatedField;
   efficiency: PropagatedField;
   overhead: PropagatedField;
   discount: PropagatedField;
+  closed?: ClosedMonth;
 }
 
 export type ServiceBudget = Record<number, BudgetMonthEntry>;
 
+// A business metric forecast month by month (active users, orders, API calls)
+export interface Driver {
+  id: string;
+  name: string;
+  unit: string;
+  values: PropagatedField[];
+}
+
 export type BudgetData = Record<string, ServiceBudget>;
 
 export interface BudgetConfig {
   startMonth: number;
   startYear: number;
+  horizonMonths?: number;
+  reportingCurrency?: string;
+}
+
+// Enterprise discount program: a minimum annual spend across eligible services in exchange for a blanket discount
+export interface SpendCommitment {
+  annualAmount: number;
+  discountPct: number;
+  serviceIds: string[];
+}
+
+// currency code -> per-month rate (reporting currency units per 1 unit of that currency)
+export type FxRateTable = Record<string, number[]>;
+
+// Top-down allocation per plan month in the reporting currency. Without serviceIds it covers the
+// whole model; otherwise it covers one service or a group of services.
+export interface BudgetTarget {
+  id: string;
+  name: string;
+  serviceIds?: string[];
+  values: PropagatedField[];
+}
+
+// A team or budget owner that shared service costs are charged back to
+export interface CostCenter {
+  id: string;
+  name: string;
+}
+
+export type BillingProvider = 'aws' | 'azure' | 'gcp';
+
+// Picks out the billing line items that belong to a service. Every condition that is set must
+// match (ignoring case); a service's rules are alternatives.
+export interface BillingMatchRule {
+  provider?: BillingProvider;
+  product?: string;
+  sku?: string;
+  tagKey?: string;
+  tagValue?: string;
+}
+
+// Recorded spend for one service in one month, in the service's currency
+export interface ActualEntry {
+  cost: number;
+  usage?: number;
+}
+
+// Service ID → plan month index → recorded spend; negative months are usage history before the plan
+export type ActualsData = Record<string, Record<number, ActualEntry>>;
+
+export type ThresholdPeriod = 'month' | 'year';
+
+// Spend cap in the reporting currency for one service, or for the whole model without serviceId.
+// Yearly caps apply to each 12-month plan year.
+export interface BudgetThreshold {
+  id: string;
+  serviceId?: string;
+  period: ThresholdPeriod;
+  amount: number;
+}
+
+// The plan as it stood when it was baselined: service ID → reporting-currency cost per plan month
+export interface Baseline {
+  setAt: number;
+  costs: Record<string, number[]>;
+}
+
+// The last goal seek applied to a model: the budgets of the services it changed, before and after,
+// so it stays undoable until dismissed or replaced by the next one
+export interface GoalSeekUndo {
+  summary: string;
+  previous: BudgetData;
+  applied: BudgetData;
 }
 
 export interface ModelData {
   services: Service[];
   budgetConfig: BudgetConfig;
   budgetData: BudgetData;
+  fxRates?: FxRateTable;
+  spendCommitment?: SpendCommitment;
+  drivers?: Driver[];
+  targets?: BudgetTarget[];
+  thresholds?: BudgetThreshold[];
+  costCenters?: CostCenter[];
+  actuals?: ActualsData;
+  // Months from the start of the plan that are closed: locked, and costed at their actuals
+  closedMonths?: number;
+  baseline?: Baseline;
+  goalSeekUndo?: GoalSeekUndo;
 }
 
 export interface Version {
@@ -53,12 +230,62 @@ export interface BudgetModel {
   versions: Version[];
 }
 
+// One list price in a provider price catalog. Free tier is in units per month.
+export interface CatalogEntry {
+  provider: string;
+  service: string;
+  sku: string;
+  region?: string;
+  unitType: string;
+  price: number;
+  currency: string;
+  freeTier?: number;
+  discountEligible?: boolean;
+}
+
+// Offline list prices imported into the workspace; a later import replaces it
+export interface PriceCatalog {
+  name: string;
+  importedAt: number;
+  entries: CatalogEntry[];
+}
+
+// The catalog entry a service was filled from, and its price at the time, so a refreshed
+// catalog can show which prices have moved
+export interface CatalogRef {
+  provider: string;
+  sku: string;
+  region?: string;
+  price: number;
+}
+
+// A reusable service definition shared across models. Links into a particular model (driver,
+// cost center split, allocation rule) are left out, and a commitment starts in the first plan
+// month. Consumption is a calendar-year profile, January first, that new services start from.
+export interface ServiceTemplate {
+  id: string;
+  name: string;
+  service: Omit<Service, 'id' | 'createdAt' | 'driver' | 'costCenterSplit' | 'allocationRule'>;
+  consumption: number[];
+  createdAt: number;
+}
+
+// Relative monthly weights shared across models; weights[0] is January. Normalised to average 1 when applied.
+export interface SeasonalityProfile {
+  id: string;
+  name: string;
+  weights: number[];
+}
+
 export interface AppState {
   schemaVersion: number;
   models: BudgetModel[];
   activeModelId: string | null;
+  seasonalityProfiles?: SeasonalityProfile[];
+  priceCatalog?: PriceCatalog;
+  serviceTemplates?: ServiceTemplate[];
 }
 
 export type TabId = 'services' | 'home';
 
-export type BudgetFieldKey = 'consumption' | 'efficiency' | 'overhead' | 'discount';
+export type BudgetFieldKey = 'consumption' | 'unitCost' | 'efficiency' | 'overhead' | 'discount';
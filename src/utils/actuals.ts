@@ -0,0 +1,186 @@
+import type { ActualEntry, ActualsData, ModelData } from '../types';
+import { calculatePlannedMonthCosts } from './closing';
+import { convertToReporting } from './currency';
+import { findColumn, parseCsv, parseCsvNumber } from './csv';
+import { HISTORY_MONTHS, getHorizonMonths, parsePlanMonth } from './months';
+
+// Imported months either replace what was recorded for them, or add to it, e.g. when a second
+// provider's export bills the same service
+export type ActualsImportMode = 'replace' | 'add';
+
+export interface VarianceRow {
+  serviceId: string;
+  serviceName: string;
+  // Reporting currency; actual is null for months with no actuals recorded for any service
+  planByMonth: number[];
+  actualByMonth: (number | null)[];
+  // Totals over the months with actuals
+  plan: number;
+  actual: number;
+  variance: number;
+  variancePct: number | null;
+}
+
+export interface VarianceSummary {
+  rows: VarianceRow[];
+  actualMonths: boolean[];
+  planByMonth: number[];
+  actualByMonth: (number | null)[];
+  plan: number;
+  actual: number;
+  variance: number;
+  variancePct: number | null;
+}
+
+export interface ActualsImportResult {
+  actuals: ActualsData;
+  rowCount: number;
+  errors: string[];
+}
+
+export function getActuals(data: ModelData): ActualsData {
+  return data.actuals ?? {};
+}
+
+export function hasActuals(data: ModelData): boolean {
+  return Object.values(getActuals(data)).some((months) => Object.keys(months).length > 0);
+}
+
+// A month counts as closed once any service has actuals recorded for it. Months before the plan
+// starts are usage history and are not compared with the plan.
+export function getActualMonths(data: ModelData): boolean[] {
+  const closed: boolean[] = Array(getHorizonMonths(data.budgetConfig)).fill(false);
+  for (const months of Object.values(getActuals(data))) {
+    for (const m of Object.keys(months)) {
+      if (Number(m) >= 0 && Number(m) < closed.length) closed[Number(m)] = true;
+    }
+  }
+  return closed;
+}
+
+const variancePct = (variance: number, plan: number) => (plan !== 0 ? (variance / plan) * 100 : null);
+
+// Plan versus actual in the reporting currency. Variance is actual − plan, so positive means
+// overspend; it is taken over closed months only, where a service with no entry counts as zero.
+// Months closed with Close month are compared against the plan they were closed with.
+export function calculateVariance(data: ModelData): VarianceSummary {
+  const horizon = getHorizonMonths(data.budgetConfig);
+  const actualMonths = getActualMonths(data);
+  const actuals = getActuals(data);
+
+  const rows: VarianceRow[] = data.services.map((service) => {
+    const planByMonth = calculatePlannedMonthCosts(data, service);
+    const recorded = Array.from({ length: horizon }, (_, m) => actuals[service.id]?.[m]?.cost ?? 0);
+    const converted = convertToReporting(data, service, recorded);
+    const actualByMonth = converted.map((cost, m) => (actualMonths[m] ? cost : null));
+    const plan = planByMonth.reduce((sum, v, m) => sum + (actualMonths[m] ? v : 0), 0);
+    const actual = actualByMonth.reduce<number>((sum, v) => sum + (v ?? 0), 0);
+    return {
+      serviceId: service.id,
+      serviceName: service.name,
+      planByMonth,
+      actualByMonth,
+      plan,
+      actual,
+      variance: actual - plan,
+      variancePct: variancePct(actual - plan, plan),
+    };
+  });
+
+  const planByMonth = Array.from({ length: horizon }, (_, m) => rows.reduce((sum, r) => sum + r.planByMonth[m], 0));
+  const actualByMonth = Array.from({ length: horizon }, (_, m) =>
+    actualMonths[m] ? rows.reduce((sum, r) => sum + (r.actualByMonth[m] ?? 0), 0) : null
+  );
+  const plan = rows.reduce((sum, r) => sum + r.plan, 0);
+  const actual = rows.reduce((sum, r) => sum + r.actual, 0);
+  return {
+    rows,
+    actualMonths,
+    planByMonth,
+    actualByMonth,
+    plan,
+    actual,
+    variance: actual - plan,
+    variancePct: variancePct(actual - plan, plan),
+  };
+}
+
+// Read actuals from a CSV with Service, Month and Cost columns and an optional Usage column.
+// Services match by name (or ID); costs are in each service's own currency. Several rows for
+// the same service and month are added together. Months up to HISTORY_MONTHS before the plan
+// are kept as history, under negative plan months.
+export function parseActualsCsv(text: string, data: ModelData): ActualsImportResult {
+  const [header, ...lines] = parseCsv(text);
+  if (!header) return { actuals: {}, rowCount: 0, errors: ['The file is empty.'] };
+
+  const serviceCol = findColumn(header, ['service', 'service name']);
+  const monthCol = findColumn(header, ['month', 'period', 'date']);
+  const costCol = findColumn(header, ['cost', 'actual', 'amount', 'spend']);
+  const usageCol = findColumn(header, ['usage', 'quantity', 'consumption']);
+  if (serviceCol < 0 || monthCol < 0 || costCol < 0) {
+    return { actuals: {}, rowCount: 0, errors: ['Expected Service, Month and Cost columns in the header row.'] };
+  }
+
+  const byName = new Map(data.services.map((s) => [s.name.trim().toLowerCase(), s.id]));
+  const actuals: ActualsData = {};
+  const errors: string[] = [];
+  let rowCount = 0;
+
+  lines.forEach((cells, i) => {
+    const line = i + 2;
+    const name = (cells[serviceCol] ?? '').trim();
+    const serviceId = byName.get(name.toLowerCase()) ?? data.services.find((s) => s.id === name)?.id;
+    if (!serviceId) {
+      errors.push(`Row ${line}: no service named "${name}".`);
+      return;
+    }
+    const monthIndex = parsePlanMonth(cells[monthCol] ?? '', data.budgetConfig, HISTORY_MONTHS);
+    if (monthIndex === null) {
+      errors.push(`Row ${line}: "${cells[monthCol] ?? ''}" is not a month within the plan or the ${HISTORY_MONTHS} months before it.`);
+      return;
+    }
+    const cost = parseCsvNumber(cells[costCol]);
+    if (cost === null) {
+      errors.push(`Row ${line}: "${cells[costCol] ?? ''}" is not a cost.`);
+      return;
+    }
+    const usage = usageCol >= 0 ? parseCsvNumber(cells[usageCol]) : null;
+
+    const months = (actuals[serviceId] ??= {});
+    const existing = months[monthIndex];
+    const totalUsage = usage === null ? existing?.usage : (existing?.usage ?? 0) + usage;
+    months[monthIndex] = {
+      cost: (existing?.cost ?? 0) + cost,
+      ...(totalUsage !== undefined ? { usage: totalUsage } : {}),
+    };
+    rowCount++;
+  });
+
+  return { actuals, rowCount, errors };
+}
+
+function addActualEntries(a: ActualEntry, b: ActualEntry): ActualEntry {
+  const usage = a.usage === undefined && b.usage === undefined ? undefined : (a.usage ?? 0) + (b.usage ?? 0);
+  return { cost: a.cost + b.cost, ...(usage !== undefined ? { usage } : {}) };
+}
+
+// Months already recorded that an import would replace or add to
+export function countOverlappingActuals(existing: ActualsData | undefined, imported: ActualsData): number {
+  return Object.entries(imported).reduce((count, [serviceId, months]) => (
+    count + Object.keys(months).filter((m) => existing?.[serviceId]?.[Number(m)] !== undefined).length
+  ), 0);
+}
+
+// Months not in the import are kept either way
+export function mergeActuals(existing: ActualsData | undefined, imported: ActualsData, mode: ActualsImportMode): ActualsData {
+  const actuals: ActualsData = { ...existing };
+  for (const [serviceId, months] of Object.entries(imported)) {
+    const merged = { ...actuals[serviceId] };
+    for (const [key, entry] of Object.entries(months)) {
+      const m = Number(key);
+      merged[m] = mode === 'add' && merged[m] ? addActualEntries(merged[m], entry) : entry;
+    }
+    actuals[serviceId] = merged;
+  }
+  return actuals;
+}
@@ -0,0 +1,121 @@
+import type { AllocationBasis, ModelData, Service } from '../types';
+import { calculateReportingMonthCosts } from './currency';
+import { getHorizonMonths } from './months';
+
+export const ALLOCATION_BASES: { value: AllocationBasis; label: string }[] = [
+  { value: 'cost', label: "Proportional to receivers' cost" },
+  { value: 'driver', label: 'Proportional to a driver' },
+  { value: 'fixed', label: 'Fixed split' },
+];
+
+// Shared cost moved from one service onto another, per month, in the reporting currency
+export interface AllocationFlow {
+  sourceId: string;
+  receiverId: string;
+  byMonth: number[];
+  total: number;
+}
+
+export interface AllocationResult {
+  direct: Record<string, number[]>;
+  // Direct cost, minus what was allocated away, plus what was received
+  allocated: Record<string, number[]>;
+  flows: AllocationFlow[];
+  // Services whose rules allocate into each other in a loop; they keep their cost
+  cyclic: string[];
+}
+
+export function hasAllocationRules(data: ModelData): boolean {
+  return data.services.some((s) => (s.allocationRule?.receivers.length ?? 0) > 0);
+}
+
+function validReceivers(data: ModelData, service: Service) {
+  return (service.allocationRule?.receivers ?? []).filter(
+    (r) => r.serviceId !== service.id && data.services.some((s) => s.id === r.serviceId)
+  );
+}
+
+// Sources are processed after every source that allocates into them, so chained shared
+// costs (support on top of logging) arrive before they are passed on
+function orderSources(data: ModelData, sources: Service[]): { order: Service[]; cyclic: Set<string> } {
+  const feeders = new Map<string, string[]>(sources.map((s) => [s.id, []]));
+  for (const source of sources) {
+    for (const r of validReceivers(data, source)) feeders.get(r.serviceId)?.push(source.id);
+  }
+  const byId = new Map(sources.map((s) => [s.id, s]));
+  const order: Service[] = [];
+  const cyclic = new Set<string>();
+  const state = new Map<string, 'visiting' | 'done'>();
+
+  function visit(id: string, path: string[]): void {
+    if (state.get(id) === 'done') return;
+    if (state.get(id) === 'visiting') {
+      path.slice(path.indexOf(id)).forEach((c) => cyclic.add(c));
+      return;
+    }
+    state.set(id, 'visiting');
+    for (const feeder of feeders.get(id) ?? []) visit(feeder, [...path, id]);
+    state.set(id, 'done');
+    order.push(byId.get(id)!);
+  }
+
+  for (const source of sources) visit(source.id, []);
+  return { order: order.filter((s) => !cyclic.has(s.id)), cyclic };
+}
+
+// Spread each shared service's cost onto its receivers month by month. A month where every
+// weight is zero, and any part of a fixed split below 100%, stays with the shared service.
+export function calculateAllocation(data: ModelData): AllocationResult {
+  const horizon = getHorizonMonths(data.budgetConfig);
+  const direct: Record<string, number[]> = {};
+  for (const service of data.services) direct[service.id] = calculateReportingMonthCosts(data, service);
+  const allocated: Record<string, number[]> = Object.fromEntries(
+    Object.entries(direct).map(([id, costs]) => [id, [...costs]])
+  );
+
+  const sources = data.services.filter((s) => validReceivers(data, s).length > 0);
+  const { order, cyclic } = orderSources(data, sources);
+  const flows: AllocationFlow[] = [];
+
+  for (const source of order) {
+    const rule = source.allocationRule!;
+    const receivers = validReceivers(data, source);
+    const sourceFlows = receivers.map((r) => ({
+      sourceId: source.id,
+      receiverId: r.serviceId,
+      byMonth: Array(horizon).fill(0) as number[],
+      total: 0,
+    }));
+    const fixedTotal = receivers.reduce((sum, r) => sum + Math.max(r.pct ?? 0, 0), 0);
+
+    for (let m = 0; m < horizon; m++) {
+      const amount = allocated[source.id][m];
+      if (amount === 0) continue;
+      let shares: number[];
+      if (rule.basis === 'fixed') {
+        const scale = 100 / Math.max(fixedTotal, 100);
+        shares = receivers.map((r) => (Math.max(r.pct ?? 0, 0) / 100) * scale);
+      } else {
+        const weights = receivers.map((r) => Math.max(
+          rule.basis === 'cost'
+            ? direct[r.serviceId][m] ?? 0
+            : data.drivers?.find((d) => d.id === r.driverId)?.values[m]?.value ?? 0,
+          0
+        ));
+        const total = weights.reduce((sum, w) => sum + w, 0);
+        shares = weights.map((w) => (total > 0 ? w / total : 0));
+      }
+      shares.forEach((share, i) => {
+        const moved = amount * share;
+        if (moved === 0) return;
+        sourceFlows[i].byMonth[m] += moved;
+        sourceFlows[i].total += moved;
+        allocated[receivers[i].serviceId][m] += moved;
+        allocated[source.id][m] -= moved;
+      });
+    }
+    flows.push(...sourceFlows.filter((f) => f.total !== 0));
+  }
+
+  return { direct, allocated, flows, cyclic: [...cyclic] };
+}
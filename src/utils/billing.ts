@@ -0,0 +1,300 @@
+import type { ActualsData, BillingMatchRule, BillingProvider, BudgetConfig, ModelData, Service } from '../types';
+import { findColumn, parseCsv, parseCsvNumber } from './csv';
+import { HISTORY_MONTHS, parsePlanMonth } from './months';
+
+export const BILLING_PROVIDERS: { value: BillingProvider; label: string }[] = [
+  { value: 'aws', label: 'AWS Cost and Usage Report' },
+  { value: 'azure', label: 'Azure cost management export' },
+  { value: 'gcp', label: 'GCP billing export' },
+];
+
+export interface BillingLineItem {
+  monthIndex: number;
+  product: string;
+  sku: string;
+  tags: Record<string, string>;
+  usage: number;
+  usageUnit: string;
+  cost: number;
+  // Billing currency code, upper-cased; empty when the export has no currency column
+  currency: string;
+}
+
+export interface BillingParseResult {
+  items: BillingLineItem[];
+  // Line items dated outside the plan horizon and the history months before it, which are left out
+  outOfRange: number;
+  errors: string[];
+}
+
+// Line items that no service rule claims, grouped by product and SKU
+export interface UnmatchedBillingGroup {
+  product: string;
+  sku: string;
+  usageUnit: string;
+  lineItems: number;
+  months: number;
+  usage: number;
+  cost: number;
+  currency: string;
+}
+
+export interface BillingImportSummary {
+  actuals: ActualsData;
+  matched: { serviceId: string; lineItems: number; usage: number; cost: number }[];
+  unmatched: UnmatchedBillingGroup[];
+}
+
+interface ProviderColumns {
+  date: string[];
+  product: string[];
+  sku: string[];
+  usage: string[];
+  unit: string[];
+  cost: string[];
+  currency: string[];
+  // A single column holding every tag as JSON
+  tags: string[];
+  // One column per tag, e.g. "resourceTags/user:team"
+  tagPrefixes: string[];
+}
+
+// Header names for each export format, legacy and current; matching ignores case and punctuation
+const PROVIDER_COLUMNS: Record<BillingProvider, ProviderColumns> = {
+  aws: {
+    date: ['lineItem/UsageStartDate', 'bill/BillingPeriodStartDate'],
+    product: ['lineItem/ProductCode', 'product/ProductName'],
+    sku: ['lineItem/UsageType'],
+    usage: ['lineItem/UsageAmount'],
+    unit: ['pricing/unit'],
+    cost: ['lineItem/UnblendedCost', 'lineItem/NetUnblendedCost'],
+    currency: ['lineItem/CurrencyCode'],
+    tags: ['resource_tags'],
+    tagPrefixes: ['resourceTags/user:', 'resourceTags/'],
+  },
+  azure: {
+    date: ['Date', 'UsageDate', 'BillingPeriodStartDate'],
+    product: ['MeterCategory', 'ServiceName', 'ConsumedService'],
+    sku: ['MeterName', 'MeterSubCategory', 'ProductName'],
+    usage: ['Quantity', 'UsageQuantity'],
+    unit: ['UnitOfMeasure'],
+    cost: ['CostInBillingCurrency', 'Cost', 'PreTaxCost'],
+    currency: ['BillingCurrency', 'BillingCurrencyCode', 'Currency'],
+    tags: ['Tags'],
+    tagPrefixes: [],
+  },
+  gcp: {
+    date: ['Usage start date', 'usage_start_time', 'Start time'],
+    product: ['Service description', 'service.description', 'Service'],
+    sku: ['SKU description', 'sku.description', 'SKU'],
+    usage: ['Usage amount', 'usage.amount', 'Usage'],
+    unit: ['Usage unit', 'usage.unit'],
+    cost: ['Cost', 'cost'],
+    currency: ['Currency', 'currency'],
+    tags: ['Labels', 'labels'],
+    tagPrefixes: [],
+  },
+};
+
+const normalize = (s: string) => s.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export function detectBillingProvider(header: string[]): BillingProvider | null {
+  const columns = header.map(normalize);
+  if (columns.some((c) => c.startsWith('lineitem'))) return 'aws';
+  if (columns.includes('metercategory')) return 'azure';
+  if (columns.some((c) => c === 'servicedescription' || c === 'skudescription')) return 'gcp';
+  return null;
+}
+
+export function getBillingHeader(text: string): string[] {
+  return parseCsv(text.slice(0, text.search(/\r?\n/) + 1 || undefined))[0] ?? [];
+}
+
+// Tag keys lose AWS's "user:" / "user_" prefix so rules can name the tag as people write it
+function normalizeTagKey(key: string): string {
+  return key.trim().replace(/^user[:_]/i, '').toLowerCase();
+}
+
+// Tags arrive as a JSON object, a GCP-style [{ key, value }] list, or Azure's legacy
+// `"key": "value"` pairs without the surrounding braces
+function parseTags(text: string): Record<string, string> {
+  const trimmed = text.trim();
+  if (!trimmed) return {};
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(trimmed.startsWith('{') || trimmed.startsWith('[') ? trimmed : `{${trimmed}}`);
+  } catch {
+    return {};
+  }
+  const tags: Record<string, string> = {};
+  if (Array.isArray(parsed)) {
+    for (const entry of parsed) {
+      if (entry && typeof entry === 'object' && 'key' in entry) {
+        tags[normalizeTagKey(String(entry.key))] = String((entry as { value?: unknown }).value ?? '');
+      }
+    }
+  } else if (parsed && typeof parsed === 'object') {
+    for (const [key, value] of Object.entries(parsed)) tags[normalizeTagKey(key)] = String(value ?? '');
+  }
+  return tags;
+}
+
+// Billing dates come as ISO timestamps, or as MM/DD/YYYY in Azure exports. Months before the plan
+// are kept as usage history.
+function toPlanMonth(text: string, config: BudgetConfig): number | null {
+  const usDate = text.trim().match(/^(\d{1,2})\/\d{1,2}\/(\d{4})/);
+  return parsePlanMonth(usDate ? `${usDate[2]}-${usDate[1]}` : text, config, HISTORY_MONTHS);
+}
+
+export function parseBillingCsv(text: string, provider: BillingProvider, config: BudgetConfig): BillingParseResult {
+  const [header, ...lines] = parseCsv(text);
+  if (!header) return { items: [], outOfRange: 0, errors: ['The file is empty.'] };
+
+  const columns = PROVIDER_COLUMNS[provider];
+  const col = (names: string[]) => {
+    for (const name of names) {
+      const index = findColumn(header, [name]);
+      if (index >= 0) return index;
+    }
+    return -1;
+  };
+  const dateCol = col(columns.date);
+  const productCol = col(columns.product);
+  const skuCol = col(columns.sku);
+  const usageCol = col(columns.usage);
+  const unitCol = col(columns.unit);
+  const costCol = col(columns.cost);
+  const currencyCol = col(columns.currency);
+  const tagsCol = col(columns.tags);
+  const prefixes = columns.tagPrefixes.map(normalize);
+  // CUR's resource_tags JSON column shares the per-tag prefix once normalized
+  const tagCols = header.flatMap((h, index) => {
+    if (index === tagsCol) return [];
+    const prefix = prefixes.find((p) => normalize(h).startsWith(p));
+    return prefix ? [{ index, key: normalizeTagKey(h.slice(h.lastIndexOf(h.includes(':') ? ':' : '/') + 1)) }] : [];
+  });
+
+  const missing = [
+    dateCol < 0 && 'date',
+    productCol < 0 && 'service/product',
+    costCol < 0 && 'cost',
+  ].filter(Boolean);
+  if (missing.length > 0) {
+    const label = BILLING_PROVIDERS.find((p) => p.value === provider)?.label ?? provider;
+    return { items: [], outOfRange: 0, errors: [`No ${missing.join(', ')} column found for an ${label}.`] };
+  }
+
+  const items: BillingLineItem[] = [];
+  const errors: string[] = [];
+  let outOfRange = 0;
+
+  lines.forEach((cells, i) => {
+    const cost = parseCsvNumber(cells[costCol]);
+    if (cost === null) {
+      errors.push(`Row ${i + 2}: "${cells[costCol] ?? ''}" is not a cost.`);
+      return;
+    }
+    const monthIndex = toPlanMonth(cells[dateCol] ?? '', config);
+    if (monthIndex === null) {
+      outOfRange++;
+      return;
+    }
+    const tags = tagsCol >= 0 ? parseTags(cells[tagsCol] ?? '') : {};
+    for (const { index, key } of tagCols) {
+      if (cells[index]?.trim()) tags[key] = cells[index].trim();
+    }
+    items.push({
+      monthIndex,
+      product: (cells[productCol] ?? '').trim(),
+      sku: skuCol >= 0 ? (cells[skuCol] ?? '').trim() : '',
+      tags,
+      usage: usageCol >= 0 ? parseCsvNumber(cells[usageCol]) ?? 0 : 0,
+      usageUnit: unitCol >= 0 ? (cells[unitCol] ?? '').trim() : '',
+      cost,
+      currency: currencyCol >= 0 ? (cells[currencyCol] ?? '').trim().toUpperCase() : '',
+    });
+  });
+
+  return { items, outOfRange, errors };
+}
+
+export function describeBillingRule(rule: BillingMatchRule): string {
+  const parts = [
+    rule.product && `product ${rule.product}`,
+    rule.sku && `SKU ${rule.sku}`,
+    rule.tagKey && `tag ${rule.tagKey}${rule.tagValue ? `=${rule.tagValue}` : ''}`,
+  ].filter(Boolean);
+  const provider = rule.provider ? `${rule.provider.toUpperCase()} ` : '';
+  return `${provider}${parts.join(', ') || 'everything'}`;
+}
+
+function matchesRule(item: BillingLineItem, rule: BillingMatchRule, provider: BillingProvider): boolean {
+  const same = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+  if (rule.provider && rule.provider !== provider) return false;
+  if (!rule.product && !rule.sku && !rule.tagKey) return false;
+  if (rule.product && !same(item.product, rule.product)) return false;
+  if (rule.sku && !same(item.sku, rule.sku)) return false;
+  if (rule.tagKey) {
+    const value = item.tags[normalizeTagKey(rule.tagKey)];
+    if (value === undefined || (rule.tagValue && !same(value, rule.tagValue))) return false;
+  }
+  return true;
+}
+
+// The first service, in list order, with a rule claiming the line item
+export function findBillingService(services: Service[], item: BillingLineItem, provider: BillingProvider): Service | undefined {
+  return services.find((s) => s.billingRules?.some((rule) => matchesRule(item, rule, provider)));
+}
+
+// Sum cost and usage per matched service and month, ready to import as actuals
+export function aggregateBilling(data: ModelData, items: BillingLineItem[], provider: BillingProvider): BillingImportSummary {
+  const actuals: ActualsData = {};
+  const matched = new Map<string, { serviceId: string; lineItems: number; usage: number; cost: number }>();
+  const unmatched = new Map<string, UnmatchedBillingGroup>();
+  const unmatchedMonths = new Map<string, Set<number>>();
+
+  for (const item of items) {
+    const service = findBillingService(data.services, item, provider);
+    if (service) {
+      const months = (actuals[service.id] ??= {});
+      const entry = months[item.monthIndex] ?? { cost: 0, usage: 0 };
+      months[item.monthIndex] = { cost: entry.cost + item.cost, usage: (entry.usage ?? 0) + item.usage };
+      const totals = matched.get(service.id) ?? { serviceId: service.id, lineItems: 0, usage: 0, cost: 0 };
+      matched.set(service.id, {
+        ...totals,
+        lineItems: totals.lineItems + 1,
+        usage: totals.usage + item.usage,
+        cost: totals.cost + item.cost,
+      });
+      continue;
+    }
+    const key = `${item.product}\u0000${item.sku}`;
+    const group = unmatched.get(key) ?? {
+      product: item.product,
+      sku: item.sku,
+      usageUnit: item.usageUnit,
+      lineItems: 0,
+      months: 0,
+      usage: 0,
+      cost: 0,
+      currency: item.currency,
+    };
+    const months = unmatchedMonths.get(key) ?? new Set<number>();
+    months.add(item.monthIndex);
+    unmatchedMonths.set(key, months);
+    unmatched.set(key, {
+      ...group,
+      lineItems: group.lineItems + 1,
+      months: months.size,
+      usage: group.usage + item.usage,
+      cost: group.cost + item.cost,
+      currency: group.currency || item.currency,
+    });
+  }
+
+  return {
+    actuals,
+    matched: [...matched.values()],
+    unmatched: [...unmatched.values()].sort((a, b) => b.cost - a.cost),
+  };
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import type { BudgetMonthEntry, PriceTier, Service, ServiceBudget } from '../types';
+import {
+  HOURS_PER_MONTH,
+  calculateAllowanceDrawdown,
+  calculateCommitmentMonthCost,
+  calculateServiceMonthBreakdown,
+  calculateServiceMonthCosts,
+  getMonthTiers,
+  getReferenceTierPrice,
+  priceTiers,
+} from './calculations';
+
+function field(value: number, isOverridden = false) {
+  return { value, isOverridden };
+}
+
+function entry(consumption: number, unitCost: number): BudgetMonthEntry {
+  return {
+    consumption: field(consumption),
+    unitCost: field(unitCost),
+    efficiency: field(100),
+    overhead: field(0),
+    discount: field(0),
+  };
+}
+
+function service(overrides: Partial<Service> = {}): Service {
+  return {
+    id: 's1',
+    name: 'Storage',
+    unitType: 'GB',
+    unitCost: 0.1,
+    discountEligible: true,
+    defaultEfficiency: 100,
+    defaultOverhead: 0,
+    createdAt: 0,
+    ...overrides,
+  };
+}
+
+function budget(months: BudgetMonthEntry[]): ServiceBudget {
+  return Object.fromEntries(months.map((e, m) => [m, e]));
+}
+
+const freeFirstTiers: PriceTier[] = [
+  { upTo: 1000, unitCost: 0 },
+  { upTo: 5000, unitCost: 0.1 },
+  { upTo: null, unitCost: 0.05 },
+];
+
+describe('priceTiers', () => {
+  it('fills each tier up to its bound before moving to the next', () => {
+    const charges = priceTiers(7000, freeFirstTiers);
+    expect(charges.map((c) => c.units)).toEqual([1000, 4000, 2000]);
+    expect(charges.map((c) => c.cost)).toEqual([0, 400, 100]);
+  });
+
+  it('leaves later tiers empty when usage stays in the first', () => {
+    const charges = priceTiers(600, freeFirstTiers);
+    expect(charges.map((c) => c.units)).toEqual([600, 0, 0]);
+  });
+
+  it('treats the last tier as unbounded', () => {
+    const charges = priceTiers(300, [{ upTo: 100, unitCost: 1 }, { upTo: 200, unitCost: 0.5 }]);
+    expect(charges[1]).toMatchObject({ from: 100, to: null, units: 200, cost: 100 });
+  });
+});
+
+describe('getMonthTiers', () => {
+  it('prices tiered services by their first paid tier', () => {
+    expect(getReferenceTierPrice(freeFirstTiers)).toBe(0.1);
+  });
+
+  it('scales every tier by a scheduled price change and keeps free tiers free', () => {
+    const s = service({ tiers: freeFirstTiers, unitCost: 0.1 });
+    const tiers = getMonthTiers(s, entry(0, 0.08))!;
+    expect(tiers.map((t) => t.unitCost)).toEqual([0, 0.08, 0.04]);
+  });
+});
+
+describe('calculateAllowanceDrawdown', () => {
+  it('draws a monthly allowance afresh each month', () => {
+    expect(calculateAllowanceDrawdown({ units: 100, period: 'month' }, [50, 150, -10])).toEqual([50, 100, 0]);
+  });
+
+  it('draws a yearly allowance down as a pool that resets every 12 months', () => {
+    const consumption = Array(14).fill(40);
+    const drawn = calculateAllowanceDrawdown({ units: 100, period: 'year' }, consumption);
+    expect(drawn.slice(0, 4)).toEqual([40, 40, 20, 0]);
+    expect(drawn.slice(12)).toEqual([40, 40]);
+  });
+
+  it('draws nothing without an allowance', () => {
+    expect(calculateAllowanceDrawdown(undefined, [10, 20])).toEqual([0, 0]);
+  });
+
+  it('deducts the allowance before pricing', () => {
+    const s = service({ allowance: { units: 100, period: 'month' } });
+    const [month] = calculateServiceMonthBreakdown(s, budget([entry(150, 0.1)]));
+    expect(month.allowanceUnits).toBe(100);
+    expect(month.billedUnits).toBe(50);
+    expect(month.cost).toBeCloseTo(5);
+  });
+});
+
+describe('commitments', () => {
+  const commitment = { termMonths: 12, startMonth: 1, upfrontFee: 1200, hourlyCommit: 0.5, coveredUnits: 100 };
+
+  it('amortizes the upfront fee over the term and adds the hourly commit', () => {
+    expect(calculateCommitmentMonthCost(commitment)).toBe(100 + 0.5 * HOURS_PER_MONTH);
+  });
+
+  it('charges the commitment only within its term and bills usage above it on demand', () => {
+    const s = service({ commitment: { ...commitment, termMonths: 1 } });
+    const breakdown = calculateServiceMonthBreakdown(s, budget([entry(150, 0.1), entry(150, 0.1), entry(150, 0.1)]));
+    expect(breakdown.map((b) => b.commitmentCost)).toEqual([0, 1200 + 0.5 * HOURS_PER_MONTH, 0]);
+    expect(breakdown[1].coveredUnits).toBe(100);
+    expect(breakdown[1].onDemandCost).toBeCloseTo(5);
+    expect(breakdown[0].onDemandCost).toBeCloseTo(15);
+  });
+});
+
+describe('calculateServiceMonthCosts', () => {
+  it('costs a closed month at its actual spend', () => {
+    const closed = { ...entry(100, 0.1), closed: { plannedCost: 10, actualCost: 12 } };
+    expect(calculateServiceMonthCosts(service(), budget([closed, entry(100, 0.1)]))).toEqual([12, 10]);
+  });
+});
@@ -1,20 +1,252 @@
-export function calculateMonthCost(
+import type {
+  Allowance,
+  BudgetMonthEntry,
+  Commitment,
+  ModelData,
+  PriceTier,
+  Service,
+  ServiceBudget,
+} from '../types';
+
+export const HOURS_PER_MONTH = 730;
+
+export interface TierCharge {
+  tierIndex: number;
+  from: number;
+  to: number | null;
+  units: number;
+  unitCost: number;
+  cost: number;
+}
+
+export interface MonthCostBreakdown {
+  cost: number;
+  unitCost: number;
+  allowanceUnits: number;
+  billedUnits: number;
+  coveredUnits: number;
+  onDemandUnits: number;
+  onDemandCost: number;
+  commitmentCost: number;
+  commitmentCapacity: number;
+}
+
+export interface CommitmentSummary {
+  commitmentCost: number;
+  coverage: number;
+  utilization: number;
+  unusedUnits: number;
+}
+
+export function hasTiers(service: Pick<Service, 'tiers'>): boolean {
+  return (service.tiers?.length ?? 0) > 0;
+}
+
+// Units actually billed once efficiency and overhead are applied to raw consumption.
+// Free allowance is deducted from consumption first, so it is not inflated by overhead.
+export function calculateBilledUnits(
   consumption: number,
-  unitCost: number,
   efficiency: number,
   overhead: number,
-  discount: number,
-  discountEligible: boolean
+  allowanceUnits = 0
 ): number {
   const safeEfficiency = Math.max(efficiency, 1);
+  const chargeable = Math.max(consumption - allowanceUnits, 0);
+  return Math.max(chargeable * (1 + overhead / 100) / (safeEfficiency / 100), 0);
+}
+
+// Raw consumption that bills as the given units: the inverse of calculateBilledUnits, used where
+// recorded usage (already billed units) is written back into the plan
+export function calculateConsumptionFromUsage(usage: number, efficiency: number, overhead: number): number {
+  const safeEfficiency = Math.max(efficiency, 1);
+  return Math.max(usage * (safeEfficiency / 100) / (1 + overhead / 100), 0);
+}
+
+// Split units across volume tiers. The last tier is always treated as unbounded.
+export function priceTiers(units: number, tiers: PriceTier[]): TierCharge[] {
+  const charges: TierCharge[] = [];
+  let from = 0;
+  for (let i = 0; i < tiers.length; i++) {
+    const isLast = i === tiers.length - 1;
+    const to = isLast ? null : Math.max(tiers[i].upTo ?? from, from);
+    const capacity = to === null ? Infinity : to - from;
+    const tierUnits = Math.min(Math.max(units - from, 0), capacity);
+    charges.push({
+      tierIndex: i,
+      from,
+      to,
+      units: tierUnits,
+      unitCost: tiers[i].unitCost,
+      cost: tierUnits * tiers[i].unitCost,
+    });
+    if (to === null) break;
+    from = to;
+  }
+  return charges;
+}
+
+function priceUnits(
+  units: number,
+  unitCost: number,
+  discount: number,
+  discountEligible: boolean,
+  tiers?: PriceTier[],
+  blanketDiscount = 0
+): number {
   const effectiveDiscount = discountEligible ? discount : 0;
 
-  const cost =
-    consumption *
-    unitCost *
-    (1 + overhead / 100) /
-    (safeEfficiency / 100) *
-    (1 - effectiveDiscount / 100);
+  const usageCost = tiers && tiers.length > 0
+    ? priceTiers(units, tiers).reduce((sum, c) => sum + c.cost, 0)
+    : units * unitCost;
+
+  const cost = usageCost * (1 - effectiveDiscount / 100) * (1 - blanketDiscount / 100);
 
   return Math.max(cost, 0);
 }
+
+// Unit price in effect for a month. Entries saved before prices were scheduled fall back to the service price.
+export function getMonthUnitCost(service: Service, entry: BudgetMonthEntry): number {
+  return entry.unitCost?.value ?? service.unitCost;
+}
+
+// Tiered services are priced, and their prices scheduled, by the first paid tier: a free first tier
+// (the usual free allowance of storage, egress or requests) has no price to scale
+export function getReferenceTierIndex(tiers: PriceTier[]): number {
+  return Math.max(tiers.findIndex((t) => t.unitCost > 0), 0);
+}
+
+export function getReferenceTierPrice(tiers: PriceTier[]): number {
+  return tiers.length > 0 ? tiers[getReferenceTierIndex(tiers)].unitCost : 0;
+}
+
+// Tier prices for a month: a scheduled change to the reference tier's price scales every tier by
+// the same ratio, so free tiers stay free
+export function getMonthTiers(service: Service, entry: BudgetMonthEntry): PriceTier[] | undefined {
+  if (!service.tiers || service.tiers.length === 0) return undefined;
+  const monthCost = getMonthUnitCost(service, entry);
+  if (service.unitCost === 0 || monthCost === service.unitCost) return service.tiers;
+  const ratio = monthCost / service.unitCost;
+  return service.tiers.map((t) => ({ ...t, unitCost: t.unitCost * ratio }));
+}
+
+// Blanket discount from the model's spend commitment, stacked on top of any per-month discount
+export function getSpendCommitmentDiscount(data: ModelData, serviceId: string): number {
+  const commitment = data.spendCommitment;
+  if (!commitment || !commitment.serviceIds.includes(serviceId)) return 0;
+  return commitment.discountPct;
+}
+
+// Allowance drawn in each month. Yearly allowances are a pooled balance that resets every 12 plan months.
+export function calculateAllowanceDrawdown(allowance: Allowance | undefined, consumption: number[]): number[] {
+  if (!allowance || allowance.units <= 0) return consumption.map(() => 0);
+  if (allowance.period === 'month') {
+    return consumption.map((c) => Math.min(Math.max(c, 0), allowance.units));
+  }
+  let remaining = 0;
+  return consumption.map((c, m) => {
+    if (m % 12 === 0) remaining = allowance.units;
+    const drawn = Math.min(Math.max(c, 0), remaining);
+    remaining -= drawn;
+    return drawn;
+  });
+}
+
+export function isCommitmentActive(commitment: Commitment | undefined, monthIndex: number): commitment is Commitment {
+  return (
+    !!commitment &&
+    commitment.termMonths > 0 &&
+    monthIndex >= commitment.startMonth &&
+    monthIndex < commitment.startMonth + commitment.termMonths
+  );
+}
+
+// Fixed monthly charge for a commitment: amortized upfront fee plus the hourly commit
+export function calculateCommitmentMonthCost(commitment: Commitment): number {
+  return commitment.upfrontFee / commitment.termMonths + commitment.hourlyCommit * HOURS_PER_MONTH;
+}
+
+// Service budgets are kept sized to the model horizon, so the entry count is the horizon
+export function getBudgetMonthCount(serviceBudget: ServiceBudget): number {
+  return Object.keys(serviceBudget).length;
+}
+
+export function calculateServiceMonthBreakdown(
+  service: Service,
+  serviceBudget: ServiceBudget,
+  blanketDiscount = 0
+): MonthCostBreakdown[] {
+  const months = getBudgetMonthCount(serviceBudget);
+  const allowanceDrawn = calculateAllowanceDrawdown(
+    service.allowance,
+    Array.from({ length: months }, (_, m) => serviceBudget[m]?.consumption.value ?? 0)
+  );
+  return Array.from({ length: months }, (_, m) => {
+    const e = serviceBudget[m];
+    if (!e) {
+      return { cost: 0, unitCost: 0, allowanceUnits: 0, billedUnits: 0, coveredUnits: 0, onDemandUnits: 0, onDemandCost: 0, commitmentCost: 0, commitmentCapacity: 0 };
+    }
+    const allowanceUnits = allowanceDrawn[m];
+    const billedUnits = calculateBilledUnits(e.consumption.value, e.efficiency.value, e.overhead.value, allowanceUnits);
+    const commitment = service.commitment;
+    const active = isCommitmentActive(commitment, m);
+    const commitmentCapacity = active ? commitment.coveredUnits : 0;
+    const commitmentCost = active ? calculateCommitmentMonthCost(commitment) : 0;
+    const coveredUnits = Math.min(billedUnits, commitmentCapacity);
+    const onDemandUnits = billedUnits - coveredUnits;
+    const unitCost = getMonthUnitCost(service, e);
+    const onDemandCost = priceUnits(
+      onDemandUnits, unitCost,
+      e.discount.value, service.discountEligible,
+      getMonthTiers(service, e), blanketDiscount
+    );
+    return {
+      // A closed month costs what was actually spent
+      cost: e.closed ? e.closed.actualCost : onDemandCost + commitmentCost,
+      unitCost,
+      allowanceUnits,
+      billedUnits,
+      coveredUnits,
+      onDemandUnits,
+      onDemandCost,
+      commitmentCost,
+      commitmentCapacity,
+    };
+  });
+}
+
+export function calculateServiceMonthCosts(
+  service: Service,
+  serviceBudget: ServiceBudget,
+  blanketDiscount = 0
+): number[] {
+  return calculateServiceMonthBreakdown(service, serviceBudget, blanketDiscount).map((b) => b.cost);
+}
+
+// Per-tier charges for each month on the on-demand units, before discount. Empty when the service is flat-priced.
+export function calculateServiceTierCharges(service: Service, serviceBudget: ServiceBudget): TierCharge[][] {
+  if (!hasTiers(service)) return [];
+  return calculateServiceMonthBreakdown(service, serviceBudget).map((b, m) =>
+    priceTiers(b.onDemandUnits, (serviceBudget[m] && getMonthTiers(service, serviceBudget[m])) || service.tiers!)
+  );
+}
+
+// Coverage = share of billed units the commitment absorbed; utilization = share of the commitment used
+export function summarizeCommitment(breakdown: MonthCostBreakdown[]): CommitmentSummary {
+  let commitmentCost = 0;
+  let billed = 0;
+  let covered = 0;
+  let capacity = 0;
+  for (const b of breakdown) {
+    if (b.commitmentCapacity === 0 && b.commitmentCost === 0) continue;
+    commitmentCost += b.commitmentCost;
+    billed += b.billedUnits;
+    covered += b.coveredUnits;
+    capacity += b.commitmentCapacity;
+  }
+  return {
+    commitmentCost,
+    coverage: billed > 0 ? covered / billed : 0,
+    utilization: capacity > 0 ? covered / capacity : 0,
+    unusedUnits: capacity - covered,
+  };
+}
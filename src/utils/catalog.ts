@@ -0,0 +1,110 @@
+import type { AppState, CatalogEntry, CatalogRef, PriceCatalog, Service } from '../types';
+
+export interface CatalogImportResult {
+  catalog: PriceCatalog | null;
+  errors: string[];
+}
+
+// A linked service whose catalog price has moved since it was linked, or whose SKU is gone
+export interface PriceDrift {
+  service: Service;
+  linkedPrice: number;
+  entry: CatalogEntry | null;
+}
+
+const MAX_SEARCH_RESULTS = 50;
+
+export function getPriceCatalog(state: AppState): PriceCatalog | undefined {
+  return state.priceCatalog;
+}
+
+const text = (value: unknown) => (typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : '');
+
+// Read a catalog file: { name?, currency?, entries: [...] } or a bare list of entries. Entries
+// missing a SKU, unit type or price are skipped; currency defaults to the file's, then USD.
+export function parsePriceCatalog(json: string, fallbackName: string): CatalogImportResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json.replace(/^\uFEFF/, ''));
+  } catch {
+    return { catalog: null, errors: ['The file is not valid JSON.'] };
+  }
+  const root = (Array.isArray(parsed) ? { entries: parsed } : parsed) as Record<string, unknown> | null;
+  if (!root || typeof root !== 'object' || !Array.isArray(root.entries)) {
+    return { catalog: null, errors: ['No "entries" list found.'] };
+  }
+
+  const defaultCurrency = text(root.currency).toUpperCase() || 'USD';
+  const entries: CatalogEntry[] = [];
+  const errors: string[] = [];
+  (root.entries as unknown[]).forEach((raw, i) => {
+    const item = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+    const sku = text(item.sku);
+    const unitType = text(item.unitType ?? item.unit);
+    const rawPrice = item.price ?? item.unitPrice;
+    const price = Number(rawPrice);
+    const missing = [
+      !sku && 'SKU',
+      !unitType && 'unit type',
+      (rawPrice === undefined || rawPrice === '' || isNaN(price) || price < 0) && 'price',
+    ].filter(Boolean);
+    if (missing.length > 0) {
+      errors.push(`Entry ${i + 1}: no ${missing.join(', ')}.`);
+      return;
+    }
+    const freeTier = Number(item.freeTier);
+    entries.push({
+      provider: text(item.provider),
+      service: text(item.service ?? item.serviceName) || sku,
+      sku,
+      region: text(item.region) || undefined,
+      unitType,
+      price,
+      currency: text(item.currency).toUpperCase() || defaultCurrency,
+      freeTier: freeTier > 0 ? freeTier : undefined,
+      discountEligible: typeof item.discountEligible === 'boolean' ? item.discountEligible : undefined,
+    });
+  });
+
+  if (entries.length === 0) return { catalog: null, errors: errors.length > 0 ? errors : ['The catalog has no entries.'] };
+  return {
+    catalog: { name: text(root.name) || fallbackName, importedAt: Date.now(), entries },
+    errors,
+  };
+}
+
+export function toCatalogRef(entry: CatalogEntry): CatalogRef {
+  return { provider: entry.provider, sku: entry.sku, region: entry.region, price: entry.price };
+}
+
+export function describeCatalogEntry(entry: Pick<CatalogEntry, 'provider' | 'sku' | 'region'>): string {
+  return [entry.provider.toUpperCase(), entry.sku, entry.region].filter(Boolean).join(' · ');
+}
+
+// Provider, SKU and region identify an entry; matching ignores case
+export function findCatalogEntry(catalog: PriceCatalog | undefined, ref: CatalogRef): CatalogEntry | undefined {
+  const same = (a = '', b = '') => a.toLowerCase() === b.toLowerCase();
+  return catalog?.entries.find((e) => same(e.provider, ref.provider) && same(e.sku, ref.sku) && same(e.region, ref.region));
+}
+
+// Every word of the query must appear somewhere in the entry
+export function searchCatalog(catalog: PriceCatalog | undefined, query: string): CatalogEntry[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (!catalog || words.length === 0) return [];
+  return catalog.entries
+    .filter((e) => {
+      const haystack = [e.provider, e.service, e.sku, e.region, e.unitType].join(' ').toLowerCase();
+      return words.every((w) => haystack.includes(w));
+    })
+    .slice(0, MAX_SEARCH_RESULTS);
+}
+
+export function findPriceDrift(services: Service[], catalog: PriceCatalog | undefined): PriceDrift[] {
+  if (!catalog) return [];
+  return services.flatMap((service) => {
+    if (!service.catalogRef) return [];
+    const entry = findCatalogEntry(catalog, service.catalogRef) ?? null;
+    if (entry && entry.price === service.catalogRef.price) return [];
+    return [{ service, linkedPrice: service.catalogRef.price, entry }];
+  });
+}
@@ -0,0 +1,121 @@
+import type { Service } from '../types';
+
+export const DEFAULT_CATEGORIES = ['Compute', 'Storage', 'Network', 'Data', 'SaaS'];
+export const UNCATEGORIZED = 'Uncategorized';
+const PATH_SEPARATOR = ' / ';
+
+export interface CategoryNode {
+  // Full path joined with ' / ', unique across the tree
+  key: string;
+  name: string;
+  depth: number;
+  // Services filed directly under this category
+  services: Service[];
+  children: CategoryNode[];
+  // Every service in this category and its subcategories
+  serviceIds: string[];
+}
+
+export type CategoryRow =
+  | { kind: 'category'; node: CategoryNode }
+  | { kind: 'service'; service: Service; depth: number };
+
+export function formatCategoryPath(path?: string[]): string {
+  return (path ?? []).join(PATH_SEPARATOR);
+}
+
+// "Compute / Containers" → ['Compute', 'Containers']; blank input clears the category
+export function parseCategoryPath(text: string): string[] | undefined {
+  const path = text.split('/').map((part) => part.trim()).filter(Boolean);
+  return path.length > 0 ? path : undefined;
+}
+
+export function hasCategories(services: Service[]): boolean {
+  return services.some((s) => (s.category?.length ?? 0) > 0);
+}
+
+// Suggestions for the category field: the standard top levels plus every path already in use
+export function getCategoryOptions(services: Service[]): string[] {
+  const options = new Set(DEFAULT_CATEGORIES);
+  for (const service of services) {
+    const path = service.category ?? [];
+    for (let i = 1; i <= path.length; i++) options.add(formatCategoryPath(path.slice(0, i)));
+  }
+  return [...options];
+}
+
+// Group services into a category tree, keeping the order categories and services first appear
+// in. Services without a category are collected under a trailing "Uncategorized" node.
+export function buildCategoryTree(services: Service[]): CategoryNode[] {
+  const roots: CategoryNode[] = [];
+  const byKey = new Map<string, CategoryNode>();
+
+  function getNode(path: string[]): CategoryNode {
+    const key = formatCategoryPath(path);
+    const existing = byKey.get(key);
+    if (existing) return existing;
+    const node: CategoryNode = { key, name: path[path.length - 1], depth: path.length - 1, services: [], children: [], serviceIds: [] };
+    byKey.set(key, node);
+    if (path.length === 1) roots.push(node);
+    else getNode(path.slice(0, -1)).children.push(node);
+    return node;
+  }
+
+  const uncategorized: Service[] = [];
+  for (const service of services) {
+    const path = service.category ?? [];
+    if (path.length === 0) {
+      uncategorized.push(service);
+      continue;
+    }
+    getNode(path).services.push(service);
+    for (let i = 1; i <= path.length; i++) getNode(path.slice(0, i)).serviceIds.push(service.id);
+  }
+
+  // A category named "Uncategorized" would collide with the fallback node, so the key is reserved
+  if (uncategorized.length > 0) {
+    roots.push({
+      key: `\u0000${UNCATEGORIZED}`,
+      name: UNCATEGORIZED,
+      depth: 0,
+      services: uncategorized,
+      children: [],
+      serviceIds: uncategorized.map((s) => s.id),
+    });
+  }
+  return roots;
+}
+
+// Depth-first rows for a grouped table: each category, then its services, then its subcategories.
+// Categories in `collapsed` are listed but their contents are skipped.
+export function flattenCategoryTree(nodes: CategoryNode[], collapsed: ReadonlySet<string> = new Set()): CategoryRow[] {
+  const rows: CategoryRow[] = [];
+  function walk(node: CategoryNode) {
+    rows.push({ kind: 'category', node });
+    if (collapsed.has(node.key)) return;
+    for (const service of node.services) rows.push({ kind: 'service', service, depth: node.depth + 1 });
+    node.children.forEach(walk);
+  }
+  nodes.forEach(walk);
+  return rows;
+}
+
+export function getAllCategoryKeys(nodes: CategoryNode[]): string[] {
+  return nodes.flatMap((node) => [node.key, ...getAllCategoryKeys(node.children)]);
+}
+
+// Month-by-month subtotal of a category from per-service monthly costs
+export function sumCategoryCosts(node: CategoryNode, costGrid: Record<string, number[]>, horizon: number): number[] {
+  const totals: number[] = Array(horizon).fill(0);
+  for (const id of node.serviceIds) {
+    const costs = costGrid[id];
+    if (!costs) continue;
+    for (let m = 0; m < horizon; m++) totals[m] += costs[m] ?? 0;
+  }
+  return totals;
+}
+
+// Table cell padding that nests a row under its parent category
+export function getCategoryIndentStyle(depth: number): { paddingLeft: string } | undefined {
+  return depth > 0 ? { paddingLeft: `${0.75 + depth * 1.25}rem` } : undefined;
+}
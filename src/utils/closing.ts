@@ -0,0 +1,330 @@
+import type {
+  Baseline,
+  BudgetConfig,
+  BudgetData,
+  BudgetFieldKey,
+  ClosedMonth,
+  Commitment,
+  ModelData,
+  PropagatedField,
+  Service,
+  ServiceBudget,
+} from '../types';
+import { calculateConsumptionFromUsage, calculateServiceMonthCosts, getSpendCommitmentDiscount } from './calculations';
+import { calculateReportingMonthCosts, convertToReporting } from './currency';
+import { resizePropagatedValues, resizeRates, resizeServiceBudget } from './horizon';
+import { HISTORY_MONTHS, getHorizonMonths, getPlanYears } from './months';
+
+const BUDGET_FIELDS: BudgetFieldKey[] = ['consumption', 'unitCost', 'efficiency', 'overhead', 'discount'];
+
+export interface LandingRow {
+  // Null for services that were in the baseline but have since been deleted
+  serviceId: string | null;
+  name: string;
+  baseline: number;
+  // Actuals for the closed months plus the plan for the open ones
+  forecast: number;
+  actual: number;
+  remaining: number;
+  // Forecast − baseline; positive means the year is landing over budget
+  variance: number;
+  variancePct: number | null;
+}
+
+export interface LandingSummary {
+  yearIndex: number;
+  closedInYear: number;
+  monthsInYear: number;
+  rows: LandingRow[];
+  total: LandingRow;
+  // Closed service-months in the year with no recorded spend, counted at their planned cost
+  estimatedMonths: number;
+}
+
+export function getClosedMonths(data: ModelData): number {
+  return Math.min(data.closedMonths ?? 0, getHorizonMonths(data.budgetConfig));
+}
+
+export function captureBaseline(data: ModelData): Baseline {
+  return {
+    setAt: Date.now(),
+    costs: Object.fromEntries(data.services.map((s) => [s.id, calculateReportingMonthCosts(data, s)])),
+  };
+}
+
+// Services with a plan for the next month to close but no spend recorded for it
+export function getServicesMissingActuals(data: ModelData): Service[] {
+  const month = getClosedMonths(data);
+  return data.services.filter((s) => data.budgetData[s.id]?.[month] && data.actuals?.[s.id]?.[month] === undefined);
+}
+
+// Recorded spend, or the planned cost marked as an estimate until spend is recorded
+function closedCosts(plannedCost: number, recordedCost: number | undefined): ClosedMonth {
+  return recordedCost === undefined
+    ? { plannedCost, actualCost: plannedCost, estimated: true }
+    : { plannedCost, actualCost: recordedCost };
+}
+
+// Close the first open month. Each service keeps the cost it was planned at and takes its recorded
+// spend as its cost, or its planned cost where nothing was recorded yet. Recorded usage is billed
+// units, so it replaces planned consumption net of the month's efficiency and overhead.
+// The first close also baselines the plan, so the original budget survives the rolling forecast.
+// Closing the last month of the first plan year rolls the plan window forward a year.
+export function closeNextMonth(data: ModelData): ModelData {
+  const month = getClosedMonths(data);
+  if (month >= getHorizonMonths(data.budgetConfig)) return data;
+  const budgetData: BudgetData = { ...data.budgetData };
+  for (const service of data.services) {
+    const serviceBudget = data.budgetData[service.id];
+    if (!serviceBudget?.[month]) continue;
+    const plannedCost = calculateServiceMonthCosts(
+      service, serviceBudget, getSpendCommitmentDiscount(data, service.id)
+    )[month];
+    const actual = data.actuals?.[service.id]?.[month];
+    const updated: ServiceBudget = { ...serviceBudget };
+    const entry = updated[month];
+    const usage = actual?.usage;
+    if (usage !== undefined && month === 0) {
+      // Months inheriting month 1 keep their planned consumption rather than the month-1 actual
+      for (let m = 1; m < Object.keys(updated).length; m++) {
+        if (!updated[m].consumption.isOverridden) {
+          updated[m] = { ...updated[m], consumption: { ...updated[m].consumption, isOverridden: true } };
+        }
+      }
+    }
+    updated[month] = {
+      ...entry,
+      consumption: {
+        value: usage !== undefined
+          ? calculateConsumptionFromUsage(usage, entry.efficiency.value, entry.overhead.value)
+          : entry.consumption.value,
+        isOverridden: month > 0 && (usage !== undefined || entry.consumption.isOverridden),
+      },
+      closed: closedCosts(plannedCost, actual?.cost),
+    };
+    budgetData[service.id] = updated;
+  }
+  const closed: ModelData = {
+    ...data,
+    budgetData,
+    closedMonths: month + 1,
+    baseline: data.baseline ?? captureBaseline(data),
+  };
+  return month + 1 === getFirstYearMonths(data) ? rollPlanYear(closed) : closed;
+}
+
+function getFirstYearMonths(data: ModelData): number {
+  return getPlanYears(getHorizonMonths(data.budgetConfig))[0].end;
+}
+
+// Whether closing the next month completes the first plan year, and so rolls the plan forward
+export function closesPlanYear(data: ModelData): boolean {
+  return getClosedMonths(data) + 1 === getFirstYearMonths(data);
+}
+
+function advanceStart(config: BudgetConfig, months: number): BudgetConfig {
+  const start = config.startMonth + months;
+  return { ...config, startMonth: start % 12, startYear: config.startYear + Math.floor(start / 12) };
+}
+
+// Renumber month-keyed values `months` earlier, dropping those before `earliest`
+function shiftMonthKeys<T>(record: Record<number, T>, months: number, earliest = 0): Record<number, T> {
+  return Object.fromEntries(
+    Object.entries(record)
+      .map(([key, value]) => [Number(key) - months, value] as const)
+      .filter(([m]) => m >= earliest)
+  );
+}
+
+// The new first month is the one later months propagate from, so it is no longer an override,
+// and a later month that does not match it becomes one to keep its value
+function rebasePropagation(fields: PropagatedField[]): PropagatedField[] {
+  return fields.map((field, m) => {
+    if (m === 0) return { ...field, isOverridden: false };
+    return field.isOverridden || field.value === fields[0].value ? field : { ...field, isOverridden: true };
+  });
+}
+
+function rollPropagatedValues(values: PropagatedField[], months: number, horizon: number): PropagatedField[] {
+  return rebasePropagation(resizePropagatedValues(values, horizon + months).slice(months));
+}
+
+// Added months repeat the last month of the plan without its close
+function rollServiceBudget(serviceBudget: ServiceBudget, months: number, horizon: number): ServiceBudget {
+  const shifted = shiftMonthKeys(resizeServiceBudget(serviceBudget, horizon + months), months);
+  const rolled: ServiceBudget = {};
+  for (let m = 0; m < horizon; m++) {
+    const { closed: _, ...entry } = shifted[m];
+    void _;
+    rolled[m] = entry;
+  }
+  for (const field of BUDGET_FIELDS) {
+    rebasePropagation(Array.from({ length: horizon }, (_, m) => rolled[m][field])).forEach((value, m) => {
+      rolled[m] = { ...rolled[m], [field]: value };
+    });
+  }
+  return rolled;
+}
+
+// A commitment running into the new window starts with it, keeping the rest of its upfront fee
+// so the monthly charge is unchanged; one that has ended is dropped
+function rollCommitment(commitment: Commitment | undefined, months: number): Commitment | undefined {
+  if (!commitment) return undefined;
+  const end = commitment.startMonth + commitment.termMonths;
+  if (end <= months) return undefined;
+  if (commitment.startMonth >= months) return { ...commitment, startMonth: commitment.startMonth - months };
+  const termMonths = end - months;
+  return { ...commitment, startMonth: 0, termMonths, upfrontFee: (commitment.upfrontFee * termMonths) / commitment.termMonths };
+}
+
+// Move the plan window past a fully closed first plan year. The closed year leaves the plan, its
+// actuals kept as usage history before the new start; later years move up, and a year is added
+// at the end, planned like a horizon extension. The original budget keeps the years it covered
+// and takes the plan for the added year. A pending goal-seek undo is dropped.
+export function rollPlanYear(data: ModelData): ModelData {
+  const months = getFirstYearMonths(data);
+  const horizon = getHorizonMonths(data.budgetConfig);
+  const services = data.services.map((s) => ({
+    ...s,
+    commitment: rollCommitment(s.commitment, months),
+    costCenterSplit: s.costCenterSplit && {
+      ...s.costCenterSplit,
+      monthlyShares: s.costCenterSplit.monthlyShares && shiftMonthKeys(s.costCenterSplit.monthlyShares, months),
+    },
+  }));
+  const rolled: ModelData = {
+    ...data,
+    services,
+    budgetConfig: advanceStart(data.budgetConfig, months),
+    budgetData: Object.fromEntries(
+      Object.entries(data.budgetData).map(([id, sb]) => [id, rollServiceBudget(sb, months, horizon)])
+    ),
+    fxRates: data.fxRates && Object.fromEntries(
+      Object.entries(data.fxRates).map(([code, rates]) => [code, resizeRates(rates, horizon + months).slice(months)])
+    ),
+    drivers: data.drivers?.map((d) => ({ ...d, values: rollPropagatedValues(d.values, months, horizon) })),
+    targets: data.targets?.map((t) => ({ ...t, values: rollPropagatedValues(t.values, months, horizon) })),
+    actuals: data.actuals && Object.fromEntries(
+      Object.entries(data.actuals).map(([id, entries]) => [id, shiftMonthKeys(entries, months, -HISTORY_MONTHS)])
+    ),
+    closedMonths: Math.max(getClosedMonths(data) - months, 0),
+    // Its months no longer line up with the plan
+    goalSeekUndo: undefined,
+  };
+  if (!data.baseline) return rolled;
+  const added = captureBaseline(rolled).costs;
+  return {
+    ...rolled,
+    baseline: {
+      ...data.baseline,
+      costs: Object.fromEntries(Object.entries(data.baseline.costs).map(([id, costs]) => [
+        id,
+        [...costs.slice(months, horizon), ...(added[id] ?? Array(horizon).fill(0)).slice(horizon - months)],
+      ])),
+    },
+  };
+}
+
+// Closed months keep the entries they were closed with, whatever edit, import or propagation
+// touches them; only their actual cost follows later corrections to actuals, falling back to the
+// planned cost while none is recorded. Months past the
+// close lose any closed costs, e.g. copied in by a horizon extension or left by a reopen.
+export function freezeClosedMonths(previous: ModelData, next: ModelData): ModelData {
+  const closedAfter = getClosedMonths(next);
+  const locked = Math.min(getClosedMonths(previous), closedAfter);
+  if (closedAfter === 0 && getClosedMonths(previous) === 0) return next;
+
+  const budgetData: BudgetData = {};
+  for (const [id, serviceBudget] of Object.entries(next.budgetData)) {
+    const frozen: ServiceBudget = {};
+    for (const [key, entry] of Object.entries(serviceBudget)) {
+      const m = Number(key);
+      if (m >= closedAfter) {
+        const { closed: _, ...open } = entry;
+        void _;
+        frozen[m] = entry.closed ? open : entry;
+        continue;
+      }
+      // A service added after the close had no plan for the month
+      const kept = m < locked ? previous.budgetData[id]?.[m] ?? entry : entry;
+      const closed = closedCosts(kept.closed?.plannedCost ?? 0, next.actuals?.[id]?.[m]?.cost);
+      frozen[m] = kept.closed?.actualCost === closed.actualCost && !!kept.closed.estimated === !!closed.estimated
+        ? kept
+        : { ...kept, closed };
+    }
+    budgetData[id] = frozen;
+  }
+  return { ...next, budgetData };
+}
+
+// Reporting-currency plan per month, with closed months at the cost planned when they were closed
+export function calculatePlannedMonthCosts(data: ModelData, service: Service): number[] {
+  const serviceBudget = data.budgetData[service.id];
+  if (!serviceBudget) return Array(getHorizonMonths(data.budgetConfig)).fill(0);
+  const costs = calculateServiceMonthCosts(service, serviceBudget, getSpendCommitmentDiscount(data, service.id));
+  return convertToReporting(data, service, costs.map((cost, m) => serviceBudget[m]?.closed?.plannedCost ?? cost));
+}
+
+// The plan year holding the first open month, or the last year once everything is closed
+export function getCurrentPlanYear(data: ModelData): number {
+  const horizon = getHorizonMonths(data.budgetConfig);
+  return Math.floor(Math.min(getClosedMonths(data), horizon - 1) / 12);
+}
+
+function landingRow(serviceId: string | null, name: string, baseline: number, forecast: number, actual: number): LandingRow {
+  const variance = forecast - baseline;
+  return {
+    serviceId,
+    name,
+    baseline,
+    forecast,
+    actual,
+    remaining: forecast - actual,
+    variance,
+    variancePct: baseline !== 0 ? (variance / baseline) * 100 : null,
+  };
+}
+
+// Where a plan year is landing: original budget against the latest forecast and the actuals so far
+export function calculateLanding(data: ModelData, yearIndex: number): LandingSummary | null {
+  const baseline = data.baseline;
+  const year = getPlanYears(getHorizonMonths(data.budgetConfig))[yearIndex];
+  if (!baseline || !year) return null;
+  const closed = getClosedMonths(data);
+  const sumYear = (values: number[] | undefined, end = year.end) =>
+    (values ?? []).slice(year.start, Math.max(end, year.start)).reduce((sum, v) => sum + v, 0);
+
+  const rows = data.services.map((service) => {
+    const costs = calculateReportingMonthCosts(data, service);
+    return landingRow(
+      service.id,
+      service.name,
+      sumYear(baseline.costs[service.id]),
+      sumYear(costs),
+      sumYear(costs, Math.min(closed, year.end))
+    );
+  });
+  const removed = Object.entries(baseline.costs)
+    .filter(([id]) => !data.services.some((s) => s.id === id))
+    .reduce((sum, [, costs]) => sum + sumYear(costs), 0);
+  if (removed !== 0) rows.push(landingRow(null, 'Removed services', removed, 0, 0));
+
+  const estimatedMonths = data.services.reduce((count, service) => {
+    const serviceBudget = data.budgetData[service.id] ?? {};
+    let estimated = 0;
+    for (let m = year.start; m < Math.min(closed, year.end); m++) {
+      if (serviceBudget[m]?.closed?.estimated) estimated++;
+    }
+    return count + estimated;
+  }, 0);
+
+  const totalOf = (key: 'baseline' | 'forecast' | 'actual') => rows.reduce((sum, r) => sum + r[key], 0);
+  return {
+    yearIndex,
+    closedInYear: Math.max(Math.min(closed, year.end) - year.start, 0),
+    monthsInYear: year.end - year.start,
+    rows,
+    total: landingRow(null, 'Total', totalOf('baseline'), totalOf('forecast'), totalOf('actual')),
+    estimatedMonths,
+  };
+}
@@ -1,5 +1,7 @@
 import type { ModelData, BudgetFieldKey } from '../types';
-import { calculateMonthCost } from './calculations';
+import { calculateReportingMonthCosts, getReportingCurrency } from './currency';
+import { getHorizonMonths } from './months';
+import { diffBreaches, findBreaches, type ThresholdBreach } from './thresholds';
 
 export interface FieldDiff {
   field: BudgetFieldKey;
@@ -21,25 +23,21 @@ export interface CompareResult {
   services: ServiceDiff[];
   oldGrandTotal: number;
   newGrandTotal: number;
+  oldCurrency: string;
+  newCurrency: string;
+  oldHorizon: number;
+  newHorizon: number;
+  // Threshold breaches the newer data adds or clears, each judged against its own thresholds
+  breachesIntroduced: ThresholdBreach[];
+  breachesResolved: ThresholdBreach[];
 }
 
-const FIELDS: BudgetFieldKey[] = ['consumption', 'efficiency', 'overhead', 'discount'];
+const FIELDS: BudgetFieldKey[] = ['consumption', 'unitCost', 'efficiency', 'overhead', 'discount'];
 
 function computeServiceTotal(data: ModelData, serviceId: string): number {
   const service = data.services.find((s) => s.id === serviceId);
-  const budget = data.budgetData[serviceId];
-  if (!service || !budget) return 0;
-  let total = 0;
-  for (let m = 0; m < 12; m++) {
-    const e = budget[m];
-    if (!e) continue;
-    total += calculateMonthCost(
-      e.consumption.value, service.unitCost,
-      e.efficiency.value, e.overhead.value,
-      e.discount.value, service.discountEligible
-    );
-  }
-  return total;
+  if (!service) return 0;
+  return calculateReportingMonthCosts(data, service).reduce((sum, c) => sum + c, 0);
 }
 
 export function compareModelData(older: ModelData, newer: ModelData): CompareResult {
@@ -51,6 +49,8 @@ export function compareModelData(older: ModelData, newer: ModelData): CompareRes
   const serviceDiffs: ServiceDiff[] = [];
   let oldGrandTotal = 0;
   let newGrandTotal = 0;
+  const oldHorizon = getHorizonMonths(older.budgetConfig);
+  const newHorizon = getHorizonMonths(newer.budgetConfig);
 
   for (const id of allServiceIds) {
     const inOld = older.services.find((s) => s.id === id);
@@ -90,7 +90,7 @@ export function compareModelData(older: ModelData, newer: ModelData): CompareRes
     const fieldDiffs: FieldDiff[] = [];
 
     if (oldBudget && newBudget) {
-      for (let m = 0; m < 12; m++) {
+      for (let m = 0; m < Math.max(oldHorizon, newHorizon); m++) {
         for (const field of FIELDS) {
           const oldVal = oldBudget[m]?.[field]?.value ?? 0;
           const newVal = newBudget[m]?.[field]?.value ?? 0;
@@ -111,5 +111,17 @@ export function compareModelData(older: ModelData, newer: ModelData): CompareRes
     });
   }
 
-  return { services: serviceDiffs, oldGrandTotal, newGrandTotal };
+  const { introduced, resolved } = diffBreaches(findBreaches(older), findBreaches(newer));
+
+  return {
+    services: serviceDiffs,
+    oldGrandTotal,
+    newGrandTotal,
+    oldCurrency: getReportingCurrency(older.budgetConfig),
+    newCurrency: getReportingCurrency(newer.budgetConfig),
+    oldHorizon,
+    newHorizon,
+    breachesIntroduced: introduced,
+    breachesResolved: resolved,
+  };
 }
@@ -0,0 +1,77 @@
+import type { CostCenter, CostCenterShares, ModelData, Service } from '../types';
+import { calculateAllocation } from './allocation';
+import { getHorizonMonths } from './months';
+
+export const UNALLOCATED_ID = '__unallocated__';
+
+export interface ShowbackRow {
+  costCenterId: string;
+  name: string;
+  byMonth: number[];
+  total: number;
+  // Charges from each contributing service, per month
+  byService: Record<string, number[]>;
+}
+
+export function getCostCenters(data: ModelData): CostCenter[] {
+  return data.costCenters ?? [];
+}
+
+export function getMonthShares(service: Service, monthIndex: number): CostCenterShares {
+  const split = service.costCenterSplit;
+  if (!split) return {};
+  return split.monthlyShares?.[monthIndex] ?? split.shares;
+}
+
+export function sumShares(shares: CostCenterShares): number {
+  return Object.values(shares).reduce((sum, pct) => sum + pct, 0);
+}
+
+// Charge each month's reporting-currency cost to cost centers by the service's split. The cost is
+// the fully-allocated one, so shared services reach teams through the services they are spread
+// onto. Shares over 100% are scaled down so a service is never charged twice; any remainder is
+// unallocated.
+export function calculateShowback(data: ModelData): ShowbackRow[] {
+  const horizon = getHorizonMonths(data.budgetConfig);
+  const rows = new Map<string, ShowbackRow>();
+  const rowFor = (id: string, name: string): ShowbackRow => {
+    let row = rows.get(id);
+    if (!row) {
+      row = { costCenterId: id, name, byMonth: Array(horizon).fill(0), total: 0, byService: {} };
+      rows.set(id, row);
+    }
+    return row;
+  };
+
+  const costCenters = getCostCenters(data);
+  for (const cc of costCenters) rowFor(cc.id, cc.name);
+  const known = new Set(costCenters.map((c) => c.id));
+
+  const { allocated } = calculateAllocation(data);
+  for (const service of data.services) {
+    if (!data.budgetData[service.id]) continue;
+    const costs = allocated[service.id] ?? [];
+    for (let m = 0; m < horizon; m++) {
+      const cost = costs[m] ?? 0;
+      // A fully allocated shared service keeps only rounding noise
+      if (Math.abs(cost) < 0.005) continue;
+      const shares = Object.entries(getMonthShares(service, m)).filter(([id, pct]) => known.has(id) && pct > 0);
+      const scale = 100 / Math.max(sumShares(Object.fromEntries(shares)), 100);
+      let allocated = 0;
+      const charges: [string, string, number][] = shares.map(([id, pct]) => {
+        const amount = cost * (pct / 100) * scale;
+        allocated += amount;
+        return [id, rows.get(id)!.name, amount];
+      });
+      if (cost - allocated > 0.005) charges.push([UNALLOCATED_ID, 'Unallocated', cost - allocated]);
+      for (const [id, name, amount] of charges) {
+        const row = rowFor(id, name);
+        row.byMonth[m] += amount;
+        row.total += amount;
+        row.byService[service.id] ??= Array(horizon).fill(0);
+        row.byService[service.id][m] += amount;
+      }
+    }
+  }
+  return [...rows.values()];
+}
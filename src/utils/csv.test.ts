@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { findColumn, parseCsv, parseCsvNumber } from './csv';
+
+describe('parseCsv', () => {
+  it('keeps commas, newlines and doubled quotes inside quoted fields', () => {
+    expect(parseCsv('a,"b, c","say ""hi""\nthere"\r\n\n1,2,3')).toEqual([
+      ['a', 'b, c', 'say "hi"\nthere'],
+      ['1', '2', '3'],
+    ]);
+  });
+
+  it('ignores a leading byte-order mark', () => {
+    expect(parseCsv('\uFEFFmonth,cost')).toEqual([['month', 'cost']]);
+  });
+});
+
+describe('findColumn', () => {
+  it('matches headers ignoring case, spacing and punctuation', () => {
+    expect(findColumn(['Date', 'Unblended Cost'], ['unblendedcost', 'cost'])).toBe(1);
+    expect(findColumn(['Date'], ['cost'])).toBe(-1);
+  });
+});
+
+describe('parseCsvNumber', () => {
+  it('reads plain, signed and exponent numbers', () => {
+    expect(parseCsvNumber('12.5')).toBe(12.5);
+    expect(parseCsvNumber('-3')).toBe(-3);
+    expect(parseCsvNumber('.5')).toBe(0.5);
+    expect(parseCsvNumber('1.5E-2')).toBe(0.015);
+  });
+
+  it('strips currency codes, symbols and thousands separators', () => {
+    expect(parseCsvNumber('EUR 12.50')).toBe(12.5);
+    expect(parseCsvNumber('12.50 USD')).toBe(12.5);
+    expect(parseCsvNumber('US$1,200')).toBe(1200);
+    expect(parseCsvNumber('€ 7')).toBe(7);
+    expect(parseCsvNumber('1,234,567.89')).toBe(1234567.89);
+  });
+
+  it('reads accounting parentheses as negative', () => {
+    expect(parseCsvNumber('(12.50)')).toBe(-12.5);
+    expect(parseCsvNumber('$(1,234.5)')).toBe(-1234.5);
+    expect(parseCsvNumber('(EUR 3)')).toBe(-3);
+    expect(parseCsvNumber('(-3)')).toBeNull();
+  });
+
+  it('rejects text that is not a number', () => {
+    expect(parseCsvNumber(undefined)).toBeNull();
+    expect(parseCsvNumber('')).toBeNull();
+    expect(parseCsvNumber('n/a')).toBeNull();
+    expect(parseCsvNumber('E12.50')).toBeNull();
+    expect(parseCsvNumber('5.e3')).toBeNull();
+    expect(parseCsvNumber('12-5')).toBeNull();
+  });
+});
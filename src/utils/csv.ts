@@ -0,0 +1,64 @@
+// Minimal RFC 4180 reader: quoted fields may contain commas, newlines and doubled quotes.
+// Blank lines are skipped; a leading byte-order mark is ignored.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some((f) => f.trim() !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  row.push(field);
+  if (row.some((f) => f.trim() !== '')) rows.push(row);
+  return rows;
+}
+
+// Index of the first header matching any of the names, ignoring case, spacing and punctuation; -1 if none
+export function findColumn(header: string[], names: string[]): number {
+  const normalize = (s: string) => s.toLowerCase().replace(/[^a-z0-9]/g, '');
+  const wanted = names.map(normalize);
+  return header.findIndex((h) => wanted.includes(normalize(h)));
+}
+
+// Parse a number that may carry a currency code or symbol ("EUR 12.50", "US$1,200") and thousands
+// separators; accounting negatives are written in parentheses: "(12.50)" is -12.50
+export function parseCsvNumber(text: string | undefined): number | null {
+  if (text === undefined) return null;
+  const stripCurrency = (s: string) => s
+    .replace(/[A-Z]{0,3}\p{Sc}/gu, '')
+    .replace(/^[A-Z]{3}(?![A-Za-z])|(?<![A-Za-z])[A-Z]{3}$/g, '')
+    .trim();
+  let cleaned = stripCurrency(text.trim());
+  const negative = /^\(.*\)$/.test(cleaned);
+  if (negative) cleaned = stripCurrency(cleaned.slice(1, -1));
+  cleaned = cleaned.replace(/[,\s]/g, '');
+  if (!/^[+-]?(?:\d+(?:\.\d*)?|\.\d+)(?:(?<=\d)[eE][+-]?\d+)?$/.test(cleaned)) return null;
+  if (negative && /^[+-]/.test(cleaned)) return null;
+  const value = parseFloat(cleaned);
+  return negative ? -value : value;
+}
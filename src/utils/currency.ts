@@ -0,0 +1,109 @@
+import type { BudgetConfig, FxRateTable, ModelData, Service } from '../types';
+import { calculateServiceMonthCosts, getSpendCommitmentDiscount } from './calculations';
+import { getHorizonMonths } from './months';
+
+export const DEFAULT_CURRENCY = 'USD';
+
+export const CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'JPY', 'CHF', 'INR', 'SGD', 'SEK', 'NOK', 'DKK'];
+
+export function getReportingCurrency(config: BudgetConfig): string {
+  return config.reportingCurrency ?? DEFAULT_CURRENCY;
+}
+
+export function getServiceCurrency(service: Service, config?: BudgetConfig): string {
+  return service.currency ?? (config ? getReportingCurrency(config) : DEFAULT_CURRENCY);
+}
+
+export function getCurrencySymbol(currency: string): string {
+  const part = new Intl.NumberFormat('en-US', { style: 'currency', currency })
+    .formatToParts(0)
+    .find((p) => p.type === 'currency');
+  return part?.value ?? currency;
+}
+
+// Rate to convert one unit of `currency` into the reporting currency for a month.
+// Missing rates fall back to 1 so an unconfigured currency never zeroes a total.
+export function getFxRate(data: ModelData, currency: string, monthIndex: number): number {
+  if (currency === getReportingCurrency(data.budgetConfig)) return 1;
+  const rate = data.fxRates?.[currency]?.[monthIndex];
+  return rate !== undefined && rate > 0 ? rate : 1;
+}
+
+// Currencies used by services that need a rate row (everything except the reporting currency)
+export function getForeignCurrencies(data: ModelData): string[] {
+  const reporting = getReportingCurrency(data.budgetConfig);
+  const used = new Set(data.services.map((s) => getServiceCurrency(s, data.budgetConfig)));
+  used.delete(reporting);
+  return [...used].sort();
+}
+
+export function ensureFxRates(data: ModelData): ModelData {
+  const missing = getForeignCurrencies(data).filter((c) => !data.fxRates?.[c]);
+  if (missing.length === 0) return data;
+  const fxRates: FxRateTable = { ...data.fxRates };
+  for (const currency of missing) {
+    fxRates[currency] = Array(getHorizonMonths(data.budgetConfig)).fill(1);
+  }
+  return { ...data, fxRates };
+}
+
+// Re-express every rate against a new reporting currency, keeping cross rates intact
+export function rebaseFxRates(data: ModelData, newReporting: string): FxRateTable {
+  const oldReporting = getReportingCurrency(data.budgetConfig);
+  const rates = data.fxRates ?? {};
+  const pivot = rates[newReporting];
+  const rebased: FxRateTable = {};
+  for (const [currency, monthRates] of Object.entries(rates)) {
+    if (currency === newReporting) continue;
+    rebased[currency] = monthRates.map((r, m) => (pivot?.[m] ? r / pivot[m] : r));
+  }
+  if (oldReporting !== newReporting) {
+    rebased[oldReporting] = Array.from(
+      { length: getHorizonMonths(data.budgetConfig) },
+      (_, m) => (pivot?.[m] ? 1 / pivot[m] : 1)
+    );
+  }
+  return rebased;
+}
+
+export function convertToReporting(data: ModelData, service: Service, costs: number[]): number[] {
+  const currency = getServiceCurrency(service, data.budgetConfig);
+  return costs.map((cost, m) => cost * getFxRate(data, currency, m));
+}
+
+export function calculateReportingMonthCosts(data: ModelData, service: Service): number[] {
+  const serviceBudget = data.budgetData[service.id];
+  if (!serviceBudget) return Array(getHorizonMonths(data.budgetConfig)).fill(0);
+  const costs = calculateServiceMonthCosts(service, serviceBudget, getSpendCommitmentDiscount(data, service.id));
+  return convertToReporting(data, service, costs);
+}
+
+export interface FxExposure {
+  currency: string;
+  nativeTotal: number;
+  reportingTotal: number;
+  impactDown: number;
+  impactUp: number;
+}
+
+// Costs are linear in the rate, so a ±pct move shifts each exposure by ±pct of its converted total
+export function calculateFxSensitivity(data: ModelData, pct: number): FxExposure[] {
+  const byCurrency = new Map<string, FxExposure>();
+  for (const currency of getForeignCurrencies(data)) {
+    byCurrency.set(currency, { currency, nativeTotal: 0, reportingTotal: 0, impactDown: 0, impactUp: 0 });
+  }
+  for (const service of data.services) {
+    const exposure = byCurrency.get(getServiceCurrency(service, data.budgetConfig));
+    const serviceBudget = data.budgetData[service.id];
+    if (!exposure || !serviceBudget) continue;
+    const native = calculateServiceMonthCosts(service, serviceBudget, getSpendCommitmentDiscount(data, service.id));
+    const converted = convertToReporting(data, service, native);
+    exposure.nativeTotal += native.reduce((s, c) => s + c, 0);
+    exposure.reportingTotal += converted.reduce((s, c) => s + c, 0);
+  }
+  for (const exposure of byCurrency.values()) {
+    exposure.impactDown = -exposure.reportingTotal * pct / 100;
+    exposure.impactUp = exposure.reportingTotal * pct / 100;
+  }
+  return [...byCurrency.values()];
+}
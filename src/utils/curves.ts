@@ -0,0 +1,55 @@
+export type CurveKind = 'linear' | 'exponential' | 'logistic' | 'step';
+
+export interface CurveParams {
+  kind: CurveKind;
+  fromMonth: number;
+  // Value reached at the last month (linear, logistic) or held from `fromMonth` on (step)
+  target: number;
+  // Monthly growth for exponential curves, in percent (negative to decay)
+  ratePct: number;
+  // Month index where a logistic curve is halfway between start and target
+  midpoint: number;
+}
+
+export const CURVE_OPTIONS: { value: CurveKind; label: string }[] = [
+  { value: 'linear', label: 'Linear ramp' },
+  { value: 'exponential', label: 'Exponential' },
+  { value: 'logistic', label: 'S-curve' },
+  { value: 'step', label: 'Step change' },
+];
+
+// Steepness of the S-curve; a higher value packs more of the change around the midpoint
+const LOGISTIC_STEEPNESS = 0.8;
+
+// Replace the values from `fromMonth` onward with the chosen curve. The curve starts from the
+// current value at `fromMonth`, so earlier months and the starting point are left untouched.
+export function generateCurve(values: number[], params: CurveParams): number[] {
+  const { kind, fromMonth, target, ratePct, midpoint } = params;
+  const last = values.length - 1;
+  const base = values[fromMonth] ?? 0;
+  const span = Math.max(last - fromMonth, 1);
+
+  function sigmoid(m: number): number {
+    return 1 / (1 + Math.exp(-LOGISTIC_STEEPNESS * (m - midpoint)));
+  }
+
+  return values.map((value, m) => {
+    if (m < fromMonth) return value;
+    const t = m - fromMonth;
+    switch (kind) {
+      case 'linear':
+        return base + (target - base) * (t / span);
+      case 'exponential':
+        return base * Math.pow(1 + ratePct / 100, t);
+      case 'logistic': {
+        // Normalised so the curve starts exactly at `base` and ends exactly at `target`
+        const start = sigmoid(fromMonth);
+        const end = sigmoid(last);
+        const progress = end === start ? 1 : (sigmoid(m) - start) / (end - start);
+        return base + (target - base) * progress;
+      }
+      case 'step':
+        return target;
+    }
+  });
+}
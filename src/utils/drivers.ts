@@ -0,0 +1,35 @@
+import type { Driver, ModelData, PropagatedField, Service, ServiceBudget } from '../types';
+
+export function getDrivers(data: ModelData): Driver[] {
+  return data.drivers ?? [];
+}
+
+export function getServiceDriver(data: ModelData, service: Service): Driver | undefined {
+  if (!service.driver) return undefined;
+  return getDrivers(data).find((d) => d.id === service.driver!.driverId);
+}
+
+export function getLinkedServices(data: ModelData, driverId: string): Service[] {
+  return data.services.filter((s) => s.driver?.driverId === driverId);
+}
+
+export function createDriverValues(horizonMonths: number, value = 0): PropagatedField[] {
+  return Array.from({ length: horizonMonths }, () => ({ value, isOverridden: false }));
+}
+
+// Consumption follows the driver month by month, carrying the driver's override flags so
+// later driver edits propagate to the service exactly as they do across the driver row
+export function deriveConsumption(serviceBudget: ServiceBudget, driver: Driver, ratio: number): ServiceBudget {
+  const derived: ServiceBudget = {};
+  for (const [m, entry] of Object.entries(serviceBudget)) {
+    const driverValue = driver.values[Number(m)] ?? driver.values[driver.values.length - 1];
+    derived[Number(m)] = {
+      ...entry,
+      consumption: {
+        value: (driverValue?.value ?? 0) * ratio,
+        isOverridden: Number(m) > 0 && (driverValue?.isOverridden ?? false),
+      },
+    };
+  }
+  return derived;
+}
@@ -1,13 +1,36 @@
 import { saveAs } from 'file-saver';
-import { calculateMonthCost } from './calculations';
-import { generateMonthLabels } from './months';
+import {
+  calculateServiceMonthBreakdown,
+  calculateServiceTierCharges,
+  getMonthUnitCost,
+  getReferenceTierIndex,
+  getSpendCommitmentDiscount,
+  hasTiers,
+  summarizeCommitment,
+} from './calculations';
+import {
+  calculateReportingMonthCosts,
+  getCurrencySymbol,
+  getForeignCurrencies,
+  getReportingCurrency,
+  getServiceCurrency,
+} from './currency';
+import { getDrivers, getLinkedServices } from './drivers';
+import { formatCurrency, formatTierRange } from './formatters';
+import { generateMonthLabels, getHorizonMonths, getPlanYears, sumPlanYears } from './months';
+import type { SimulationResult } from './monteCarlo';
+import { SENSITIVITY_FIELDS, calculateSensitivity } from './sensitivity';
+import { reconcileTargets } from './targets';
+import { UNALLOCATED_ID, calculateShowback, getCostCenters } from './costCenters';
+import { calculateAllocation, hasAllocationRules } from './allocation';
+import { calculateVariance, hasActuals } from './actuals';
+import { buildCategoryTree, flattenCategoryTree, hasCategories, sumCategoryCosts, type CategoryRow } from './categories';
 import type { BudgetModel } from '../types';
 
 // --- Style constants ---
 
 const NAVY_FILL = { type: 'pattern' as const, pattern: 'solid' as const, fgColor: { argb: 'FF1E3A5F' } };
 const WHITE_FONT = { bold: true, color: { argb: 'FFFFFFFF' }, size: 11 };
-const CURRENCY_FMT = '$#,##0';
 const PERCENT_FMT = '0.0%';
 const THIN_BORDER = {
   top: { style: 'thin' as const, color: { argb: 'FFD1D5DB' } },
@@ -51,40 +74,55 @@ function solidFill(argb: string) {
   return { type: 'pattern' as const, pattern: 'solid' as const, fgColor: { argb } };
 }
 
+// --- Number format helpers ---
+
+function currencyFmt(currency: string): string {
+  return `"${getCurrencySymbol(currency)}"#,##0`;
+}
+
+function currencyDeltaFmt(currency: string): string {
+  const sym = `"${getCurrencySymbol(currency)}"`;
+  return `+${sym}#,##0;-${sym}#,##0;${sym}0`;
+}
+
 // --- Main export function ---
 
-export async function exportExcelReport(model: BudgetModel): Promise<void> {
+export interface ExcelExportOptions {
+  // Percentiles from the Monte Carlo simulation, added as a Risk sheet
+  risk?: SimulationResult;
+  // ±% for a Sensitivity sheet ranking every assumption; omitted to leave the sheet out
+  sensitivityPct?: number;
+}
+
+export async function exportExcelReport(model: BudgetModel, options: ExcelExportOptions = {}): Promise<void> {
+  const { risk, sensitivityPct } = options;
   const ExcelJS = await import('exceljs');
   const workbook = new ExcelJS.Workbook();
 
   const services = model.data.services;
   const budgetConfig = model.data.budgetConfig;
   const budgetData = model.data.budgetData;
-  const monthLabels = generateMonthLabels(budgetConfig.startMonth, budgetConfig.startYear);
+  const horizon = getHorizonMonths(budgetConfig);
+  const monthLabels = generateMonthLabels(budgetConfig.startMonth, budgetConfig.startYear, horizon);
+  const planYears = getPlanYears(horizon);
+  const multiYear = planYears.length > 1;
+  const reportingCurrency = getReportingCurrency(budgetConfig);
+  const CURRENCY_FMT = currencyFmt(reportingCurrency);
 
   // --- Compute cost data ---
   const costGrid: Record<string, number[]> = {};
   const costByService: Record<string, number> = {};
-  const costByMonth: number[] = Array(12).fill(0);
+  const costByMonth: number[] = Array(horizon).fill(0);
   let grandTotal = 0;
 
   for (const service of services) {
     const serviceBudget = budgetData[service.id];
     if (!serviceBudget) continue;
-    costGrid[service.id] = [];
+    costGrid[service.id] = calculateReportingMonthCosts(model.data, service);
     costByService[service.id] = 0;
 
-    for (let m = 0; m < 12; m++) {
-      const entry = serviceBudget[m];
-      const cost = calculateMonthCost(
-        entry.consumption.value,
-        service.unitCost,
-        entry.efficiency.value,
-        entry.overhead.value,
-        entry.discount.value,
-        service.discountEligible,
-      );
-      costGrid[service.id][m] = cost;
+    for (let m = 0; m < horizon; m++) {
+      const cost = costGrid[service.id][m] ?? 0;
       costByService[service.id] += cost;
       costByMonth[m] += cost;
       grandTotal += cost;
@@ -113,13 +151,16 @@ export async function exportExcelReport(model: BudgetModel): Promise<void> {
   ws1.getCell('A2').font = { size: 13, color: { argb: 'FF4B5563' } };
 
   // Row 3: Period
-  const period = `${monthLabels[0]} – ${monthLabels[11]}`;
+  const period = `${monthLabels[0]} – ${monthLabels[horizon - 1]}`;
   ws1.getCell('A3').value = period;
   ws1.getCell('A3').font = { size: 11, color: { argb: 'FF6B7280' } };
 
   // Row 4: Generated date
   ws1.getCell('A4').value = `Generated ${new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}`;
   ws1.getCell('A4').font = { size: 10, color: { argb: 'FF9CA3AF' } };
+  ws1.getCell('D4').value = `All figures in ${reportingCurrency}`;
+  ws1.getCell('D4').font = { size: 10, color: { argb: 'FF9CA3AF' } };
+  ws1.getCell('D4').alignment = { horizontal: 'right' };
 
   // Row 5: Spacer
 
@@ -134,14 +175,14 @@ export async function exportExcelReport(model: BudgetModel): Promise<void> {
   // Row 7: Monthly average
   ws1.getCell('A7').value = 'Monthly average:';
   ws1.getCell('A7').font = { size: 11, color: { argb: 'FF6B7280' } };
-  ws1.getCell('B7').value = grandTotal / 12;
+  ws1.getCell('B7').value = grandTotal / horizon;
   ws1.getCell('B7').numFmt = CURRENCY_FMT;
   ws1.getCell('B7').font = { bold: true, size: 11 };
 
   // Row 8: Spacer
 
   // Row 9: Table header
-  const headerLabels = ['Service', 'Annual Total', 'Monthly Avg', '% of Total'];
+  const headerLabels = ['Service', multiYear ? 'Total' : 'Annual Total', 'Monthly Avg', '% of Total'];
   const headerRow = ws1.getRow(9);
   headerLabels.forEach((label, i) => {
     const cell = headerRow.getCell(i + 1);
@@ -153,19 +194,52 @@ export async function exportExcelReport(model: BudgetModel): Promise<void> {
   });
   headerRow.height = 28;
 
-  // Row 10+: Service rows
+  // Row 10+: Service rows, grouped under category headers (with Excel outline levels) when categorized
   let rowIdx = 10;
   const ALT_FILL = solidFill('FFF9FAFB');
+  const CATEGORY_FILL = solidFill('FFE5E7EB');
+  const execRows: CategoryRow[] = hasCategories(services)
+    ? flattenCategoryTree(buildCategoryTree(services))
+    : services.map((service) => ({ kind: 'service', service, depth: 0 }));
+  let shadeIdx = 0;
 
-  for (let sIdx = 0; sIdx < services.length; sIdx++) {
-    const service = services[sIdx];
+  for (const execRow of execRows) {
+    const row = ws1.getRow(rowIdx);
+
+    if (execRow.kind === 'category') {
+      const { node } = execRow;
+      const categoryTotal = sumCategoryCosts(node, costGrid, horizon).reduce((a, c) => a + c, 0);
+      const values: [string | number, string | undefined][] = [
+        [node.name, undefined],
+        [categoryTotal, CURRENCY_FMT],
+        [categoryTotal / horizon, CURRENCY_FMT],
+        [grandTotal > 0 ? categoryTotal / grandTotal : 0, PERCENT_FMT],
+      ];
+      values.forEach(([value, fmt], c) => {
+        const cell = row.getCell(c + 1);
+        cell.value = value;
+        if (fmt) cell.numFmt = fmt;
+        cell.font = { bold: true, size: 11, color: { argb: 'FF1E3A5F' } };
+        cell.fill = CATEGORY_FILL;
+        cell.alignment = c === 0 ? { horizontal: 'left', indent: node.depth * 2 } : { horizontal: 'right' };
+        cell.border = THIN_BORDER;
+      });
+      if (node.depth > 0) row.outlineLevel = node.depth;
+      shadeIdx = 0;
+      rowIdx++;
+      continue;
+    }
+
+    const { service, depth } = execRow;
+    const sIdx = services.indexOf(service);
     const svcTotal = costByService[service.id] ?? 0;
     const pct = grandTotal > 0 ? svcTotal / grandTotal : 0;
-    const row = ws1.getRow(rowIdx);
     const colorHex = FILL_COLORS[sIdx % FILL_COLORS.length];
+    if (depth > 0) row.outlineLevel = depth;
 
     row.getCell(1).value = service.name;
     row.getCell(1).font = { bold: true, size: 11 };
+    if (depth > 0) row.getCell(1).alignment = { indent: depth * 2 };
     row.getCell(1).border = {
       ...THIN_BORDER,
       left: { style: 'medium' as const, color: { argb: `FF${colorHex}` } },
@@ -176,7 +250,7 @@ export async function exportExcelReport(model: BudgetModel): Promise<void> {
     row.getCell(2).alignment = { horizontal: 'right' };
     row.getCell(2).border = THIN_BORDER;
 
-    row.getCell(3).value = svcTotal / 12;
+    row.getCell(3).value = svcTotal / horizon;
     row.getCell(3).numFmt = CURRENCY_FMT;
     row.getCell(3).alignment = { horizontal: 'right' };
     row.getCell(3).border = THIN_BORDER;
@@ -186,8 +260,8 @@ export async function exportExcelReport(model: BudgetModel): Promise<void> {
     row.getCell(4).alignment = { horizontal: 'right' };
     row.getCell(4).border = THIN_BORDER;
 
-    // Alternating row shading
-    if (sIdx % 2 === 1) {
+    // Alternating row shading, restarting under each category header
+    if (shadeIdx++ % 2 === 1) {
       for (let c = 1; c <= 4; c++) {
         const cell = row.getCell(c);
         if (c === 1) {
@@ -217,7 +291,7 @@ export async function exportExcelReport(model: BudgetModel): Promise<void> {
   totalRow.getCell(2).alignment = { horizontal: 'right' };
   totalRow.getCell(2).border = { ...THIN_BORDER, top: { style: 'medium' as const, color: { argb: 'FF1E3A5F' } } };
 
-  totalRow.getCell(3).value = grandTotal / 12;
+  totalRow.getCell(3).value = grandTotal / horizon;
   totalRow.getCell(3).numFmt = CURRENCY_FMT;
   totalRow.getCell(3).font = { bold: true };
   totalRow.getCell(3).alignment = { horizontal: 'right' };
@@ -229,16 +303,53 @@ export async function exportExcelReport(model: BudgetModel): Promise<void> {
   totalRow.getCell(4).alignment = { horizontal: 'right' };
   totalRow.getCell(4).border = { ...THIN_BORDER, top: { style: 'medium' as const, color: { argb: 'FF1E3A5F' } } };
 
+  // Per-year subtotals for multi-year horizons
+  if (multiYear) {
+    rowIdx += 2;
+    const yearHdr = ws1.getRow(rowIdx);
+    ['Plan Year', 'Total', 'Monthly Avg', '% of Total'].forEach((label, i) => {
+      const cell = yearHdr.getCell(i + 1);
+      cell.value = label;
+      cell.font = WHITE_FONT;
+      cell.fill = NAVY_FILL;
+      cell.alignment = { horizontal: i === 0 ? 'left' : 'right', vertical: 'middle' };
+      cell.border = THIN_BORDER;
+    });
+    yearHdr.height = 28;
+
+    const yearTotals = sumPlanYears(costByMonth);
+    for (const y of planYears) {
+      rowIdx++;
+      const row = ws1.getRow(rowIdx);
+      const values: [string | number, string | undefined][] = [
+        [`Year ${y.index + 1} (${monthLabels[y.start]} – ${monthLabels[y.end - 1]})`, undefined],
+        [yearTotals[y.index], CURRENCY_FMT],
+        [yearTotals[y.index] / (y.end - y.start), CURRENCY_FMT],
+        [grandTotal > 0 ? yearTotals[y.index] / grandTotal : 0, PERCENT_FMT],
+      ];
+      values.forEach(([value, fmt], c) => {
+        const cell = row.getCell(c + 1);
+        cell.value = value;
+        if (fmt) cell.numFmt = fmt;
+        cell.alignment = { horizontal: c === 0 ? 'left' : 'right' };
+        cell.border = THIN_BORDER;
+      });
+    }
+  }
+
   // ==============================
   // Sheet 2: Monthly Timeline
   // ==============================
   const ws2 = workbook.addWorksheet('Monthly Timeline');
+  // Month columns, then one subtotal column per plan year (multi-year only), then the total
+  const yearCol = (yearIndex: number) => horizon + 2 + yearIndex;
+  const t2TotalCol = horizon + 2 + (multiYear ? planYears.length : 0);
   ws2.getColumn(1).width = 24;
-  for (let c = 2; c <= 13; c++) ws2.getColumn(c).width = 14;
-  ws2.getColumn(14).width = 16;
+  for (let c = 2; c < t2TotalCol; c++) ws2.getColumn(c).width = 14;
+  ws2.getColumn(t2TotalCol).width = 16;
 
   // Row 1: Title
-  ws2.mergeCells('A1:N1');
+  ws2.mergeCells(1, 1, 1, t2TotalCol);
   const title2Cell = ws2.getCell('A1');
   title2Cell.value = 'Monthly Cost Timeline';
   title2Cell.font = { bold: true, size: 16, color: { argb: 'FF1E3A5F' } };
@@ -248,13 +359,16 @@ export async function exportExcelReport(model: BudgetModel): Promise<void> {
   // Row 3: Header
   const hdrRow2 = ws2.getRow(3);
   hdrRow2.getCell(1).value = 'Service';
-  for (let m = 0; m < 12; m++) {
+  for (let m = 0; m < horizon; m++) {
     hdrRow2.getCell(m + 2).value = monthLabels[m];
   }
-  hdrRow2.getCell(14).value = 'Total';
+  if (multiYear) {
+    for (const y of planYears) hdrRow2.getCell(yearCol(y.index)).value = `Year ${y.index + 1}`;
+  }
+  hdrRow2.getCell(t2TotalCol).value = 'Total';
   hdrRow2.height = 28;
 
-  for (let c = 1; c <= 14; c++) {
+  for (let c = 1; c <= t2TotalCol; c++) {
     const cell = hdrRow2.getCell(c);
     cell.font = WHITE_FONT;
     cell.fill = NAVY_FILL;
@@ -275,7 +389,7 @@ export async function exportExcelReport(model: BudgetModel): Promise<void> {
     row.getCell(1).font = { bold: true, size: 10 };
     row.getCell(1).border = THIN_BORDER;
 
-    for (let m = 0; m < 12; m++) {
+    for (let m = 0; m < horizon; m++) {
       const cell = row.getCell(m + 2);
       cell.value = costs[m] ?? 0;
       cell.numFmt = CURRENCY_FMT;
@@ -285,11 +399,22 @@ export async function exportExcelReport(model: BudgetModel): Promise<void> {
       if (hm) cell.fill = solidFill(hm);
     }
 
-    row.getCell(14).value = costByService[service.id] ?? 0;
-    row.getCell(14).numFmt = CURRENCY_FMT;
-    row.getCell(14).font = { bold: true, size: 10 };
-    row.getCell(14).alignment = { horizontal: 'right' };
-    row.getCell(14).border = THIN_BORDER;
+    if (multiYear) {
+      sumPlanYears(costs).forEach((yearTotal, y) => {
+        const cell = row.getCell(yearCol(y));
+        cell.value = yearTotal;
+        cell.numFmt = CURRENCY_FMT;
+        cell.font = { bold: true, size: 10 };
+        cell.alignment = { horizontal: 'right' };
+        cell.border = THIN_BORDER;
+      });
+    }
+
+    row.getCell(t2TotalCol).value = costByService[service.id] ?? 0;
+    row.getCell(t2TotalCol).numFmt = CURRENCY_FMT;
+    row.getCell(t2TotalCol).font = { bold: true, size: 10 };
+    row.getCell(t2TotalCol).alignment = { horizontal: 'right' };
+    row.getCell(t2TotalCol).border = THIN_BORDER;
 
     r2++;
   }
@@ -302,7 +427,7 @@ export async function exportExcelReport(model: BudgetModel): Promise<void> {
   tRow.getCell(1).font = { bold: true, size: 11 };
   tRow.getCell(1).border = { ...THIN_BORDER, top: { style: 'medium' as const, color: { argb: 'FF1E3A5F' } } };
 
-  for (let m = 0; m < 12; m++) {
+  for (let m = 0; m < horizon; m++) {
     const cell = tRow.getCell(m + 2);
     cell.value = costByMonth[m];
     cell.numFmt = CURRENCY_FMT;
@@ -313,11 +438,22 @@ export async function exportExcelReport(model: BudgetModel): Promise<void> {
     if (hm) cell.fill = solidFill(hm);
   }
 
-  tRow.getCell(14).value = grandTotal;
-  tRow.getCell(14).numFmt = CURRENCY_FMT;
-  tRow.getCell(14).font = { bold: true, size: 11 };
-  tRow.getCell(14).alignment = { horizontal: 'right' };
-  tRow.getCell(14).border = { ...THIN_BORDER, top: { style: 'medium' as const, color: { argb: 'FF1E3A5F' } } };
+  if (multiYear) {
+    sumPlanYears(costByMonth).forEach((yearTotal, y) => {
+      const cell = tRow.getCell(yearCol(y));
+      cell.value = yearTotal;
+      cell.numFmt = CURRENCY_FMT;
+      cell.font = { bold: true };
+      cell.alignment = { horizontal: 'right' };
+      cell.border = { ...THIN_BORDER, top: { style: 'medium' as const, color: { argb: 'FF1E3A5F' } } };
+    });
+  }
+
+  tRow.getCell(t2TotalCol).value = grandTotal;
+  tRow.getCell(t2TotalCol).numFmt = CURRENCY_FMT;
+  tRow.getCell(t2TotalCol).font = { bold: true, size: 11 };
+  tRow.getCell(t2TotalCol).alignment = { horizontal: 'right' };
+  tRow.getCell(t2TotalCol).border = { ...THIN_BORDER, top: { style: 'medium' as const, color: { argb: 'FF1E3A5F' } } };
   r2++;
 
   // Delta row
@@ -329,7 +465,7 @@ export async function exportExcelReport(model: BudgetModel): Promise<void> {
   dRow.getCell(1).font = { bold: true, size: 10, color: { argb: 'FF6B7280' } };
   dRow.getCell(1).border = THIN_BORDER;
 
-  for (let m = 0; m < 12; m++) {
+  for (let m = 0; m < horizon; m++) {
     const cell = dRow.getCell(m + 2);
     const delta = deltaByMonth[m];
     if (m === 0) {
@@ -337,7 +473,7 @@ export async function exportExcelReport(model: BudgetModel): Promise<void> {
       cell.font = { color: { argb: 'FF9CA3AF' } };
     } else {
       cell.value = delta;
-      cell.numFmt = '+$#,##0;-$#,##0;$0';
+      cell.numFmt = currencyDeltaFmt(reportingCurrency);
       cell.font = {
         bold: true,
         size: 10,
@@ -350,12 +486,700 @@ export async function exportExcelReport(model: BudgetModel): Promise<void> {
     cell.border = THIN_BORDER;
   }
 
-  dRow.getCell(14).value = '';
-  dRow.getCell(14).border = THIN_BORDER;
+  for (let c = horizon + 2; c <= t2TotalCol; c++) {
+    dRow.getCell(c).value = '';
+    dRow.getCell(c).border = THIN_BORDER;
+  }
+
+  // Unit price block: the rate each month was priced at, in the service's billing currency
+  r2 += 2;
+  const priceHdr = ws2.getRow(r2);
+  priceHdr.getCell(1).value = 'Unit Price';
+  for (let c = 1; c <= horizon + 1; c++) {
+    const cell = priceHdr.getCell(c);
+    cell.font = WHITE_FONT;
+    cell.fill = NAVY_FILL;
+    cell.border = THIN_BORDER;
+  }
+  r2++;
+  for (const service of services) {
+    const serviceBudget = budgetData[service.id];
+    if (!serviceBudget) continue;
+    const priceFmt = `"${getCurrencySymbol(getServiceCurrency(service, budgetConfig))}"#,##0.0000`;
+    const row = ws2.getRow(r2);
+    row.getCell(1).value = hasTiers(service) ? `${service.name} (tier ${getReferenceTierIndex(service.tiers!) + 1})` : service.name;
+    row.getCell(1).font = { size: 10 };
+    row.getCell(1).border = THIN_BORDER;
+    for (let m = 0; m < horizon; m++) {
+      const entry = serviceBudget[m];
+      if (!entry) continue;
+      const cell = row.getCell(m + 2);
+      cell.value = getMonthUnitCost(service, entry);
+      cell.numFmt = priceFmt;
+      cell.alignment = { horizontal: 'right' };
+      cell.border = THIN_BORDER;
+      // Scheduled price changes are highlighted like overridden cells in the app
+      if (m > 0 && entry.unitCost?.isOverridden) cell.fill = solidFill('FFFEF3C7');
+    }
+    r2++;
+  }
 
   // Freeze panes: column A + row 3
   ws2.views = [{ state: 'frozen', xSplit: 1, ySplit: 3 }];
 
+  // ==============================
+  // Sheet: Tier Breakdown (only when a service uses volume tiers)
+  // ==============================
+  const tieredServices = services.filter((s) => hasTiers(s) && budgetData[s.id]);
+  if (tieredServices.length > 0) {
+    const ws3 = workbook.addWorksheet('Tier Breakdown');
+    const t3TotalCol = horizon + 3;
+    ws3.getColumn(1).width = 24;
+    ws3.getColumn(2).width = 22;
+    for (let c = 3; c < t3TotalCol; c++) ws3.getColumn(c).width = 14;
+    ws3.getColumn(t3TotalCol).width = 16;
+
+    ws3.mergeCells(1, 1, 1, t3TotalCol);
+    const title3Cell = ws3.getCell('A1');
+    title3Cell.value = 'Volume Tier Breakdown';
+    title3Cell.font = { bold: true, size: 16, color: { argb: 'FF1E3A5F' } };
+
+    ws3.getCell('A2').value = 'Billed units and charges per tier, before discount, in each service\'s billing currency';
+    ws3.getCell('A2').font = { size: 10, color: { argb: 'FF6B7280' } };
+
+    const hdrRow3 = ws3.getRow(3);
+    hdrRow3.getCell(1).value = 'Service';
+    hdrRow3.getCell(2).value = 'Tier';
+    for (let m = 0; m < horizon; m++) {
+      hdrRow3.getCell(m + 3).value = monthLabels[m];
+    }
+    hdrRow3.getCell(t3TotalCol).value = 'Total';
+    hdrRow3.height = 28;
+
+    for (let c = 1; c <= t3TotalCol; c++) {
+      const cell = hdrRow3.getCell(c);
+      cell.font = WHITE_FONT;
+      cell.fill = NAVY_FILL;
+      cell.alignment = { horizontal: c <= 2 ? 'left' : 'right', vertical: 'middle' };
+      cell.border = THIN_BORDER;
+    }
+
+    let r3 = 4;
+    for (const service of tieredServices) {
+      const charges = calculateServiceTierCharges(service, budgetData[service.id]);
+      const tierCount = charges[0]?.length ?? 0;
+      const serviceCurrency = getServiceCurrency(service, budgetConfig);
+      const serviceFmt = currencyFmt(serviceCurrency);
+
+      for (let t = 0; t < tierCount; t++) {
+        const first = charges[0][t];
+        const label = `${formatTierRange(first.from, first.to)} @ ${getCurrencySymbol(serviceCurrency)}${first.unitCost}`;
+
+        // Units row
+        const unitsRow = ws3.getRow(r3);
+        unitsRow.getCell(1).value = t === 0 ? service.name : '';
+        unitsRow.getCell(1).font = { bold: true, size: 10 };
+        unitsRow.getCell(2).value = `${label} (units)`;
+        unitsRow.getCell(2).font = { size: 10, color: { argb: 'FF6B7280' } };
+        let unitTotal = 0;
+        for (let m = 0; m < charges.length; m++) {
+          const units = charges[m][t]?.units ?? 0;
+          unitTotal += units;
+          const cell = unitsRow.getCell(m + 3);
+          cell.value = units;
+          cell.numFmt = '#,##0';
+          cell.alignment = { horizontal: 'right' };
+          cell.font = { color: { argb: 'FF6B7280' } };
+        }
+        unitsRow.getCell(t3TotalCol).value = unitTotal;
+        unitsRow.getCell(t3TotalCol).numFmt = '#,##0';
+        unitsRow.getCell(t3TotalCol).alignment = { horizontal: 'right' };
+        r3++;
+
+        // Cost row
+        const costRow = ws3.getRow(r3);
+        costRow.getCell(2).value = `${label} (cost)`;
+        costRow.getCell(2).font = { size: 10 };
+        let costTotal = 0;
+        for (let m = 0; m < charges.length; m++) {
+          const cost = charges[m][t]?.cost ?? 0;
+          costTotal += cost;
+          const cell = costRow.getCell(m + 3);
+          cell.value = cost;
+          cell.numFmt = serviceFmt;
+          cell.alignment = { horizontal: 'right' };
+        }
+        costRow.getCell(t3TotalCol).value = costTotal;
+        costRow.getCell(t3TotalCol).numFmt = serviceFmt;
+        costRow.getCell(t3TotalCol).font = { bold: true, size: 10 };
+        costRow.getCell(t3TotalCol).alignment = { horizontal: 'right' };
+        for (let c = 1; c <= t3TotalCol; c++) costRow.getCell(c).border = { bottom: THIN_BORDER.bottom };
+        r3++;
+      }
+    }
+
+    ws3.views = [{ state: 'frozen', xSplit: 2, ySplit: 3 }];
+  }
+
+  // ==============================
+  // Sheet: Commitments (only when a service has an RI / savings plan)
+  // ==============================
+  const committedServices = services.filter((s) => s.commitment && budgetData[s.id]);
+  if (committedServices.length > 0) {
+    const wsC = workbook.addWorksheet('Commitments');
+    const commitHeaders = [
+      'Service', 'Term (mo)', 'Start', 'Upfront Fee', 'Hourly Commit', 'Covered Units / mo',
+      'Commitment Cost', 'On-Demand Cost', 'Coverage', 'Utilization',
+    ];
+    wsC.getColumn(1).width = 24;
+    for (let c = 2; c <= commitHeaders.length; c++) wsC.getColumn(c).width = 16;
+
+    wsC.mergeCells('A1:J1');
+    const titleCCell = wsC.getCell('A1');
+    titleCCell.value = 'Commitment Coverage & Utilization';
+    titleCCell.font = { bold: true, size: 16, color: { argb: 'FF1E3A5F' } };
+
+    wsC.getCell('A2').value = 'Amounts in each service\'s billing currency, over the plan period';
+    wsC.getCell('A2').font = { size: 10, color: { argb: 'FF6B7280' } };
+
+    const hdrRowC = wsC.getRow(3);
+    commitHeaders.forEach((label, i) => {
+      const cell = hdrRowC.getCell(i + 1);
+      cell.value = label;
+      cell.font = WHITE_FONT;
+      cell.fill = NAVY_FILL;
+      cell.alignment = { horizontal: i === 0 ? 'left' : 'right', vertical: 'middle' };
+      cell.border = THIN_BORDER;
+    });
+    hdrRowC.height = 28;
+
+    committedServices.forEach((service, i) => {
+      const commitment = service.commitment!;
+      const breakdown = calculateServiceMonthBreakdown(
+        service, budgetData[service.id], getSpendCommitmentDiscount(model.data, service.id)
+      );
+      const summary = summarizeCommitment(breakdown);
+      const onDemand = breakdown.reduce((sum, b) => sum + b.onDemandCost, 0);
+      const serviceFmt = currencyFmt(getServiceCurrency(service, budgetConfig));
+      const values: [string | number, string | undefined][] = [
+        [service.name, undefined],
+        [commitment.termMonths, '0'],
+        [monthLabels[commitment.startMonth] ?? `Month ${commitment.startMonth + 1}`, undefined],
+        [commitment.upfrontFee, serviceFmt],
+        [commitment.hourlyCommit, '#,##0.0000'],
+        [commitment.coveredUnits, '#,##0'],
+        [summary.commitmentCost, serviceFmt],
+        [onDemand, serviceFmt],
+        [summary.coverage, PERCENT_FMT],
+        [summary.utilization, PERCENT_FMT],
+      ];
+      const row = wsC.getRow(4 + i);
+      values.forEach(([value, fmt], c) => {
+        const cell = row.getCell(c + 1);
+        cell.value = value;
+        if (fmt) cell.numFmt = fmt;
+        cell.alignment = { horizontal: c === 0 ? 'left' : 'right' };
+        cell.border = THIN_BORDER;
+        if (c === 0) cell.font = { bold: true, size: 10 };
+      });
+    });
+  }
+
+  // ==============================
+  // Sheet: FX Rates (only when services bill in other currencies)
+  // ==============================
+  const foreignCurrencies = getForeignCurrencies(model.data);
+  if (foreignCurrencies.length > 0) {
+    const ws4 = workbook.addWorksheet('FX Rates');
+    ws4.getColumn(1).width = 18;
+    for (let c = 2; c <= horizon + 1; c++) ws4.getColumn(c).width = 12;
+
+    ws4.mergeCells(1, 1, 1, horizon + 1);
+    const title4Cell = ws4.getCell('A1');
+    title4Cell.value = `Exchange Rates (${reportingCurrency} per unit)`;
+    title4Cell.font = { bold: true, size: 16, color: { argb: 'FF1E3A5F' } };
+
+    const hdrRow4 = ws4.getRow(3);
+    hdrRow4.getCell(1).value = 'Currency';
+    for (let m = 0; m < horizon; m++) {
+      hdrRow4.getCell(m + 2).value = monthLabels[m];
+    }
+    hdrRow4.height = 28;
+    for (let c = 1; c <= horizon + 1; c++) {
+      const cell = hdrRow4.getCell(c);
+      cell.font = WHITE_FONT;
+      cell.fill = NAVY_FILL;
+      cell.alignment = { horizontal: c === 1 ? 'left' : 'right', vertical: 'middle' };
+      cell.border = THIN_BORDER;
+    }
+
+    foreignCurrencies.forEach((code, i) => {
+      const row = ws4.getRow(4 + i);
+      row.getCell(1).value = code;
+      row.getCell(1).font = { bold: true, size: 10 };
+      row.getCell(1).border = THIN_BORDER;
+      for (let m = 0; m < horizon; m++) {
+        const cell = row.getCell(m + 2);
+        cell.value = model.data.fxRates?.[code]?.[m] ?? 1;
+        cell.numFmt = '0.0000';
+        cell.alignment = { horizontal: 'right' };
+        cell.border = THIN_BORDER;
+      }
+    });
+  }
+
+  // ==============================
+  // Sheet: Drivers (only when the model forecasts business drivers)
+  // ==============================
+  const drivers = getDrivers(model.data);
+  if (drivers.length > 0) {
+    const wsD = workbook.addWorksheet('Drivers');
+    wsD.getColumn(1).width = 30;
+    for (let c = 2; c <= horizon + 1; c++) wsD.getColumn(c).width = 12;
+
+    wsD.mergeCells(1, 1, 1, horizon + 1);
+    const titleDCell = wsD.getCell('A1');
+    titleDCell.value = 'Business Drivers';
+    titleDCell.font = { bold: true, size: 16, color: { argb: 'FF1E3A5F' } };
+
+    wsD.getCell('A2').value = 'Linked services show the consumption derived from each driver';
+    wsD.getCell('A2').font = { size: 10, color: { argb: 'FF6B7280' } };
+
+    const hdrRowD = wsD.getRow(3);
+    hdrRowD.getCell(1).value = 'Driver';
+    for (let m = 0; m < horizon; m++) {
+      hdrRowD.getCell(m + 2).value = monthLabels[m];
+    }
+    hdrRowD.height = 28;
+    for (let c = 1; c <= horizon + 1; c++) {
+      const cell = hdrRowD.getCell(c);
+      cell.font = WHITE_FONT;
+      cell.fill = NAVY_FILL;
+      cell.alignment = { horizontal: c === 1 ? 'left' : 'right', vertical: 'middle' };
+      cell.border = THIN_BORDER;
+    }
+
+    let rD = 4;
+    for (const driver of drivers) {
+      const row = wsD.getRow(rD);
+      row.getCell(1).value = driver.unit ? `${driver.name} (${driver.unit})` : driver.name;
+      row.getCell(1).font = { bold: true, size: 10 };
+      row.getCell(1).border = THIN_BORDER;
+      for (let m = 0; m < horizon; m++) {
+        const cell = row.getCell(m + 2);
+        cell.value = driver.values[m]?.value ?? 0;
+        cell.numFmt = '#,##0.##';
+        cell.alignment = { horizontal: 'right' };
+        cell.border = THIN_BORDER;
+      }
+      rD++;
+
+      for (const service of getLinkedServices(model.data, driver.id)) {
+        const serviceBudget = budgetData[service.id];
+        if (!serviceBudget) continue;
+        const linkRow = wsD.getRow(rD);
+        linkRow.getCell(1).value = `  ${service.name} (× ${service.driver!.ratio} ${service.unitType})`;
+        linkRow.getCell(1).font = { size: 10, color: { argb: 'FF6B7280' } };
+        linkRow.getCell(1).border = THIN_BORDER;
+        for (let m = 0; m < horizon; m++) {
+          const cell = linkRow.getCell(m + 2);
+          cell.value = serviceBudget[m]?.consumption.value ?? 0;
+          cell.numFmt = '#,##0.##';
+          cell.font = { size: 10, color: { argb: 'FF6B7280' } };
+          cell.alignment = { horizontal: 'right' };
+          cell.border = THIN_BORDER;
+        }
+        rD++;
+      }
+    }
+
+    wsD.views = [{ state: 'frozen', xSplit: 1, ySplit: 3 }];
+  }
+
+  // ==============================
+  // Sheet: Showback (only when the model has cost centers)
+  // ==============================
+  if (getCostCenters(model.data).length > 0) {
+    const showback = calculateShowback(model.data);
+    const wsB = workbook.addWorksheet('Showback');
+    const lastCol = horizon + 2;
+    wsB.getColumn(1).width = 30;
+    for (let c = 2; c <= lastCol; c++) wsB.getColumn(c).width = 14;
+
+    wsB.mergeCells(1, 1, 1, lastCol);
+    const titleBCell = wsB.getCell('A1');
+    titleBCell.value = 'Showback by Cost Center';
+    titleBCell.font = { bold: true, size: 16, color: { argb: 'FF1E3A5F' } };
+
+    wsB.getCell('A2').value = `Monthly charges in ${reportingCurrency}, split from each service's fully-allocated monthly cost`;
+    wsB.getCell('A2').font = { size: 10, color: { argb: 'FF6B7280' } };
+
+    const hdrRowB = wsB.getRow(3);
+    hdrRowB.getCell(1).value = 'Cost Center';
+    for (let m = 0; m < horizon; m++) {
+      hdrRowB.getCell(m + 2).value = monthLabels[m];
+    }
+    hdrRowB.getCell(lastCol).value = 'Total';
+    hdrRowB.height = 28;
+    for (let c = 1; c <= lastCol; c++) {
+      const cell = hdrRowB.getCell(c);
+      cell.font = WHITE_FONT;
+      cell.fill = NAVY_FILL;
+      cell.alignment = { horizontal: c === 1 ? 'left' : 'right', vertical: 'middle' };
+      cell.border = THIN_BORDER;
+    }
+
+    let rB = 4;
+    for (const ccRow of showback) {
+      const row = wsB.getRow(rB);
+      row.getCell(1).value = ccRow.name;
+      row.getCell(1).font = { bold: true, size: 10, color: ccRow.costCenterId === UNALLOCATED_ID ? { argb: 'FFB45309' } : undefined };
+      row.getCell(1).border = THIN_BORDER;
+      [...ccRow.byMonth, ccRow.total].forEach((value, i) => {
+        const cell = row.getCell(i + 2);
+        cell.value = value;
+        cell.numFmt = CURRENCY_FMT;
+        cell.font = { bold: true, size: 10 };
+        cell.alignment = { horizontal: 'right' };
+        cell.border = THIN_BORDER;
+      });
+      rB++;
+
+      for (const service of services) {
+        const charges = ccRow.byService[service.id];
+        if (!charges) continue;
+        const svcRow = wsB.getRow(rB);
+        svcRow.getCell(1).value = `  ${service.name}`;
+        svcRow.getCell(1).font = { size: 10, color: { argb: 'FF6B7280' } };
+        svcRow.getCell(1).border = THIN_BORDER;
+        [...charges, charges.reduce((sum, v) => sum + v, 0)].forEach((value, i) => {
+          const cell = svcRow.getCell(i + 2);
+          cell.value = value;
+          cell.numFmt = CURRENCY_FMT;
+          cell.font = { size: 10, color: { argb: 'FF6B7280' } };
+          cell.alignment = { horizontal: 'right' };
+          cell.border = THIN_BORDER;
+        });
+        rB++;
+      }
+    }
+
+    wsB.views = [{ state: 'frozen', xSplit: 1, ySplit: 3 }];
+  }
+
+  // ==============================
+  // Sheet: Variance (only when actuals have been recorded)
+  // ==============================
+  if (hasActuals(model.data)) {
+    const variance = calculateVariance(model.data);
+    const DELTA_FMT = currencyDeltaFmt(reportingCurrency);
+    const wsV = workbook.addWorksheet('Variance');
+    wsV.getColumn(1).width = 30;
+    for (let c = 2; c <= 5; c++) wsV.getColumn(c).width = 16;
+
+    wsV.mergeCells(1, 1, 1, 5);
+    const titleVCell = wsV.getCell('A1');
+    titleVCell.value = 'Budget vs Actual';
+    titleVCell.font = { bold: true, size: 16, color: { argb: 'FF1E3A5F' } };
+
+    wsV.getCell('A2').value = `Closed months only, in ${reportingCurrency}. Variance = actual − plan; positive is overspend.`;
+    wsV.getCell('A2').font = { size: 10, color: { argb: 'FF6B7280' } };
+
+    const writeVarianceHeader = (rowNum: number, first: string) => {
+      const hdr = wsV.getRow(rowNum);
+      [first, 'Plan', 'Actual', 'Variance', 'Variance %'].forEach((label, i) => {
+        const cell = hdr.getCell(i + 1);
+        cell.value = label;
+        cell.font = WHITE_FONT;
+        cell.fill = NAVY_FILL;
+        cell.alignment = { horizontal: i === 0 ? 'left' : 'right', vertical: 'middle' };
+        cell.border = THIN_BORDER;
+      });
+      hdr.height = 28;
+    };
+    const writeVarianceRow = (rowNum: number, label: string, plan: number, actual: number, bold = false) => {
+      const row = wsV.getRow(rowNum);
+      const diff = actual - plan;
+      const values: [string | number | null, string | undefined][] = [
+        [label, undefined],
+        [plan, CURRENCY_FMT],
+        [actual, CURRENCY_FMT],
+        [diff, DELTA_FMT],
+        [plan !== 0 ? diff / plan : null, PERCENT_FMT],
+      ];
+      values.forEach(([value, fmt], c) => {
+        const cell = row.getCell(c + 1);
+        cell.value = value;
+        if (fmt) cell.numFmt = fmt;
+        const overspend = c >= 3 && diff > 0.005;
+        cell.font = { bold, size: 10, color: overspend ? { argb: 'FFB91C1C' } : undefined };
+        cell.alignment = { horizontal: c === 0 ? 'left' : 'right' };
+        cell.border = THIN_BORDER;
+      });
+    };
+
+    writeVarianceHeader(3, 'Service');
+    let rV = 4;
+    for (const row of variance.rows) {
+      writeVarianceRow(rV, row.serviceName, row.plan, row.actual);
+      rV++;
+    }
+    writeVarianceRow(rV, 'TOTAL', variance.plan, variance.actual, true);
+    rV += 2;
+
+    writeVarianceHeader(rV, 'Month');
+    rV++;
+    variance.actualByMonth.forEach((actual, m) => {
+      if (actual === null) return;
+      writeVarianceRow(rV, monthLabels[m], variance.planByMonth[m], actual);
+      rV++;
+    });
+
+    wsV.views = [{ state: 'frozen', xSplit: 1, ySplit: 3 }];
+  }
+
+  // ==============================
+  // Sheet: Allocations (only when the model has shared-cost rules)
+  // ==============================
+  if (hasAllocationRules(model.data)) {
+    const allocation = calculateAllocation(model.data);
+    const sumOf = (values: number[] = []) => values.reduce((a, v) => a + v, 0);
+    const wsA = workbook.addWorksheet('Allocations');
+    wsA.getColumn(1).width = 30;
+    for (let c = 2; c <= 5; c++) wsA.getColumn(c).width = 18;
+
+    wsA.mergeCells(1, 1, 1, 5);
+    const titleACell = wsA.getCell('A1');
+    titleACell.value = 'Direct vs Fully-Allocated Cost';
+    titleACell.font = { bold: true, size: 16, color: { argb: 'FF1E3A5F' } };
+
+    wsA.getCell('A2').value = `Plan totals in ${reportingCurrency}, with shared services allocated onto their receivers`;
+    wsA.getCell('A2').font = { size: 10, color: { argb: 'FF6B7280' } };
+
+    const writeHeader = (rowNum: number, labels: string[]) => {
+      const hdr = wsA.getRow(rowNum);
+      labels.forEach((label, i) => {
+        const cell = hdr.getCell(i + 1);
+        cell.value = label;
+        cell.font = WHITE_FONT;
+        cell.fill = NAVY_FILL;
+        cell.alignment = { horizontal: i === 0 ? 'left' : 'right', vertical: 'middle' };
+        cell.border = THIN_BORDER;
+      });
+      hdr.height = 28;
+    };
+    const writeAmount = (rowNum: number, col: number, value: number, bold = false) => {
+      const cell = wsA.getRow(rowNum).getCell(col);
+      cell.value = value;
+      cell.numFmt = CURRENCY_FMT;
+      cell.font = { bold, size: 10 };
+      cell.alignment = { horizontal: 'right' };
+      cell.border = THIN_BORDER;
+    };
+
+    writeHeader(3, ['Service', 'Direct', 'Allocated Out', 'Allocated In', 'Fully Allocated']);
+    let rA = 4;
+    for (const service of services) {
+      const row = wsA.getRow(rA);
+      row.getCell(1).value = allocation.cyclic.includes(service.id) ? `${service.name} (rules loop; not allocated)` : service.name;
+      row.getCell(1).font = { size: 10 };
+      row.getCell(1).border = THIN_BORDER;
+      writeAmount(rA, 2, sumOf(allocation.direct[service.id]));
+      writeAmount(rA, 3, -sumOf(allocation.flows.filter((f) => f.sourceId === service.id).map((f) => f.total)));
+      writeAmount(rA, 4, sumOf(allocation.flows.filter((f) => f.receiverId === service.id).map((f) => f.total)));
+      writeAmount(rA, 5, sumOf(allocation.allocated[service.id]), true);
+      rA++;
+    }
+    const totalRowA = wsA.getRow(rA);
+    totalRowA.getCell(1).value = 'TOTAL';
+    totalRowA.getCell(1).font = { bold: true, size: 10 };
+    totalRowA.getCell(1).border = THIN_BORDER;
+    writeAmount(rA, 2, grandTotal, true);
+    writeAmount(rA, 5, grandTotal, true);
+    rA += 2;
+
+    // Trace of every allocation, so each received amount can be followed back to its source
+    writeHeader(rA, ['From', 'To', 'Amount']);
+    rA++;
+    for (const flow of allocation.flows) {
+      const row = wsA.getRow(rA);
+      row.getCell(1).value = services.find((s) => s.id === flow.sourceId)?.name ?? '';
+      row.getCell(2).value = services.find((s) => s.id === flow.receiverId)?.name ?? '';
+      for (const c of [1, 2]) {
+        row.getCell(c).font = { size: 10 };
+        row.getCell(c).border = THIN_BORDER;
+      }
+      writeAmount(rA, 3, flow.total);
+      rA++;
+    }
+
+    wsA.views = [{ state: 'frozen', xSplit: 1, ySplit: 3 }];
+  }
+
+  // ==============================
+  // Sheet: Targets (only when the model has top-down targets)
+  // ==============================
+  const targetRecs = reconcileTargets(model.data);
+  if (targetRecs.length > 0) {
+    const wsT = workbook.addWorksheet('Targets');
+    const lastCol = horizon + 2;
+    wsT.getColumn(1).width = 30;
+    for (let c = 2; c <= lastCol; c++) wsT.getColumn(c).width = 14;
+
+    wsT.mergeCells(1, 1, 1, lastCol);
+    const titleTCell = wsT.getCell('A1');
+    titleTCell.value = 'Targets vs Estimate';
+    titleTCell.font = { bold: true, size: 16, color: { argb: 'FF1E3A5F' } };
+
+    wsT.getCell('A2').value = `Top-down targets against the bottom-up estimate, in ${reportingCurrency}. Gap = estimate − target.`;
+    wsT.getCell('A2').font = { size: 10, color: { argb: 'FF6B7280' } };
+
+    const hdrRowT = wsT.getRow(3);
+    hdrRowT.getCell(1).value = 'Target';
+    for (let m = 0; m < horizon; m++) {
+      hdrRowT.getCell(m + 2).value = monthLabels[m];
+    }
+    hdrRowT.getCell(lastCol).value = 'Total';
+    hdrRowT.height = 28;
+    for (let c = 1; c <= lastCol; c++) {
+      const cell = hdrRowT.getCell(c);
+      cell.font = WHITE_FONT;
+      cell.fill = NAVY_FILL;
+      cell.alignment = { horizontal: c === 1 ? 'left' : 'right', vertical: 'middle' };
+      cell.border = THIN_BORDER;
+    }
+
+    let rT = 4;
+    for (const rec of targetRecs) {
+      const scope = rec.target.serviceIds
+        ? rec.target.serviceIds.map((id) => services.find((s) => s.id === id)?.name ?? '?').join(', ')
+        : 'Whole model';
+      const rows: [string, number[], number, boolean][] = [
+        [`${rec.target.name} (${scope})`, rec.targetByMonth, rec.targetTotal, false],
+        ['  Estimate', rec.estimateByMonth, rec.estimateTotal, false],
+        ['  Gap', rec.gapByMonth, rec.gapTotal, true],
+      ];
+      for (const [label, values, total, isGap] of rows) {
+        const row = wsT.getRow(rT);
+        row.getCell(1).value = label;
+        row.getCell(1).font = label.startsWith('  ') ? { size: 10, color: { argb: 'FF6B7280' } } : { bold: true, size: 10 };
+        row.getCell(1).border = THIN_BORDER;
+        [...values, total].forEach((value, i) => {
+          const cell = row.getCell(i + 2);
+          cell.value = value;
+          cell.numFmt = isGap ? currencyDeltaFmt(reportingCurrency) : CURRENCY_FMT;
+          cell.alignment = { horizontal: 'right' };
+          cell.border = THIN_BORDER;
+          if (isGap && value > 0.005) {
+            cell.font = { size: 10, color: { argb: 'FFDC2626' } };
+            cell.fill = solidFill('FFFEE2E2');
+          }
+          if (i === values.length) cell.font = { ...cell.font, bold: true };
+        });
+        rT++;
+      }
+    }
+
+    wsT.views = [{ state: 'frozen', xSplit: 1, ySplit: 3 }];
+  }
+
+  // ==============================
+  // Sheet: Risk (only when a simulation ran over uncertainty ranges)
+  // ==============================
+  if (risk) {
+    const wsR = workbook.addWorksheet('Risk');
+    const riskHeaders = ['Service', 'Point Estimate', 'P10', 'P50', 'P90'];
+    wsR.getColumn(1).width = 30;
+    for (let c = 2; c <= riskHeaders.length; c++) wsR.getColumn(c).width = 18;
+
+    wsR.mergeCells('A1:E1');
+    const titleRCell = wsR.getCell('A1');
+    titleRCell.value = 'Cost Risk';
+    titleRCell.font = { bold: true, size: 16, color: { argb: 'FF1E3A5F' } };
+
+    wsR.getCell('A2').value = `Plan-period cost percentiles from ${risk.iterations.toLocaleString()} simulations, in ${reportingCurrency}`;
+    wsR.getCell('A2').font = { size: 10, color: { argb: 'FF6B7280' } };
+
+    const hdrRowR = wsR.getRow(3);
+    riskHeaders.forEach((label, i) => {
+      const cell = hdrRowR.getCell(i + 1);
+      cell.value = label;
+      cell.font = WHITE_FONT;
+      cell.fill = NAVY_FILL;
+      cell.alignment = { horizontal: i === 0 ? 'left' : 'right', vertical: 'middle' };
+      cell.border = THIN_BORDER;
+    });
+    hdrRowR.height = 28;
+
+    const riskRows: [string, number, { p10: number; p50: number; p90: number }][] = services
+      .filter((s) => risk.byService[s.id])
+      .map((s) => [s.name, costByService[s.id] ?? 0, risk.byService[s.id]]);
+    riskRows.push(['Total', grandTotal, risk.total]);
+
+    riskRows.forEach(([name, point, p], i) => {
+      const isTotal = i === riskRows.length - 1;
+      const row = wsR.getRow(4 + i);
+      [name, point, p.p10, p.p50, p.p90].forEach((value, c) => {
+        const cell = row.getCell(c + 1);
+        cell.value = value;
+        if (c > 0) cell.numFmt = CURRENCY_FMT;
+        cell.alignment = { horizontal: c === 0 ? 'left' : 'right' };
+        cell.border = THIN_BORDER;
+        if (c === 0 || isTotal) cell.font = { bold: true, size: 10 };
+        if (isTotal) cell.fill = solidFill('FFDBEAFE');
+      });
+    });
+
+    wsR.views = [{ state: 'frozen', ySplit: 3 }];
+  }
+
+  // ==============================
+  // Sheet: Sensitivity (when requested from the Sensitivity tab)
+  // ==============================
+  if (sensitivityPct !== undefined) {
+    const items = calculateSensitivity(model.data, sensitivityPct);
+    const wsS = workbook.addWorksheet('Sensitivity');
+    const sensHeaders = ['Rank', 'Service', 'Assumption', `-${sensitivityPct}%`, `+${sensitivityPct}%`, 'Swing'];
+    wsS.getColumn(1).width = 8;
+    wsS.getColumn(2).width = 30;
+    wsS.getColumn(3).width = 16;
+    for (let c = 4; c <= sensHeaders.length; c++) wsS.getColumn(c).width = 16;
+
+    wsS.mergeCells('A1:F1');
+    const titleSCell = wsS.getCell('A1');
+    titleSCell.value = 'Sensitivity Ranking';
+    titleSCell.font = { bold: true, size: 16, color: { argb: 'FF1E3A5F' } };
+
+    wsS.getCell('A2').value = `Change in the plan total (${formatCurrency(grandTotal, reportingCurrency)}) when one assumption moves by ±${sensitivityPct}%`;
+    wsS.getCell('A2').font = { size: 10, color: { argb: 'FF6B7280' } };
+
+    const hdrRowS = wsS.getRow(3);
+    sensHeaders.forEach((label, i) => {
+      const cell = hdrRowS.getCell(i + 1);
+      cell.value = label;
+      cell.font = WHITE_FONT;
+      cell.fill = NAVY_FILL;
+      cell.alignment = { horizontal: i < 3 ? 'left' : 'right', vertical: 'middle' };
+      cell.border = THIN_BORDER;
+    });
+    hdrRowS.height = 28;
+
+    items.forEach((it, i) => {
+      const row = wsS.getRow(4 + i);
+      const label = SENSITIVITY_FIELDS.find((f) => f.key === it.field)?.label ?? it.field;
+      [i + 1, it.serviceName, label, it.impactDown, it.impactUp, it.swing].forEach((value, c) => {
+        const cell = row.getCell(c + 1);
+        cell.value = value;
+        if (c >= 3) cell.numFmt = c === 5 ? CURRENCY_FMT : currencyDeltaFmt(reportingCurrency);
+        cell.alignment = { horizontal: c < 3 ? 'left' : 'right' };
+        cell.border = THIN_BORDER;
+        if (c === 1) cell.font = { bold: true, size: 10 };
+      });
+    });
+
+    wsS.views = [{ state: 'frozen', ySplit: 3 }];
+  }
+
   // --- Write and save ---
   const buffer = await workbook.xlsx.writeBuffer();
   const blob = new Blob([buffer], {
@@ -0,0 +1,226 @@
+import type { ModelData } from '../types';
+import { getActuals } from './actuals';
+import { getHorizonMonths } from './months';
+
+export type ForecastMethod = 'linear' | 'holt' | 'holtWinters' | 'movingAverage';
+
+export const FORECAST_METHODS: { value: ForecastMethod; label: string }[] = [
+  { value: 'linear', label: 'Linear regression' },
+  { value: 'holt', label: 'Holt trend smoothing' },
+  { value: 'holtWinters', label: 'Holt-Winters seasonal' },
+  { value: 'movingAverage', label: 'Moving average' },
+];
+
+export const MIN_HISTORY_MONTHS = 3;
+const SEASON_LENGTH = 12;
+// Two full years, so the seasonal term can be estimated
+export const SEASONAL_HISTORY_MONTHS = SEASON_LENGTH * 2;
+const MOVING_AVERAGE_WINDOW = 3;
+// Smoothing factors tried for Holt-Winters; the combination with the lowest in-sample error wins
+const SMOOTHING_GRID = [0.1, 0.3, 0.5, 0.7, 0.9];
+
+export interface ForecastResult {
+  method: ForecastMethod;
+  // Fit for each history month (one step ahead for the smoothing methods); null before there is enough to fit
+  fitted: (number | null)[];
+  forecast: number[];
+  // Fitted versus history: mean absolute percentage error and root mean squared error
+  mape: number | null;
+  rmse: number | null;
+}
+
+export interface UsageHistory {
+  // Plan month of the first history value; negative for usage recorded before the plan starts
+  startMonth: number;
+  values: number[];
+}
+
+// Recorded usage from the first to the last month with a figure, including the history months
+// before the plan; months missing in between are filled by straight-line interpolation so every
+// method sees an evenly spaced series
+export function getUsageHistory(data: ModelData, serviceId: string): UsageHistory | null {
+  const months = getActuals(data)[serviceId] ?? {};
+  const points = Object.entries(months)
+    .filter(([, entry]) => entry.usage !== undefined)
+    .map(([m, entry]) => [Number(m), entry.usage!] as const)
+    .sort((a, b) => a[0] - b[0]);
+  if (points.length === 0) return null;
+
+  const startMonth = points[0][0];
+  const values: number[] = [];
+  for (let i = 0; i < points.length; i++) {
+    const [month, usage] = points[i];
+    if (i > 0) {
+      const [prevMonth, prevUsage] = points[i - 1];
+      for (let m = prevMonth + 1; m < month; m++) {
+        values.push(prevUsage + ((usage - prevUsage) * (m - prevMonth)) / (month - prevMonth));
+      }
+    }
+    values.push(usage);
+  }
+  return { startMonth, values };
+}
+
+function fitErrors(history: number[], fitted: (number | null)[]): { mape: number | null; rmse: number | null } {
+  let absPct = 0;
+  let pctCount = 0;
+  let squared = 0;
+  let count = 0;
+  history.forEach((actual, t) => {
+    const fit = fitted[t];
+    if (fit === null || fit === undefined) return;
+    squared += (actual - fit) ** 2;
+    count++;
+    if (actual !== 0) {
+      absPct += Math.abs((actual - fit) / actual);
+      pctCount++;
+    }
+  });
+  return {
+    mape: pctCount > 0 ? (absPct / pctCount) * 100 : null,
+    rmse: count > 0 ? Math.sqrt(squared / count) : null,
+  };
+}
+
+function linearRegression(history: number[], steps: number): Omit<ForecastResult, 'method' | 'mape' | 'rmse'> {
+  const n = history.length;
+  const meanT = (n - 1) / 2;
+  const meanY = history.reduce((a, v) => a + v, 0) / n;
+  let num = 0;
+  let den = 0;
+  history.forEach((y, t) => {
+    num += (t - meanT) * (y - meanY);
+    den += (t - meanT) ** 2;
+  });
+  const slope = den > 0 ? num / den : 0;
+  const intercept = meanY - slope * meanT;
+  return {
+    fitted: history.map((_, t) => intercept + slope * t),
+    forecast: Array.from({ length: steps }, (_, i) => intercept + slope * (n + i)),
+  };
+}
+
+function movingAverage(history: number[], steps: number): Omit<ForecastResult, 'method' | 'mape' | 'rmse'> {
+  const window = Math.min(MOVING_AVERAGE_WINDOW, history.length);
+  const mean = (values: number[]) => values.reduce((a, v) => a + v, 0) / values.length;
+  return {
+    fitted: history.map((_, t) => (t >= window ? mean(history.slice(t - window, t)) : null)),
+    forecast: Array(steps).fill(mean(history.slice(-window))),
+  };
+}
+
+// Holt's trend smoothing, or additive Holt-Winters with a 12-month season when asked for and
+// there are two full years of history to estimate it from
+function holtWinters(history: number[], steps: number, withSeason: boolean): Omit<ForecastResult, 'method' | 'mape' | 'rmse'> {
+  const seasonal = withSeason && history.length >= SEASONAL_HISTORY_MONTHS;
+  const run = (alpha: number, beta: number, gamma: number) => {
+    const fitted: (number | null)[] = Array(history.length).fill(null);
+    let level: number;
+    let trend: number;
+    let season: number[] = [];
+    let start: number;
+    if (seasonal) {
+      const first = history.slice(0, SEASON_LENGTH);
+      const second = history.slice(SEASON_LENGTH, SEASON_LENGTH * 2);
+      const firstMean = first.reduce((a, v) => a + v, 0) / SEASON_LENGTH;
+      const secondMean = second.reduce((a, v) => a + v, 0) / SEASON_LENGTH;
+      level = firstMean;
+      trend = (secondMean - firstMean) / SEASON_LENGTH;
+      season = first.map((v) => v - firstMean);
+      start = SEASON_LENGTH;
+    } else {
+      level = history[1];
+      trend = history[1] - history[0];
+      start = 2;
+    }
+    for (let t = start; t < history.length; t++) {
+      const s = seasonal ? season[t % SEASON_LENGTH] : 0;
+      fitted[t] = level + trend + s;
+      const prevLevel = level;
+      level = alpha * (history[t] - s) + (1 - alpha) * (level + trend);
+      trend = beta * (level - prevLevel) + (1 - beta) * trend;
+      if (seasonal) season[t % SEASON_LENGTH] = gamma * (history[t] - level) + (1 - gamma) * s;
+    }
+    const forecast = Array.from({ length: steps }, (_, i) => {
+      const t = history.length + i;
+      return level + trend * (i + 1) + (seasonal ? season[t % SEASON_LENGTH] : 0);
+    });
+    return { fitted, forecast };
+  };
+
+  let best: { fitted: (number | null)[]; forecast: number[]; sse: number } | null = null;
+  for (const alpha of SMOOTHING_GRID) {
+    for (const beta of SMOOTHING_GRID) {
+      for (const gamma of seasonal ? SMOOTHING_GRID : [0]) {
+        const result = run(alpha, beta, gamma);
+        const sse = result.fitted.reduce<number>((sum, fit, t) => sum + (fit === null ? 0 : (history[t] - fit) ** 2), 0);
+        if (!best || sse < best.sse) best = { ...result, sse };
+      }
+    }
+  }
+  return { fitted: best!.fitted, forecast: best!.forecast };
+}
+
+// Methods that can run on a history of this length; the seasonal one needs two years
+export function getForecastMethods(historyMonths: number): ForecastMethod[] {
+  return FORECAST_METHODS
+    .map((m) => m.value)
+    .filter((m) => m !== 'holtWinters' || historyMonths >= SEASONAL_HISTORY_MONTHS);
+}
+
+// Project `steps` months past the end of the history. Usage cannot go below zero.
+export function forecastSeries(history: number[], method: ForecastMethod, steps: number): ForecastResult {
+  const model = method === 'linear'
+    ? linearRegression(history, steps)
+    : method === 'movingAverage'
+      ? movingAverage(history, steps)
+      : holtWinters(history, steps, method === 'holtWinters');
+  return {
+    method,
+    ...model,
+    forecast: model.forecast.map((v) => Math.max(v, 0)),
+    ...fitErrors(history, model.fitted),
+  };
+}
+
+export interface ServiceForecast {
+  history: UsageHistory;
+  // First plan month the forecast covers: the month after the last history month, or the first
+  // plan month when the history ends before the plan starts
+  startMonth: number;
+  results: ForecastResult[];
+}
+
+// Enough usage history for a forecast, and plan months left after it to forecast into. History
+// recorded before the plan leaves the whole horizon to forecast.
+export function canForecast(data: ModelData, serviceId: string): boolean {
+  const history = getUsageHistory(data, serviceId);
+  return !!history
+    && history.values.length >= MIN_HISTORY_MONTHS
+    && history.startMonth + history.values.length < getHorizonMonths(data.budgetConfig);
+}
+
+// Every method's forecast for the plan months after a service's usage history, or null when
+// there is too little history or no plan left to forecast. A gap between the end of the history
+// and the start of the plan is forecast too, so the trend carries across it, but left out.
+export function forecastService(data: ModelData, serviceId: string): ServiceForecast | null {
+  if (!canForecast(data, serviceId)) return null;
+  const history = getUsageHistory(data, serviceId)!;
+  const historyEnd = history.startMonth + history.values.length;
+  const gap = Math.max(-historyEnd, 0);
+  const steps = getHorizonMonths(data.budgetConfig) - historyEnd;
+  return {
+    history,
+    startMonth: historyEnd + gap,
+    results: getForecastMethods(history.values.length).map((method) => {
+      const result = forecastSeries(history.values, method, steps);
+      return { ...result, forecast: result.forecast.slice(gap) };
+    }),
+  };
+}
+
+// The method whose fit tracks the history most closely
+export function pickBestForecast(results: ForecastResult[]): ForecastResult | undefined {
+  const score = (r: ForecastResult) => r.mape ?? r.rmse ?? Infinity;
+  return [...results].sort((a, b) => score(a) - score(b))[0];
+}
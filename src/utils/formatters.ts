@@ -1,7 +1,7 @@
-export function formatCurrency(value: number): string {
+export function formatCurrency(value: number, currency = 'USD'): string {
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
-    currency: 'USD',
+    currency,
     minimumFractionDigits: 0,
     maximumFractionDigits: 0,
   }).format(value);
@@ -13,3 +13,7 @@ export function formatNumber(value: number, decimals = 2): string {
     maximumFractionDigits: decimals,
   }).format(value);
 }
+
+export function formatTierRange(from: number, to: number | null): string {
+  return to === null ? `${formatNumber(from, 0)}+` : `${formatNumber(from, 0)}–${formatNumber(to, 0)}`;
+}
@@ -0,0 +1,328 @@
+import type { BudgetData, ModelData, Service, ServiceBudget } from '../types';
+
+// Consumption formulas reference other services by name in square brackets, e.g.
+// `0.8 * [S3 GET requests]`. Only numbers, + - * /, parentheses, min() and max() are
+// understood; nothing is passed to eval, so a formula can never run arbitrary code.
+
+export type FormulaNode =
+  | { kind: 'number'; value: number }
+  | { kind: 'ref'; name: string }
+  | { kind: 'neg'; operand: FormulaNode }
+  | { kind: 'binary'; op: '+' | '-' | '*' | '/'; left: FormulaNode; right: FormulaNode }
+  | { kind: 'call'; fn: 'min' | 'max'; args: FormulaNode[] };
+
+export type ParseResult = { ok: true; node: FormulaNode } | { ok: false; error: string };
+
+export type EvaluateResult = { ok: true; value: number } | { ok: false; error: string };
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'ref'; name: string }
+  | { type: 'ident'; name: string }
+  | { type: 'op'; op: string };
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+function tokenize(expr: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < expr.length) {
+    const ch = expr[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (/[0-9.]/.test(ch)) {
+      const match = /^(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?/i.exec(expr.slice(i));
+      if (!match) throw new Error('Invalid number.');
+      tokens.push({ type: 'number', value: parseFloat(match[0]) });
+      i += match[0].length;
+    } else if (ch === '[') {
+      const end = expr.indexOf(']', i);
+      if (end === -1) throw new Error('Missing ] after service name.');
+      const name = expr.slice(i + 1, end).trim();
+      if (!name) throw new Error('Empty service reference [].');
+      tokens.push({ type: 'ref', name });
+      i = end + 1;
+    } else if (/[a-z]/i.test(ch)) {
+      const match = /^[a-z]+/i.exec(expr.slice(i))!;
+      tokens.push({ type: 'ident', name: match[0].toLowerCase() });
+      i += match[0].length;
+    } else if ('+-*/(),'.includes(ch)) {
+      tokens.push({ type: 'op', op: ch });
+      i++;
+    } else {
+      throw new Error(`Unexpected character "${ch}".`);
+    }
+  }
+  return tokens;
+}
+
+// Recursive descent: expr := term (+|- term)*, term := factor (*|/ factor)*
+function parseTokens(tokens: Token[]): FormulaNode {
+  let pos = 0;
+
+  function peekOp(): string | null {
+    const t = tokens[pos];
+    return t?.type === 'op' ? t.op : null;
+  }
+
+  function expectOp(op: string) {
+    if (peekOp() !== op) throw new Error(`Expected "${op}".`);
+    pos++;
+  }
+
+  function parseExpr(): FormulaNode {
+    let node = parseTerm();
+    while (peekOp() === '+' || peekOp() === '-') {
+      const op = peekOp() as '+' | '-';
+      pos++;
+      node = { kind: 'binary', op, left: node, right: parseTerm() };
+    }
+    return node;
+  }
+
+  function parseTerm(): FormulaNode {
+    let node = parseFactor();
+    while (peekOp() === '*' || peekOp() === '/') {
+      const op = peekOp() as '*' | '/';
+      pos++;
+      node = { kind: 'binary', op, left: node, right: parseFactor() };
+    }
+    return node;
+  }
+
+  function parseFactor(): FormulaNode {
+    const t = tokens[pos];
+    if (!t) throw new Error('Formula ends unexpectedly.');
+    pos++;
+    if (t.type === 'number') return { kind: 'number', value: t.value };
+    if (t.type === 'ref') return { kind: 'ref', name: t.name };
+    if (t.type === 'ident') {
+      if (t.name !== 'min' && t.name !== 'max') {
+        throw new Error(`Unknown function "${t.name}". Wrap service names in [brackets].`);
+      }
+      expectOp('(');
+      const args = [parseExpr()];
+      while (peekOp() === ',') {
+        pos++;
+        args.push(parseExpr());
+      }
+      expectOp(')');
+      return { kind: 'call', fn: t.name, args };
+    }
+    if (t.op === '-') return { kind: 'neg', operand: parseFactor() };
+    if (t.op === '+') return parseFactor();
+    if (t.op === '(') {
+      const node = parseExpr();
+      expectOp(')');
+      return node;
+    }
+    throw new Error(`Unexpected "${t.op}".`);
+  }
+
+  const node = parseExpr();
+  if (pos < tokens.length) throw new Error('Unexpected text after the end of the formula.');
+  return node;
+}
+
+export function parseFormula(expr: string): ParseResult {
+  try {
+    const tokens = tokenize(expr);
+    if (tokens.length === 0) return { ok: false, error: 'Formula is empty.' };
+    return { ok: true, node: parseTokens(tokens) };
+  } catch (e) {
+    return { ok: false, error: (e as Error).message };
+  }
+}
+
+export function getFormulaReferences(node: FormulaNode): string[] {
+  switch (node.kind) {
+    case 'number': return [];
+    case 'ref': return [node.name];
+    case 'neg': return getFormulaReferences(node.operand);
+    case 'binary': return [...getFormulaReferences(node.left), ...getFormulaReferences(node.right)];
+    case 'call': return node.args.flatMap(getFormulaReferences);
+  }
+}
+
+// Throws when a reference cannot be resolved or a divisor is zero
+export function evaluateFormula(node: FormulaNode, lookup: (name: string) => number | undefined): number {
+  switch (node.kind) {
+    case 'number': return node.value;
+    case 'ref': {
+      const value = lookup(node.name);
+      if (value === undefined) throw new Error(`No service named "${node.name}".`);
+      return value;
+    }
+    case 'neg': return -evaluateFormula(node.operand, lookup);
+    case 'binary': {
+      const left = evaluateFormula(node.left, lookup);
+      const right = evaluateFormula(node.right, lookup);
+      if (node.op === '+') return left + right;
+      if (node.op === '-') return left - right;
+      if (node.op === '*') return left * right;
+      if (right === 0) throw new Error('Division by zero.');
+      return left / right;
+    }
+    case 'call': {
+      const values = node.args.map((a) => evaluateFormula(a, lookup));
+      return node.fn === 'min' ? Math.min(...values) : Math.max(...values);
+    }
+  }
+}
+
+// Value of a formula for one month, reading the other services' consumption in `data`
+export function evaluateFormulaMonth(data: ModelData, node: FormulaNode, monthIndex: number): EvaluateResult {
+  try {
+    const value = evaluateFormula(node, (name) => {
+      const service = data.services.find((s) => normalizeName(s.name) === normalizeName(name));
+      return service ? data.budgetData[service.id]?.[monthIndex]?.consumption.value : undefined;
+    });
+    return isFinite(value) ? { ok: true, value } : { ok: false, error: 'The result is not a number.' };
+  } catch (e) {
+    return { ok: false, error: (e as Error).message };
+  }
+}
+
+export function budgetHasFormulas(serviceBudget: ServiceBudget): boolean {
+  return Object.values(serviceBudget).some((e) => e.consumption.formula);
+}
+
+// service id -> ids of the services its formulas read from
+function buildDependencies(data: ModelData, budgetData: BudgetData): Map<string, Set<string>> {
+  const idByName = new Map(data.services.map((s) => [normalizeName(s.name), s.id]));
+  const deps = new Map<string, Set<string>>();
+  for (const service of data.services) {
+    const refs = new Set<string>();
+    for (const entry of Object.values(budgetData[service.id] ?? {})) {
+      if (!entry.consumption.formula) continue;
+      const parsed = parseFormula(entry.consumption.formula);
+      if (!parsed.ok) continue;
+      for (const name of getFormulaReferences(parsed.node)) {
+        const id = idByName.get(normalizeName(name));
+        if (id) refs.add(id);
+      }
+    }
+    deps.set(service.id, refs);
+  }
+  return deps;
+}
+
+// Depth-first topological order. Services on a cycle are left out of the order and reported.
+function orderByDependencies(deps: Map<string, Set<string>>): { order: string[]; cyclic: Set<string> } {
+  const order: string[] = [];
+  const cyclic = new Set<string>();
+  const state = new Map<string, 'visiting' | 'done'>();
+
+  function visit(id: string, path: string[]): void {
+    if (state.get(id) === 'done') return;
+    if (state.get(id) === 'visiting') {
+      path.slice(path.indexOf(id)).forEach((c) => cyclic.add(c));
+      return;
+    }
+    state.set(id, 'visiting');
+    for (const dep of deps.get(id) ?? []) visit(dep, [...path, id]);
+    state.set(id, 'done');
+    order.push(id);
+  }
+
+  for (const id of deps.keys()) visit(id, []);
+  return { order: order.filter((id) => !cyclic.has(id)), cyclic };
+}
+
+// Recompute every formula-driven consumption value from the services it references.
+// Formulas on a cycle, or that fail to evaluate (a deleted service, a zero divisor), keep their
+// last value and are marked with the error until they evaluate again.
+export function resolveFormulas(data: ModelData): ModelData {
+  if (!Object.values(data.budgetData).some(budgetHasFormulas)) return data;
+
+  const budgetData = { ...data.budgetData };
+  const resolving = { ...data, budgetData };
+  const { order, cyclic } = orderByDependencies(buildDependencies(data, budgetData));
+
+  for (const serviceId of [...order, ...cyclic]) {
+    const serviceBudget = budgetData[serviceId];
+    if (!serviceBudget || !budgetHasFormulas(serviceBudget)) continue;
+    const resolved: ServiceBudget = { ...serviceBudget };
+    for (const [m, entry] of Object.entries(serviceBudget)) {
+      if (!entry.consumption.formula) continue;
+      const parsed = parseFormula(entry.consumption.formula);
+      const result: EvaluateResult = cyclic.has(serviceId)
+        ? { ok: false, error: 'Circular reference.' }
+        : parsed.ok ? evaluateFormulaMonth(resolving, parsed.node, Number(m)) : parsed;
+      const { formulaError: _, ...consumption } = entry.consumption;
+      void _;
+      resolved[Number(m)] = {
+        ...entry,
+        consumption: result.ok
+          ? { ...consumption, value: Math.max(result.value, 0) }
+          : { ...consumption, formulaError: result.error },
+      };
+    }
+    budgetData[serviceId] = resolved;
+  }
+  return { ...data, budgetData };
+}
+
+// Services with a formula that reads the given service
+export function findFormulaDependents(data: ModelData, serviceId: string): Service[] {
+  const deps = buildDependencies(data, data.budgetData);
+  return data.services.filter((s) => s.id !== serviceId && deps.get(s.id)?.has(serviceId));
+}
+
+// Checks a formula before it is saved on a service: syntax, known names and no cycles
+export function validateFormula(data: ModelData, serviceId: string, expr: string): ParseResult {
+  const parsed = parseFormula(expr);
+  if (!parsed.ok) return parsed;
+
+  const names = new Set(data.services.map((s) => normalizeName(s.name)));
+  const self = data.services.find((s) => s.id === serviceId);
+  for (const name of getFormulaReferences(parsed.node)) {
+    if (!names.has(normalizeName(name))) return { ok: false, error: `No service named "${name}".` };
+    if (self && normalizeName(name) === normalizeName(self.name)) {
+      return { ok: false, error: 'A formula cannot reference its own service.' };
+    }
+  }
+
+  // Test the graph as if the formula were already saved on month 1
+  const serviceBudget = data.budgetData[serviceId] ?? {};
+  const candidate: BudgetData = {
+    ...data.budgetData,
+    [serviceId]: {
+      ...serviceBudget,
+      0: { ...serviceBudget[0], consumption: { value: 0, isOverridden: false, formula: expr } },
+    },
+  };
+  const { cyclic } = orderByDependencies(buildDependencies(data, candidate));
+  if (cyclic.has(serviceId)) {
+    const loop = data.services.filter((s) => cyclic.has(s.id)).map((s) => s.name);
+    return { ok: false, error: `Circular reference between ${loop.join(', ')}.` };
+  }
+  return parsed;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Keep formulas pointing at a service after it is renamed
+export function renameFormulaReferences(budgetData: BudgetData, oldName: string, newName: string): BudgetData {
+  const pattern = new RegExp(`\\[\\s*${escapeRegExp(oldName.trim())}\\s*\\]`, 'gi');
+  const renamed: BudgetData = {};
+  for (const [serviceId, serviceBudget] of Object.entries(budgetData)) {
+    if (!budgetHasFormulas(serviceBudget)) {
+      renamed[serviceId] = serviceBudget;
+      continue;
+    }
+    const updated: ServiceBudget = {};
+    for (const [m, entry] of Object.entries(serviceBudget)) {
+      const formula = entry.consumption.formula;
+      updated[Number(m)] = formula
+        ? { ...entry, consumption: { ...entry.consumption, formula: formula.replace(pattern, `[${newName}]`) } }
+        : entry;
+    }
+    renamed[serviceId] = updated;
+  }
+  return renamed;
+}
@@ -0,0 +1,159 @@
+import type { BudgetData, BudgetFieldKey, ModelData, PropagatedField, ServiceBudget } from '../types';
+import { calculateReportingMonthCosts, getReportingCurrency } from './currency';
+import { formatCurrency } from './formatters';
+import { resolveFormulas } from './formula';
+
+export type GoalSeekLever = 'consumption' | 'efficiency' | 'discount';
+
+export const GOAL_SEEK_LEVERS: { value: GoalSeekLever; label: string }[] = [
+  { value: 'consumption', label: 'Reduce consumption uniformly' },
+  { value: 'efficiency', label: 'Improve efficiency' },
+  { value: 'discount', label: 'Negotiate a discount' },
+];
+
+export type GoalSeekResult =
+  | {
+      ok: true;
+      // Consumption: % reduction (negative when the target needs growth). Efficiency: % improvement.
+      // Discount: the flat discount % for every month.
+      leverValue: number;
+      total: number;
+      // Only the service budgets that change
+      budgets: BudgetData;
+    }
+  | { ok: false; error: string };
+
+const BUDGET_FIELDS: BudgetFieldKey[] = ['consumption', 'unitCost', 'efficiency', 'overhead', 'discount'];
+const MAX_ITERATIONS = 60;
+// Search bounds, in percent
+const MAX_EFFICIENCY_GAIN = 10000;
+const MAX_CONSUMPTION_GROWTH = 100000;
+
+// Rewrite a service budget with the lever set to `x`. Consumption and efficiency are scaled month
+// by month so the existing shape is kept; a discount replaces every month with one flat rate.
+function applyLever(serviceBudget: ServiceBudget, lever: GoalSeekLever, x: number): ServiceBudget {
+  const updated: ServiceBudget = {};
+  for (const [m, entry] of Object.entries(serviceBudget)) {
+    const monthIndex = Number(m);
+    if (lever === 'consumption') {
+      // Formula months follow the services they reference, so only plain values are scaled
+      updated[monthIndex] = entry.consumption.formula
+        ? entry
+        : { ...entry, consumption: { ...entry.consumption, value: entry.consumption.value * (1 - x / 100) } };
+    } else if (lever === 'efficiency') {
+      updated[monthIndex] = { ...entry, efficiency: { ...entry.efficiency, value: entry.efficiency.value * (1 + x / 100) } };
+    } else {
+      updated[monthIndex] = { ...entry, discount: { value: x, isOverridden: false } };
+    }
+  }
+  return updated;
+}
+
+function leverServiceIds(data: ModelData, lever: GoalSeekLever, serviceId: string | null): string[] {
+  return data.services
+    .filter((s) => data.budgetData[s.id] && (serviceId === null || s.id === serviceId))
+    .filter((s) => lever !== 'discount' || s.discountEligible)
+    .map((s) => s.id);
+}
+
+// Plan total for the model (serviceId null) or one service, in the reporting currency
+export function calculateScopeTotal(data: ModelData, serviceId: string | null): number {
+  return data.services
+    .filter((s) => serviceId === null || s.id === serviceId)
+    .reduce((sum, s) => sum + calculateReportingMonthCosts(data, s).reduce((a, c) => a + c, 0), 0);
+}
+
+function withLever(data: ModelData, ids: string[], lever: GoalSeekLever, x: number): ModelData {
+  const budgetData = { ...data.budgetData };
+  for (const id of ids) budgetData[id] = applyLever(data.budgetData[id], lever, x);
+  return resolveFormulas({ ...data, budgetData });
+}
+
+// Find the lever value that brings the plan total for the scope to `target` by bisection. Raising any
+// lever only ever lowers cost, so the search is well defined; commitments, allowances and tiers are
+// priced exactly as they are everywhere else.
+export function goalSeek(
+  data: ModelData,
+  serviceId: string | null,
+  lever: GoalSeekLever,
+  target: number
+): GoalSeekResult {
+  const ids = leverServiceIds(data, lever, serviceId);
+  if (ids.length === 0) {
+    const error = lever === 'discount' ? 'No discount-eligible services in scope.' : 'No budgeted services in scope.';
+    return { ok: false, error };
+  }
+  if (!(target >= 0)) return { ok: false, error: 'Enter a target of zero or more.' };
+
+  const evaluate = (x: number) => calculateScopeTotal(withLever(data, ids, lever, x), serviceId);
+
+  let lo = 0;
+  let hi = lever === 'efficiency' ? MAX_EFFICIENCY_GAIN : 100;
+  if (lever === 'consumption') {
+    // A target above the current total needs growth, i.e. a negative reduction
+    while (evaluate(lo) < target && lo > -MAX_CONSUMPTION_GROWTH) lo = lo * 2 - 100;
+  }
+
+  const maxCost = evaluate(lo);
+  const minCost = evaluate(hi);
+  const currency = getReportingCurrency(data.budgetConfig);
+  if (target < minCost - 0.005) {
+    return { ok: false, error: `This lever cannot bring the total below ${formatCurrency(minCost, currency)}.` };
+  }
+  if (target > maxCost + 0.005) {
+    return { ok: false, error: `This lever cannot raise the total above ${formatCurrency(maxCost, currency)}.` };
+  }
+
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const mid = (lo + hi) / 2;
+    if (evaluate(mid) > target) lo = mid;
+    else hi = mid;
+  }
+
+  const leverValue = (lo + hi) / 2;
+  const solved = withLever(data, ids, lever, leverValue);
+  const budgets: BudgetData = {};
+  for (const s of data.services) {
+    if (solved.budgetData[s.id] !== data.budgetData[s.id]) budgets[s.id] = solved.budgetData[s.id];
+  }
+  return { ok: true, leverValue, total: calculateScopeTotal(solved, serviceId), budgets };
+}
+
+// Apply a goal-seek result, keeping what it replaced so it can be undone
+export function applyGoalSeek(data: ModelData, budgets: BudgetData, summary: string): ModelData {
+  const previous: BudgetData = {};
+  for (const id of Object.keys(budgets)) previous[id] = data.budgetData[id];
+  return {
+    ...data,
+    budgetData: { ...data.budgetData, ...budgets },
+    goalSeekUndo: { summary, previous, applied: budgets },
+  };
+}
+
+const sameField = (a: PropagatedField, b: PropagatedField) =>
+  a.value === b.value && a.isOverridden === b.isOverridden && a.formula === b.formula;
+
+// Put back the values the last goal seek changed, field by field. A value edited since keeps the
+// edit, so undoing never discards later work; services deleted since are skipped.
+export function undoGoalSeek(data: ModelData): ModelData {
+  const undo = data.goalSeekUndo;
+  if (!undo) return data;
+  const budgetData = { ...data.budgetData };
+  for (const [id, applied] of Object.entries(undo.applied)) {
+    const current = data.budgetData[id];
+    const previous = undo.previous[id];
+    if (!current || !previous) continue;
+    const reverted: ServiceBudget = { ...current };
+    for (const [key, entry] of Object.entries(current)) {
+      const m = Number(key);
+      if (!previous[m] || !applied[m]) continue;
+      for (const field of BUDGET_FIELDS) {
+        if (sameField(entry[field], applied[m][field])) {
+          reverted[m] = { ...reverted[m], [field]: previous[m][field] };
+        }
+      }
+    }
+    budgetData[id] = reverted;
+  }
+  return { ...data, budgetData, goalSeekUndo: undefined };
+}
@@ -0,0 +1,22 @@
+// Cell backgrounds for the Summary heat maps
+
+// green (low) -> yellow (mid) -> red (high)
+export function heatColor(value: number, min: number, max: number): string | undefined {
+  const range = max - min;
+  if (range <= 0 || value <= 0) return undefined;
+  const t = (value - min) / range;
+  const r = t < 0.5 ? Math.round(220 + (240 - 220) * (t * 2)) : 245;
+  const g = t < 0.5 ? 240 : Math.round(240 - (240 - 220) * ((t - 0.5) * 2));
+  return `rgb(${r},${g},220)`;
+}
+
+// green (negative/good) -> neutral -> red (positive/bad) for deltas
+export function deltaColor(value: number, minD: number, maxD: number): string | undefined {
+  if (value === 0 && minD === 0 && maxD === 0) return undefined;
+  const range = maxD - minD;
+  if (range === 0) return undefined;
+  const t = (value - minD) / range;
+  const r = Math.round(220 + 25 * t);
+  const g = Math.round(240 - 20 * t);
+  return `rgb(${r},${g},220)`;
+}
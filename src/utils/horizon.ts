@@ -0,0 +1,20 @@
+import type { PropagatedField, ServiceBudget } from '../types';
+
+// Truncate or extend a budget to a new horizon. Added months repeat the last month,
+// keeping its override flags so a grown consumption carries forward flat.
+export function resizeServiceBudget(serviceBudget: ServiceBudget, horizonMonths: number): ServiceBudget {
+  const current = Object.keys(serviceBudget).length;
+  const resized: ServiceBudget = {};
+  for (let i = 0; i < horizonMonths; i++) {
+    resized[i] = i < current ? serviceBudget[i] : { ...serviceBudget[current - 1] };
+  }
+  return resized;
+}
+
+export function resizeRates(rates: number[], horizonMonths: number): number[] {
+  return Array.from({ length: horizonMonths }, (_, m) => rates[Math.min(m, rates.length - 1)] ?? 1);
+}
+
+export function resizePropagatedValues(values: PropagatedField[], horizonMonths: number): PropagatedField[] {
+  return Array.from({ length: horizonMonths }, (_, m) => ({ ...values[Math.min(m, values.length - 1)] }));
+}
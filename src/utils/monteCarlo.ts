@@ -0,0 +1,139 @@
+import type { ModelData, Service, ServiceBudget, UncertainFieldKey } from '../types';
+import { calculateServiceMonthCosts, getMonthUnitCost, getSpendCommitmentDiscount } from './calculations';
+import { calculateReportingMonthCosts, convertToReporting } from './currency';
+import { getHorizonMonths } from './months';
+
+export const DEFAULT_ITERATIONS = 2000;
+
+const UNCERTAIN_FIELDS: UncertainFieldKey[] = ['consumption', 'efficiency', 'unitCost'];
+
+export interface Percentiles {
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface SimulationResult {
+  iterations: number;
+  total: Percentiles;
+  byMonth: Percentiles[];
+  byService: Record<string, Percentiles>;
+}
+
+export function hasUncertainty(service: Service): boolean {
+  const u = service.uncertainty;
+  return !!u && UNCERTAIN_FIELDS.some((f) => (u[f]?.low ?? 0) > 0 || (u[f]?.high ?? 0) > 0);
+}
+
+export function modelHasUncertainty(data: ModelData): boolean {
+  return data.services.some((s) => hasUncertainty(s) && data.budgetData[s.id]);
+}
+
+// Small seeded PRNG so repeated runs over the same model give the same bands
+function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Triangular distribution over [low, high] peaking at the likely value
+function sampleTriangular(rand: () => number, low: number, likely: number, high: number): number {
+  if (high <= low) return likely;
+  const u = rand();
+  const split = (likely - low) / (high - low);
+  return u < split
+    ? low + Math.sqrt(u * (high - low) * (likely - low))
+    : high - Math.sqrt((1 - u) * (high - low) * (high - likely));
+}
+
+function percentiles(samples: number[]): Percentiles {
+  const sorted = [...samples].sort((a, b) => a - b);
+  const at = (p: number) => sorted[Math.min(Math.floor(p * sorted.length), sorted.length - 1)] ?? 0;
+  return { p10: at(0.1), p50: at(0.5), p90: at(0.9) };
+}
+
+// One multiplier per field per iteration: an estimate that is off tends to be off in every month
+function scaleBudget(
+  service: Service,
+  serviceBudget: ServiceBudget,
+  factors: Record<UncertainFieldKey, number>
+): ServiceBudget {
+  const scaled: ServiceBudget = {};
+  for (const [m, entry] of Object.entries(serviceBudget)) {
+    scaled[Number(m)] = {
+      ...entry,
+      consumption: { ...entry.consumption, value: entry.consumption.value * factors.consumption },
+      efficiency: { ...entry.efficiency, value: Math.max(entry.efficiency.value * factors.efficiency, 1) },
+      unitCost: { ...entry.unitCost, value: getMonthUnitCost(service, entry) * factors.unitCost },
+    };
+  }
+  return scaled;
+}
+
+// Sample the cost model `iterations` times, varying each service's uncertain fields, and
+// report percentiles in the reporting currency. Services without ranges contribute their point cost.
+export function runSimulation(data: ModelData, iterations = DEFAULT_ITERATIONS, seed = 1): SimulationResult {
+  const rand = mulberry32(seed);
+  const horizon = getHorizonMonths(data.budgetConfig);
+  const services = data.services.filter((s) => data.budgetData[s.id]);
+
+  const fixedByMonth: number[] = Array(horizon).fill(0);
+  const serviceSamples: Record<string, number[]> = {};
+  for (const service of services) {
+    if (hasUncertainty(service)) continue;
+    const costs = calculateReportingMonthCosts(data, service);
+    costs.forEach((c, m) => { fixedByMonth[m] += c; });
+    const total = costs.reduce((sum, c) => sum + c, 0);
+    serviceSamples[service.id] = [total];
+  }
+
+  const uncertain = services.filter(hasUncertainty);
+  const monthSamples: number[][] = Array.from({ length: horizon }, () => []);
+  const totalSamples: number[] = [];
+  for (const service of uncertain) serviceSamples[service.id] = [];
+
+  for (let i = 0; i < iterations; i++) {
+    const byMonth = [...fixedByMonth];
+    for (const service of uncertain) {
+      const factors = {} as Record<UncertainFieldKey, number>;
+      for (const field of UNCERTAIN_FIELDS) {
+        const range = service.uncertainty?.[field];
+        factors[field] = range
+          ? sampleTriangular(rand, 1 - range.low / 100, 1, 1 + range.high / 100)
+          : 1;
+      }
+      const costs = convertToReporting(
+        data,
+        service,
+        calculateServiceMonthCosts(
+          service,
+          scaleBudget(service, data.budgetData[service.id], factors),
+          getSpendCommitmentDiscount(data, service.id)
+        )
+      );
+      let serviceTotal = 0;
+      costs.forEach((c, m) => {
+        byMonth[m] += c;
+        serviceTotal += c;
+      });
+      serviceSamples[service.id].push(serviceTotal);
+    }
+    byMonth.forEach((c, m) => monthSamples[m].push(c));
+    totalSamples.push(byMonth.reduce((sum, c) => sum + c, 0));
+  }
+
+  const byService: Record<string, Percentiles> = {};
+  for (const [id, samples] of Object.entries(serviceSamples)) byService[id] = percentiles(samples);
+
+  return {
+    iterations,
+    total: percentiles(totalSamples),
+    byMonth: monthSamples.map(percentiles),
+    byService,
+  };
+}
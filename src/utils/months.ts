@@ -1,12 +1,81 @@
+import type { BudgetConfig } from '../types';
+
 const MONTH_NAMES = [
   'Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun',
   'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec',
 ];
 
-export function generateMonthLabels(startMonth: number, startYear: number): string[] {
-  return Array.from({ length: 12 }, (_, i) => {
+export const DEFAULT_HORIZON_MONTHS = 12;
+
+export const HORIZON_OPTIONS = [12, 24, 36];
+
+// Actuals can be recorded this far before the plan starts, as usage history to forecast from
+export const HISTORY_MONTHS = 36;
+
+export interface PlanYear {
+  index: number;
+  start: number;
+  end: number;
+}
+
+export function getHorizonMonths(config: BudgetConfig): number {
+  return config.horizonMonths && config.horizonMonths > 0 ? config.horizonMonths : DEFAULT_HORIZON_MONTHS;
+}
+
+export function generateMonthLabels(
+  startMonth: number,
+  startYear: number,
+  horizonMonths = DEFAULT_HORIZON_MONTHS
+): string[] {
+  return Array.from({ length: horizonMonths }, (_, i) => {
     const monthIndex = (startMonth + i) % 12;
     const year = startYear + Math.floor((startMonth + i) / 12);
     return `${MONTH_NAMES[monthIndex]} ${year}`;
   });
 }
+
+// Label for any plan month, including the history months before the plan starts
+export function getPlanMonthLabel(config: BudgetConfig, monthIndex: number): string {
+  const absolute = config.startYear * 12 + config.startMonth + monthIndex;
+  return `${MONTH_NAMES[absolute % 12]} ${Math.floor(absolute / 12)}`;
+}
+
+// Consecutive 12-month slices of the horizon (end is exclusive); the last may be partial
+export function getPlanYears(horizonMonths: number): PlanYear[] {
+  return Array.from({ length: Math.ceil(horizonMonths / 12) }, (_, index) => ({
+    index,
+    start: index * 12,
+    end: Math.min((index + 1) * 12, horizonMonths),
+  }));
+}
+
+export function sumPlanYears(values: number[]): number[] {
+  return getPlanYears(values.length).map((y) =>
+    values.slice(y.start, y.end).reduce((sum, v) => sum + v, 0)
+  );
+}
+
+// Plan month index for a calendar month written as "2025-03", "2025-03-31", "03/2025" or "Mar 2025".
+// Returns null when the text is not a month or falls outside the horizon, or before the
+// `historyMonths` months leading up to it, which come back as negative indices.
+export function parsePlanMonth(text: string, config: BudgetConfig, historyMonths = 0): number | null {
+  const value = text.trim();
+  let year: number;
+  let month: number;
+  let match: RegExpMatchArray | null;
+  if ((match = value.match(/^(\d{4})-(\d{1,2})(?:-\d{1,2})?(?:[T ].*)?$/))) {
+    year = Number(match[1]);
+    month = Number(match[2]) - 1;
+  } else if ((match = value.match(/^(\d{1,2})\/(\d{4})$/))) {
+    year = Number(match[2]);
+    month = Number(match[1]) - 1;
+  } else if ((match = value.match(/^([A-Za-z]{3})[A-Za-z]*\.?\s+(\d{4})$/))) {
+    year = Number(match[2]);
+    month = MONTH_NAMES.findIndex((name) => name.toLowerCase() === match![1].toLowerCase());
+  } else {
+    return null;
+  }
+  if (month < 0 || month > 11) return null;
+  const index = (year - config.startYear) * 12 + month - config.startMonth;
+  return index >= -historyMonths && index < getHorizonMonths(config) ? index : null;
+}
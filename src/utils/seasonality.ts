@@ -0,0 +1,50 @@
+import type { AppState, SeasonalityProfile, ServiceBudget } from '../types';
+
+export function getSeasonalityProfiles(state: AppState): SeasonalityProfile[] {
+  return state.seasonalityProfiles ?? [];
+}
+
+export function createFlatWeights(): number[] {
+  return Array(12).fill(1);
+}
+
+// Scale weights so they average 1, keeping the yearly total of a seasonalised series unchanged
+export function normalizeWeights(weights: number[]): number[] {
+  const avg = weights.reduce((sum, w) => sum + Math.max(w, 0), 0) / 12;
+  if (avg <= 0) return createFlatWeights();
+  return weights.map((w) => Math.max(w, 0) / avg);
+}
+
+function calendarMonth(startMonth: number, monthIndex: number): number {
+  return (startMonth + monthIndex) % 12;
+}
+
+// Average consumption per calendar month across the horizon, as a normalised shape
+export function deriveWeights(serviceBudget: ServiceBudget, startMonth: number): number[] {
+  const totals = Array(12).fill(0);
+  const counts = Array(12).fill(0);
+  for (const [m, entry] of Object.entries(serviceBudget)) {
+    const cal = calendarMonth(startMonth, Number(m));
+    totals[cal] += entry.consumption.value;
+    counts[cal]++;
+  }
+  return normalizeWeights(totals.map((t, i) => (counts[i] > 0 ? t / counts[i] : 0)));
+}
+
+// Reshape consumption by a profile. The shape of any previously applied profile is divided out
+// first, so switching profiles does not stack one seasonality on top of another. Results keep six
+// significant digits, so fractional and small volumes keep their shape without float noise.
+export function applySeasonality(
+  values: number[],
+  startMonth: number,
+  weights: number[],
+  previousWeights?: number[]
+): number[] {
+  const shape = normalizeWeights(weights);
+  const previousShape = previousWeights && normalizeWeights(previousWeights);
+  return values.map((value, m) => {
+    const cal = calendarMonth(startMonth, m);
+    const base = previousShape && previousShape[cal] > 0 ? value / previousShape[cal] : value;
+    return Number((base * shape[cal]).toPrecision(6));
+  });
+}
@@ -0,0 +1,56 @@
+import type { BudgetFieldKey, ModelData, Service, ServiceBudget } from '../types';
+import { calculateServiceMonthCosts, getMonthUnitCost, getSpendCommitmentDiscount } from './calculations';
+import { convertToReporting } from './currency';
+
+export const SENSITIVITY_FIELDS: { key: BudgetFieldKey; label: string }[] = [
+  { key: 'consumption', label: 'Consumption' },
+  { key: 'unitCost', label: 'Unit Cost' },
+  { key: 'efficiency', label: 'Efficiency %' },
+  { key: 'overhead', label: 'Overhead %' },
+  { key: 'discount', label: 'Discount %' },
+];
+
+export interface SensitivityItem {
+  serviceId: string;
+  serviceName: string;
+  field: BudgetFieldKey;
+  // Change in the plan total when the field is lowered / raised by pct, in the reporting currency
+  impactDown: number;
+  impactUp: number;
+  swing: number;
+}
+
+// Scale one field by `factor` in every month. Discounts stay within 0–100%.
+function scaleField(service: Service, serviceBudget: ServiceBudget, field: BudgetFieldKey, factor: number): ServiceBudget {
+  const scaled: ServiceBudget = {};
+  for (const [m, entry] of Object.entries(serviceBudget)) {
+    const current = field === 'unitCost' ? getMonthUnitCost(service, entry) : entry[field].value;
+    const value = field === 'discount' ? Math.min(current * factor, 100) : current * factor;
+    scaled[Number(m)] = { ...entry, [field]: { ...entry[field], value } };
+  }
+  return scaled;
+}
+
+function planTotal(data: ModelData, service: Service, serviceBudget: ServiceBudget): number {
+  const costs = calculateServiceMonthCosts(service, serviceBudget, getSpendCommitmentDiscount(data, service.id));
+  return convertToReporting(data, service, costs).reduce((s, c) => s + c, 0);
+}
+
+// Move each service's fields one at a time by ±pct and rank them by how far the plan total swings.
+// Everything else is held at its budgeted value, so the swings show one assumption in isolation.
+export function calculateSensitivity(data: ModelData, pct: number): SensitivityItem[] {
+  const items: SensitivityItem[] = [];
+  for (const service of data.services) {
+    const serviceBudget = data.budgetData[service.id];
+    if (!serviceBudget) continue;
+    const base = planTotal(data, service, serviceBudget);
+    for (const { key } of SENSITIVITY_FIELDS) {
+      const impactDown = planTotal(data, service, scaleField(service, serviceBudget, key, 1 - pct / 100)) - base;
+      const impactUp = planTotal(data, service, scaleField(service, serviceBudget, key, 1 + pct / 100)) - base;
+      const swing = Math.abs(impactUp - impactDown);
+      if (swing < 0.005) continue;
+      items.push({ serviceId: service.id, serviceName: service.name, field: key, impactDown, impactUp, swing });
+    }
+  }
+  return items.sort((a, b) => b.swing - a.swing);
+}
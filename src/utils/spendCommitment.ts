@@ -0,0 +1,55 @@
+import type { ModelData } from '../types';
+import { calculateReportingMonthCosts } from './currency';
+import { getHorizonMonths, getPlanYears } from './months';
+
+export interface SpendCommitmentProgress {
+  committed: number;
+  discountPct: number;
+  eligibleByMonth: number[];
+  cumulativeByMonth: number[];
+  eligibleTotal: number;
+  eligibleByYear: number[];
+  shortfallByYear: number[];
+  shortfall: number;
+  serviceCount: number;
+}
+
+// Eligible spend is measured after the blanket discount, in the reporting currency.
+// The commitment applies per plan year (pro-rated for a partial final year); any amount
+// left below it at year end is billed as a shortfall charge.
+export function calculateSpendCommitmentProgress(data: ModelData): SpendCommitmentProgress | null {
+  const commitment = data.spendCommitment;
+  if (!commitment) return null;
+
+  const eligibleServices = data.services.filter((s) => commitment.serviceIds.includes(s.id));
+  const eligibleByMonth: number[] = Array(getHorizonMonths(data.budgetConfig)).fill(0);
+  for (const service of eligibleServices) {
+    calculateReportingMonthCosts(data, service).forEach((cost, m) => {
+      eligibleByMonth[m] += cost;
+    });
+  }
+
+  let running = 0;
+  const cumulativeByMonth = eligibleByMonth.map((cost, m) => {
+    if (m % 12 === 0) running = 0;
+    return (running += cost);
+  });
+
+  const years = getPlanYears(eligibleByMonth.length);
+  const eligibleByYear = years.map((y) => cumulativeByMonth[y.end - 1] ?? 0);
+  const shortfallByYear = years.map((y, i) =>
+    Math.max(commitment.annualAmount * (y.end - y.start) / 12 - eligibleByYear[i], 0)
+  );
+
+  return {
+    committed: commitment.annualAmount,
+    discountPct: commitment.discountPct,
+    eligibleByMonth,
+    cumulativeByMonth,
+    eligibleTotal: eligibleByYear.reduce((sum, v) => sum + v, 0),
+    eligibleByYear,
+    shortfallByYear,
+    shortfall: shortfallByYear.reduce((sum, v) => sum + v, 0),
+    serviceCount: eligibleServices.length,
+  };
+}
@@ -0,0 +1,54 @@
+import type { BudgetTarget, ModelData, PropagatedField } from '../types';
+import { calculateReportingMonthCosts } from './currency';
+import { getHorizonMonths } from './months';
+
+export interface TargetReconciliation {
+  target: BudgetTarget;
+  targetByMonth: number[];
+  estimateByMonth: number[];
+  // Estimate minus target: positive months are over target
+  gapByMonth: number[];
+  targetTotal: number;
+  estimateTotal: number;
+  gapTotal: number;
+}
+
+export function getTargets(data: ModelData): BudgetTarget[] {
+  return data.targets ?? [];
+}
+
+export function createTargetValues(horizonMonths: number, value = 0): PropagatedField[] {
+  return Array.from({ length: horizonMonths }, () => ({ value, isOverridden: false }));
+}
+
+export function isModelTarget(target: BudgetTarget): boolean {
+  return !target.serviceIds;
+}
+
+// Compare each target with the bottom-up estimate of the services it covers, in the reporting currency
+export function reconcileTargets(data: ModelData): TargetReconciliation[] {
+  const targets = getTargets(data);
+  if (targets.length === 0) return [];
+  const horizon = getHorizonMonths(data.budgetConfig);
+  const costs = new Map(data.services.map((s) => [s.id, calculateReportingMonthCosts(data, s)]));
+
+  return targets.map((target) => {
+    const covered = target.serviceIds ?? data.services.map((s) => s.id);
+    const estimateByMonth = Array.from({ length: horizon }, (_, m) =>
+      covered.reduce((sum, id) => sum + (costs.get(id)?.[m] ?? 0), 0)
+    );
+    const targetByMonth = Array.from({ length: horizon }, (_, m) => target.values[m]?.value ?? 0);
+    const gapByMonth = estimateByMonth.map((e, m) => e - targetByMonth[m]);
+    const targetTotal = targetByMonth.reduce((s, v) => s + v, 0);
+    const estimateTotal = estimateByMonth.reduce((s, v) => s + v, 0);
+    return {
+      target,
+      targetByMonth,
+      estimateByMonth,
+      gapByMonth,
+      targetTotal,
+      estimateTotal,
+      gapTotal: estimateTotal - targetTotal,
+    };
+  });
+}
@@ -0,0 +1,197 @@
+import { saveAs } from 'file-saver';
+import type { AppState, Commitment, Service, ServiceBudget, ServiceTemplate } from '../types';
+import { CURRENCIES } from './currency';
+
+const LIBRARY_FORMAT = 'cloud-budgetter-templates';
+const LIBRARY_VERSION = 1;
+// A year of consumption is kept, so templates carry their seasonal shape
+const PROFILE_MONTHS = 12;
+
+export interface TemplateImportResult {
+  templates: ServiceTemplate[];
+  errors: string[];
+}
+
+export function getServiceTemplates(state: AppState): ServiceTemplate[] {
+  return state.serviceTemplates ?? [];
+}
+
+// The profile is stored by calendar month, January first, so it lines up with the seasons in a
+// model that starts in another month. A plan shorter than a year holds its last month.
+export function createServiceTemplate(
+  service: Service,
+  serviceBudget: ServiceBudget | undefined,
+  name: string,
+  startMonth: number
+): ServiceTemplate {
+  const {
+    id: _id, createdAt: _createdAt, driver: _driver, costCenterSplit: _split, allocationRule: _rule, ...definition
+  } = service;
+  void [_id, _createdAt, _driver, _split, _rule];
+  const months = serviceBudget ? Math.min(Object.keys(serviceBudget).length, PROFILE_MONTHS) : 0;
+  return {
+    id: crypto.randomUUID(),
+    name: name.trim() || service.name,
+    service: { ...definition, commitment: rebaseCommitment(definition.commitment) },
+    consumption: months === 0 ? [] : Array.from({ length: PROFILE_MONTHS }, (_, cal) => {
+      const m = (cal - startMonth + PROFILE_MONTHS) % PROFILE_MONTHS;
+      return serviceBudget![Math.min(m, months - 1)].consumption.value;
+    }),
+    createdAt: Date.now(),
+  };
+}
+
+// A commitment's start is a plan month of the model it came from, so templates start it with the service
+function rebaseCommitment(commitment: Commitment | undefined): Commitment | undefined {
+  return commitment && { ...commitment, startMonth: 0 };
+}
+
+// Consumption for every month of a horizon starting in `startMonth`: a calendar-year profile
+// repeats year after year, a shorter one holds its last month
+export function expandTemplateConsumption(template: ServiceTemplate, horizonMonths: number, startMonth: number): number[] {
+  const profile = template.consumption;
+  if (profile.length === 0) return Array(horizonMonths).fill(0);
+  return Array.from({ length: horizonMonths }, (_, m) => (
+    profile.length >= PROFILE_MONTHS
+      ? profile[(startMonth + m) % PROFILE_MONTHS]
+      : profile[Math.min(m, profile.length - 1)]
+  ));
+}
+
+export function exportServiceTemplates(templates: ServiceTemplate[]): void {
+  const json = JSON.stringify({ format: LIBRARY_FORMAT, version: LIBRARY_VERSION, templates }, null, 2);
+  const timestamp = new Date().toISOString().slice(0, 10);
+  saveAs(new Blob([json], { type: 'application/json' }), `service-templates-${timestamp}.json`);
+}
+
+const isOptional = (value: unknown, valid: (v: unknown) => boolean) => value === undefined || valid(value);
+const isNumberIn = (min: number, max: number) => (v: unknown) => typeof v === 'number' && v >= min && v <= max;
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v);
+const isOptionalString = (v: unknown) => v === undefined || typeof v === 'string';
+
+// Bounds rise from tier to tier; the last tier is open-ended whatever bound it carries, as in the form
+function isTierList(value: unknown): boolean {
+  if (!Array.isArray(value)) return false;
+  let previousBound = 0;
+  return value.every((tier, i) => {
+    if (!isObject(tier) || !isNumberIn(0, Infinity)(tier.unitCost)) return false;
+    if (i === value.length - 1) return tier.upTo === null || typeof tier.upTo === 'number';
+    if (typeof tier.upTo !== 'number' || tier.upTo <= previousBound) return false;
+    previousBound = tier.upTo;
+    return true;
+  });
+}
+
+function isAllowance(value: unknown): boolean {
+  return isObject(value) && isNumberIn(0, Infinity)(value.units) && (value.period === 'month' || value.period === 'year');
+}
+
+function isCommitment(value: unknown): boolean {
+  return isObject(value)
+    && isNumberIn(1, Infinity)(value.termMonths)
+    && isOptional(value.startMonth, isNumberIn(0, Infinity))
+    && isNumberIn(0, Infinity)(value.upfrontFee)
+    && isNumberIn(0, Infinity)(value.hourlyCommit)
+    && isNumberIn(0, Infinity)(value.coveredUnits);
+}
+
+function isUncertainty(value: unknown): boolean {
+  return isObject(value) && Object.entries(value).every(([key, range]) => (
+    (key === 'consumption' || key === 'efficiency' || key === 'unitCost')
+    && isObject(range)
+    && typeof range.low === 'number' && range.low >= 0 && range.low < 100
+    && isNumberIn(0, Infinity)(range.high)
+  ));
+}
+
+function isCatalogRef(value: unknown): boolean {
+  return isObject(value)
+    && typeof value.provider === 'string'
+    && typeof value.sku === 'string'
+    && isOptionalString(value.region)
+    && typeof value.price === 'number';
+}
+
+function isBillingRuleList(value: unknown): boolean {
+  return Array.isArray(value) && value.every((rule) => (
+    isObject(rule)
+    && ['provider', 'product', 'sku', 'tagKey', 'tagValue'].every((key) => isOptionalString(rule[key]))
+  ));
+}
+
+// Settings the form needs may be left out and are defaulted, but not set to something it rejects
+function isTemplate(value: unknown): value is ServiceTemplate {
+  const t = value as ServiceTemplate | null;
+  return !!t
+    && typeof t === 'object'
+    && typeof t.name === 'string'
+    && !!t.service
+    && typeof t.service.name === 'string'
+    && typeof t.service.unitType === 'string'
+    && typeof t.service.unitCost === 'number'
+    && isOptional(t.service.defaultEfficiency, isNumberIn(1, 100))
+    && isOptional(t.service.defaultOverhead, isNumberIn(0, Infinity))
+    && isOptional(t.service.discountEligible, (v) => typeof v === 'boolean')
+    && Array.isArray(t.consumption)
+    && t.consumption.every((v) => typeof v === 'number');
+}
+
+// Why a template's optional settings would break the service form, or null when they are usable
+function findTemplateProblem(service: ServiceTemplate['service']): string | null {
+  if (!isOptional(service.category, (v) => Array.isArray(v) && v.every((c) => typeof c === 'string'))) {
+    return 'its category is not a list of names';
+  }
+  if (!isOptional(service.currency, (v) => typeof v === 'string' && CURRENCIES.includes(v))) {
+    return `${String(service.currency)} is not a supported currency`;
+  }
+  if (!isOptional(service.tiers, isTierList)) return 'its price tiers are invalid or out of order';
+  if (!isOptional(service.allowance, isAllowance)) return 'its free allowance is invalid';
+  if (!isOptional(service.commitment, isCommitment)) return 'its commitment is invalid';
+  if (!isOptional(service.uncertainty, isUncertainty)) return 'its uncertainty ranges are invalid';
+  if (!isOptional(service.billingRules, isBillingRuleList)) return 'its billing rules are invalid';
+  if (!isOptional(service.catalogRef, isCatalogRef)) return 'its catalog link is invalid';
+  if (!isOptionalString(service.seasonalityProfileId)) return 'its seasonality profile is invalid';
+  return null;
+}
+
+// Read a library written by exportServiceTemplates. Templates without an ID get one, so they
+// are added rather than matched against the library.
+export function parseServiceTemplates(json: string): TemplateImportResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return { templates: [], errors: ['The file is not valid JSON.'] };
+  }
+  const root = parsed as { format?: unknown; templates?: unknown } | null;
+  if (!root || root.format !== LIBRARY_FORMAT || !Array.isArray(root.templates)) {
+    return { templates: [], errors: ['This is not a service template library.'] };
+  }
+
+  const templates: ServiceTemplate[] = [];
+  const errors: string[] = [];
+  root.templates.forEach((t, i) => {
+    if (!isTemplate(t)) {
+      errors.push(`Template ${i + 1} is incomplete or invalid and was skipped.`);
+      return;
+    }
+    const problem = findTemplateProblem(t.service);
+    if (problem) {
+      errors.push(`Template ${i + 1} (${t.name}) was skipped: ${problem}.`);
+      return;
+    }
+    templates.push({
+      ...t,
+      service: {
+        ...t.service,
+        discountEligible: t.service.discountEligible ?? false,
+        defaultEfficiency: t.service.defaultEfficiency ?? 100,
+        defaultOverhead: t.service.defaultOverhead ?? 0,
+        commitment: rebaseCommitment(t.service.commitment),
+      },
+      id: typeof t.id === 'string' && t.id ? t.id : crypto.randomUUID(),
+      createdAt: typeof t.createdAt === 'number' ? t.createdAt : Date.now(),
+    });
+  });
+  return { templates, errors };
+}
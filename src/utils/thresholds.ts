@@ -0,0 +1,82 @@
+import type { BudgetThreshold, ModelData } from '../types';
+import { calculateReportingMonthCosts } from './currency';
+import { generateMonthLabels, getHorizonMonths, getPlanYears, sumPlanYears } from './months';
+
+export interface ThresholdBreach {
+  thresholdId: string;
+  serviceId?: string;
+  scopeName: string;
+  period: BudgetThreshold['period'];
+  // Plan month for monthly caps, plan year for yearly caps
+  periodIndex: number;
+  periodLabel: string;
+  // Yearly caps are pro-rated for a partial final plan year
+  cap: number;
+  projected: number;
+  excess: number;
+}
+
+export function getThresholds(data: ModelData): BudgetThreshold[] {
+  return data.thresholds ?? [];
+}
+
+// Stable identity for a breach, so two projections can be compared
+export function breachKey(breach: ThresholdBreach): string {
+  return `${breach.thresholdId}:${breach.period}:${breach.periodIndex}`;
+}
+
+// Every month or plan year where projected spend exceeds a threshold, in the reporting currency.
+// A yearly cap covers a partial final year pro rata, as the spend commitment does.
+export function findBreaches(data: ModelData): ThresholdBreach[] {
+  const thresholds = getThresholds(data);
+  if (thresholds.length === 0) return [];
+
+  const horizon = getHorizonMonths(data.budgetConfig);
+  const monthLabels = generateMonthLabels(data.budgetConfig.startMonth, data.budgetConfig.startYear, horizon);
+  const costs = new Map(data.services.map((s) => [s.id, calculateReportingMonthCosts(data, s)]));
+  const modelCosts = Array.from({ length: horizon }, (_, m) =>
+    data.services.reduce((sum, s) => sum + (costs.get(s.id)?.[m] ?? 0), 0)
+  );
+  const yearMonths = getPlanYears(horizon).map((y) => y.end - y.start);
+
+  const breaches: ThresholdBreach[] = [];
+  for (const threshold of thresholds) {
+    const service = threshold.serviceId ? data.services.find((s) => s.id === threshold.serviceId) : undefined;
+    if (threshold.serviceId && !service) continue;
+    const monthly = service ? costs.get(service.id) ?? [] : modelCosts;
+    const projected = threshold.period === 'month' ? monthly : sumPlanYears(monthly);
+    projected.forEach((value, i) => {
+      const cap = threshold.period === 'month' ? threshold.amount : threshold.amount * yearMonths[i] / 12;
+      if (value <= cap + 0.005) return;
+      breaches.push({
+        thresholdId: threshold.id,
+        serviceId: service?.id,
+        scopeName: service?.name ?? 'Whole model',
+        period: threshold.period,
+        periodIndex: i,
+        periodLabel: threshold.period === 'month'
+          ? monthLabels[i]
+          : `Year ${i + 1}${yearMonths[i] < 12 ? ` (${yearMonths[i]} months)` : ''}`,
+        cap,
+        projected: value,
+        excess: value - cap,
+      });
+    });
+  }
+  // Chronological, with a yearly breach placed at the first month of its year
+  const startMonth = (b: ThresholdBreach) => (b.period === 'month' ? b.periodIndex : b.periodIndex * 12);
+  return breaches.sort((a, b) => startMonth(a) - startMonth(b));
+}
+
+// Breaches present in `newer` but not `older`, and the reverse
+export function diffBreaches(
+  older: ThresholdBreach[],
+  newer: ThresholdBreach[]
+): { introduced: ThresholdBreach[]; resolved: ThresholdBreach[] } {
+  const oldKeys = new Set(older.map(breachKey));
+  const newKeys = new Set(newer.map(breachKey));
+  return {
+    introduced: newer.filter((b) => !oldKeys.has(breachKey(b))),
+    resolved: older.filter((b) => !newKeys.has(breachKey(b))),
+  };
+}
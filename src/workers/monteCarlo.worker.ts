@@ -0,0 +1,20 @@
+import { runSimulation } from '../utils/monteCarlo';
+import type { SimulationResult } from '../utils/monteCarlo';
+import type { ModelData } from '../types';
+
+export interface SimulationRequest {
+  id: number;
+  data: ModelData;
+  iterations: number;
+}
+
+export interface SimulationResponse {
+  id: number;
+  result: SimulationResult;
+}
+
+self.onmessage = (e: MessageEvent<SimulationRequest>) => {
+  const { id, data, iterations } = e.data;
+  const response: SimulationResponse = { id, result: runSimulation(data, iterations) };
+  self.postMessage(response);
+};